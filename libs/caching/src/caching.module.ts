@@ -9,6 +9,8 @@
  * - Redis 作为缓存后端
  * - DDD 充血模型设计
  * - 完整的装饰器支持
+ * - 可选的进程内 L1 缓存（pub/sub 跨实例失效）
+ * - 可选的租户缓存配额（按租户类型限制用量）
  *
  * ## 使用方式
  *
@@ -22,6 +24,7 @@
  *       },
  *       ttl: 3600,
  *       keyPrefix: 'hl8:cache:',
+ *       localCache: { enabled: true, maxEntries: 1000, ttl: 60 },
  *     }),
  *   ],
  * })
@@ -35,7 +38,15 @@ import { DynamicModule, Global, Module } from "@nestjs/common";
 import { CacheSerializationException } from "./exceptions/cache-serialization.exception.js";
 import { CacheInterceptor } from "./interceptors/cache.interceptor.js";
 import { CacheMetricsService } from "./monitoring/cache-metrics.service.js";
+import {
+  CACHE_QUOTA_OPTIONS,
+  CacheQuotaService,
+} from "./services/cache-quota.service.js";
 import { CACHE_OPTIONS, CacheService } from "./services/cache.service.js";
+import {
+  LOCAL_CACHE_OPTIONS,
+  LocalCacheService,
+} from "./services/local-cache.service.js";
 import { REDIS_OPTIONS, RedisService } from "./services/redis.service.js";
 import type {
   CachingModuleAsyncOptions,
@@ -73,15 +84,28 @@ export class CachingModule {
           useValue: {
             ttl: options.ttl,
             keyPrefix: options.keyPrefix,
+            serialization: options.serialization,
           },
         },
+        {
+          provide: LOCAL_CACHE_OPTIONS,
+          useValue: options.localCache ?? {},
+        },
+        {
+          provide: CACHE_QUOTA_OPTIONS,
+          useValue: { ...options.quota, keyPrefix: options.keyPrefix },
+        },
         RedisService,
+        LocalCacheService,
+        CacheQuotaService,
         CacheService,
         CacheInterceptor,
         CacheMetricsService,
       ],
       exports: [
         RedisService,
+        LocalCacheService,
+        CacheQuotaService,
         CacheService,
         CacheInterceptor,
         CacheMetricsService,
@@ -134,6 +158,7 @@ export class CachingModule {
               return {
                 ttl: config.ttl,
                 keyPrefix: config.keyPrefix,
+                serialization: config.serialization,
               };
             }
             throw new CacheSerializationException(
@@ -142,13 +167,44 @@ export class CachingModule {
           },
           inject: options.inject || [],
         },
+        {
+          provide: LOCAL_CACHE_OPTIONS,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any -- NestJS useFactory 模式必须支持任意依赖（宪章 IX 允许场景）
+          useFactory: async (...args: any[]) => {
+            if (options.useFactory) {
+              const config = await options.useFactory(...args);
+              return config.localCache ?? {};
+            }
+            throw new CacheSerializationException(
+              "useFactory is required for async configuration",
+            );
+          },
+          inject: options.inject || [],
+        },
+        {
+          provide: CACHE_QUOTA_OPTIONS,
+          useFactory: async (...args: any[]) => {
+            if (options.useFactory) {
+              const config = await options.useFactory(...args);
+              return { ...config.quota, keyPrefix: config.keyPrefix };
+            }
+            throw new CacheSerializationException(
+              "useFactory is required for async configuration",
+            );
+          },
+          inject: options.inject || [],
+        },
         RedisService,
+        LocalCacheService,
+        CacheQuotaService,
         CacheService,
         CacheInterceptor,
         CacheMetricsService,
       ],
       exports: [
         RedisService,
+        LocalCacheService,
+        CacheQuotaService,
         CacheService,
         CacheInterceptor,
         CacheMetricsService,
@@ -85,6 +85,41 @@ export class RedisConfig {
   enableOfflineQueue?: boolean;
 }
 
+/**
+ * 本地缓存（L1）配置类
+ */
+export class LocalCacheConfig {
+  /**
+   * 是否启用本地缓存
+   */
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  /**
+   * 每个命名空间的最大条目数
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  maxEntries?: number;
+
+  /**
+   * 本地 TTL（秒）
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  ttl?: number;
+
+  /**
+   * 失效消息频道
+   */
+  @IsOptional()
+  @IsString()
+  invalidationChannel?: string;
+}
+
 /**
  * 缓存模块配置类
  */
@@ -111,6 +146,14 @@ export class CachingModuleConfig {
   @IsString()
   keyPrefix?: string;
 
+  /**
+   * 本地缓存（L1）配置
+   */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LocalCacheConfig)
+  localCache?: LocalCacheConfig;
+
   /**
    * 是否启用调试日志
    */
@@ -12,6 +12,7 @@
  * ### 清除范围
  * - 默认清除单个键
  * - 可配置为清除所有键（allEntries）
+ * - 可按标签清除（tags），仅指定标签时不清除默认键
  *
  * @example
  * ```typescript
@@ -30,6 +31,13 @@
  *   }
  *
  *   @CacheEvict('user', {
+ *     tags: (id: string) => [`user:${id}`],
+ *   })
+ *   async renameUser(id: string, name: string): Promise<void> {
+ *     await this.repository.rename(id, name);
+ *   }
+ *
+ *   @CacheEvict('user', {
  *     allEntries: true,
  *     beforeInvocation: true,
  *   })
@@ -83,6 +91,16 @@ export interface CacheEvictOptions {
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- 装饰器必须支持任意方法签名（宪章 IX 允许场景）
   condition?: (...args: any[]) => boolean;
+
+  /**
+   * 标签生成函数
+   *
+   * @description 失效当前隔离范围内带有这些标签的所有缓存条目
+   *
+   * @remarks
+   * 使用 any[] 符合宪章 IX 允许场景：高阶函数和装饰器。
+   */
+  tags?: (...args: any[]) => string[];
 }
 
 /**
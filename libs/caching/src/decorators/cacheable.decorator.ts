@@ -10,6 +10,10 @@
  * - 后续调用直接返回缓存值
  * - 缓存键自动结合隔离上下文
  *
+ * ### 防缓存击穿
+ * - 同一进程内同一键的并发未命中只执行一次方法
+ * - 可选分布式锁、概率性提前刷新、过期旧值返回
+ *
  * ### 键生成规则
  * - 默认使用第一个参数作为键
  * - 可通过 keyGenerator 自定义
@@ -32,6 +36,24 @@
  *   async getUserProfile(id: string): Promise<UserProfile> {
  *     return this.repository.findProfile(id);
  *   }
+ *
+ *   @Cacheable('order', {
+ *     keyGenerator: (userId: string) => `by-user:${userId}`,
+ *     tags: (userId: string) => [`user:${userId}`],
+ *   })
+ *   async getOrdersByUser(userId: string): Promise<Order[]> {
+ *     return this.repository.findByUser(userId);
+ *   }
+ *
+ *   @Cacheable('tenant-config', {
+ *     ttl: 300,
+ *     lock: true,
+ *     earlyRefresh: true,
+ *     staleWhileRevalidate: 60,
+ *   })
+ *   async getTenantConfig(tenantId: string): Promise<TenantConfig> {
+ *     return this.repository.loadConfig(tenantId);
+ *   }
  * }
  * ```
  *
@@ -44,6 +66,10 @@ import {
   CacheInterceptor,
   CacheableMetadata,
 } from "../interceptors/cache.interceptor.js";
+import type {
+  CacheLockOptions,
+  EarlyRefreshOptions,
+} from "../types/get-or-set-options.interface.js";
 
 export interface CacheableOptions {
   /**
@@ -85,6 +111,39 @@ export interface CacheableOptions {
    * @default false
    */
   cacheNull?: boolean;
+
+  /**
+   * 是否使用跨实例分布式锁加载
+   *
+   * @description 缓存未命中时只有一个实例执行方法，其余实例等待结果
+   * @default false
+   */
+  lock?: boolean | CacheLockOptions;
+
+  /**
+   * 是否在过期前按概率提前后台刷新
+   *
+   * @default false
+   */
+  earlyRefresh?: boolean | EarlyRefreshOptions;
+
+  /**
+   * 过期后仍返回旧值的时间窗口（秒），期间后台刷新
+   *
+   * @default 0（不启用）
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * 标签生成函数
+   *
+   * @description 为缓存条目打标签，可通过 @CacheEvict({ tags }) 或
+   * CacheService.invalidateTags() 批量失效
+   *
+   * @remarks
+   * 使用 any[] 符合宪章 IX 允许场景：高阶函数和装饰器。
+   */
+  tags?: (...args: any[]) => string[];
 }
 
 /**
@@ -17,7 +17,8 @@
  * - 超过 1MB 会记录警告日志
  *
  * ### 序列化规则
- * - 使用 JSON 序列化
+ * - 传入 CachePayloadCodec 时使用可插拔序列化器（带格式头字节）
+ * - 未传入时使用 JSON 序列化（1.0 格式）
  * - 处理循环引用
  * - 处理特殊类型（Date、Buffer、Set、Map）
  *
@@ -42,6 +43,7 @@
  * @since 1.0.0
  */
 
+import type { CachePayloadCodec } from "../../serializers/cache-payload.codec.js";
 import type { CacheKey } from "./cache-key.vo.js";
 
 /**
@@ -95,7 +97,8 @@ export class CacheEntry<T = any> {
   private static readonly WARN_SIZE = 512 * 1024; // 512KB
   private static readonly MAX_SIZE = 1 * 1024 * 1024; // 1MB
 
-  private readonly serializedValue: string;
+  private serializedValue?: string;
+  private readonly payload: Buffer;
   private readonly size: number;
 
   /**
@@ -105,16 +108,20 @@ export class CacheEntry<T = any> {
    * @param value - 缓存值
    * @param ttl - 过期时间（秒）
    * @param createdAt - 创建时间
+   * @param codec - 负载编解码器（可选）
    */
   private constructor(
     private readonly key: CacheKey,
     private readonly value: T,
     private readonly ttl: number,
     private readonly createdAt: Date,
+    codec?: CachePayloadCodec,
   ) {
     this.validateTTL();
-    this.serializedValue = this.serialize();
-    this.size = Buffer.byteLength(this.serializedValue, "utf-8");
+    this.payload = codec
+      ? this.encode(codec)
+      : Buffer.from(this.getSerializedValue(), "utf-8");
+    this.size = this.payload.length;
     this.validateSize();
   }
 
@@ -127,6 +134,7 @@ export class CacheEntry<T = any> {
    * @param value - 缓存值（任意可序列化类型）
    * @param ttl - 过期时间（秒），默认 3600（1小时）
    * @param logger - 日志服务（可选，用于记录警告）
+   * @param codec - 负载编解码器（可选，不传则使用 JSON）
    * @returns CacheEntry 实例
    * @throws {GeneralBadRequestException} TTL 或值大小无效
    * @throws {GeneralInternalServerException} 序列化失败
@@ -145,8 +153,9 @@ export class CacheEntry<T = any> {
     value: T,
     ttl: number = 3600,
     logger?: ILoggerService,
+    codec?: CachePayloadCodec,
   ): CacheEntry<T> {
-    const entry = new CacheEntry(key, value, ttl, new Date());
+    const entry = new CacheEntry(key, value, ttl, new Date(), codec);
 
     // 记录警告（如果值过大）
     if (logger && entry.size > CacheEntry.WARN_SIZE) {
@@ -202,6 +211,26 @@ export class CacheEntry<T = any> {
     }
   }
 
+  /**
+   * 使用编解码器编码缓存值
+   *
+   * @returns 带格式头字节的负载
+   * @throws {GeneralInternalServerException} 编码失败
+   * @private
+   */
+  private encode(codec: CachePayloadCodec): Buffer {
+    try {
+      return codec.encode(this.value);
+    } catch (error) {
+      throw new GeneralInternalServerException(
+        "缓存值序列化失败",
+        "无法序列化缓存值",
+        { key: this.key.toString() },
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
   /**
    * 获取 JSON 序列化的 replacer 函数
    *
@@ -271,12 +300,24 @@ export class CacheEntry<T = any> {
   /**
    * 获取序列化后的值
    *
+   * @description 始终返回 JSON 文本（1.0 格式），写入 Redis 请使用 getPayload()
+   *
    * @returns 序列化的 JSON 字符串
    */
   getSerializedValue(): string {
+    this.serializedValue ??= this.serialize();
     return this.serializedValue;
   }
 
+  /**
+   * 获取写入 Redis 的负载
+   *
+   * @returns 编码后的字节（使用编解码器时带格式头字节）
+   */
+  getPayload(): Buffer {
+    return this.payload;
+  }
+
   /**
    * 获取原始值
    *
@@ -307,7 +348,7 @@ export class CacheEntry<T = any> {
   /**
    * 获取值大小（字节）
    *
-   * @returns 序列化后的值大小
+   * @returns 负载大小（压缩后）
    */
   getSize(): number {
     return this.size;
@@ -0,0 +1,52 @@
+import { HttpException, HttpStatus } from "@nestjs/common";
+
+/**
+ * 缓存配额超限异常
+ *
+ * @description 当租户的缓存用量超出配额且策略为拒绝写入时抛出
+ *
+ * ## 业务规则
+ *
+ * ### 触发条件
+ * - 配额策略为 reject，写入后字节数或键数量将超出配额
+ * - 配额策略为 evict-oldest，但淘汰全部旧键后仍无法容纳新值
+ *
+ * ### 错误处理
+ * - CacheService.set() 直接抛出，由调用方决定是否降级
+ * - getOrSet() 和 @Cacheable 只记录日志，仍返回加载结果
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await cacheService.set('report', id, report);
+ * } catch (error) {
+ *   if (error instanceof CacheQuotaExceededException) {
+ *     // 不缓存，直接返回
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class CacheQuotaExceededException extends HttpException {
+  /**
+   * 创建缓存配额超限异常
+   *
+   * @param tenantId 租户 ID
+   * @param message 错误消息
+   */
+  constructor(
+    public readonly tenantId: string,
+    message: string,
+  ) {
+    super(
+      {
+        message,
+        error: "Cache Quota Exceeded",
+        statusCode: HttpStatus.INSUFFICIENT_STORAGE,
+        tenantId,
+      },
+      HttpStatus.INSUFFICIENT_STORAGE,
+    );
+  }
+}
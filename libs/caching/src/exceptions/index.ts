@@ -6,5 +6,6 @@
  * @since 1.0.0
  */
 
+export { CacheQuotaExceededException } from "./cache-quota-exceeded.exception.js";
 export { CacheSerializationException } from "./cache-serialization.exception.js";
 export { RedisConnectionException } from "./redis-connection.exception.js";
@@ -12,7 +12,12 @@
 export { CachingModule } from "./caching.module.js";
 
 // 服务
+export { CacheQuotaService } from "./services/cache-quota.service.js";
 export { CacheService } from "./services/cache.service.js";
+export {
+  LocalCacheService,
+  type LocalCacheStats,
+} from "./services/local-cache.service.js";
 export { RedisService } from "./services/redis.service.js";
 
 // 值对象
@@ -27,10 +32,28 @@ export type {
   CachingModuleAsyncOptions,
   CachingModuleOptions,
 } from "./types/cache-options.interface.js";
+export type {
+  CacheQuotaOptions,
+  CacheQuotaPolicy,
+  TenantCacheQuota,
+} from "./types/cache-quota-options.interface.js";
+export type {
+  CacheLockOptions,
+  EarlyRefreshOptions,
+  GetOrSetOptions,
+} from "./types/get-or-set-options.interface.js";
+export type {
+  LocalCacheNamespaceOptions,
+  LocalCacheOptions,
+} from "./types/local-cache-options.interface.js";
 export type { RedisOptions } from "./types/redis-options.interface.js";
 
 // 配置
-export { CachingModuleConfig, RedisConfig } from "./config/caching.config.js";
+export {
+  CachingModuleConfig,
+  LocalCacheConfig,
+  RedisConfig,
+} from "./config/caching.config.js";
 
 // 领域事件
 export { CacheInvalidatedEvent } from "./domain/events/cache-invalidated.event.js";
@@ -57,7 +80,25 @@ export { CacheInterceptor } from "./interceptors/cache.interceptor.js";
 export { CacheMetricsService } from "./monitoring/cache-metrics.service.js";
 
 // 监控类型
-export type { CacheMetrics } from "./types/cache-metrics.interface.js";
+export type {
+  CacheMetrics,
+  TenantCacheUsage,
+} from "./types/cache-metrics.interface.js";
+
+// 序列化器
+export { CachePayloadCodec } from "./serializers/cache-payload.codec.js";
+export type {
+  CacheSerializer,
+  SerializableClass,
+} from "./serializers/cache-serializer.interface.js";
+export { JsonCacheSerializer } from "./serializers/json.serializer.js";
+export { MsgpackCacheSerializer } from "./serializers/msgpack.serializer.js";
+export type {
+  CacheCompressionAlgorithm,
+  CacheCompressionOptions,
+  CacheSerializationOptions,
+  NamespaceSerializationOptions,
+} from "./types/serialization-options.interface.js";
 
 // 工具函数
 export {
@@ -66,6 +107,8 @@ export {
   isValidKey,
   sanitizeKey,
 } from "./utils/key-generator.util.js";
+export { shouldRefreshEarly } from "./utils/early-refresh.util.js";
+export { LruCache } from "./utils/lru-cache.util.js";
 export {
   deserialize,
   isSerializable,
@@ -74,6 +117,7 @@ export {
 
 // 异常类
 export {
+  CacheQuotaExceededException,
   CacheSerializationException,
   RedisConnectionException,
 } from "./exceptions/index.js";
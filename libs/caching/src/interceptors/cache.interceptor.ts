@@ -15,9 +15,13 @@ import {
   NestInterceptor,
 } from "@nestjs/common";
 import { Reflector } from "@nestjs/core";
-import { from, Observable } from "rxjs";
+import { from, lastValueFrom, Observable } from "rxjs";
 import { switchMap, tap } from "rxjs/operators";
 import { CacheService } from "../services/cache.service.js";
+import type {
+  CacheLockOptions,
+  EarlyRefreshOptions,
+} from "../types/get-or-set-options.interface.js";
 
 // 元数据键
 export const CACHEABLE_KEY = "cacheable";
@@ -31,6 +35,10 @@ export interface CacheableMetadata {
   ttl?: number;
   condition?: (...args: any[]) => boolean;
   cacheNull?: boolean;
+  lock?: boolean | CacheLockOptions;
+  earlyRefresh?: boolean | EarlyRefreshOptions;
+  staleWhileRevalidate?: number;
+  tags?: (...args: any[]) => string[];
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- 装饰器元数据必须支持任意方法签名（宪章 IX 允许场景：高阶函数和装饰器）
@@ -40,6 +48,7 @@ export interface CacheEvictMetadata {
   allEntries?: boolean;
   beforeInvocation?: boolean;
   condition?: (...args: any[]) => boolean;
+  tags?: (...args: any[]) => string[];
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- 装饰器元数据必须支持任意方法签名（宪章 IX 允许场景：高阶函数和装饰器）
@@ -135,32 +144,25 @@ export class CacheInterceptor implements NestInterceptor {
       ? metadata.keyGenerator(...args)
       : this.generateDefaultKey(args);
 
-    // 尝试从缓存获取
-    const cachedValue = await this.cacheService.get(
+    // 通过 getOrSet 读取，并发未命中只执行一次方法
+    return this.cacheService.getOrSet(
       metadata.namespace,
       cacheKey,
+      () => {
+        this.logger.debug(
+          `缓存未命中，执行方法: ${metadata.namespace}:${cacheKey}`,
+        );
+        return lastValueFrom(next.handle(), { defaultValue: undefined });
+      },
+      {
+        ttl: metadata.ttl,
+        cacheNull: metadata.cacheNull,
+        lock: metadata.lock,
+        earlyRefresh: metadata.earlyRefresh,
+        staleWhileRevalidate: metadata.staleWhileRevalidate,
+        tags: metadata.tags?.(...args),
+      },
     );
-
-    if (cachedValue !== undefined) {
-      this.logger.debug(`缓存命中: ${metadata.namespace}:${cacheKey}`);
-      return cachedValue;
-    }
-
-    // 缓存未命中，执行方法
-    const result = await next.handle().toPromise();
-
-    // 存储到缓存
-    if (result !== null || metadata.cacheNull) {
-      await this.cacheService.set(
-        metadata.namespace,
-        cacheKey,
-        result,
-        metadata.ttl,
-      );
-      this.logger.debug(`缓存更新: ${metadata.namespace}:${cacheKey}`);
-    }
-
-    return result;
   }
 
   /**
@@ -179,12 +181,19 @@ export class CacheInterceptor implements NestInterceptor {
       return;
     }
 
+    // 按标签清除
+    if (metadata.tags) {
+      const tags = metadata.tags(...args);
+      await this.cacheService.invalidateTags(tags);
+      this.logger.debug(`按标签清除缓存: ${tags.join(", ")}`);
+    }
+
     if (metadata.allEntries) {
       // 清除所有缓存（根据命名空间）
       await this.cacheService.clear();
       this.logger.debug(`清除所有缓存: ${metadata.namespace}`);
-    } else {
-      // 清除单个键
+    } else if (!metadata.tags || metadata.keyGenerator) {
+      // 清除单个键（仅指定标签时不清除默认键）
       const cacheKey = metadata.keyGenerator
         ? metadata.keyGenerator(...args)
         : this.generateDefaultKey(args);
@@ -211,6 +211,42 @@ describe("CacheMetricsService", () => {
     });
   });
 
+  describe("租户用量", () => {
+    it("应该保存最近一次观测到的用量", () => {
+      service.recordTenantUsage("t1", {
+        bytes: 10,
+        keys: 1,
+        organizations: {},
+      });
+      service.recordTenantUsage("t1", {
+        bytes: 30,
+        keys: 2,
+        organizations: {},
+      });
+
+      expect(service.getTenantUsage().get("t1")).toEqual({
+        bytes: 30,
+        keys: 2,
+        organizations: {},
+      });
+    });
+
+    it("应该按租户和策略统计超限次数，重置时清零", () => {
+      service.recordQuotaExceeded("t1", "reject");
+      service.recordQuotaExceeded("t1", "reject");
+      service.recordQuotaExceeded("t2", "evict-oldest");
+
+      expect(service.getQuotaExceededCounts()).toEqual([
+        { tenantId: "t1", policy: "reject", count: 2 },
+        { tenantId: "t2", policy: "evict-oldest", count: 1 },
+      ]);
+
+      service.reset();
+
+      expect(service.getQuotaExceededCounts()).toEqual([]);
+    });
+  });
+
   describe("综合场景", () => {
     it("应该正确处理混合操作", () => {
       // 模拟实际使用场景
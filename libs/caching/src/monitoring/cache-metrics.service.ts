@@ -20,6 +20,10 @@
  * - 计算时间差（毫秒）
  * - 累加到总延迟
  *
+ * ### 租户用量
+ * - 保存每个租户最近一次观测到的用量（由 CacheQuotaService 写入）
+ * - 按租户和策略统计超限次数
+ *
  * @example
  * ```typescript
  * @Injectable()
@@ -55,7 +59,11 @@
  */
 
 import { Injectable, Logger } from "@nestjs/common";
-import type { CacheMetrics } from "../types/cache-metrics.interface.js";
+import type {
+  CacheMetrics,
+  TenantCacheUsage,
+} from "../types/cache-metrics.interface.js";
+import type { CacheQuotaPolicy } from "../types/cache-quota-options.interface.js";
 
 @Injectable()
 export class CacheMetricsService {
@@ -65,6 +73,8 @@ export class CacheMetricsService {
   private misses = 0;
   private errors = 0;
   private totalLatency = 0;
+  private readonly tenantUsage = new Map<string, TenantCacheUsage>();
+  private readonly quotaExceeded = new Map<string, number>();
 
   /**
    * 记录缓存命中
@@ -197,6 +207,64 @@ export class CacheMetricsService {
     };
   }
 
+  /**
+   * 记录租户用量
+   *
+   * @param tenantId - 租户 ID
+   * @param usage - 最近一次观测到的用量
+   */
+  recordTenantUsage(tenantId: string, usage: TenantCacheUsage): void {
+    this.tenantUsage.set(tenantId, usage);
+  }
+
+  /**
+   * 记录租户缓存超限
+   *
+   * @param tenantId - 租户 ID
+   * @param policy - 执行的超限策略
+   */
+  recordQuotaExceeded(tenantId: string, policy: CacheQuotaPolicy): void {
+    const key = `${tenantId}|${policy}`;
+    this.quotaExceeded.set(key, (this.quotaExceeded.get(key) ?? 0) + 1);
+    this.logger.warn(`租户缓存超限 | 租户: ${tenantId}, 策略: ${policy}`);
+  }
+
+  /**
+   * 获取租户用量
+   *
+   * @returns 租户 ID → 用量
+   *
+   * @example
+   * ```typescript
+   * for (const [tenantId, usage] of metricsService.getTenantUsage()) {
+   *   console.log(`${tenantId}: ${usage.bytes} 字节, ${usage.keys} 个键`);
+   * }
+   * ```
+   */
+  getTenantUsage(): ReadonlyMap<string, TenantCacheUsage> {
+    return this.tenantUsage;
+  }
+
+  /**
+   * 获取超限次数
+   *
+   * @returns 按租户和策略统计的超限次数
+   */
+  getQuotaExceededCounts(): Array<{
+    tenantId: string;
+    policy: CacheQuotaPolicy;
+    count: number;
+  }> {
+    return Array.from(this.quotaExceeded.entries()).map(([key, count]) => {
+      const separator = key.lastIndexOf("|");
+      return {
+        tenantId: key.slice(0, separator),
+        policy: key.slice(separator + 1) as CacheQuotaPolicy,
+        count,
+      };
+    });
+  }
+
   /**
    * 重置所有指标
    *
@@ -223,5 +291,7 @@ export class CacheMetricsService {
     this.misses = 0;
     this.errors = 0;
     this.totalLatency = 0;
+    // 租户用量是快照而非累计值，不随指标重置
+    this.quotaExceeded.clear();
   }
 }
@@ -0,0 +1,143 @@
+/**
+ * 缓存负载编解码器与序列化器单元测试
+ */
+
+import { CacheSerializationException } from "../exceptions/cache-serialization.exception.js";
+import { CachePayloadCodec } from "./cache-payload.codec.js";
+import { JsonCacheSerializer } from "./json.serializer.js";
+import { MsgpackCacheSerializer } from "./msgpack.serializer.js";
+
+class Money {
+  constructor(
+    public readonly amount: bigint,
+    public readonly currency: string,
+  ) {}
+
+  format(): string {
+    return `${this.amount} ${this.currency}`;
+  }
+}
+
+const richValue = () => ({
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+  tags: new Set(["a", "b"]),
+  index: new Map<string, number>([["x", 1]]),
+  big: 12345678901234567890n,
+  raw: Buffer.from("hello"),
+  price: new Money(100n, "CNY"),
+});
+
+describe.each([
+  ["json", () => new JsonCacheSerializer([Money])],
+  ["msgpack", () => new MsgpackCacheSerializer([Money])],
+])("%s 序列化器", (_name, createSerializer) => {
+  it("应该还原 Date、Set、Map、BigInt、Buffer 和已注册的类", () => {
+    const serializer = createSerializer();
+    const decoded = serializer.decode(
+      serializer.encode(richValue()),
+    ) as ReturnType<typeof richValue>;
+
+    expect(decoded.createdAt).toEqual(new Date("2025-01-01T00:00:00Z"));
+    expect(decoded.tags).toEqual(new Set(["a", "b"]));
+    expect(decoded.index).toEqual(new Map([["x", 1]]));
+    expect(decoded.big).toBe(12345678901234567890n);
+    expect(Buffer.isBuffer(decoded.raw)).toBe(true);
+    expect(decoded.raw.toString()).toBe("hello");
+    expect(decoded.price).toBeInstanceOf(Money);
+    expect(decoded.price.format()).toBe("100 CNY");
+  });
+
+  it("应该按普通对象处理未注册的类", () => {
+    const serializer = createSerializer();
+    class Unregistered {
+      value = 1;
+    }
+
+    const decoded = serializer.decode(
+      serializer.encode({ item: new Unregistered() }),
+    ) as { item: unknown };
+
+    expect(decoded.item).not.toBeInstanceOf(Unregistered);
+    expect(decoded.item).toEqual({ value: 1 });
+  });
+});
+
+describe("CachePayloadCodec", () => {
+  const json = new JsonCacheSerializer();
+  const msgpack = new MsgpackCacheSerializer();
+
+  it("应该在头字节中记录编解码器和压缩算法", () => {
+    const plain = new CachePayloadCodec(json).encode({ a: 1 });
+    const gzip = new CachePayloadCodec(msgpack, {
+      algorithm: "gzip",
+      threshold: 0,
+    }).encode({ a: 1 });
+    const brotli = new CachePayloadCodec(json, {
+      algorithm: "brotli",
+      threshold: 0,
+    }).encode({ a: 1 });
+
+    expect(plain[0]).toBe(0xa1);
+    expect(gzip[0]).toBe(0xaa);
+    expect(brotli[0]).toBe(0xb1);
+  });
+
+  it("应该只压缩超过阈值的负载", () => {
+    const codec = new CachePayloadCodec(json, {
+      algorithm: "gzip",
+      threshold: 1024,
+    });
+    const small = codec.encode({ data: "a".repeat(10) });
+    const large = codec.encode({ data: "a".repeat(10000) });
+
+    expect(small[0]).toBe(0xa1);
+    expect(large[0]).toBe(0xa9);
+    expect(large.length).toBeLessThan(1000);
+    expect(codec.decode(large)).toEqual({ data: "a".repeat(10000) });
+  });
+
+  it("应该读取其他格式写入的负载（逐步迁移）", () => {
+    const writer = new CachePayloadCodec(msgpack, {
+      algorithm: "brotli",
+      threshold: 0,
+    });
+    const reader = new CachePayloadCodec(json, false, [json, msgpack]);
+
+    expect(reader.decode(writer.encode({ a: [1, 2] }))).toEqual({ a: [1, 2] });
+  });
+
+  it("应该读取 1.0 版本写入的 JSON 文本", () => {
+    const codec = new CachePayloadCodec(msgpack);
+    const legacy = Buffer.from(
+      JSON.stringify({
+        name: "张三",
+        at: { __type: "Date", value: "2025-01-01T00:00:00.000Z" },
+      }),
+    );
+
+    expect(codec.decode(legacy)).toEqual({
+      name: "张三",
+      at: new Date("2025-01-01T00:00:00.000Z"),
+    });
+  });
+
+  it("应该在序列化器未注册时抛出异常", () => {
+    const payload = new CachePayloadCodec(msgpack).encode({ a: 1 });
+    const codec = new CachePayloadCodec(json);
+
+    expect(() => codec.decode(payload)).toThrow(CacheSerializationException);
+  });
+
+  it("应该拒绝超出范围的编解码器 ID", () => {
+    const invalid = {
+      codec: 8,
+      name: "invalid",
+      encode: () => Buffer.alloc(0),
+      decode: () => null,
+    };
+
+    expect(() => new CachePayloadCodec(invalid)).toThrow(
+      CacheSerializationException,
+    );
+  });
+});
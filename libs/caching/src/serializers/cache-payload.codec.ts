@@ -0,0 +1,171 @@
+/**
+ * 缓存负载编解码器
+ *
+ * @description 组合序列化器与压缩算法，并以头字节记录格式
+ *
+ * ## 负载格式
+ *
+ * ```
+ * [头字节][负载]
+ * 头字节 = 0xA0 | (压缩算法 << 3) | 编解码器 ID
+ * 压缩算法：0 = 无，1 = gzip，2 = brotli
+ * 编解码器 ID：1 = JSON，2 = MessagePack，3-7 = 自定义
+ * ```
+ *
+ * ## 兼容规则
+ *
+ * - 头字节始终 >= 0x80，而 JSON 文本首字节始终为 ASCII
+ * - 首字节 < 0x80 的值视为 1.0 版本写入的 JSON 文本，按旧格式读取
+ * - 读取时根据头字节选择序列化器，与当前写入配置无关，支持逐步迁移
+ *
+ * @since 1.1.0
+ */
+
+import {
+  brotliCompressSync,
+  brotliDecompressSync,
+  gunzipSync,
+  gzipSync,
+} from "node:zlib";
+import { CacheSerializationException } from "../exceptions/cache-serialization.exception.js";
+import type {
+  CacheCompressionAlgorithm,
+  CacheCompressionOptions,
+} from "../types/serialization-options.interface.js";
+import type { CacheSerializer } from "./cache-serializer.interface.js";
+import { JsonCacheSerializer } from "./json.serializer.js";
+
+const HEADER_BASE = 0xa0;
+const HEADER_MASK = 0xe0;
+const CODEC_MASK = 0x07;
+const COMPRESSION_SHIFT = 3;
+const COMPRESSION_MASK = 0x03;
+
+const COMPRESSION_IDS: Record<CacheCompressionAlgorithm, number> = {
+  gzip: 1,
+  brotli: 2,
+};
+
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+export class CachePayloadCodec {
+  private readonly decoders = new Map<number, CacheSerializer>();
+
+  /**
+   * @param serializer - 写入时使用的序列化器
+   * @param compression - 压缩配置，false 表示不压缩
+   * @param readers - 可读取的全部序列化器（按编解码器 ID 选择）
+   */
+  constructor(
+    private readonly serializer: CacheSerializer,
+    private readonly compression: CacheCompressionOptions | false = false,
+    readers: CacheSerializer[] = [],
+  ) {
+    CachePayloadCodec.assertCodecId(serializer);
+    for (const reader of [...readers, serializer]) {
+      CachePayloadCodec.assertCodecId(reader);
+      this.decoders.set(reader.codec, reader);
+    }
+  }
+
+  /**
+   * 编码缓存值
+   *
+   * @param value - 缓存值
+   * @returns 带头字节的负载
+   * @throws {CacheSerializationException} 编码失败
+   */
+  encode(value: unknown): Buffer {
+    let body: Buffer;
+    try {
+      body = this.serializer.encode(value);
+    } catch (error) {
+      throw new CacheSerializationException(
+        `缓存值序列化失败（${this.serializer.name}）`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    let compressionId = 0;
+    if (
+      this.compression &&
+      body.length >=
+        (this.compression.threshold ?? DEFAULT_COMPRESSION_THRESHOLD)
+    ) {
+      compressionId = COMPRESSION_IDS[this.compression.algorithm];
+      body =
+        this.compression.algorithm === "gzip"
+          ? gzipSync(body)
+          : brotliCompressSync(body);
+    }
+
+    const header =
+      HEADER_BASE |
+      (compressionId << COMPRESSION_SHIFT) |
+      this.serializer.codec;
+    return Buffer.concat([Buffer.from([header]), body]);
+  }
+
+  /**
+   * 解码缓存负载
+   *
+   * @param payload - Redis 中读取的原始字节
+   * @returns 缓存值
+   * @throws {CacheSerializationException} 格式未知或解码失败
+   */
+  decode(payload: Buffer): unknown {
+    try {
+      if (payload.length === 0 || payload[0]! < 0x80) {
+        // 1.0 版本写入的 JSON 文本
+        return JsonCacheSerializer.parse(payload.toString("utf-8"));
+      }
+
+      const header = payload[0]!;
+      if ((header & HEADER_MASK) !== HEADER_BASE) {
+        throw new Error(`未知的负载头: 0x${header.toString(16)}`);
+      }
+
+      const codecId = header & CODEC_MASK;
+      const decoder = this.decoders.get(codecId);
+      if (!decoder) {
+        throw new Error(`未注册的序列化器: ${codecId}`);
+      }
+
+      let body = payload.subarray(1);
+      switch ((header >> COMPRESSION_SHIFT) & COMPRESSION_MASK) {
+        case 0:
+          break;
+        case 1:
+          body = gunzipSync(body);
+          break;
+        case 2:
+          body = brotliDecompressSync(body);
+          break;
+        default:
+          throw new Error(`未知的压缩算法: 0x${header.toString(16)}`);
+      }
+
+      return decoder.decode(body);
+    } catch (error) {
+      if (error instanceof CacheSerializationException) {
+        throw error;
+      }
+      throw new CacheSerializationException(
+        `缓存值反序列化失败: ${error instanceof Error ? error.message : String(error)}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  private static assertCodecId(serializer: CacheSerializer): void {
+    if (
+      !Number.isInteger(serializer.codec) ||
+      serializer.codec < 1 ||
+      serializer.codec > CODEC_MASK
+    ) {
+      throw new CacheSerializationException(
+        `序列化器 ${serializer.name} 的编解码器 ID 必须在 1-7 之间: ${serializer.codec}`,
+      );
+    }
+  }
+}
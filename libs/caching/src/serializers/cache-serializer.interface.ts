@@ -0,0 +1,58 @@
+/**
+ * 缓存序列化器接口
+ *
+ * @description 定义缓存值与二进制之间的编解码策略
+ *
+ * ## 业务规则
+ *
+ * - 每个序列化器有唯一的编解码器 ID（1-7），写入负载头字节
+ * - 内置：1 = JSON（类型还原），2 = MessagePack
+ * - 自定义序列化器使用 3-7，并在配置中注册以便读取
+ * - 序列化器只负责编解码，压缩和头字节由 CachePayloadCodec 处理
+ *
+ * @example
+ * ```typescript
+ * class ProtobufSerializer implements CacheSerializer {
+ *   readonly codec = 3;
+ *   readonly name = 'protobuf';
+ *   encode(value: unknown): Buffer { ... }
+ *   decode(payload: Buffer): unknown { ... }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export interface CacheSerializer {
+  /**
+   * 编解码器 ID（1-7），记录在负载头字节中
+   */
+  readonly codec: number;
+
+  /**
+   * 名称（用于日志）
+   */
+  readonly name: string;
+
+  /**
+   * 编码值
+   *
+   * @param value - 缓存值
+   * @returns 编码后的字节
+   */
+  encode(value: unknown): Buffer;
+
+  /**
+   * 解码值
+   *
+   * @param payload - 编码后的字节（不含头字节、已解压）
+   * @returns 缓存值
+   */
+  decode(payload: Buffer): unknown;
+}
+
+/**
+ * 可还原的类构造函数
+ *
+ * @description 注册到序列化器后，类实例在反序列化时恢复原型
+ */
+export type SerializableClass = new (...args: any[]) => object;
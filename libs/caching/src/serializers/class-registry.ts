@@ -0,0 +1,63 @@
+/**
+ * 类注册表
+ *
+ * @description 记录可还原原型的类，供序列化器在反序列化时恢复类实例
+ *
+ * ## 业务规则
+ *
+ * - 以类名作为标识，类名重复时抛出异常
+ * - 只还原已注册的类，未注册的类名按普通对象返回
+ * - 还原时不调用构造函数，直接基于原型创建并赋值属性
+ *
+ * @since 1.1.0
+ * @internal
+ */
+
+import { CacheSerializationException } from "../exceptions/cache-serialization.exception.js";
+import type { SerializableClass } from "./cache-serializer.interface.js";
+
+export class ClassRegistry {
+  private readonly byName = new Map<string, SerializableClass>();
+
+  constructor(classes: SerializableClass[] = []) {
+    for (const cls of classes) {
+      const existing = this.byName.get(cls.name);
+      if (existing && existing !== cls) {
+        throw new CacheSerializationException(`可序列化类名重复: ${cls.name}`);
+      }
+      this.byName.set(cls.name, cls);
+    }
+  }
+
+  /**
+   * 获取已注册类实例的类名
+   *
+   * @param value - 任意值
+   * @returns 类名，未注册时返回 undefined
+   */
+  nameOf(value: unknown): string | undefined {
+    if (value === null || typeof value !== "object") {
+      return undefined;
+    }
+    const ctor = (value as object).constructor as SerializableClass | undefined;
+    if (!ctor || ctor === Object) {
+      return undefined;
+    }
+    return this.byName.get(ctor.name) === ctor ? ctor.name : undefined;
+  }
+
+  /**
+   * 还原类实例
+   *
+   * @param name - 类名
+   * @param props - 属性
+   * @returns 类实例，未注册时返回属性对象
+   */
+  revive(name: string, props: Record<string, unknown>): unknown {
+    const ctor = this.byName.get(name);
+    if (!ctor) {
+      return props;
+    }
+    return Object.assign(Object.create(ctor.prototype) as object, props);
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * JSON 序列化器（带类型还原）
+ *
+ * @description 基于 JSON 的默认序列化器，保留 JSON 无法表达的类型
+ *
+ * ## 类型还原规则
+ *
+ * - Date → { __type: 'Date', value: ISOString }
+ * - Map → { __type: 'Map', value: Array<[key, value]> }
+ * - Set → { __type: 'Set', value: Array }
+ * - BigInt → { __type: 'BigInt', value: string }
+ * - Buffer → { __type: 'Buffer', value: base64 }
+ * - RegExp → { __type: 'RegExp', value: { source, flags } }
+ * - 已注册的类实例 → { __type: 'Class', name, value: 属性 }
+ *
+ * 未注册的类实例按普通对象序列化（原型丢失）。
+ *
+ * @example
+ * ```typescript
+ * const serializer = new JsonCacheSerializer([Money, UserProfile]);
+ * const payload = serializer.encode({ amount: new Money(10n, 'CNY') });
+ * const value = serializer.decode(payload); // amount instanceof Money
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type {
+  CacheSerializer,
+  SerializableClass,
+} from "./cache-serializer.interface.js";
+import { ClassRegistry } from "./class-registry.js";
+
+export class JsonCacheSerializer implements CacheSerializer {
+  readonly codec = 1;
+  readonly name = "json";
+  private readonly classes: ClassRegistry;
+
+  /**
+   * @param classes - 需要还原原型的类
+   */
+  constructor(classes: SerializableClass[] = []) {
+    this.classes = new ClassRegistry(classes);
+  }
+
+  encode(value: unknown): Buffer {
+    const classes = this.classes;
+
+    // 使用 function 以便通过 this[key] 读取 toJSON 之前的原始值
+    const replacer = function (
+      this: Record<string, unknown>,
+      key: string,
+      value: unknown,
+    ) {
+      const raw = this[key];
+
+      if (raw instanceof Date) {
+        return { __type: "Date", value: raw.toISOString() };
+      }
+      if (typeof raw === "bigint") {
+        return { __type: "BigInt", value: raw.toString() };
+      }
+      if (raw instanceof Map) {
+        return { __type: "Map", value: Array.from(raw.entries()) };
+      }
+      if (raw instanceof Set) {
+        return { __type: "Set", value: Array.from(raw) };
+      }
+      if (Buffer.isBuffer(raw)) {
+        return { __type: "Buffer", value: raw.toString("base64") };
+      }
+      if (raw instanceof RegExp) {
+        return {
+          __type: "RegExp",
+          value: { source: raw.source, flags: raw.flags },
+        };
+      }
+
+      const className = classes.nameOf(raw);
+      if (className) {
+        return {
+          __type: "Class",
+          name: className,
+          value: { ...(raw as object) },
+        };
+      }
+
+      return value;
+    };
+
+    return Buffer.from(JSON.stringify(value, replacer) ?? "null", "utf-8");
+  }
+
+  decode(payload: Buffer): unknown {
+    return JsonCacheSerializer.parse(payload.toString("utf-8"), this.classes);
+  }
+
+  /**
+   * 解析 JSON 文本并还原类型
+   *
+   * @description 同时兼容 1.0 版本 CacheEntry 写入的旧格式（Date/Set/Map/Buffer）
+   *
+   * @param text - JSON 文本
+   * @param classes - 类注册表
+   * @returns 还原后的值
+   * @internal
+   */
+  static parse(text: string, classes?: ClassRegistry): unknown {
+    return JSON.parse(text, (_key, val) => {
+      if (!val || typeof val !== "object" || typeof val.__type !== "string") {
+        return val;
+      }
+
+      switch (val.__type) {
+        case "Date":
+          return new Date(val.value);
+        case "BigInt":
+          return BigInt(val.value);
+        case "Map":
+          return new Map(val.value);
+        case "Set":
+          return new Set(val.value);
+        case "Buffer":
+          return Buffer.from(val.value, "base64");
+        case "RegExp":
+          return new RegExp(val.value.source, val.value.flags);
+        case "Class":
+          return classes ? classes.revive(val.name, val.value) : val.value;
+        default:
+          return val;
+      }
+    });
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * MessagePack 序列化器
+ *
+ * @description 二进制序列化器，体积更小、编解码更快
+ *
+ * ## 类型还原规则
+ *
+ * - Date：使用 MessagePack 内置时间戳扩展
+ * - Map / Set / BigInt / 已注册的类实例：使用自定义扩展类型
+ * - Buffer / Uint8Array：使用 MessagePack bin 类型（解码为 Buffer）
+ *
+ * @example
+ * ```typescript
+ * CachingModule.forRoot({
+ *   redis: { host: 'localhost', port: 6379 },
+ *   serialization: { serializer: new MsgpackCacheSerializer() },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { decode, encode, ExtensionCodec } from "@msgpack/msgpack";
+import type {
+  CacheSerializer,
+  SerializableClass,
+} from "./cache-serializer.interface.js";
+import { ClassRegistry } from "./class-registry.js";
+
+/** 自定义扩展类型编号（0-127 为应用保留） */
+const EXT_MAP = 1;
+const EXT_SET = 2;
+const EXT_BIGINT = 3;
+const EXT_CLASS = 4;
+
+export class MsgpackCacheSerializer implements CacheSerializer {
+  readonly codec = 2;
+  readonly name = "msgpack";
+  private readonly extensionCodec = new ExtensionCodec();
+
+  /**
+   * @param classes - 需要还原原型的类
+   */
+  constructor(classes: SerializableClass[] = []) {
+    const registry = new ClassRegistry(classes);
+    const codec = this.extensionCodec;
+    const nested = { extensionCodec: codec };
+
+    codec.register({
+      type: EXT_MAP,
+      encode: (input: unknown) =>
+        input instanceof Map
+          ? encode(Array.from(input.entries()), nested)
+          : null,
+      decode: (data: Uint8Array) =>
+        new Map(decode(data, nested) as Array<[unknown, unknown]>),
+    });
+    codec.register({
+      type: EXT_SET,
+      encode: (input: unknown) =>
+        input instanceof Set ? encode(Array.from(input), nested) : null,
+      decode: (data: Uint8Array) => new Set(decode(data, nested) as unknown[]),
+    });
+    codec.register({
+      type: EXT_BIGINT,
+      encode: (input: unknown) =>
+        typeof input === "bigint" ? encode(input.toString()) : null,
+      decode: (data: Uint8Array) => BigInt(decode(data) as string),
+    });
+    codec.register({
+      type: EXT_CLASS,
+      encode: (input: unknown) => {
+        const name = registry.nameOf(input);
+        return name ? encode([name, { ...(input as object) }], nested) : null;
+      },
+      decode: (data: Uint8Array) => {
+        const [name, props] = decode(data, nested) as [
+          string,
+          Record<string, unknown>,
+        ];
+        return registry.revive(name, props);
+      },
+    });
+  }
+
+  encode(value: unknown): Buffer {
+    const bytes = encode(value, { extensionCodec: this.extensionCodec });
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  decode(payload: Buffer): unknown {
+    return this.toBuffers(
+      decode(payload, { extensionCodec: this.extensionCodec }),
+    );
+  }
+
+  /**
+   * 将解码得到的 Uint8Array 转换为 Buffer，与 JSON 序列化器保持一致
+   *
+   * @private
+   */
+  private toBuffers(value: unknown): unknown {
+    if (value instanceof Uint8Array) {
+      return Buffer.from(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toBuffers(item));
+    }
+    if (value instanceof Map) {
+      return new Map(
+        Array.from(value.entries()).map(([k, v]) => [k, this.toBuffers(v)]),
+      );
+    }
+    if (value instanceof Set) {
+      return new Set(Array.from(value).map((item) => this.toBuffers(item)));
+    }
+    if (value && typeof value === "object" && !(value instanceof Date)) {
+      const proto = Object.getPrototypeOf(value);
+      if (proto === Object.prototype || proto === null) {
+        for (const [k, v] of Object.entries(value)) {
+          (value as Record<string, unknown>)[k] = this.toBuffers(v);
+        }
+      }
+    }
+    return value;
+  }
+}
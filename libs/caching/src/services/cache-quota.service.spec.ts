@@ -0,0 +1,363 @@
+/**
+ * CacheQuotaService 单元测试
+ *
+ * @description 测试租户用量统计和超限策略（不依赖真实 Redis）
+ *
+ * @group services
+ */
+
+import {
+  IsolationContext,
+  OrganizationId,
+  TenantId,
+} from "@hl8/isolation-model";
+import { Registry } from "prom-client";
+import { CacheQuotaExceededException } from "../exceptions/cache-quota-exceeded.exception.js";
+import { CacheMetricsService } from "../monitoring/cache-metrics.service.js";
+import type { CacheQuotaOptions } from "../types/cache-quota-options.interface.js";
+import { CacheQuotaService } from "./cache-quota.service.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+const ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+
+/**
+ * 内存版 Redis，按脚本内容模拟统计 Lua 脚本的语义
+ */
+const createFakeRedis = () => {
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Map<string, string>>();
+  const zsets = new Map<string, Map<string, number>>();
+  const hash = (key: string) => {
+    if (!hashes.has(key)) hashes.set(key, new Map());
+    return hashes.get(key)!;
+  };
+  const zset = (key: string) => {
+    if (!zsets.has(key)) zsets.set(key, new Map());
+    return zsets.get(key)!;
+  };
+  const adjust = (usageKey: string, entry: string, sign: number) => {
+    const [size, org] = entry.split("|") as [string, string];
+    const usage = hash(usageKey);
+    const incr = (field: string, by: number) => {
+      const value = Number(usage.get(field) ?? 0) + by;
+      usage.set(field, String(value));
+      return value;
+    };
+    incr("bytes", sign * Number(size));
+    incr("keys", sign);
+    if (org) {
+      incr(`org:${org}:bytes`, sign * Number(size));
+      if (incr(`org:${org}:keys`, sign) <= 0) {
+        usage.delete(`org:${org}:bytes`);
+        usage.delete(`org:${org}:keys`);
+      }
+    }
+  };
+
+  return {
+    strings,
+    set: (key: string, value: string) => {
+      strings.set(key, value);
+      return Promise.resolve("OK");
+    },
+    exists: (key: string) => Promise.resolve(strings.has(key) ? 1 : 0),
+    del: (...keys: string[]) =>
+      Promise.resolve(keys.filter((key) => strings.delete(key)).length),
+    hget: (key: string, field: string) =>
+      Promise.resolve(hash(key).get(field) ?? null),
+    hmget: (key: string, ...fields: string[]) =>
+      Promise.resolve(fields.map((field) => hash(key).get(field) ?? null)),
+    hgetall: (key: string) => Promise.resolve(Object.fromEntries(hash(key))),
+    zrange: (key: string, start: number, stop: number) =>
+      Promise.resolve(
+        Array.from(zset(key).entries())
+          .sort((a, b) => a[1] - b[1])
+          .map(([member]) => member)
+          .slice(start, stop + 1),
+      ),
+    eval: (script: string, _numKeys: number, ...args: unknown[]) => {
+      const [keysKey, sizesKey, usageKey, ...argv] = args.map(String) as [
+        string,
+        string,
+        string,
+        ...string[],
+      ];
+      const sizes = hash(sizesKey);
+
+      if (script.includes("ZADD")) {
+        const [fullKey, size, org, now] = argv as [
+          string,
+          string,
+          string,
+          string,
+        ];
+        const previous = sizes.get(fullKey);
+        if (previous) adjust(usageKey, previous, -1);
+        sizes.set(fullKey, `${size}|${org}`);
+        zset(keysKey).set(fullKey, Number(now));
+        adjust(usageKey, `${size}|${org}`, 1);
+      } else {
+        for (const fullKey of argv) {
+          const previous = sizes.get(fullKey);
+          if (previous) {
+            adjust(usageKey, previous, -1);
+            sizes.delete(fullKey);
+            zset(keysKey).delete(fullKey);
+          }
+        }
+      }
+
+      return Promise.resolve(Array.from(hash(usageKey)).flat());
+    },
+  };
+};
+
+const tenantContext = (tenantId = TENANT_A) =>
+  IsolationContext.tenant(TenantId.create(tenantId));
+
+describe("CacheQuotaService", () => {
+  let redis: ReturnType<typeof createFakeRedis>;
+  let metrics: CacheMetricsService;
+  let registry: Registry;
+  let invalidated: string[];
+  let now: number;
+  const realNow = Date.now;
+
+  const createService = (options: CacheQuotaOptions) => {
+    const service = new CacheQuotaService(
+      { getClient: () => redis } as any,
+      metrics,
+      {
+        enabled: true,
+        keyPrefix: "test:",
+        registry,
+        resolveTenantType: (tenantId) =>
+          tenantId === TENANT_A ? "TRIAL" : "ENTERPRISE",
+        ...options,
+      },
+      {
+        invalidateKeys: (keys: string[]) => {
+          invalidated.push(...keys);
+          return Promise.resolve();
+        },
+      } as any,
+    );
+    service.onModuleInit();
+    return service;
+  };
+
+  /** 模拟 CacheService 的写入流程 */
+  const write = async (
+    service: CacheQuotaService,
+    key: string,
+    bytes: number,
+    ttl = 3600,
+    context = tenantContext(),
+  ) => {
+    const effectiveTTL = await service.admit(context, key, bytes, ttl);
+    await redis.set(key, "x".repeat(bytes));
+    await service.recordWrite(context, key, bytes);
+    now += 1;
+    return effectiveTTL;
+  };
+
+  beforeEach(() => {
+    redis = createFakeRedis();
+    metrics = new CacheMetricsService();
+    registry = new Registry();
+    invalidated = [];
+    now = 1_000_000;
+    Date.now = () => now;
+  });
+
+  afterEach(() => {
+    Date.now = realNow;
+  });
+
+  describe("用量统计", () => {
+    it("应该按租户和组织累计字节数和键数量", async () => {
+      const service = createService({});
+      const orgContext = IsolationContext.organization(
+        TenantId.create(TENANT_A),
+        OrganizationId.create(ORG),
+      );
+
+      await write(service, "k1", 100);
+      await write(service, "k2", 50, 3600, orgContext);
+
+      expect(await service.getUsage(TENANT_A)).toEqual({
+        bytes: 150,
+        keys: 2,
+        organizations: { [ORG]: { bytes: 50, keys: 1 } },
+      });
+    });
+
+    it("覆盖写入应该只计算差值", async () => {
+      const service = createService({});
+
+      await write(service, "k1", 100);
+      await write(service, "k1", 30);
+
+      expect(await service.getUsage(TENANT_A)).toMatchObject({
+        bytes: 30,
+        keys: 1,
+      });
+    });
+
+    it("删除应该扣除用量", async () => {
+      const service = createService({});
+
+      await write(service, "k1", 100);
+      await write(service, "k2", 50);
+      await service.recordDelete(tenantContext(), ["k1", "unknown"]);
+
+      expect(await service.getUsage(TENANT_A)).toMatchObject({
+        bytes: 50,
+        keys: 1,
+      });
+    });
+
+    it("应该忽略无租户的上下文", async () => {
+      const service = createService({
+        quotas: { TRIAL: { maxKeys: 0 } },
+      });
+
+      const ttl = await write(
+        service,
+        "k1",
+        100,
+        60,
+        IsolationContext.platform(),
+      );
+
+      expect(ttl).toBe(60);
+      expect(metrics.getTenantUsage().size).toBe(0);
+    });
+
+    it("未启用时应该不统计也不限制", async () => {
+      const service = createService({
+        enabled: false,
+        quotas: { TRIAL: { maxKeys: 0 } },
+      });
+
+      await expect(write(service, "k1", 100)).resolves.toBe(3600);
+      expect(await service.getUsage(TENANT_A)).toMatchObject({ keys: 0 });
+    });
+  });
+
+  describe("超限策略", () => {
+    it("reject 策略应该拒绝超出配额的写入", async () => {
+      const service = createService({
+        quotas: { TRIAL: { maxBytes: 200 } },
+      });
+
+      await write(service, "k1", 150);
+
+      await expect(write(service, "k2", 100)).rejects.toThrow(
+        CacheQuotaExceededException,
+      );
+      expect(metrics.getQuotaExceededCounts()).toEqual([
+        { tenantId: TENANT_A, policy: "reject", count: 1 },
+      ]);
+    });
+
+    it("配额只作用于对应的租户类型", async () => {
+      const service = createService({
+        quotas: { TRIAL: { maxKeys: 1 } },
+      });
+
+      await write(service, "b1", 10, 3600, tenantContext(TENANT_B));
+      await write(service, "b2", 10, 3600, tenantContext(TENANT_B));
+
+      expect(await service.getUsage(TENANT_B)).toMatchObject({ keys: 2 });
+    });
+
+    it("应该先清理已过期的键再判断是否超限", async () => {
+      const service = createService({
+        quotas: { TRIAL: { maxKeys: 2 } },
+      });
+
+      await write(service, "k1", 10);
+      await write(service, "k2", 10);
+      redis.strings.delete("k1"); // 模拟过期
+
+      await expect(write(service, "k3", 10)).resolves.toBe(3600);
+      expect(await service.getUsage(TENANT_A)).toMatchObject({ keys: 2 });
+    });
+
+    it("evict-oldest 策略应该淘汰最早写入的键", async () => {
+      const service = createService({
+        policy: "evict-oldest",
+        quotas: { TRIAL: { maxBytes: 250 } },
+      });
+
+      await write(service, "k1", 100);
+      await write(service, "k2", 100);
+      await write(service, "k3", 100);
+
+      expect(redis.strings.has("k1")).toBe(false);
+      expect(redis.strings.has("k2")).toBe(true);
+      expect(redis.strings.has("k3")).toBe(true);
+      expect(invalidated).toEqual(["k1"]);
+      expect(await service.getUsage(TENANT_A)).toMatchObject({
+        bytes: 200,
+        keys: 2,
+      });
+    });
+
+    it("evict-oldest 策略无法容纳时应该拒绝", async () => {
+      const service = createService({
+        quotas: { TRIAL: { maxBytes: 100, policy: "evict-oldest" } },
+      });
+
+      await write(service, "k1", 50);
+
+      await expect(write(service, "k2", 500)).rejects.toThrow(
+        CacheQuotaExceededException,
+      );
+    });
+
+    it("shorten-ttl 策略应该缩短 TTL", async () => {
+      const service = createService({
+        quotas: {
+          TRIAL: { maxKeys: 1, policy: "shorten-ttl", shortenedTtl: 30 },
+        },
+      });
+
+      expect(await write(service, "k1", 10)).toBe(3600);
+      expect(await write(service, "k2", 10)).toBe(30);
+      expect(await write(service, "k3", 10, 0)).toBe(30);
+      expect(await write(service, "k4", 10, 5)).toBe(5);
+    });
+  });
+
+  describe("Prometheus 指标", () => {
+    it("应该导出按租户标记的用量指标", async () => {
+      const service = createService({
+        quotas: { TRIAL: { maxBytes: 1000 } },
+      });
+
+      await write(service, "k1", 100);
+
+      const output = await registry.metrics();
+      expect(output).toContain(
+        `hl8_cache_tenant_bytes{tenant_id="${TENANT_A}"} 100`,
+      );
+      expect(output).toContain(
+        `hl8_cache_tenant_keys{tenant_id="${TENANT_A}"} 1`,
+      );
+      expect(output).toContain(
+        `hl8_cache_tenant_quota_bytes{tenant_id="${TENANT_A}"} 1000`,
+      );
+    });
+
+    it("销毁后应该移除指标", () => {
+      const service = createService({});
+
+      service.onModuleDestroy();
+
+      expect(registry.getMetricsAsArray()).toHaveLength(0);
+    });
+  });
+});
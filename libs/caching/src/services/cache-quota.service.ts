@@ -0,0 +1,654 @@
+/**
+ * 租户缓存配额服务
+ *
+ * @description 按租户统计近似缓存用量，并在写入前执行配额检查
+ *
+ * ## 业务规则
+ *
+ * ### 用量统计
+ * - 每次写入记录键的负载字节数、所属组织和写入时间
+ * - 覆盖写入先扣除旧值再累加新值
+ * - 统计数据保存在 Redis 中（跨实例共享），使用 Lua 脚本原子更新
+ * - 过期的键不会主动扣除，超限时先清理已不存在的键再判断
+ *
+ * ### 配额检查
+ * - 按租户类型查找配额；未配置配额的租户只统计不限制
+ * - 写入后字节数或键数量超出配额时执行超限策略
+ * - reject：抛出 CacheQuotaExceededException
+ * - evict-oldest：删除该租户最早写入的键（不影响其他租户）
+ * - shorten-ttl：照常写入，TTL 缩短为 shortenedTtl
+ *
+ * ### 监控
+ * - 用量写入 CacheMetricsService
+ * - 以 tenant_id 为标签导出 Prometheus 指标
+ *
+ * ## Redis 键
+ *
+ * ```
+ * {keyPrefix}tenant:{tenantId}:__quota:keys   ZSET 完整键 → 写入时间
+ * {keyPrefix}tenant:{tenantId}:__quota:sizes  HASH 完整键 → "字节数|组织 ID"
+ * {keyPrefix}tenant:{tenantId}:__quota:usage  HASH 汇总用量
+ * ```
+ *
+ * 统计键位于租户前缀下，clearTenantCache() 会一并清空。
+ *
+ * @since 1.1.0
+ */
+
+import type { IsolationContext } from "@hl8/isolation-model";
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from "@nestjs/common";
+import { Counter, Gauge, register, type Registry } from "prom-client";
+import { CacheQuotaExceededException } from "../exceptions/cache-quota-exceeded.exception.js";
+import { CacheMetricsService } from "../monitoring/cache-metrics.service.js";
+import type { TenantCacheUsage } from "../types/cache-metrics.interface.js";
+import type {
+  CacheQuotaOptions,
+  CacheQuotaPolicy,
+  TenantCacheQuota,
+} from "../types/cache-quota-options.interface.js";
+import { LocalCacheService } from "./local-cache.service.js";
+import { RedisService } from "./redis.service.js";
+
+export const CACHE_QUOTA_OPTIONS = "CACHE_QUOTA_OPTIONS";
+
+interface CacheQuotaServiceOptions extends CacheQuotaOptions {
+  keyPrefix?: string;
+}
+
+/** 统计键片段 */
+const QUOTA_SEGMENT = ":__quota:";
+
+/** 租户类型解析结果的进程内缓存时间（毫秒） */
+const TENANT_TYPE_CACHE_TTL = 60_000;
+
+/** 每批处理的键数量 */
+const BATCH_SIZE = 100;
+
+/** 导出的 Prometheus 指标 */
+const METRIC_NAMES = [
+  "hl8_cache_tenant_bytes",
+  "hl8_cache_tenant_keys",
+  "hl8_cache_organization_bytes",
+  "hl8_cache_tenant_quota_bytes",
+  "hl8_cache_quota_exceeded_total",
+] as const;
+
+/**
+ * 按 "字节数|组织 ID" 调整汇总用量
+ *
+ * KEYS[3] 为汇总 HASH；组织用量归零时删除其字段
+ */
+const ADJUST_USAGE = `local function adjust(entry, sign)
+  local size, org = string.match(entry, "^(%d+)|(.*)$")
+  size = tonumber(size)
+  redis.call("HINCRBY", KEYS[3], "bytes", sign * size)
+  redis.call("HINCRBY", KEYS[3], "keys", sign)
+  if org ~= "" then
+    redis.call("HINCRBY", KEYS[3], "org:" .. org .. ":bytes", sign * size)
+    local keys = redis.call("HINCRBY", KEYS[3], "org:" .. org .. ":keys", sign)
+    if keys <= 0 then
+      redis.call("HDEL", KEYS[3], "org:" .. org .. ":bytes", "org:" .. org .. ":keys")
+    end
+  end
+end
+`;
+
+/**
+ * 记录写入：ARGV = [完整键, 字节数, 组织 ID, 写入时间]
+ */
+const RECORD_WRITE_SCRIPT = `${ADJUST_USAGE}
+local previous = redis.call("HGET", KEYS[2], ARGV[1])
+if previous then
+  adjust(previous, -1)
+end
+local entry = ARGV[2] .. "|" .. ARGV[3]
+redis.call("HSET", KEYS[2], ARGV[1], entry)
+redis.call("ZADD", KEYS[1], ARGV[4], ARGV[1])
+adjust(entry, 1)
+return redis.call("HGETALL", KEYS[3])`;
+
+/**
+ * 记录删除：ARGV = 完整键列表
+ */
+const RECORD_DELETE_SCRIPT = `${ADJUST_USAGE}
+for _, key in ipairs(ARGV) do
+  local previous = redis.call("HGET", KEYS[2], key)
+  if previous then
+    adjust(previous, -1)
+    redis.call("HDEL", KEYS[2], key)
+    redis.call("ZREM", KEYS[1], key)
+  end
+end
+return redis.call("HGETALL", KEYS[3])`;
+
+interface QuotaKeys {
+  keys: string;
+  sizes: string;
+  usage: string;
+}
+
+@Injectable()
+export class CacheQuotaService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CacheQuotaService.name);
+  private readonly enabled: boolean;
+  private readonly keyPrefix: string;
+  private readonly registry: Registry;
+  private readonly tenantTypes = new Map<
+    string,
+    { type: string | undefined; expiresAt: number }
+  >();
+  private exceededCounter: Counter | null = null;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly metricsService: CacheMetricsService,
+    @Inject(CACHE_QUOTA_OPTIONS)
+    private readonly options: CacheQuotaServiceOptions,
+    @Optional()
+    private readonly localCache?: LocalCacheService,
+  ) {
+    this.enabled = options.enabled ?? false;
+    this.keyPrefix = options.keyPrefix ?? "hl8:cache:";
+    this.registry = options.registry ?? register;
+  }
+
+  /**
+   * 模块初始化钩子
+   *
+   * @description 启用时注册 Prometheus 指标
+   */
+  onModuleInit(): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    // 同一注册表中只保留一份（重复初始化时替换旧指标）
+    METRIC_NAMES.forEach((name) => this.registry.removeSingleMetric(name));
+
+    const metrics = this.metricsService;
+    const quotaOf = (tenantId: string) => this.getCachedQuota(tenantId);
+
+    new Gauge({
+      name: "hl8_cache_tenant_bytes",
+      help: "租户缓存字节数（近似值）",
+      labelNames: ["tenant_id"],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [tenantId, usage] of metrics.getTenantUsage()) {
+          this.set({ tenant_id: tenantId }, usage.bytes);
+        }
+      },
+    });
+    new Gauge({
+      name: "hl8_cache_tenant_keys",
+      help: "租户缓存键数量（近似值）",
+      labelNames: ["tenant_id"],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [tenantId, usage] of metrics.getTenantUsage()) {
+          this.set({ tenant_id: tenantId }, usage.keys);
+        }
+      },
+    });
+    new Gauge({
+      name: "hl8_cache_organization_bytes",
+      help: "组织缓存字节数（近似值）",
+      labelNames: ["tenant_id", "organization_id"],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [tenantId, usage] of metrics.getTenantUsage()) {
+          for (const [orgId, org] of Object.entries(usage.organizations)) {
+            this.set(
+              { tenant_id: tenantId, organization_id: orgId },
+              org.bytes,
+            );
+          }
+        }
+      },
+    });
+    new Gauge({
+      name: "hl8_cache_tenant_quota_bytes",
+      help: "租户缓存字节配额",
+      labelNames: ["tenant_id"],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const tenantId of metrics.getTenantUsage().keys()) {
+          const maxBytes = quotaOf(tenantId)?.maxBytes;
+          if (maxBytes !== undefined) {
+            this.set({ tenant_id: tenantId }, maxBytes);
+          }
+        }
+      },
+    });
+    this.exceededCounter = new Counter({
+      name: "hl8_cache_quota_exceeded_total",
+      help: "租户缓存超限次数",
+      labelNames: ["tenant_id", "policy"],
+      registers: [this.registry],
+    });
+  }
+
+  /**
+   * 模块销毁钩子
+   *
+   * @description 从注册表移除指标，便于重新初始化
+   */
+  onModuleDestroy(): void {
+    if (!this.enabled) {
+      return;
+    }
+    METRIC_NAMES.forEach((name) => this.registry.removeSingleMetric(name));
+    this.exceededCounter = null;
+  }
+
+  /**
+   * 是否启用配额
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * 写入前检查配额
+   *
+   * @param context - 隔离上下文
+   * @param fullKey - 完整缓存键
+   * @param bytes - 负载字节数
+   * @param ttl - 请求的 TTL（秒），0 表示永不过期
+   * @returns 实际使用的 TTL（秒）
+   * @throws {CacheQuotaExceededException} 超出配额且无法通过淘汰容纳
+   */
+  async admit(
+    context: IsolationContext,
+    fullKey: string,
+    bytes: number,
+    ttl: number,
+  ): Promise<number> {
+    if (!this.enabled || !context.tenantId) {
+      return ttl;
+    }
+
+    const tenantId = context.tenantId.getValue();
+    const quota = await this.resolveQuota(tenantId);
+    if (
+      !quota ||
+      (quota.maxBytes === undefined && quota.maxKeys === undefined)
+    ) {
+      return ttl;
+    }
+
+    let excess = await this.measureExcess(tenantId, quota, fullKey, bytes);
+    if (excess.bytes <= 0 && excess.keys <= 0) {
+      return ttl;
+    }
+
+    // 统计中可能包含已过期的键，清理后再判断
+    await this.reconcile(tenantId);
+    excess = await this.measureExcess(tenantId, quota, fullKey, bytes);
+    if (excess.bytes <= 0 && excess.keys <= 0) {
+      return ttl;
+    }
+
+    const policy: CacheQuotaPolicy =
+      quota.policy ?? this.options.policy ?? "reject";
+    this.metricsService.recordQuotaExceeded(tenantId, policy);
+    this.exceededCounter?.inc({ tenant_id: tenantId, policy });
+
+    switch (policy) {
+      case "shorten-ttl": {
+        const shortened = quota.shortenedTtl ?? this.options.shortenedTtl ?? 60;
+        return ttl > 0 ? Math.min(ttl, shortened) : shortened;
+      }
+      case "evict-oldest":
+        if (await this.evictOldest(tenantId, fullKey, excess)) {
+          return ttl;
+        }
+        throw new CacheQuotaExceededException(
+          tenantId,
+          `租户 ${tenantId} 的缓存配额不足以容纳该值（${bytes} 字节）`,
+        );
+      default:
+        throw new CacheQuotaExceededException(
+          tenantId,
+          `租户 ${tenantId} 的缓存用量超出配额`,
+        );
+    }
+  }
+
+  /**
+   * 记录写入
+   *
+   * @description 统计失败只记录日志，不影响写入结果
+   *
+   * @param context - 隔离上下文
+   * @param fullKey - 完整缓存键
+   * @param bytes - 负载字节数
+   */
+  async recordWrite(
+    context: IsolationContext,
+    fullKey: string,
+    bytes: number,
+  ): Promise<void> {
+    if (!this.enabled || !context.tenantId) {
+      return;
+    }
+
+    const tenantId = context.tenantId.getValue();
+    const keys = this.buildQuotaKeys(tenantId);
+    try {
+      const result = await this.redisService
+        .getClient()
+        .eval(
+          RECORD_WRITE_SCRIPT,
+          3,
+          keys.keys,
+          keys.sizes,
+          keys.usage,
+          fullKey,
+          bytes,
+          context.organizationId?.getValue() ?? "",
+          Date.now(),
+        );
+      this.metricsService.recordTenantUsage(
+        tenantId,
+        this.parseUsage(result as string[]),
+      );
+    } catch (error) {
+      this.logger.error(`记录租户缓存用量失败: ${tenantId}`, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  }
+
+  /**
+   * 记录删除
+   *
+   * @description 统计失败只记录日志，不影响删除结果
+   *
+   * @param context - 隔离上下文
+   * @param fullKeys - 已删除的完整缓存键
+   */
+  async recordDelete(
+    context: IsolationContext,
+    fullKeys: string[],
+  ): Promise<void> {
+    if (!this.enabled || !context.tenantId || fullKeys.length === 0) {
+      return;
+    }
+
+    const tenantId = context.tenantId.getValue();
+    try {
+      await this.recordDeleteForTenant(tenantId, fullKeys);
+    } catch (error) {
+      this.logger.error(`记录租户缓存用量失败: ${tenantId}`, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  }
+
+  /**
+   * 获取租户用量
+   *
+   * @param tenantId - 租户 ID
+   * @returns 用量
+   *
+   * @example
+   * ```typescript
+   * const usage = await quotaService.getUsage('tenant-123');
+   * console.log(`${usage.bytes} 字节, ${usage.keys} 个键`);
+   * ```
+   */
+  async getUsage(tenantId: string): Promise<TenantCacheUsage> {
+    const result = await this.redisService
+      .getClient()
+      .hgetall(this.buildQuotaKeys(tenantId).usage);
+    const usage = this.parseUsage(
+      Object.entries(result).flatMap(([field, value]) => [field, value]),
+    );
+    this.metricsService.recordTenantUsage(tenantId, usage);
+    return usage;
+  }
+
+  /**
+   * 清理已不存在的键
+   *
+   * @description 扣除已过期或被其他方式删除的键的用量
+   *
+   * @param tenantId - 租户 ID
+   * @returns 清理后的用量
+   */
+  async reconcile(tenantId: string): Promise<TenantCacheUsage> {
+    const redis = this.redisService.getClient();
+    const keys = this.buildQuotaKeys(tenantId);
+    const missing: string[] = [];
+
+    for (let start = 0; ; start += BATCH_SIZE) {
+      const batch = await redis.zrange(
+        keys.keys,
+        start,
+        start + BATCH_SIZE - 1,
+      );
+      if (batch.length === 0) {
+        break;
+      }
+      const exists = await Promise.all(batch.map((key) => redis.exists(key)));
+      batch.forEach((key, i) => {
+        if (exists[i] === 0) {
+          missing.push(key);
+        }
+      });
+    }
+
+    if (missing.length > 0) {
+      this.logger.debug(
+        `清理租户 ${tenantId} 的 ${missing.length} 个过期键统计`,
+      );
+      return this.recordDeleteForTenant(tenantId, missing);
+    }
+    return this.getUsage(tenantId);
+  }
+
+  /**
+   * 淘汰租户最早写入的键
+   *
+   * @param tenantId - 租户 ID
+   * @param fullKey - 正在写入的键（不淘汰）
+   * @param excess - 需要释放的字节数和键数量
+   * @returns 是否释放了足够的空间
+   * @private
+   */
+  private async evictOldest(
+    tenantId: string,
+    fullKey: string,
+    excess: { bytes: number; keys: number },
+  ): Promise<boolean> {
+    const redis = this.redisService.getClient();
+    const keys = this.buildQuotaKeys(tenantId);
+    let freedBytes = 0;
+    let freedKeys = 0;
+    let offset = 0;
+
+    while (freedBytes < excess.bytes || freedKeys < excess.keys) {
+      const batch = await redis.zrange(
+        keys.keys,
+        offset,
+        offset + BATCH_SIZE - 1,
+      );
+      if (batch.length === 0) {
+        break;
+      }
+
+      const entries = await redis.hmget(keys.sizes, ...batch);
+      const victims: string[] = [];
+      batch.forEach((key, i) => {
+        if (key === fullKey) {
+          // 跳过正在写入的键，下一批从其后开始
+          offset++;
+          return;
+        }
+        if (freedBytes >= excess.bytes && freedKeys >= excess.keys) {
+          return;
+        }
+        victims.push(key);
+        freedBytes += Number.parseInt(entries[i] ?? "0", 10) || 0;
+        freedKeys++;
+      });
+
+      if (victims.length === 0) {
+        break;
+      }
+
+      await redis.del(...victims);
+      await this.recordDeleteForTenant(tenantId, victims);
+      await this.localCache?.invalidateKeys(victims);
+      this.logger.warn(
+        `租户 ${tenantId} 缓存超限，淘汰 ${victims.length} 个最早写入的键`,
+      );
+    }
+
+    return freedBytes >= excess.bytes && freedKeys >= excess.keys;
+  }
+
+  /**
+   * 计算写入后超出配额的字节数和键数量
+   *
+   * @private
+   */
+  private async measureExcess(
+    tenantId: string,
+    quota: TenantCacheQuota,
+    fullKey: string,
+    bytes: number,
+  ): Promise<{ bytes: number; keys: number }> {
+    const redis = this.redisService.getClient();
+    const keys = this.buildQuotaKeys(tenantId);
+    const [[usedBytes, usedKeys], previous] = await Promise.all([
+      redis.hmget(keys.usage, "bytes", "keys"),
+      redis.hget(keys.sizes, fullKey),
+    ]);
+
+    const previousBytes = previous ? Number.parseInt(previous, 10) || 0 : 0;
+    const projectedBytes = (Number(usedBytes) || 0) - previousBytes + bytes;
+    const projectedKeys = (Number(usedKeys) || 0) + (previous ? 0 : 1);
+
+    return {
+      bytes: quota.maxBytes === undefined ? 0 : projectedBytes - quota.maxBytes,
+      keys: quota.maxKeys === undefined ? 0 : projectedKeys - quota.maxKeys,
+    };
+  }
+
+  /**
+   * 查找租户配额
+   *
+   * @private
+   */
+  private async resolveQuota(
+    tenantId: string,
+  ): Promise<TenantCacheQuota | undefined> {
+    const now = Date.now();
+    let cached = this.tenantTypes.get(tenantId);
+
+    if (!cached || cached.expiresAt <= now) {
+      let type: string | undefined;
+      try {
+        type = await this.options.resolveTenantType?.(tenantId);
+      } catch (error) {
+        this.logger.error(`解析租户类型失败: ${tenantId}`, undefined, {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      }
+      cached = {
+        type: type ?? this.options.defaultTenantType,
+        expiresAt: now + TENANT_TYPE_CACHE_TTL,
+      };
+      this.tenantTypes.set(tenantId, cached);
+    }
+
+    return this.getCachedQuota(tenantId);
+  }
+
+  /**
+   * 按已缓存的租户类型查找配额（不触发解析）
+   *
+   * @private
+   */
+  private getCachedQuota(tenantId: string): TenantCacheQuota | undefined {
+    const type = this.tenantTypes.get(tenantId)?.type;
+    return type === undefined ? undefined : this.options.quotas?.[type];
+  }
+
+  private async recordDeleteForTenant(
+    tenantId: string,
+    fullKeys: string[],
+  ): Promise<TenantCacheUsage> {
+    const keys = this.buildQuotaKeys(tenantId);
+    let result: string[] = [];
+
+    for (let i = 0; i < fullKeys.length; i += BATCH_SIZE) {
+      result = (await this.redisService
+        .getClient()
+        .eval(
+          RECORD_DELETE_SCRIPT,
+          3,
+          keys.keys,
+          keys.sizes,
+          keys.usage,
+          ...fullKeys.slice(i, i + BATCH_SIZE),
+        )) as string[];
+    }
+
+    const usage = this.parseUsage(result);
+    this.metricsService.recordTenantUsage(tenantId, usage);
+    return usage;
+  }
+
+  /**
+   * 解析 HGETALL 返回的汇总用量
+   *
+   * @private
+   */
+  private parseUsage(fields: string[]): TenantCacheUsage {
+    const usage: TenantCacheUsage = { bytes: 0, keys: 0, organizations: {} };
+
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const field = fields[i]!;
+      const value = Number(fields[i + 1]) || 0;
+
+      if (field === "bytes" || field === "keys") {
+        usage[field] = value;
+        continue;
+      }
+
+      const match = /^org:(.*):(bytes|keys)$/.exec(field);
+      if (match) {
+        const org = (usage.organizations[match[1]!] ??= { bytes: 0, keys: 0 });
+        org[match[2] as "bytes" | "keys"] = value;
+      }
+    }
+
+    return usage;
+  }
+
+  private buildQuotaKeys(tenantId: string): QuotaKeys {
+    const base = `${this.keyPrefix}tenant:${tenantId}${QUOTA_SEGMENT}`;
+    return {
+      keys: `${base}keys`,
+      sizes: `${base}sizes`,
+      usage: `${base}usage`,
+    };
+  }
+}
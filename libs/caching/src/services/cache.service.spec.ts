@@ -6,15 +6,21 @@
  * @group services
  */
 
-import { IsolationContext, TenantId } from "@hl8/isolation-model";
+import {
+  IsolationContext,
+  OrganizationId,
+  TenantId,
+} from "@hl8/isolation-model";
 import { Test, TestingModule } from "@nestjs/testing";
 import { ClsService } from "nestjs-cls";
 import { CACHE_OPTIONS, CacheService } from "./cache.service.js";
+import { LocalCacheService } from "./local-cache.service.js";
 import { RedisService } from "./redis.service.js";
 
 // 创建 mock 对象的工厂函数
 const createMockRedisClient = () => ({
-  get: () => Promise.resolve(null),
+  getBuffer: () => Promise.resolve(null),
+  pttl: () => Promise.resolve(-1),
   set: () => Promise.resolve("OK"),
   setex: () => Promise.resolve("OK"),
   del: () => Promise.resolve(0),
@@ -80,7 +86,7 @@ describe("CacheService", () => {
   describe("get()", () => {
     it("应该在缓存不存在时返回 undefined", async () => {
       mockClsService.get = () => IsolationContext.platform();
-      mockRedisClient.get = () => Promise.resolve(null);
+      mockRedisClient.getBuffer = () => Promise.resolve(null);
 
       const result = await service.get("user", "list");
 
@@ -90,7 +96,8 @@ describe("CacheService", () => {
     it("应该返回反序列化的值", async () => {
       mockClsService.get = () => IsolationContext.platform();
       const testValue = { id: "u999", name: "张三" };
-      mockRedisClient.get = () => Promise.resolve(JSON.stringify(testValue));
+      mockRedisClient.getBuffer = () =>
+        Promise.resolve(Buffer.from(JSON.stringify(testValue)));
 
       const result = await service.get("user", "profile");
 
@@ -99,7 +106,8 @@ describe("CacheService", () => {
 
     it("应该在发生错误时返回 undefined", async () => {
       mockClsService.get = () => IsolationContext.platform();
-      mockRedisClient.get = () => Promise.reject(new Error("Redis error"));
+      mockRedisClient.getBuffer = () =>
+        Promise.reject(new Error("Redis error"));
 
       const result = await service.get("user", "list");
 
@@ -191,9 +199,9 @@ describe("CacheService", () => {
       mockClsService.get = () => context;
 
       let capturedKey: string | undefined;
-      mockRedisClient.get = (key: string) => {
+      mockRedisClient.getBuffer = (key: string) => {
         capturedKey = key;
-        return Promise.resolve(JSON.stringify({ test: "value" }));
+        return Promise.resolve(Buffer.from(JSON.stringify({ test: "value" })));
       };
 
       await service.get("user", "list");
@@ -203,4 +211,378 @@ describe("CacheService", () => {
       expect(capturedKey).toContain(UUID_TENANT);
     });
   });
+
+  describe("本地缓存（L1）", () => {
+    let localCache: LocalCacheService;
+    let published: string[];
+    let onMessage: (channel: string, message: string) => void;
+
+    beforeEach(async () => {
+      published = [];
+      mockRedisClient.publish = (_channel: string, message: string) => {
+        published.push(message);
+        return Promise.resolve(0);
+      };
+      mockRedisClient.duplicate = () => ({
+        on: (_event: string, listener: typeof onMessage) => {
+          onMessage = listener;
+        },
+        subscribe: () => Promise.resolve(1),
+        quit: () => Promise.resolve("OK"),
+      });
+
+      localCache = new LocalCacheService(mockRedisService, { enabled: true });
+      await localCache.onModuleInit();
+      service = new CacheService(
+        mockRedisService,
+        mockClsService,
+        testOptions,
+        localCache,
+      );
+    });
+
+    it("应该在 L1 命中时不访问 Redis", async () => {
+      let redisGets = 0;
+      mockRedisClient.getBuffer = () => {
+        redisGets++;
+        return Promise.resolve(Buffer.from(JSON.stringify({ id: "u1" })));
+      };
+
+      await service.get("user", "u1");
+      const result = await service.get("user", "u1");
+
+      expect(result).toEqual({ id: "u1" });
+      expect(redisGets).toBe(1);
+    });
+
+    it("读取 Redis 期间收到失效消息时不应该回填 L1", async () => {
+      let redisGets = 0;
+      mockRedisClient.getBuffer = (key: string) => {
+        redisGets++;
+        // 其他实例在本次读取返回前更新并广播失效
+        onMessage(
+          "hl8:cache:__invalidation",
+          JSON.stringify({
+            origin: "other-pod",
+            type: "key",
+            namespace: "user",
+            value: key,
+          }),
+        );
+        return Promise.resolve(Buffer.from(JSON.stringify({ id: "old" })));
+      };
+
+      await service.get("user", "u1");
+      await service.get("user", "u1");
+
+      expect(redisGets).toBe(2);
+    });
+
+    it("L1 副本不应该晚于 Redis 条目过期", async () => {
+      let redisGets = 0;
+      mockRedisClient.getBuffer = () => {
+        redisGets++;
+        return Promise.resolve(Buffer.from(JSON.stringify({ id: "u1" })));
+      };
+      mockRedisClient.pttl = () => Promise.resolve(20);
+
+      await service.get("user", "u1");
+      await service.get("user", "u1");
+      expect(redisGets).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      await service.get("user", "u1");
+      expect(redisGets).toBe(2);
+    });
+
+    it("应该在删除时失效 L1 并广播消息", async () => {
+      await service.set("user", "u1", { id: "u1" });
+      await service.del("user", "u1");
+
+      let redisGets = 0;
+      mockRedisClient.getBuffer = () => {
+        redisGets++;
+        return Promise.resolve(null);
+      };
+
+      expect(await service.get("user", "u1")).toBeUndefined();
+      expect(redisGets).toBe(1);
+      expect(published.map((m) => JSON.parse(m).type)).toEqual(["key", "key"]);
+    });
+
+    it("应该在清除租户缓存时广播前缀失效", async () => {
+      await service.clearTenantCache("t1");
+
+      expect(JSON.parse(published[0]!)).toMatchObject({
+        type: "prefix",
+        value: "hl8:cache:tenant:t1:",
+      });
+    });
+  });
+
+  describe("getOrSet()", () => {
+    let store: Map<string, string | Buffer>;
+
+    /** 读取写入的负载（去掉格式头字节） */
+    const readStored = (key: string) =>
+      JSON.parse((store.get(key) as Buffer).subarray(1).toString());
+
+    beforeEach(() => {
+      store = new Map();
+      mockRedisClient.getBuffer = (key: string) => {
+        const value = store.get(key);
+        return Promise.resolve(
+          value === undefined ? null : Buffer.from(value as string),
+        );
+      };
+      mockRedisClient.setex = (key: string, _ttl: number, value: Buffer) => {
+        store.set(key, value);
+        return Promise.resolve("OK");
+      };
+      mockRedisClient.set = (key: string, value: string, ...args: any[]) => {
+        if (args.includes("NX") && store.has(key)) {
+          return Promise.resolve(null);
+        }
+        store.set(key, value);
+        return Promise.resolve("OK");
+      };
+      mockRedisClient.eval = (
+        _script: string,
+        _n: number,
+        key: string,
+        token: string,
+      ) => {
+        if (store.get(key) === token) {
+          store.delete(key);
+          return Promise.resolve(1);
+        }
+        return Promise.resolve(0);
+      };
+    });
+
+    it("应该在命中时不调用加载函数", async () => {
+      store.set("hl8:cache:platform:user:u1", JSON.stringify({ id: "u1" }));
+      let loaderCalled = false;
+      const loader = () => {
+        loaderCalled = true;
+        return Promise.resolve({ id: "loaded" });
+      };
+
+      const result = await service.getOrSet("user", "u1", loader);
+
+      expect(result).toEqual({ id: "u1" });
+      expect(loaderCalled).toBe(false);
+    });
+
+    it("应该合并并发的未命中加载", async () => {
+      let calls = 0;
+      const loader = () => {
+        calls++;
+        return new Promise<string>((resolve) =>
+          setTimeout(() => resolve("value"), 10),
+        );
+      };
+
+      const results = await Promise.all([
+        service.getOrSet("user", "u1", loader),
+        service.getOrSet("user", "u1", loader),
+        service.getOrSet("user", "u1", loader),
+      ]);
+
+      expect(results).toEqual(["value", "value", "value"]);
+      expect(calls).toBe(1);
+      expect(readStored("hl8:cache:platform:user:u1")).toBe("value");
+    });
+
+    it("默认不缓存 null 值", async () => {
+      const result = await service.getOrSet("user", "u1", () =>
+        Promise.resolve(null),
+      );
+
+      expect(result).toBeNull();
+      expect(store.size).toBe(0);
+    });
+
+    it("应该在加载失败时抛出异常且不写缓存", async () => {
+      await expect(
+        service.getOrSet("user", "u1", () =>
+          Promise.reject(new Error("db down")),
+        ),
+      ).rejects.toThrow("db down");
+      expect(store.size).toBe(0);
+    });
+
+    it("锁模式下应获取并释放分布式锁", async () => {
+      const result = await service.getOrSet(
+        "user",
+        "u1",
+        () => Promise.resolve("value"),
+        { lock: true },
+      );
+
+      expect(result).toBe("value");
+      expect(store.has("hl8:cache:platform:user:u1:__lock")).toBe(false);
+    });
+
+    it("锁被占用时应等待其他实例写入结果", async () => {
+      store.set("hl8:cache:platform:user:u1:__lock", "other-pod");
+      setTimeout(() => store.set("hl8:cache:platform:user:u1", '"remote"'), 20);
+      let loaderCalled = false;
+      const loader = () => {
+        loaderCalled = true;
+        return Promise.resolve("local");
+      };
+
+      const result = await service.getOrSet("user", "u1", loader, {
+        lock: { retryInterval: 5, waitTimeout: 1000 },
+      });
+
+      expect(result).toBe("remote");
+      expect(loaderCalled).toBe(false);
+    });
+
+    it("应该在逻辑过期后返回旧值并后台刷新", async () => {
+      store.set(
+        "hl8:cache:platform:user:u1",
+        JSON.stringify({ __hl8: "swr", v: "stale", e: Date.now() - 1, d: 5 }),
+      );
+      let loaderCalls = 0;
+      const loader = () => {
+        loaderCalls++;
+        return Promise.resolve("fresh");
+      };
+
+      const result = await service.getOrSet("user", "u1", loader, {
+        ttl: 60,
+        staleWhileRevalidate: 30,
+      });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(result).toBe("stale");
+      expect(loaderCalls).toBe(1);
+      expect(await service.get("user", "u1")).toBe("fresh");
+    });
+
+    it("get() 应该解包 getOrSet 写入的信封", async () => {
+      await service.getOrSet("user", "u1", () => Promise.resolve({ a: 1 }), {
+        ttl: 60,
+        earlyRefresh: true,
+      });
+
+      expect(readStored("hl8:cache:platform:user:u1")).toHaveProperty(
+        "__hl8",
+        "swr",
+      );
+      expect(await service.get("user", "u1")).toEqual({ a: 1 });
+    });
+  });
+
+  describe("标签失效", () => {
+    let store: Map<string, string>;
+    let sets: Map<string, Set<string>>;
+
+    beforeEach(() => {
+      store = new Map();
+      sets = new Map();
+      mockRedisClient.setex = (key: string, _ttl: number, value: string) => {
+        store.set(key, value);
+        return Promise.resolve("OK");
+      };
+      mockRedisClient.eval = (
+        _script: string,
+        _n: number,
+        tagKey: string,
+        member: string,
+      ) => {
+        const members = sets.get(tagKey) ?? new Set<string>();
+        members.add(member);
+        sets.set(tagKey, members);
+        return Promise.resolve(1);
+      };
+      mockRedisClient.smembers = (tagKey: string) =>
+        Promise.resolve([...(sets.get(tagKey) ?? [])]);
+      mockRedisClient.del = (...keys: string[]) => {
+        let count = 0;
+        keys.forEach((key) => {
+          if (store.delete(key) || sets.delete(key)) {
+            count++;
+          }
+        });
+        return Promise.resolve(count);
+      };
+    });
+
+    const tenantContext = (tenantId: string) =>
+      IsolationContext.tenant(TenantId.create(tenantId));
+
+    const T1 = "550e8400-e29b-41d4-a716-446655440000";
+    const T2 = "123e4567-e89b-42d3-a456-426614174000";
+
+    it("应该删除带有标签的所有条目", async () => {
+      mockClsService.get = () => tenantContext(T1);
+      await service.set("order", "o1", { id: "o1" }, 60, ["user:42"]);
+      await service.set("order", "o2", { id: "o2" }, 60, ["user:42"]);
+      await service.set("order", "o3", { id: "o3" }, 60, ["user:7"]);
+
+      const deleted = await service.invalidateTags(["user:42"]);
+
+      expect(deleted).toBe(2);
+      expect([...store.keys()]).toEqual([`hl8:cache:tenant:${T1}:order:o3`]);
+    });
+
+    it("标签应该按租户隔离", async () => {
+      mockClsService.get = () => tenantContext(T1);
+      await service.set("order", "o1", { id: "o1" }, 60, ["user:42"]);
+
+      mockClsService.get = () => tenantContext(T2);
+      await service.set("order", "o1", { id: "o1" }, 60, ["user:42"]);
+      const deleted = await service.invalidateTags(["user:42"]);
+
+      expect(deleted).toBe(1);
+      expect(store.has(`hl8:cache:tenant:${T1}:order:o1`)).toBe(true);
+      expect(store.has(`hl8:cache:tenant:${T2}:order:o1`)).toBe(false);
+    });
+
+    it("标签应该与值键使用相同的组织范围", async () => {
+      const ORG_A = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+      const ORG_B = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+      const orgContext = (organizationId: string) =>
+        IsolationContext.organization(
+          TenantId.create(T1),
+          OrganizationId.create(organizationId),
+        );
+
+      mockClsService.get = () => orgContext(ORG_A);
+      await service.set("order", "o1", { id: "o1" }, 60, ["user:42"]);
+      mockClsService.get = () => orgContext(ORG_B);
+      await service.set("order", "o1", { id: "o1" }, 60, ["user:42"]);
+      mockClsService.get = () => tenantContext(T1);
+      await service.set("order", "o1", { id: "o1" }, 60, ["user:42"]);
+
+      mockClsService.get = () => orgContext(ORG_B);
+      const deleted = await service.invalidateTags(["user:42"]);
+
+      expect(deleted).toBe(1);
+      expect(
+        sets.has(`hl8:cache:tenant:${T1}:org:${ORG_B}:__tag:user:42`),
+      ).toBe(false);
+      expect([...store.keys()]).toEqual([
+        `hl8:cache:tenant:${T1}:org:${ORG_A}:order:o1`,
+        `hl8:cache:tenant:${T1}:order:o1`,
+      ]);
+    });
+
+    it("getOrSet 应该登记标签", async () => {
+      mockRedisClient.getBuffer = () => Promise.resolve(null);
+      mockClsService.get = () => tenantContext(T1);
+
+      await service.getOrSet("order", "o1", () => Promise.resolve("v"), {
+        tags: ["user:42"],
+      });
+
+      expect(sets.get(`hl8:cache:tenant:${T1}:__tag:user:42`)).toEqual(
+        new Set([`hl8:cache:tenant:${T1}:order:o1`]),
+      );
+    });
+  });
 });
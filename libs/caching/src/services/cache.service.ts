@@ -20,14 +20,43 @@
  * - 分批删除（每批 100 个）
  * - 返回删除数量
  *
+ * ### 序列化
+ * - 使用可插拔序列化器（默认 JSON，带类型还原），可按命名空间覆盖
+ * - 负载首字节记录格式，旧格式与新格式可同时读取
+ *
+ * ### 两级缓存
+ * - 启用本地缓存时，先查进程内 L1，未命中再查 Redis（L2）
+ * - 写入和删除会通过 pub/sub 通知其他实例失效 L1 副本
+ *
+ * ### 标签失效
+ * - 写入时可指定标签，标签到键的映射保存在 Redis 集合中
+ * - invalidateTags() 按标签批量删除，标签与值键使用相同的隔离范围（租户/组织/部门/用户）
+ *
+ * ### 防缓存击穿
+ * - getOrSet() 合并并发加载，可选分布式锁、提前刷新和过期旧值返回
+ *
+ * ### 租户配额
+ * - 启用配额时，写入前检查租户用量，超限时按策略拒绝、淘汰或缩短 TTL
+ * - 写入和删除同步更新租户用量统计
+ *
  * @since 1.0.0
  */
 
 import { IsolationContext } from "@hl8/isolation-model";
-import { Inject, Injectable, Logger } from "@nestjs/common";
+import { Inject, Injectable, Logger, Optional } from "@nestjs/common";
 import { ClsService } from "nestjs-cls";
+import { randomUUID } from "node:crypto";
 import { CacheEntry } from "../domain/value-objects/cache-entry.vo.js";
 import { CacheKey } from "../domain/value-objects/cache-key.vo.js";
+import { CachePayloadCodec } from "../serializers/cache-payload.codec.js";
+import type { CacheSerializer } from "../serializers/cache-serializer.interface.js";
+import { JsonCacheSerializer } from "../serializers/json.serializer.js";
+import { MsgpackCacheSerializer } from "../serializers/msgpack.serializer.js";
+import type { GetOrSetOptions } from "../types/get-or-set-options.interface.js";
+import type { CacheSerializationOptions } from "../types/serialization-options.interface.js";
+import { shouldRefreshEarly } from "../utils/early-refresh.util.js";
+import { CacheQuotaService } from "./cache-quota.service.js";
+import { LocalCacheService } from "./local-cache.service.js";
 import { RedisService } from "./redis.service.js";
 
 export const CACHE_OPTIONS = "CACHE_OPTIONS";
@@ -35,6 +64,63 @@ export const CACHE_OPTIONS = "CACHE_OPTIONS";
 interface CacheServiceOptions {
   ttl?: number;
   keyPrefix?: string;
+  serialization?: CacheSerializationOptions;
+}
+
+/** getOrSet 信封标记 */
+const ENVELOPE_MARKER = "swr";
+
+/** 分布式锁键后缀 */
+const LOCK_SUFFIX = ":__lock";
+
+/** 仅当锁仍由自己持有时才删除 */
+const RELEASE_LOCK_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+else
+  return 0
+end`;
+
+/** 标签集合键片段 */
+const TAG_NAMESPACE = "__tag";
+
+/**
+ * 登记标签：SADD 并只延长集合的过期时间
+ *
+ * ARGV[2] <= 0 表示条目永不过期，此时集合也永不过期
+ */
+const REGISTER_TAG_SCRIPT = `local existed = redis.call("EXISTS", KEYS[1])
+redis.call("SADD", KEYS[1], ARGV[1])
+local ttl = tonumber(ARGV[2])
+if ttl <= 0 then
+  redis.call("PERSIST", KEYS[1])
+  return 1
+end
+local current = redis.call("TTL", KEYS[1])
+if existed == 0 or (current >= 0 and current < ttl) then
+  redis.call("EXPIRE", KEYS[1], ttl)
+end
+return 1`;
+
+/**
+ * 带逻辑过期元数据的缓存信封
+ *
+ * @description Redis TTL = ttl + staleWhileRevalidate，逻辑过期时间 e 之后的值为旧值
+ */
+interface CacheEnvelope<T> {
+  __hl8: typeof ENVELOPE_MARKER;
+  /** 值 */
+  v: T;
+  /** 逻辑过期时间戳（毫秒） */
+  e: number;
+  /** 上次加载耗时（毫秒） */
+  d: number;
+}
+
+interface UnwrappedValue<T> {
+  value: T;
+  /** 逻辑过期时间戳（毫秒），0 表示不逻辑过期 */
+  expiresAt: number;
+  delta: number;
 }
 
 @Injectable()
@@ -42,12 +128,22 @@ export class CacheService {
   private readonly logger = new Logger(CacheService.name);
   private readonly defaultTTL: number;
   private readonly keyPrefix: string;
+  private readonly inflight = new Map<string, Promise<unknown>>();
+  private readonly codecs = new Map<string, CachePayloadCodec>();
+  private readonly defaultSerializers: [CacheSerializer, CacheSerializer] = [
+    new JsonCacheSerializer(),
+    new MsgpackCacheSerializer(),
+  ];
 
   constructor(
     private readonly redisService: RedisService,
     private readonly cls: ClsService,
     @Inject(CACHE_OPTIONS)
     private readonly options: CacheServiceOptions,
+    @Optional()
+    private readonly localCache?: LocalCacheService,
+    @Optional()
+    private readonly quota?: CacheQuotaService,
   ) {
     this.defaultTTL = options.ttl ?? 3600;
     this.keyPrefix = options.keyPrefix ?? "hl8:cache:";
@@ -70,16 +166,13 @@ export class CacheService {
   async get<T>(namespace: string, key: string): Promise<T | undefined> {
     try {
       const cacheKey = this.buildKey(namespace, key);
-      const redis = this.redisService.getClient();
+      const value = await this.readRaw(namespace, cacheKey);
 
-      const value = await redis.get(cacheKey.toString());
-
-      if (!value) {
+      if (value === undefined) {
         return undefined;
       }
 
-      // 反序列化
-      return JSON.parse(value) as T;
+      return this.unwrap<T>(this.getCodec(namespace).decode(value)).value;
     } catch (error) {
       this.logger.error(`获取缓存失败: ${namespace}:${key}`, undefined, {
         error: error instanceof Error ? error.message : String(error),
@@ -98,10 +191,12 @@ export class CacheService {
    * @param key - 缓存键名
    * @param value - 缓存值
    * @param ttl - TTL（秒），不传则使用默认值
+   * @param tags - 标签列表，可通过 invalidateTags() 批量失效
    *
    * @example
    * ```typescript
    * await cacheService.set('user', 'list', users, 1800);
+   * await cacheService.set('order', id, order, 600, [`user:${order.userId}`]);
    * ```
    */
   async set<T>(
@@ -109,26 +204,17 @@ export class CacheService {
     key: string,
     value: T,
     ttl?: number,
+    tags?: string[],
   ): Promise<void> {
     try {
       const cacheKey = this.buildKey(namespace, key);
-      const entry = CacheEntry.create(
+      await this.writeRaw(
+        namespace,
         cacheKey,
         value,
         ttl ?? this.defaultTTL,
-        this.logger,
+        tags,
       );
-
-      const redis = this.redisService.getClient();
-      const serializedValue = entry.getSerializedValue();
-      const effectiveTTL = entry.getTTL();
-
-      if (effectiveTTL > 0) {
-        await redis.setex(cacheKey.toString(), effectiveTTL, serializedValue);
-      } else {
-        // TTL 为 0，永不过期
-        await redis.set(cacheKey.toString(), serializedValue);
-      }
     } catch (error) {
       this.logger.error(`设置缓存失败: ${namespace}:${key}`, undefined, {
         error: error instanceof Error ? error.message : String(error),
@@ -138,6 +224,67 @@ export class CacheService {
     }
   }
 
+  /**
+   * 获取缓存，未命中时加载并写入
+   *
+   * @description 防缓存击穿的读取方式
+   *
+   * ## 业务规则
+   *
+   * - 同一进程内同一键的并发加载合并为一次（single-flight）
+   * - `lock` 启用时，跨实例只有获得锁的实例执行加载，其余实例轮询结果
+   * - `earlyRefresh` 启用时，过期前按概率在后台提前刷新
+   * - `staleWhileRevalidate` 启用时，过期后的窗口期内返回旧值并后台刷新
+   * - 读取 Redis 失败视为未命中；加载函数的异常直接抛出
+   *
+   * @param namespace - 命名空间
+   * @param key - 缓存键名
+   * @param loader - 加载函数
+   * @param opts - 选项
+   * @returns 缓存值或加载结果
+   *
+   * @example
+   * ```typescript
+   * const config = await cacheService.getOrSet(
+   *   'tenant-config',
+   *   tenantId,
+   *   () => this.repository.loadConfig(tenantId),
+   *   { ttl: 300, lock: true, staleWhileRevalidate: 60 },
+   * );
+   * ```
+   */
+  async getOrSet<T>(
+    namespace: string,
+    key: string,
+    loader: () => Promise<T>,
+    opts: GetOrSetOptions = {},
+  ): Promise<T> {
+    const cacheKey = this.buildKey(namespace, key);
+    const cached = await this.readEnvelope<T>(namespace, cacheKey);
+
+    if (cached) {
+      const now = Date.now();
+      const fresh = cached.expiresAt === 0 || now < cached.expiresAt;
+
+      if (fresh) {
+        const beta = this.resolveEarlyRefreshBeta(opts);
+        if (
+          beta !== undefined &&
+          shouldRefreshEarly(cached.expiresAt, cached.delta, beta, now)
+        ) {
+          this.refreshInBackground(namespace, cacheKey, loader, opts);
+        }
+        return cached.value;
+      }
+
+      // 已逻辑过期但仍在 stale-while-revalidate 窗口内
+      this.refreshInBackground(namespace, cacheKey, loader, opts);
+      return cached.value;
+    }
+
+    return this.loadSingleFlight(namespace, cacheKey, loader, opts);
+  }
+
   /**
    * 删除缓存
    *
@@ -151,6 +298,12 @@ export class CacheService {
       const redis = this.redisService.getClient();
 
       const result = await redis.del(cacheKey.toString());
+      await this.localCache?.invalidateKey(namespace, cacheKey.toString());
+      if (result > 0) {
+        await this.quota?.recordDelete(this.getIsolationContext(), [
+          cacheKey.toString(),
+        ]);
+      }
       return result > 0;
     } catch (error) {
       this.logger.error(`删除缓存失败: ${namespace}:${key}`, undefined, {
@@ -184,6 +337,58 @@ export class CacheService {
     }
   }
 
+  /**
+   * 按标签失效缓存
+   *
+   * @description 删除当前隔离范围内带有任一标签的所有缓存条目
+   *
+   * ## 业务规则
+   *
+   * - 标签与值键使用相同的隔离范围：组织/部门级上下文只失效本组织/部门写入的条目，
+   *   租户级上下文只失效租户级写入的条目
+   * - 无租户的上下文按用户或平台隔离
+   * - 一个租户（或组织、部门）无法失效其他租户（或组织、部门）的条目
+   *
+   * @param tags - 标签列表
+   * @returns 删除的键数量
+   *
+   * @example
+   * ```typescript
+   * // 用户 42 的资料变更后，失效所有依赖该用户的缓存
+   * await cacheService.invalidateTags(['user:42']);
+   * ```
+   */
+  async invalidateTags(tags: string[]): Promise<number> {
+    let deletedCount = 0;
+
+    for (const tag of new Set(tags)) {
+      const tagKey = this.buildTagKey(tag);
+      try {
+        const redis = this.redisService.getClient();
+        const keys = await redis.smembers(tagKey);
+
+        for (let i = 0; i < keys.length; i += 100) {
+          // 分批删除，每批 100 个
+          deletedCount += await redis.del(...keys.slice(i, i + 100));
+        }
+        await redis.del(tagKey);
+        await this.localCache?.invalidateKeys(keys);
+        await this.quota?.recordDelete(this.getIsolationContext(), keys);
+      } catch (error) {
+        this.logger.error(`按标签失效缓存失败: ${tag}`, undefined, {
+          error: error instanceof Error ? error.message : String(error),
+          stack: error instanceof Error ? error.stack : undefined,
+        });
+      }
+    }
+
+    this.logger.log(
+      `按标签失效缓存: ${[...new Set(tags)].join(", ")}, 删除 ${deletedCount} 个键`,
+    );
+
+    return deletedCount;
+  }
+
   /**
    * 清空所有缓存（慎用！）
    *
@@ -313,11 +518,395 @@ export class CacheService {
       }
     } while (cursor !== "0");
 
+    // 同步失效本地缓存（所有调用方的模式都以 * 结尾）
+    if (pattern.endsWith("*")) {
+      await this.localCache?.invalidatePrefix(pattern.slice(0, -1));
+    }
+
     this.logger.log(`根据模式清除缓存: ${pattern}, 删除 ${deletedCount} 个键`);
 
     return deletedCount;
   }
 
+  /**
+   * 读取原始序列化值
+   *
+   * @description 优先读取本地缓存（L1），未命中再读取 Redis 并回填；
+   * 读取期间发生失效时不回填，本地副本不晚于 Redis 条目过期
+   *
+   * @param namespace - 命名空间
+   * @param cacheKey - 缓存键
+   * @returns 负载或 undefined
+   * @private
+   */
+  private async readRaw(
+    namespace: string,
+    cacheKey: CacheKey,
+  ): Promise<Buffer | undefined> {
+    const fullKey = cacheKey.toString();
+
+    const localValue = this.localCache?.get(namespace, fullKey);
+    if (localValue !== undefined) {
+      return localValue;
+    }
+
+    const localCache = this.localCache?.isEnabled(namespace)
+      ? this.localCache
+      : undefined;
+    // 先记录失效代数，再读取 Redis
+    const generation = localCache?.getGeneration();
+    const redis = this.redisService.getClient();
+    const [value, pttl] = await Promise.all([
+      redis.getBuffer(fullKey),
+      localCache ? redis.pttl(fullKey) : -1,
+    ]);
+    if (!value) {
+      return undefined;
+    }
+
+    // PTTL 为 -1 表示永不过期，-2 表示读取期间已过期
+    if (localCache && pttl !== -2) {
+      localCache.set(
+        namespace,
+        fullKey,
+        value,
+        pttl > 0 ? pttl / 1000 : 0,
+        generation,
+      );
+    }
+    return value;
+  }
+
+  /**
+   * 序列化并写入值
+   *
+   * @param namespace - 命名空间
+   * @param cacheKey - 缓存键
+   * @param value - 缓存值
+   * @param ttl - TTL（秒），0 表示永不过期
+   * @param tags - 标签列表
+   * @throws {CacheQuotaExceededException} 租户缓存超出配额
+   * @private
+   */
+  private async writeRaw(
+    namespace: string,
+    cacheKey: CacheKey,
+    value: unknown,
+    ttl: number,
+    tags?: string[],
+  ): Promise<void> {
+    const fullKey = cacheKey.toString();
+    const entry = CacheEntry.create(
+      cacheKey,
+      value,
+      ttl,
+      this.logger,
+      this.getCodec(namespace),
+    );
+
+    const redis = this.redisService.getClient();
+    const payload = entry.getPayload();
+    const context = this.getIsolationContext();
+    const effectiveTTL = this.quota
+      ? await this.quota.admit(context, fullKey, payload.length, entry.getTTL())
+      : entry.getTTL();
+
+    if (effectiveTTL > 0) {
+      await redis.setex(fullKey, effectiveTTL, payload);
+    } else {
+      // TTL 为 0，永不过期
+      await redis.set(fullKey, payload);
+    }
+
+    await this.quota?.recordWrite(context, fullKey, payload.length);
+
+    if (tags && tags.length > 0) {
+      await this.registerTags(fullKey, tags, effectiveTTL);
+    }
+
+    if (this.localCache) {
+      // 先通知其他实例失效旧副本，再写入本地副本
+      await this.localCache.invalidateKey(namespace, fullKey);
+      this.localCache.set(namespace, fullKey, payload, effectiveTTL);
+    }
+  }
+
+  /**
+   * 读取并解包缓存条目（读取失败视为未命中）
+   *
+   * @private
+   */
+  private async readEnvelope<T>(
+    namespace: string,
+    cacheKey: CacheKey,
+  ): Promise<UnwrappedValue<T> | undefined> {
+    try {
+      const value = await this.readRaw(namespace, cacheKey);
+      return value === undefined
+        ? undefined
+        : this.unwrap<T>(this.getCodec(namespace).decode(value));
+    } catch (error) {
+      this.logger.error(`获取缓存失败: ${cacheKey.toString()}`, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * 解包 getOrSet 写入的元数据信封
+   *
+   * @description 普通 set() 写入的值视为永不逻辑过期
+   *
+   * @private
+   */
+  private unwrap<T>(parsed: unknown): UnwrappedValue<T> {
+    if (
+      parsed !== null &&
+      typeof parsed === "object" &&
+      (parsed as CacheEnvelope<T>).__hl8 === ENVELOPE_MARKER
+    ) {
+      const envelope = parsed as CacheEnvelope<T>;
+      return { value: envelope.v, expiresAt: envelope.e, delta: envelope.d };
+    }
+    return { value: parsed as T, expiresAt: 0, delta: 0 };
+  }
+
+  /**
+   * 单飞加载：同一进程内同一键只执行一次加载
+   *
+   * @private
+   */
+  private loadSingleFlight<T>(
+    namespace: string,
+    cacheKey: CacheKey,
+    loader: () => Promise<T>,
+    opts: GetOrSetOptions,
+  ): Promise<T> {
+    const fullKey = cacheKey.toString();
+    const pending = this.inflight.get(fullKey);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = (
+      opts.lock
+        ? this.loadWithLock(namespace, cacheKey, loader, opts)
+        : this.loadAndStore(namespace, cacheKey, loader, opts)
+    ).finally(() => {
+      this.inflight.delete(fullKey);
+    });
+
+    this.inflight.set(fullKey, promise);
+    return promise;
+  }
+
+  /**
+   * 后台刷新（已有刷新进行中时跳过），错误只记录日志
+   *
+   * @private
+   */
+  private refreshInBackground<T>(
+    namespace: string,
+    cacheKey: CacheKey,
+    loader: () => Promise<T>,
+    opts: GetOrSetOptions,
+  ): void {
+    if (this.inflight.has(cacheKey.toString())) {
+      return;
+    }
+
+    this.loadSingleFlight(namespace, cacheKey, loader, opts).catch(
+      (error: unknown) => {
+        this.logger.warn(`后台刷新缓存失败: ${cacheKey.toString()}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      },
+    );
+  }
+
+  /**
+   * 持有分布式锁加载；未获得锁时轮询缓存，超时后自行加载
+   *
+   * @private
+   */
+  private async loadWithLock<T>(
+    namespace: string,
+    cacheKey: CacheKey,
+    loader: () => Promise<T>,
+    opts: GetOrSetOptions,
+  ): Promise<T> {
+    const lockOptions = typeof opts.lock === "object" ? opts.lock : {};
+    const lockTTL = lockOptions.ttl ?? 10000;
+    const waitTimeout = lockOptions.waitTimeout ?? 5000;
+    const retryInterval = lockOptions.retryInterval ?? 50;
+
+    const redis = this.redisService.getClient();
+    const lockKey = `${cacheKey.toString()}${LOCK_SUFFIX}`;
+    const token = randomUUID();
+
+    const acquired = await redis.set(lockKey, token, "PX", lockTTL, "NX");
+    if (acquired === "OK") {
+      try {
+        return await this.loadAndStore(namespace, cacheKey, loader, opts);
+      } finally {
+        await redis
+          .eval(RELEASE_LOCK_SCRIPT, 1, lockKey, token)
+          .catch((error: unknown) => {
+            this.logger.warn(`释放缓存锁失败: ${lockKey}`, {
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+      }
+    }
+
+    // 其他实例正在加载，等待其写入结果
+    const deadline = Date.now() + waitTimeout;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, retryInterval));
+      const value = await redis.getBuffer(cacheKey.toString());
+      if (value) {
+        return this.unwrap<T>(this.getCodec(namespace).decode(value)).value;
+      }
+    }
+
+    this.logger.warn(`等待缓存锁超时，自行加载: ${cacheKey.toString()}`);
+    return this.loadAndStore(namespace, cacheKey, loader, opts);
+  }
+
+  /**
+   * 执行加载函数并写入缓存
+   *
+   * @description 启用提前刷新或 stale-while-revalidate 时写入带元数据的信封
+   *
+   * @private
+   */
+  private async loadAndStore<T>(
+    namespace: string,
+    cacheKey: CacheKey,
+    loader: () => Promise<T>,
+    opts: GetOrSetOptions,
+  ): Promise<T> {
+    const startTime = Date.now();
+    const result = await loader();
+    const delta = Date.now() - startTime;
+
+    if (result === undefined || (result === null && !opts.cacheNull)) {
+      return result;
+    }
+
+    const ttl = opts.ttl ?? this.defaultTTL;
+    const staleWindow = opts.staleWhileRevalidate ?? 0;
+    const needsEnvelope =
+      ttl > 0 &&
+      (staleWindow > 0 || this.resolveEarlyRefreshBeta(opts) !== undefined);
+
+    try {
+      if (needsEnvelope) {
+        const envelope: CacheEnvelope<T> = {
+          __hl8: ENVELOPE_MARKER,
+          v: result,
+          e: Date.now() + ttl * 1000,
+          d: delta,
+        };
+        await this.writeRaw(
+          namespace,
+          cacheKey,
+          envelope,
+          ttl + staleWindow,
+          opts.tags,
+        );
+      } else {
+        await this.writeRaw(namespace, cacheKey, result, ttl, opts.tags);
+      }
+    } catch (error) {
+      // 写缓存失败不影响返回加载结果
+      this.logger.error(`设置缓存失败: ${cacheKey.toString()}`, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+
+    return result;
+  }
+
+  private resolveEarlyRefreshBeta(opts: GetOrSetOptions): number | undefined {
+    if (!opts.earlyRefresh) {
+      return undefined;
+    }
+    return typeof opts.earlyRefresh === "object"
+      ? (opts.earlyRefresh.beta ?? 1)
+      : 1;
+  }
+
+  /**
+   * 将缓存键登记到标签集合
+   *
+   * @description 标签集合的过期时间只延长不缩短，确保覆盖其中最久的条目
+   *
+   * @private
+   */
+  private async registerTags(
+    fullKey: string,
+    tags: string[],
+    ttl: number,
+  ): Promise<void> {
+    const redis = this.redisService.getClient();
+    await Promise.all(
+      [...new Set(tags)].map((tag) =>
+        redis.eval(REGISTER_TAG_SCRIPT, 1, this.buildTagKey(tag), fullKey, ttl),
+      ),
+    );
+  }
+
+  /**
+   * 构建标签集合键
+   *
+   * @description 与值键使用相同的隔离范围，只是命名空间固定为 __tag
+   *
+   * @param tag - 标签
+   * @returns 标签集合的 Redis 键
+   * @private
+   */
+  private buildTagKey(tag: string): string {
+    return `${this.keyPrefix}${this.getIsolationContext().buildCacheKey(TAG_NAMESPACE, tag)}`;
+  }
+
+  /**
+   * 获取命名空间的负载编解码器
+   *
+   * @description 命名空间配置覆盖全局配置；所有已知序列化器均可读取
+   *
+   * @param namespace - 命名空间
+   * @returns 编解码器
+   * @private
+   */
+  private getCodec(namespace: string): CachePayloadCodec {
+    let codec = this.codecs.get(namespace);
+    if (!codec) {
+      const serialization = this.options.serialization ?? {};
+      const override = serialization.namespaces?.[namespace] ?? {};
+      const serializer =
+        override.serializer ??
+        serialization.serializer ??
+        this.defaultSerializers[0];
+      const compression =
+        override.compression ?? serialization.compression ?? false;
+
+      codec = new CachePayloadCodec(serializer, compression, [
+        ...this.defaultSerializers,
+        ...(serialization.serializers ?? []),
+        ...Object.values(serialization.namespaces ?? {}).flatMap((ns) =>
+          ns.serializer ? [ns.serializer] : [],
+        ),
+        ...(serialization.serializer ? [serialization.serializer] : []),
+      ]);
+      this.codecs.set(namespace, codec);
+    }
+    return codec;
+  }
+
   /**
    * 构建缓存键
    *
@@ -0,0 +1,200 @@
+/**
+ * LocalCacheService 单元测试
+ *
+ * @description 测试本地缓存及 pub/sub 失效（不依赖真实 Redis）
+ *
+ * @group services
+ */
+
+import { EventEmitter } from "node:events";
+import type { LocalCacheOptions } from "../types/local-cache-options.interface.js";
+import { LocalCacheService } from "./local-cache.service.js";
+
+const CHANNEL = "test:__invalidation";
+
+/**
+ * 模拟共享同一 pub/sub 总线的多个 Redis 客户端
+ */
+const createBus = () => {
+  const subscribers: EventEmitter[] = [];
+
+  const createClient = () => ({
+    publish: (channel: string, message: string) => {
+      subscribers.forEach((s) => s.emit("message", channel, message));
+      return Promise.resolve(subscribers.length);
+    },
+    duplicate: () => {
+      const subscriber = new EventEmitter() as any;
+      subscriber.subscribe = () => {
+        subscribers.push(subscriber);
+        return Promise.resolve(1);
+      };
+      subscriber.quit = () => Promise.resolve("OK");
+      return subscriber;
+    },
+  });
+
+  return { createClient, subscribers };
+};
+
+const createService = (
+  client: any,
+  options: LocalCacheOptions = { enabled: true },
+) =>
+  new LocalCacheService({ getClient: () => client } as any, {
+    invalidationChannel: CHANNEL,
+    ...options,
+  });
+
+describe("LocalCacheService", () => {
+  it("未启用时应该不缓存任何内容", async () => {
+    const { createClient } = createBus();
+    const service = createService(createClient(), { enabled: false });
+    await service.onModuleInit();
+
+    service.set("user", "k1", Buffer.from('"v"'), 60);
+
+    expect(service.get("user", "k1")).toBeUndefined();
+    expect(service.isEnabled("user")).toBe(false);
+  });
+
+  it("应该存取本地副本并统计命中", async () => {
+    const { createClient } = createBus();
+    const service = createService(createClient());
+    await service.onModuleInit();
+
+    service.set("user", "k1", Buffer.from('"v"'), 60);
+
+    expect(service.get("user", "k1")?.toString()).toBe('"v"');
+    expect(service.get("user", "k2")).toBeUndefined();
+    expect(service.getStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      sizes: { user: 1 },
+    });
+  });
+
+  it("应该支持按命名空间禁用和限制容量", async () => {
+    const { createClient } = createBus();
+    const service = createService(createClient(), {
+      enabled: true,
+      namespaces: {
+        report: { enabled: false },
+        config: { maxEntries: 1 },
+      },
+    });
+    await service.onModuleInit();
+
+    service.set("report", "r1", Buffer.from("1"), 60);
+    service.set("config", "c1", Buffer.from("1"), 60);
+    service.set("config", "c2", Buffer.from("2"), 60);
+
+    expect(service.get("report", "r1")).toBeUndefined();
+    expect(service.get("config", "c1")).toBeUndefined();
+    expect(service.get("config", "c2")?.toString()).toBe("2");
+  });
+
+  it("应该通过 pub/sub 使其他实例的副本失效", async () => {
+    const { createClient } = createBus();
+    const podA = createService(createClient());
+    const podB = createService(createClient());
+    await podA.onModuleInit();
+    await podB.onModuleInit();
+
+    podA.set("user", "hl8:cache:tenant:t1:user:1", Buffer.from("1"), 60);
+    podB.set("user", "hl8:cache:tenant:t1:user:1", Buffer.from("1"), 60);
+    podB.set("user", "hl8:cache:tenant:t1:user:2", Buffer.from("2"), 60);
+    podB.set("user", "hl8:cache:tenant:t2:user:1", Buffer.from("3"), 60);
+
+    await podA.invalidateKey("user", "hl8:cache:tenant:t1:user:1");
+
+    expect(podA.get("user", "hl8:cache:tenant:t1:user:1")).toBeUndefined();
+    expect(podB.get("user", "hl8:cache:tenant:t1:user:1")).toBeUndefined();
+    expect(podB.get("user", "hl8:cache:tenant:t1:user:2")?.toString()).toBe(
+      "2",
+    );
+
+    await podA.invalidatePrefix("hl8:cache:tenant:t1:");
+
+    expect(podB.get("user", "hl8:cache:tenant:t1:user:2")).toBeUndefined();
+    expect(podB.get("user", "hl8:cache:tenant:t2:user:1")?.toString()).toBe(
+      "3",
+    );
+  });
+
+  it("失效代数变化后不应该回填读取前的值", async () => {
+    const { createClient } = createBus();
+    const podA = createService(createClient());
+    const podB = createService(createClient());
+    await podA.onModuleInit();
+    await podB.onModuleInit();
+
+    const generation = podB.getGeneration();
+    await podA.invalidateKey("user", "hl8:cache:tenant:t1:user:1");
+    podB.set(
+      "user",
+      "hl8:cache:tenant:t1:user:1",
+      Buffer.from("old"),
+      60,
+      generation,
+    );
+
+    expect(podB.get("user", "hl8:cache:tenant:t1:user:1")).toBeUndefined();
+
+    podB.set(
+      "user",
+      "hl8:cache:tenant:t1:user:1",
+      Buffer.from("new"),
+      60,
+      podB.getGeneration(),
+    );
+    expect(podB.get("user", "hl8:cache:tenant:t1:user:1")?.toString()).toBe(
+      "new",
+    );
+  });
+
+  it("订阅连接断开时应该清空副本，重连前不读写本地缓存", async () => {
+    const { createClient, subscribers } = createBus();
+    const service = createService(createClient());
+    await service.onModuleInit();
+    const [subscriber] = subscribers;
+
+    service.set("user", "k1", Buffer.from("1"), 60);
+    const generation = service.getGeneration();
+
+    subscriber.emit("close");
+    service.set("user", "k2", Buffer.from("2"), 60);
+
+    expect(service.isEnabled("user")).toBe(false);
+    expect(service.get("user", "k2")).toBeUndefined();
+    expect(service.getGeneration()).not.toBe(generation);
+
+    subscriber.emit("ready");
+
+    expect(service.isEnabled("user")).toBe(true);
+    expect(service.get("user", "k1")).toBeUndefined();
+    // 断开前开始的读取不能回填
+    service.set("user", "k1", Buffer.from("1"), 60, generation);
+    expect(service.get("user", "k1")).toBeUndefined();
+    service.set("user", "k1", Buffer.from("1"), 60);
+    expect(service.get("user", "k1")?.toString()).toBe("1");
+  });
+
+  it("应该在订阅失败时禁用本地缓存", async () => {
+    const client = {
+      duplicate: () => {
+        const subscriber = new EventEmitter() as any;
+        subscriber.subscribe = () => Promise.reject(new Error("boom"));
+        subscriber.quit = () => Promise.resolve("OK");
+        return subscriber;
+      },
+    };
+    const service = createService(client);
+    await service.onModuleInit();
+
+    service.set("user", "k1", Buffer.from("1"), 60);
+
+    expect(service.isEnabled("user")).toBe(false);
+    expect(service.get("user", "k1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * 本地缓存服务（L1）
+ *
+ * @description 在 Redis（L2）之前提供按命名空间划分的进程内 LRU 缓存
+ *
+ * ## 业务规则
+ *
+ * ### 键规则
+ * - 使用 CacheKey 的完整键（包含隔离上下文），与 Redis 键一一对应
+ * - 每个命名空间独立的 LRU 容量和 TTL
+ *
+ * ### 一致性规则
+ * - 本实例写入/删除后，通过 Redis pub/sub 广播失效消息
+ * - 其他实例收到消息后删除本地副本
+ * - 本实例忽略自己发出的消息
+ * - 订阅失败时自动禁用 L1，避免读取到陈旧数据
+ * - 订阅连接断开期间可能漏收失效消息：断开时清空 L1 并递增失效代数，重连（ready）前不读写 L1，
+ *   重连后再次清空，之后重新从 Redis 回填
+ * - 每次失效（本地发起或收到消息）都会递增失效代数；从 Redis 回填时代数已变化则不回填，
+ *   避免读取期间到达的失效被旧值覆盖
+ *
+ * ### 存储规则
+ * - 存储编码后的负载，每次读取时重新反序列化
+ * - 避免调用方修改返回对象污染本地缓存
+ *
+ * @since 1.1.0
+ */
+
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { randomUUID } from "node:crypto";
+import type { Redis } from "ioredis";
+import type {
+  LocalCacheNamespaceOptions,
+  LocalCacheOptions,
+} from "../types/local-cache-options.interface.js";
+import { LruCache } from "../utils/lru-cache.util.js";
+import { RedisService } from "./redis.service.js";
+
+export const LOCAL_CACHE_OPTIONS = "LOCAL_CACHE_OPTIONS";
+
+/**
+ * 失效消息
+ *
+ * @internal
+ */
+interface InvalidationMessage {
+  /** 发送方实例 ID */
+  origin: string;
+  /** 失效类型：单键、多键（不限命名空间）或前缀 */
+  type: "key" | "keys" | "prefix";
+  /** 命名空间（仅 key 类型） */
+  namespace?: string;
+  /** 完整键或键前缀（key / prefix 类型） */
+  value?: string;
+  /** 完整键列表（keys 类型） */
+  values?: string[];
+}
+
+/**
+ * 本地缓存统计
+ */
+export interface LocalCacheStats {
+  hits: number;
+  misses: number;
+  /** 各命名空间当前条目数 */
+  sizes: Record<string, number>;
+}
+
+@Injectable()
+export class LocalCacheService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(LocalCacheService.name);
+  private readonly instanceId = randomUUID();
+  private readonly stores = new Map<string, LruCache<Buffer>>();
+  private readonly channel: string;
+  private subscriber: Redis | null = null;
+  private enabled: boolean;
+  private subscribed = false;
+  private generation = 0;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly redisService: RedisService,
+    @Inject(LOCAL_CACHE_OPTIONS)
+    private readonly options: LocalCacheOptions,
+  ) {
+    this.enabled = options.enabled ?? false;
+    this.channel = options.invalidationChannel ?? "hl8:cache:__invalidation";
+  }
+
+  /**
+   * 模块初始化钩子
+   *
+   * @description 启用时订阅失效频道
+   */
+  async onModuleInit(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    try {
+      this.subscriber = this.redisService.getClient().duplicate();
+      this.subscriber.on("message", (channel: string, message: string) => {
+        if (channel === this.channel) {
+          this.handleMessage(message);
+        }
+      });
+      // 断开期间的失效消息会丢失，断开和重新订阅时都清空本地副本
+      this.subscriber.on("close", () => this.resetSubscription(false));
+      this.subscriber.on("ready", () => this.resetSubscription(true));
+      await this.subscriber.subscribe(this.channel);
+      this.subscribed = true;
+      this.logger.log(`本地缓存已启用，订阅失效频道: ${this.channel}`);
+    } catch (error) {
+      // 无法保证跨实例一致性时，禁用 L1
+      this.enabled = false;
+      this.logger.error("订阅缓存失效频道失败，已禁用本地缓存", undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  }
+
+  /**
+   * 模块销毁钩子
+   *
+   * @description 断开订阅连接
+   */
+  async onModuleDestroy(): Promise<void> {
+    if (!this.subscriber) {
+      return;
+    }
+
+    try {
+      await this.subscriber.quit();
+    } catch {
+      this.subscriber.disconnect();
+    }
+    this.subscriber = null;
+  }
+
+  /**
+   * 是否为命名空间启用了本地缓存
+   *
+   * @description 订阅连接断开期间返回 false
+   *
+   * @param namespace - 命名空间
+   * @returns true 如果启用
+   */
+  isEnabled(namespace: string): boolean {
+    if (!this.enabled || !this.subscribed) {
+      return false;
+    }
+    return this.getNamespaceOptions(namespace).enabled ?? true;
+  }
+
+  /**
+   * 读取本地副本
+   *
+   * @param namespace - 命名空间
+   * @param fullKey - 完整缓存键
+   * @returns 负载或 undefined
+   */
+  get(namespace: string, fullKey: string): Buffer | undefined {
+    if (!this.isEnabled(namespace)) {
+      return undefined;
+    }
+
+    const value = this.stores.get(namespace)?.get(fullKey);
+    if (value === undefined) {
+      this.misses++;
+    } else {
+      this.hits++;
+    }
+    return value;
+  }
+
+  /**
+   * 获取当前失效代数
+   *
+   * @description 从 Redis 读取前记录，回填时传给 set()
+   *
+   * @returns 失效代数
+   */
+  getGeneration(): number {
+    return this.generation;
+  }
+
+  /**
+   * 写入本地副本
+   *
+   * @param namespace - 命名空间
+   * @param fullKey - 完整缓存键
+   * @param payload - 负载（与 Redis 中的字节相同）
+   * @param redisTTL - Redis 中的 TTL（秒），0 表示永不过期
+   * @param generation - 读取 Redis 前的失效代数；之后发生过失效时不写入
+   */
+  set(
+    namespace: string,
+    fullKey: string,
+    payload: Buffer,
+    redisTTL: number,
+    generation?: number,
+  ): void {
+    if (
+      !this.isEnabled(namespace) ||
+      (generation !== undefined && generation !== this.generation)
+    ) {
+      return;
+    }
+
+    const localTTL =
+      this.getNamespaceOptions(namespace).ttl ?? this.options.ttl ?? 60;
+    const ttl = redisTTL > 0 ? Math.min(localTTL, redisTTL) : localTTL;
+
+    this.getStore(namespace).set(fullKey, payload, ttl * 1000);
+  }
+
+  /**
+   * 使单个键失效（本地 + 广播）
+   *
+   * @param namespace - 命名空间
+   * @param fullKey - 完整缓存键
+   */
+  async invalidateKey(namespace: string, fullKey: string): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.generation++;
+    this.stores.get(namespace)?.delete(fullKey);
+    await this.publish({
+      origin: this.instanceId,
+      type: "key",
+      namespace,
+      value: fullKey,
+    });
+  }
+
+  /**
+   * 使多个键失效（本地 + 广播）
+   *
+   * @description 用于标签失效等无法确定命名空间的场景，会遍历所有命名空间
+   *
+   * @param fullKeys - 完整缓存键列表
+   */
+  async invalidateKeys(fullKeys: string[]): Promise<void> {
+    if (!this.enabled || fullKeys.length === 0) {
+      return;
+    }
+
+    this.generation++;
+    this.deleteKeys(fullKeys);
+    await this.publish({
+      origin: this.instanceId,
+      type: "keys",
+      values: fullKeys,
+    });
+  }
+
+  /**
+   * 按前缀使键失效（本地 + 广播）
+   *
+   * @param prefix - 完整键前缀
+   */
+  async invalidatePrefix(prefix: string): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.generation++;
+    this.deleteByPrefix(prefix);
+    await this.publish({
+      origin: this.instanceId,
+      type: "prefix",
+      value: prefix,
+    });
+  }
+
+  /**
+   * 获取本地缓存统计
+   *
+   * @returns 统计信息
+   */
+  getStats(): LocalCacheStats {
+    const sizes: Record<string, number> = {};
+    for (const [namespace, store] of this.stores) {
+      sizes[namespace] = store.size;
+    }
+    return { hits: this.hits, misses: this.misses, sizes };
+  }
+
+  /**
+   * 处理收到的失效消息
+   *
+   * @param raw - 原始消息
+   * @private
+   */
+  private handleMessage(raw: string): void {
+    let message: InvalidationMessage;
+    try {
+      message = JSON.parse(raw) as InvalidationMessage;
+    } catch {
+      this.logger.warn(`忽略无法解析的失效消息: ${raw}`);
+      return;
+    }
+
+    // 自己发出的消息已在本地处理
+    if (message.origin === this.instanceId) {
+      return;
+    }
+
+    this.generation++;
+
+    if (message.type === "key" && message.namespace && message.value) {
+      this.stores.get(message.namespace)?.delete(message.value);
+    } else if (message.type === "keys" && message.values) {
+      this.deleteKeys(message.values);
+    } else if (message.type === "prefix" && message.value) {
+      this.deleteByPrefix(message.value);
+    }
+  }
+
+  /**
+   * 订阅连接状态变化时清空本地副本
+   *
+   * @param subscribed - 连接是否已恢复
+   * @private
+   */
+  private resetSubscription(subscribed: boolean): void {
+    if (!subscribed && this.subscribed) {
+      this.logger.warn("缓存失效频道连接断开，已清空本地缓存，重连前不使用 L1");
+    }
+
+    this.subscribed = subscribed;
+    this.generation++;
+    for (const store of this.stores.values()) {
+      store.clear();
+    }
+  }
+
+  /**
+   * 广播失效消息
+   *
+   * @description 广播失败只记录日志，本地副本最长在 TTL 后过期
+   *
+   * @param message - 失效消息
+   * @private
+   */
+  private async publish(message: InvalidationMessage): Promise<void> {
+    try {
+      await this.redisService
+        .getClient()
+        .publish(this.channel, JSON.stringify(message));
+    } catch (error) {
+      this.logger.error(`广播缓存失效消息失败: ${message.type}`, undefined, {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  }
+
+  private deleteKeys(fullKeys: string[]): void {
+    for (const store of this.stores.values()) {
+      fullKeys.forEach((fullKey) => store.delete(fullKey));
+    }
+  }
+
+  private deleteByPrefix(prefix: string): void {
+    for (const store of this.stores.values()) {
+      store.deleteByPrefix(prefix);
+    }
+  }
+
+  private getStore(namespace: string): LruCache<Buffer> {
+    let store = this.stores.get(namespace);
+    if (!store) {
+      const maxEntries =
+        this.getNamespaceOptions(namespace).maxEntries ??
+        this.options.maxEntries ??
+        1000;
+      store = new LruCache<Buffer>(maxEntries);
+      this.stores.set(namespace, store);
+    }
+    return store;
+  }
+
+  private getNamespaceOptions(namespace: string): LocalCacheNamespaceOptions {
+    return this.options.namespaces?.[namespace] ?? {};
+  }
+}
@@ -76,3 +76,27 @@ export interface CacheMetrics {
    */
   totalOperations: number;
 }
+
+/**
+ * 租户缓存用量
+ *
+ * @description 按租户统计的近似缓存用量，组织用量包含在租户用量中
+ *
+ * @since 1.1.0
+ */
+export interface TenantCacheUsage {
+  /**
+   * 字节数（编码后的负载大小之和）
+   */
+  bytes: number;
+
+  /**
+   * 键数量
+   */
+  keys: number;
+
+  /**
+   * 各组织的用量（组织 ID → 用量）
+   */
+  organizations: Record<string, { bytes: number; keys: number }>;
+}
@@ -7,7 +7,10 @@
  */
 
 import type { ModuleMetadata, Type } from "@nestjs/common";
+import type { CacheQuotaOptions } from "./cache-quota-options.interface.js";
+import type { LocalCacheOptions } from "./local-cache-options.interface.js";
 import type { RedisOptions } from "./redis-options.interface.js";
+import type { CacheSerializationOptions } from "./serialization-options.interface.js";
 
 /**
  * 缓存模块配置选项
@@ -32,6 +35,30 @@ export interface CachingModuleOptions {
    */
   keyPrefix?: string;
 
+  /**
+   * 本地缓存（L1）配置
+   *
+   * @description 启用后在 Redis 之前增加进程内 LRU 缓存层
+   * @default { enabled: false }
+   */
+  localCache?: LocalCacheOptions;
+
+  /**
+   * 序列化配置
+   *
+   * @description 序列化器、压缩算法及按命名空间的覆盖配置
+   * @default JSON 序列化，不压缩
+   */
+  serialization?: CacheSerializationOptions;
+
+  /**
+   * 租户缓存配额
+   *
+   * @description 按租户类型限制缓存用量，并导出 Prometheus 用量指标
+   * @default 不启用
+   */
+  quota?: CacheQuotaOptions;
+
   /**
    * 是否启用调试日志
    *
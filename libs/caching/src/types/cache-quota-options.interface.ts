@@ -0,0 +1,121 @@
+/**
+ * 租户缓存配额配置接口
+ *
+ * @description 定义按租户类型划分的缓存配额及超限策略
+ *
+ * ## 业务规则
+ *
+ * - 配额按租户统计（包含租户下所有组织、部门、用户的条目）
+ * - 配额按租户类型（TenantType 的取值，如 TRIAL、BASIC）配置
+ * - 用量为近似值：记录写入时的负载字节数，过期的键在超限检查时才被清理
+ * - 平台级和无租户的用户级缓存不受配额限制
+ *
+ * @since 1.1.0
+ */
+
+import type { Registry } from "prom-client";
+
+/**
+ * 超限策略
+ *
+ * - reject：拒绝写入，抛出 CacheQuotaExceededException
+ * - evict-oldest：淘汰该租户最早写入的键，直到能容纳新值
+ * - shorten-ttl：照常写入，但将 TTL 缩短为 shortenedTtl
+ */
+export type CacheQuotaPolicy = "reject" | "evict-oldest" | "shorten-ttl";
+
+/**
+ * 单个租户类型的配额
+ */
+export interface TenantCacheQuota {
+  /**
+   * 最大字节数（编码后的负载大小之和）
+   *
+   * @default 不限制
+   */
+  maxBytes?: number;
+
+  /**
+   * 最大键数量
+   *
+   * @default 不限制
+   */
+  maxKeys?: number;
+
+  /**
+   * 超限策略
+   *
+   * @default 继承 CacheQuotaOptions.policy
+   */
+  policy?: CacheQuotaPolicy;
+
+  /**
+   * shorten-ttl 策略下的 TTL（秒）
+   *
+   * @default 继承 CacheQuotaOptions.shortenedTtl
+   */
+  shortenedTtl?: number;
+}
+
+/**
+ * 租户缓存配额配置选项
+ */
+export interface CacheQuotaOptions {
+  /**
+   * 是否启用配额
+   *
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * 按租户类型配置的配额
+   *
+   * @example
+   * ```typescript
+   * quotas: {
+   *   TRIAL: { maxBytes: 10 * 1024 * 1024, maxKeys: 10_000 },
+   *   ENTERPRISE: { maxBytes: 1024 * 1024 * 1024, policy: 'evict-oldest' },
+   * }
+   * ```
+   */
+  quotas?: Record<string, TenantCacheQuota>;
+
+  /**
+   * 解析租户类型
+   *
+   * @description 结果在进程内缓存 60 秒；返回 undefined 时使用 defaultTenantType
+   */
+  resolveTenantType?: (
+    tenantId: string,
+  ) => string | undefined | Promise<string | undefined>;
+
+  /**
+   * 无法解析租户类型时使用的类型
+   *
+   * @default 无（不限制）
+   */
+  defaultTenantType?: string;
+
+  /**
+   * 默认超限策略
+   *
+   * @default 'reject'
+   */
+  policy?: CacheQuotaPolicy;
+
+  /**
+   * shorten-ttl 策略的默认 TTL（秒）
+   *
+   * @default 60
+   */
+  shortenedTtl?: number;
+
+  /**
+   * 注册用量指标的 Prometheus 注册表
+   *
+   * @description 与 @hl8/nestjs-fastify 一起使用时传入 PrometheusService.getRegistry()
+   * @default prom-client 的全局注册表
+   */
+  registry?: Registry;
+}
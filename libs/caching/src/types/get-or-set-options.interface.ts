@@ -0,0 +1,97 @@
+/**
+ * getOrSet 配置接口
+ *
+ * @description 定义防缓存击穿（stampede）的读取-加载选项
+ *
+ * ## 策略说明
+ *
+ * - 进程内单飞（single-flight）：始终启用，同一键的并发加载合并为一次
+ * - 分布式锁：跨实例只有一个实例执行加载，其余等待结果
+ * - 概率性提前刷新（XFetch）：在过期前按概率提前后台刷新
+ * - 过期后仍可用（stale-while-revalidate）：过期后一段时间内返回旧值并后台刷新
+ *
+ * @since 1.1.0
+ */
+
+/**
+ * 分布式锁配置
+ */
+export interface CacheLockOptions {
+  /**
+   * 锁的过期时间（毫秒），防止持锁实例崩溃导致死锁
+   *
+   * @default 10000
+   */
+  ttl?: number;
+
+  /**
+   * 未获得锁时等待结果的最长时间（毫秒），超时后自行加载
+   *
+   * @default 5000
+   */
+  waitTimeout?: number;
+
+  /**
+   * 等待期间轮询缓存的间隔（毫秒）
+   *
+   * @default 50
+   */
+  retryInterval?: number;
+}
+
+/**
+ * 概率性提前刷新配置
+ */
+export interface EarlyRefreshOptions {
+  /**
+   * 提前刷新的激进程度，越大越早刷新
+   *
+   * @default 1
+   */
+  beta?: number;
+}
+
+/**
+ * getOrSet 选项
+ */
+export interface GetOrSetOptions {
+  /**
+   * TTL（秒）
+   *
+   * @default 使用配置的 defaultTTL
+   */
+  ttl?: number;
+
+  /**
+   * 是否使用跨实例分布式锁（基于 Redis SET NX）
+   *
+   * @default false
+   */
+  lock?: boolean | CacheLockOptions;
+
+  /**
+   * 是否启用概率性提前刷新
+   *
+   * @default false
+   */
+  earlyRefresh?: boolean | EarlyRefreshOptions;
+
+  /**
+   * 过期后仍可返回旧值的时间窗口（秒），期间后台刷新
+   *
+   * @default 0（不启用）
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * 是否缓存 null 值
+   *
+   * @default false
+   */
+  cacheNull?: boolean;
+
+  /**
+   * 标签列表，可通过 CacheService.invalidateTags() 批量失效
+   */
+  tags?: string[];
+}
@@ -0,0 +1,86 @@
+/**
+ * 本地缓存（L1）配置接口
+ *
+ * @description 定义进程内 LRU 缓存层的配置选项
+ *
+ * ## 业务规则
+ *
+ * - L1 位于 Redis（L2）之前，命中时不产生网络往返
+ * - L1 条目的 TTL 取本地 TTL 与 Redis TTL 的较小值
+ * - 跨实例一致性依赖 Redis pub/sub 失效消息
+ *
+ * @since 1.1.0
+ */
+
+/**
+ * 命名空间级别的本地缓存配置
+ */
+export interface LocalCacheNamespaceOptions {
+  /**
+   * 是否为该命名空间启用本地缓存
+   *
+   * @default true
+   */
+  enabled?: boolean;
+
+  /**
+   * 该命名空间的最大条目数
+   *
+   * @default 继承 LocalCacheOptions.maxEntries
+   */
+  maxEntries?: number;
+
+  /**
+   * 该命名空间的本地 TTL（秒）
+   *
+   * @default 继承 LocalCacheOptions.ttl
+   */
+  ttl?: number;
+}
+
+/**
+ * 本地缓存配置选项
+ */
+export interface LocalCacheOptions {
+  /**
+   * 是否启用本地缓存
+   *
+   * @default false
+   */
+  enabled?: boolean;
+
+  /**
+   * 每个命名空间默认的最大条目数
+   *
+   * @default 1000
+   */
+  maxEntries?: number;
+
+  /**
+   * 默认本地 TTL（秒）
+   *
+   * @description 本地副本的最长存活时间，作为 pub/sub 消息丢失时的兜底
+   * @default 60
+   */
+  ttl?: number;
+
+  /**
+   * 按命名空间覆盖的配置
+   *
+   * @example
+   * ```typescript
+   * namespaces: {
+   *   'tenant-config': { maxEntries: 5000, ttl: 300 },
+   *   'report': { enabled: false },
+   * }
+   * ```
+   */
+  namespaces?: Record<string, LocalCacheNamespaceOptions>;
+
+  /**
+   * 失效消息的 pub/sub 频道
+   *
+   * @default 'hl8:cache:__invalidation'
+   */
+  invalidationChannel?: string;
+}
@@ -0,0 +1,82 @@
+/**
+ * 缓存序列化配置接口
+ *
+ * @description 定义序列化器、压缩算法及按命名空间覆盖的配置
+ *
+ * @since 1.1.0
+ */
+
+import type { CacheSerializer } from "../serializers/cache-serializer.interface.js";
+
+/**
+ * 压缩算法
+ */
+export type CacheCompressionAlgorithm = "gzip" | "brotli";
+
+/**
+ * 压缩配置
+ */
+export interface CacheCompressionOptions {
+  /**
+   * 压缩算法
+   */
+  algorithm: CacheCompressionAlgorithm;
+
+  /**
+   * 启用压缩的最小字节数（编码后大小）
+   *
+   * @default 1024
+   */
+  threshold?: number;
+}
+
+/**
+ * 命名空间级别的序列化配置
+ */
+export interface NamespaceSerializationOptions {
+  /**
+   * 序列化器
+   *
+   * @default 继承全局配置
+   */
+  serializer?: CacheSerializer;
+
+  /**
+   * 压缩配置，false 表示不压缩
+   *
+   * @default 继承全局配置
+   */
+  compression?: CacheCompressionOptions | false;
+}
+
+/**
+ * 序列化配置选项
+ */
+export interface CacheSerializationOptions {
+  /**
+   * 写入时使用的序列化器
+   *
+   * @default new JsonCacheSerializer()
+   */
+  serializer?: CacheSerializer;
+
+  /**
+   * 压缩配置，false 表示不压缩
+   *
+   * @default false
+   */
+  compression?: CacheCompressionOptions | false;
+
+  /**
+   * 按命名空间覆盖的配置
+   */
+  namespaces?: Record<string, NamespaceSerializationOptions>;
+
+  /**
+   * 额外注册的、仅用于读取的序列化器
+   *
+   * @description 切换序列化器后，旧格式的缓存仍可读取，实现逐步迁移。
+   * 内置 JSON 和 MessagePack 序列化器始终可读取。
+   */
+  serializers?: CacheSerializer[];
+}
@@ -0,0 +1,29 @@
+/**
+ * 概率性提前刷新工具单元测试
+ */
+
+import { shouldRefreshEarly } from "./early-refresh.util.js";
+
+describe("shouldRefreshEarly()", () => {
+  it("永不过期的条目不应提前刷新", () => {
+    expect(shouldRefreshEarly(0, 100, 1, 1000, () => 0.999)).toBe(false);
+  });
+
+  it("远离过期时间时不应提前刷新", () => {
+    // -ln(0.5) ≈ 0.69，提前量约 69ms
+    expect(shouldRefreshEarly(10_000, 100, 1, 1000, () => 0.5)).toBe(false);
+  });
+
+  it("接近过期时间时应提前刷新", () => {
+    expect(shouldRefreshEarly(1050, 100, 1, 1000, () => 0.5)).toBe(true);
+  });
+
+  it("beta 越大越早刷新", () => {
+    expect(shouldRefreshEarly(1500, 100, 1, 1000, () => 0.5)).toBe(false);
+    expect(shouldRefreshEarly(1500, 100, 10, 1000, () => 0.5)).toBe(true);
+  });
+
+  it("已过期时应刷新", () => {
+    expect(shouldRefreshEarly(1000, 0, 1, 1000, () => 0)).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * 概率性提前刷新工具
+ *
+ * @description 实现 XFetch 算法（Optimal Probabilistic Cache Stampede Prevention）
+ *
+ * ## 业务规则
+ *
+ * - 越接近过期，触发提前刷新的概率越高
+ * - 加载耗时（delta）越长，越早开始刷新
+ * - beta 越大越激进，beta = 1 为论文推荐值
+ *
+ * 判定公式：`now - delta * beta * ln(random()) >= expiresAt`
+ *
+ * @example
+ * ```typescript
+ * if (shouldRefreshEarly(entry.expiresAt, entry.delta, 1)) {
+ *   void refreshInBackground();
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+/**
+ * 判断是否应提前刷新
+ *
+ * @param expiresAt - 逻辑过期时间戳（毫秒），0 表示永不过期
+ * @param delta - 上次加载耗时（毫秒）
+ * @param beta - 激进程度
+ * @param now - 当前时间戳（毫秒）
+ * @param random - 随机数生成器，返回 [0, 1)，便于测试
+ * @returns true 如果应提前刷新
+ */
+export function shouldRefreshEarly(
+  expiresAt: number,
+  delta: number,
+  beta: number = 1,
+  now: number = Date.now(),
+  random: () => number = Math.random,
+): boolean {
+  if (expiresAt <= 0) {
+    return false;
+  }
+
+  // Math.random() 可能返回 0，ln(0) = -Infinity，使用 1 - random 保证 (0, 1]
+  const sample = 1 - random();
+  const safeSample = sample > 0 ? sample : Number.MIN_VALUE;
+
+  return now - delta * beta * Math.log(safeSample) >= expiresAt;
+}
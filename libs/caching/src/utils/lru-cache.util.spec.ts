@@ -0,0 +1,69 @@
+/**
+ * LRU 缓存工具单元测试
+ */
+
+import { LruCache } from "./lru-cache.util.js";
+
+describe("LruCache", () => {
+  it("应该拒绝非正整数容量", () => {
+    expect(() => new LruCache(0)).toThrow(RangeError);
+    expect(() => new LruCache(1.5)).toThrow(RangeError);
+  });
+
+  it("应该存取条目", () => {
+    const lru = new LruCache<string>(2);
+    lru.set("a", "1");
+
+    expect(lru.get("a")).toBe("1");
+    expect(lru.get("b")).toBeUndefined();
+  });
+
+  it("应该在超出容量时淘汰最久未使用的条目", () => {
+    const lru = new LruCache<string>(2);
+    lru.set("a", "1");
+    lru.set("b", "2");
+
+    // 访问 a，使 b 成为最久未使用
+    lru.get("a");
+    lru.set("c", "3");
+
+    expect(lru.get("a")).toBe("1");
+    expect(lru.get("b")).toBeUndefined();
+    expect(lru.get("c")).toBe("3");
+    expect(lru.size).toBe(2);
+  });
+
+  it("应该在过期后返回 undefined 并删除条目", () => {
+    const lru = new LruCache<string>(10);
+    lru.set("a", "1", 1000, 0);
+
+    expect(lru.get("a", 999)).toBe("1");
+    expect(lru.get("a", 1000)).toBeUndefined();
+    expect(lru.size).toBe(0);
+  });
+
+  it("TTL 为 0 时应该不过期", () => {
+    const lru = new LruCache<string>(10);
+    lru.set("a", "1", 0, 0);
+
+    expect(lru.get("a", Number.MAX_SAFE_INTEGER)).toBe("1");
+  });
+
+  it("应该按前缀删除条目", () => {
+    const lru = new LruCache<string>(10);
+    lru.set("tenant:t1:user:1", "1");
+    lru.set("tenant:t1:user:2", "2");
+    lru.set("tenant:t2:user:1", "3");
+
+    expect(lru.deleteByPrefix("tenant:t1:")).toBe(2);
+    expect(lru.get("tenant:t2:user:1")).toBe("3");
+  });
+
+  it("应该清空所有条目", () => {
+    const lru = new LruCache<string>(10);
+    lru.set("a", "1");
+    lru.clear();
+
+    expect(lru.size).toBe(0);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * LRU 缓存工具
+ *
+ * @description 基于 Map 插入顺序实现的进程内 LRU 缓存，用于本地一级缓存（L1）
+ *
+ * ## 业务规则
+ *
+ * ### 淘汰规则
+ * - 超出容量时淘汰最久未访问的条目
+ * - 每次命中都会将条目移动到队尾（最近使用）
+ *
+ * ### 过期规则
+ * - 每个条目可单独设置过期时间（毫秒）
+ * - 读取时惰性检查过期，过期条目会被删除
+ * - TTL 为 0 表示不过期（仅受容量淘汰）
+ *
+ * @example
+ * ```typescript
+ * const lru = new LruCache<string>(1000);
+ * lru.set('hl8:cache:tenant:t1:user:list', '[...]', 30_000);
+ *
+ * const value = lru.get('hl8:cache:tenant:t1:user:list');
+ * lru.deleteByPrefix('hl8:cache:tenant:t1:');
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+interface LruEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export class LruCache<V> {
+  private readonly entries = new Map<string, LruEntry<V>>();
+
+  /**
+   * @param maxEntries - 最大条目数（必须大于 0）
+   */
+  constructor(private readonly maxEntries: number) {
+    if (!Number.isInteger(maxEntries) || maxEntries <= 0) {
+      throw new RangeError(`LRU 容量必须为正整数: ${maxEntries}`);
+    }
+  }
+
+  /**
+   * 获取条目
+   *
+   * @param key - 键
+   * @param now - 当前时间戳（毫秒），便于测试
+   * @returns 值或 undefined（不存在或已过期）
+   */
+  get(key: string, now: number = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt > 0 && entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // 移动到队尾，标记为最近使用
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  /**
+   * 设置条目
+   *
+   * @param key - 键
+   * @param value - 值
+   * @param ttlMs - 过期时间（毫秒），0 表示不过期
+   * @param now - 当前时间戳（毫秒），便于测试
+   */
+  set(key: string, value: V, ttlMs: number = 0, now: number = Date.now()) {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlMs > 0 ? now + ttlMs : 0,
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      // Map 的第一个键即最久未使用的条目
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * 删除条目
+   *
+   * @param key - 键
+   * @returns true 如果条目存在
+   */
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * 按前缀删除条目
+   *
+   * @param prefix - 键前缀
+   * @returns 删除的条目数量
+   */
+  deleteByPrefix(prefix: string): number {
+    let deleted = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * 清空所有条目
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * 当前条目数量（包含尚未被惰性清理的过期条目）
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
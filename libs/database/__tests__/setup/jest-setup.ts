@@ -0,0 +1,12 @@
+/**
+ * Jest 测试环境设置
+ *
+ * @description ESM 模式下 jest 对象不是全局变量，测试中直接使用的 jest.fn / jest.spyOn 需要从 import.meta 挂载到全局；
+ * 配置类的 class-transformer 装饰器依赖 reflect-metadata，应用中由 NestJS 加载，测试中在这里加载
+ */
+
+import "reflect-metadata";
+
+(globalThis as { jest?: unknown }).jest = (
+  import.meta as ImportMeta & { jest: unknown }
+).jest;
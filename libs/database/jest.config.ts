@@ -5,15 +5,19 @@
  */
 export default {
   displayName: "@hl8/database",
+  preset: "ts-jest/presets/default-esm",
   testEnvironment: "node",
+  extensionsToTreatAsEsm: [".ts"],
   transform: {
     "^.+\\.ts$": [
       "ts-jest",
       {
-        useESM: false,
+        useESM: true,
         tsconfig: {
-          module: "commonjs",
-          esModuleInterop: true,
+          module: "NodeNext",
+          moduleResolution: "NodeNext",
+          experimentalDecorators: true,
+          emitDecoratorMetadata: true,
         },
       },
     ],
@@ -38,5 +42,10 @@ export default {
   moduleNameMapper: {
     "^(\\.{1,2}/.*)\\.js$": "$1",
   },
-  testMatch: ["**/*.spec.ts"],
+  testMatch: ["<rootDir>/src/**/*.spec.ts"],
+
+  /**
+   * ESM 模式下把 jest 对象挂载到全局
+   */
+  setupFilesAfterEnv: ["<rootDir>/__tests__/setup/jest-setup.ts"],
 };
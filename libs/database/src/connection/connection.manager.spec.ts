@@ -5,15 +5,25 @@
  */
 
 import { FastifyLoggerService } from "@hl8/nestjs-fastify";
-import { MikroORM } from "@mikro-orm/core";
+import { MetadataStorage, MikroORM } from "@mikro-orm/core";
 import { Test, TestingModule } from "@nestjs/testing";
+import { DI_TOKENS } from "../constants/tokens.js";
 import { DatabaseConnectionException } from "../exceptions/database-connection.exception.js";
+import {
+  ISOLATION_FILTER,
+  IsolatedEntity,
+} from "../isolation/isolated-entity.decorator.js";
+import { DatabaseIsolationService } from "../isolation/isolation.service.js";
+import type { DatabaseModuleOptions } from "../types/module.types.js";
+import { TenancyStrategy } from "../types/tenancy.types.js";
 import { ConnectionManager } from "./connection.manager.js";
 
 describe("ConnectionManager", () => {
   let manager: ConnectionManager;
   let mockOrm: jest.Mocked<MikroORM>;
   let mockLogger: jest.Mocked<FastifyLoggerService>;
+  let mockIsolationService: jest.Mocked<DatabaseIsolationService>;
+  let moduleOptions: Partial<DatabaseModuleOptions>;
 
   beforeEach(async () => {
     mockLogger = {
@@ -23,7 +33,14 @@ describe("ConnectionManager", () => {
       debug: jest.fn(),
     } as any;
 
+    mockIsolationService = {
+      getTenantId: jest.fn(),
+    } as any;
+
+    moduleOptions = {};
+
     mockOrm = {
+      em: { fork: jest.fn((options) => ({ forked: options })) },
       isConnected: jest.fn().mockResolvedValue(true),
       close: jest.fn().mockResolvedValue(undefined),
       config: {
@@ -36,6 +53,7 @@ describe("ConnectionManager", () => {
           };
           return config[key];
         }),
+        getAll: jest.fn(() => ({ dbName: "test_db" })),
       },
     } as any;
 
@@ -50,6 +68,14 @@ describe("ConnectionManager", () => {
           provide: FastifyLoggerService,
           useValue: mockLogger,
         },
+        {
+          provide: DI_TOKENS.MODULE_OPTIONS,
+          useValue: moduleOptions,
+        },
+        {
+          provide: DatabaseIsolationService,
+          useValue: mockIsolationService,
+        },
       ],
     }).compile();
 
@@ -71,10 +97,18 @@ describe("ConnectionManager", () => {
 
     it("应该在连接失败时抛出异常", async () => {
       mockOrm.isConnected.mockRejectedValue(new Error("Connection failed"));
+      // 跳过重连之间的指数退避等待
+      jest.useFakeTimers();
 
-      await expect(manager.connect()).rejects.toThrow(
-        DatabaseConnectionException,
-      );
+      try {
+        const connecting = expect(manager.connect()).rejects.toThrow(
+          DatabaseConnectionException,
+        );
+        await jest.runAllTimersAsync();
+        await connecting;
+      } finally {
+        jest.useRealTimers();
+      }
     });
   });
 
@@ -115,4 +149,200 @@ describe("ConnectionManager", () => {
       expect(info).toHaveProperty("poolStats");
     });
   });
+
+  describe("从库路由", () => {
+    const replicaA = { name: "a" };
+    const replicaB = { name: "b" };
+
+    beforeEach(() => {
+      (mockOrm as any).driver = { replicas: [replicaA, replicaB] };
+      (mockOrm.config.get as jest.Mock).mockImplementation((key: string) =>
+        key === "replicas" ? [{ name: "reporting" }, {}] : undefined,
+      );
+    });
+
+    it("应该按配置顺序返回从库名称", () => {
+      expect(manager.getReplicaConnections()).toEqual([
+        { name: "reporting", connection: replicaA },
+        { name: "replica-2", connection: replicaB },
+      ]);
+    });
+
+    it("应该在轮转中的从库间轮询，并跳过移出轮转的从库", () => {
+      expect([
+        manager.getReadConnection(),
+        manager.getReadConnection(),
+        manager.getReadConnection(),
+      ]).toEqual([replicaA, replicaB, replicaA]);
+
+      manager.setReplicaStatus({ name: "reporting", inRotation: false });
+
+      expect(manager.getReadConnection()).toBe(replicaB);
+      expect(manager.getReadConnection()).toBe(replicaB);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "从库移出读轮转",
+        expect.objectContaining({ replica: "reporting" }),
+      );
+    });
+
+    it("没有可用从库时应该返回 undefined", () => {
+      manager.setReplicaStatus({ name: "reporting", inRotation: false });
+      manager.setReplicaStatus({ name: "replica-2", inRotation: false });
+
+      expect(manager.getReadConnection()).toBeUndefined();
+    });
+  });
+
+  describe("租户物理隔离", () => {
+    const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+    const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("应该按前缀和租户 ID 生成 schema 名称", () => {
+      expect(manager.getTenantSchema(TENANT_A)).toBe(
+        "tenant_550e8400_e29b_41d4_a716_446655440000",
+      );
+      expect(() => manager.getTenantSchema('a"; drop schema public')).toThrow(
+        DatabaseConnectionException,
+      );
+    });
+
+    it("共享表模式或没有租户时应该返回默认 EntityManager", async () => {
+      mockIsolationService.getTenantId.mockReturnValue(TENANT_A);
+      await expect(manager.getEntityManager()).resolves.toBe(mockOrm.em);
+
+      moduleOptions.tenancy = { strategy: TenancyStrategy.SCHEMA_PER_TENANT };
+      mockIsolationService.getTenantId.mockReturnValue(undefined);
+      await expect(manager.getEntityManager()).resolves.toBe(mockOrm.em);
+    });
+
+    it("schema-per-tenant 应该 fork 到租户 schema", async () => {
+      moduleOptions.tenancy = { strategy: TenancyStrategy.SCHEMA_PER_TENANT };
+      mockIsolationService.getTenantId.mockReturnValue(TENANT_A);
+
+      await expect(manager.getEntityManager()).resolves.toEqual({
+        forked: { schema: "tenant_550e8400_e29b_41d4_a716_446655440000" },
+      });
+    });
+
+    it("database-per-tenant 应该缓存租户 ORM 并淘汰最久未使用的连接", async () => {
+      moduleOptions.tenancy = {
+        strategy: TenancyStrategy.DATABASE_PER_TENANT,
+        maxTenantConnections: 1,
+        evictionGraceMs: 0,
+      };
+      const orms: any[] = [];
+      const init = jest
+        .spyOn(MikroORM, "init")
+        .mockImplementation(async (options: any) => {
+          const orm = {
+            config: {},
+            em: { dbName: options.dbName },
+            close: jest.fn(),
+          };
+          orms.push(orm);
+          return orm as any;
+        });
+
+      mockIsolationService.getTenantId.mockReturnValue(TENANT_A);
+      const first = await manager.getEntityManager();
+      await manager.getEntityManager();
+      expect(first).toEqual({
+        dbName: "tenant_550e8400_e29b_41d4_a716_446655440000",
+      });
+      expect(init).toHaveBeenCalledTimes(1);
+      expect(manager.getReadConnection()).toBeUndefined();
+
+      mockIsolationService.getTenantId.mockReturnValue(TENANT_B);
+      await manager.getEntityManager();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect(init).toHaveBeenCalledTimes(2);
+      expect(orms[0].close).toHaveBeenCalled();
+      expect(manager.getTenantConnectionCount()).toBe(1);
+    });
+
+    it("被淘汰的租户连接应该在宽限期后才关闭，期间再次访问时恢复使用", async () => {
+      moduleOptions.tenancy = {
+        strategy: TenancyStrategy.DATABASE_PER_TENANT,
+        maxTenantConnections: 1,
+        evictionGraceMs: 20,
+      };
+      const orms: any[] = [];
+      const init = jest
+        .spyOn(MikroORM, "init")
+        .mockImplementation(async (options: any) => {
+          const orm = {
+            config: {},
+            em: { dbName: options.dbName },
+            close: jest.fn(),
+          };
+          orms.push(orm);
+          return orm as any;
+        });
+
+      const first = await manager.getTenantOrm(TENANT_A);
+      await manager.getTenantOrm(TENANT_B);
+      expect(orms[0].close).not.toHaveBeenCalled();
+
+      // 宽限期内再次访问 A：复用原连接，B 被淘汰
+      await expect(manager.getTenantOrm(TENANT_A)).resolves.toBe(first);
+      expect(init).toHaveBeenCalledTimes(2);
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(orms[0].close).not.toHaveBeenCalled();
+      expect(orms[1].close).toHaveBeenCalled();
+    });
+
+    it("租户 ORM 应该注册隔离服务", async () => {
+      moduleOptions.tenancy = { strategy: TenancyStrategy.DATABASE_PER_TENANT };
+      const buildEntityFilter = jest.fn().mockReturnValue({ tenantId: "t" });
+      (mockIsolationService as any).buildEntityFilter = buildEntityFilter;
+      jest
+        .spyOn(MikroORM, "init")
+        .mockImplementation(async () => ({ config: {}, em: {} }) as any);
+
+      const orm = await manager.getTenantOrm(TENANT_A);
+
+      @IsolatedEntity()
+      class Invoice {}
+      const cond = MetadataStorage.getMetadataFromDecorator(Invoice).filters[
+        ISOLATION_FILTER
+      ].cond as (args: object, type: string, em: object) => unknown;
+
+      expect(cond({}, "read", { config: orm.config })).toEqual({
+        tenantId: "t",
+      });
+    });
+
+    it("模块销毁时应该立即关闭等待关闭的租户连接", async () => {
+      moduleOptions.tenancy = {
+        strategy: TenancyStrategy.DATABASE_PER_TENANT,
+        maxTenantConnections: 1,
+      };
+      const close = jest.fn();
+      jest
+        .spyOn(MikroORM, "init")
+        .mockImplementation(async () => ({ config: {}, em: {}, close }) as any);
+
+      await manager.getTenantOrm(TENANT_A);
+      await manager.getTenantOrm(TENANT_B);
+      await manager.onModuleDestroy();
+
+      expect(close).toHaveBeenCalledTimes(2);
+    });
+
+    it("连接租户数据库失败时应该抛出异常并允许重试", async () => {
+      moduleOptions.tenancy = { strategy: TenancyStrategy.DATABASE_PER_TENANT };
+      jest.spyOn(MikroORM, "init").mockRejectedValue(new Error("refused"));
+
+      await expect(manager.getTenantOrm(TENANT_A)).rejects.toThrow(
+        DatabaseConnectionException,
+      );
+      expect(manager.getTenantConnectionCount()).toBe(0);
+    });
+  });
 });
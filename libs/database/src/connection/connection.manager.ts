@@ -16,9 +16,24 @@
  * - 检测到不健康的连接立即标记
  * - 提供健康检查接口供外部调用
  *
+ * ### 从库路由规则
+ * - 从库来自 MikroORM 的 replicas 配置，按名称跟踪读轮转状态
+ * - getReadConnection 在轮转中的从库间轮询，没有可用从库时返回 undefined，由调用方回退到主库
+ * - 从库是否在轮转中由 HealthCheckService 根据复制延迟更新
+ *
+ * ### 租户物理隔离规则
+ * - 按 tenancy.strategy 从 CLS 隔离上下文的租户 ID 解析 EntityManager
+ * - shared-schema：所有租户共用默认 EntityManager
+ * - schema-per-tenant：fork 默认 EntityManager 并指定租户 schema，共用连接池
+ * - database-per-tenant：每个租户一个 MikroORM 实例，按 LRU 保留 maxTenantConnections 个
+ * - 被淘汰的租户连接在 evictionGraceMs（默认 60 秒）后才关闭，进行中的请求可以继续使用；期间再次访问该租户时恢复使用，不重新连接
+ * - 上下文中没有租户（平台级操作）时使用默认 EntityManager
+ * - database-per-tenant 下租户请求不使用主库的从库
+ * - 主 ORM 和每个租户 ORM 都注册 DatabaseIsolationService，供 @IsolatedEntity 过滤器使用
+ *
  * ### 生命周期规则
  * - onModuleInit: 建立初始连接
- * - onModuleDestroy: 优雅关闭所有连接
+ * - onModuleDestroy: 优雅关闭所有连接（含租户数据库连接和等待关闭的租户连接）
  * - 确保资源正确释放
  *
  * @example
@@ -40,15 +55,34 @@
  */
 
 import { FastifyLoggerService } from "@hl8/nestjs-fastify";
-import { MikroORM } from "@mikro-orm/core";
-import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
-import { CONNECTION_DEFAULTS } from "../constants/defaults.js";
+import {
+  type Connection,
+  EntityManager,
+  MikroORM,
+  type Options,
+} from "@mikro-orm/core";
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import {
+  CONNECTION_DEFAULTS,
+  TENANCY_DEFAULTS,
+} from "../constants/defaults.js";
+import { DI_TOKENS } from "../constants/tokens.js";
 import { DatabaseConnectionException } from "../exceptions/database-connection.exception.js";
+import { bindIsolationService } from "../isolation/isolated-entity.decorator.js";
+import { DatabaseIsolationService } from "../isolation/isolation.service.js";
 import {
   ConnectionStatus,
   type ConnectionInfo,
   type PoolStats,
+  type ReplicaStatus,
 } from "../types/connection.types.js";
+import type { DatabaseModuleOptions } from "../types/module.types.js";
+import { TenancyStrategy } from "../types/tenancy.types.js";
 
 @Injectable()
 export class ConnectionManager implements OnModuleInit, OnModuleDestroy {
@@ -56,11 +90,24 @@ export class ConnectionManager implements OnModuleInit, OnModuleDestroy {
   private connectedAt?: Date;
   private lastActivityAt?: Date;
   private reconnectAttempts = 0;
+  private readonly replicaStatuses = new Map<string, ReplicaStatus>();
+  private replicaCursor = 0;
+  // Map 按插入顺序迭代，访问时重新插入即可实现 LRU
+  private readonly tenantOrms = new Map<string, Promise<MikroORM>>();
+  // 已淘汰、等待关闭的租户 ORM
+  private readonly evictedTenantOrms = new Map<
+    string,
+    { orm: Promise<MikroORM>; timer: NodeJS.Timeout }
+  >();
 
   constructor(
     private readonly orm: MikroORM,
     private readonly logger: FastifyLoggerService,
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    private readonly options: DatabaseModuleOptions,
+    private readonly isolationService: DatabaseIsolationService,
   ) {
+    bindIsolationService(orm, isolationService);
     this.logger.log("ConnectionManager 初始化");
   }
 
@@ -81,6 +128,7 @@ export class ConnectionManager implements OnModuleInit, OnModuleDestroy {
    */
   async onModuleDestroy(): Promise<void> {
     this.logger.log("正在关闭数据库连接...");
+    await this.closeTenantOrms();
     await this.disconnect();
   }
 
@@ -261,6 +309,240 @@ export class ConnectionManager implements OnModuleInit, OnModuleDestroy {
     };
   }
 
+  /**
+   * 获取从库连接
+   *
+   * @description 按 replicas 配置顺序返回从库名称和连接
+   *
+   * @returns 从库列表，未配置从库时为空
+   */
+  getReplicaConnections(): Array<{ name: string; connection: Connection }> {
+    const connections: Connection[] = (this.orm as any).driver?.replicas ?? [];
+    const configs: Array<{ name?: string }> =
+      this.orm.config.get("replicas") ?? [];
+
+    return connections.map((connection, index) => ({
+      name: configs[index]?.name ?? `replica-${index + 1}`,
+      connection,
+    }));
+  }
+
+  /**
+   * 获取读连接
+   *
+   * @description 在轮转中的从库间轮询
+   *
+   * @returns 从库连接，没有可用从库时返回 undefined
+   */
+  getReadConnection(): Connection | undefined {
+    if (
+      this.getTenancyStrategy() === TenancyStrategy.DATABASE_PER_TENANT &&
+      this.isolationService.getTenantId()
+    ) {
+      return undefined;
+    }
+
+    const available = this.getReplicaConnections().filter(
+      ({ name }) => this.replicaStatuses.get(name)?.inRotation ?? true,
+    );
+    if (available.length === 0) {
+      return undefined;
+    }
+
+    const replica = available[this.replicaCursor++ % available.length];
+    this.lastActivityAt = new Date();
+    return replica.connection;
+  }
+
+  /**
+   * 获取从库状态
+   *
+   * @returns 各从库的读轮转状态，尚未检查的从库视为在轮转中
+   */
+  getReplicaStatuses(): ReplicaStatus[] {
+    return this.getReplicaConnections().map(
+      ({ name }) =>
+        this.replicaStatuses.get(name) ?? { name, inRotation: true },
+    );
+  }
+
+  /**
+   * 更新从库状态
+   *
+   * @description 移出或重新加入读轮转时记录日志
+   *
+   * @param status - 从库状态
+   */
+  setReplicaStatus(status: ReplicaStatus): void {
+    const previous = this.replicaStatuses.get(status.name);
+    this.replicaStatuses.set(status.name, status);
+
+    if ((previous?.inRotation ?? true) === status.inRotation) {
+      return;
+    }
+    if (status.inRotation) {
+      this.logger.log("从库恢复，重新加入读轮转", {
+        replica: status.name,
+        lag: status.lag,
+      });
+    } else {
+      this.logger.warn("从库移出读轮转", {
+        replica: status.name,
+        lag: status.lag,
+        error: status.error,
+      });
+    }
+  }
+
+  /**
+   * 获取租户存放策略
+   *
+   * @returns 未配置 tenancy 时为 SHARED_SCHEMA
+   *
+   * @since 1.1.0
+   */
+  getTenancyStrategy(): TenancyStrategy {
+    return this.options.tenancy?.strategy ?? TenancyStrategy.SHARED_SCHEMA;
+  }
+
+  /**
+   * 获取租户 schema 名称
+   *
+   * @param tenantId - 租户 ID
+   * @returns 前缀 + 租户 ID（连字符替换为下划线）
+   * @throws {DatabaseConnectionException} 租户 ID 含有不能用于标识符的字符时抛出
+   *
+   * @since 1.1.0
+   */
+  getTenantSchema(tenantId: string): string {
+    return this.toIdentifier(
+      this.options.tenancy?.schemaPrefix ?? TENANCY_DEFAULTS.SCHEMA_PREFIX,
+      tenantId,
+    );
+  }
+
+  /**
+   * 获取租户数据库名称
+   *
+   * @param tenantId - 租户 ID
+   * @returns 前缀 + 租户 ID（连字符替换为下划线）
+   * @throws {DatabaseConnectionException} 租户 ID 含有不能用于标识符的字符时抛出
+   *
+   * @since 1.1.0
+   */
+  getTenantDatabase(tenantId: string): string {
+    return this.toIdentifier(
+      this.options.tenancy?.databasePrefix ?? TENANCY_DEFAULTS.DATABASE_PREFIX,
+      tenantId,
+    );
+  }
+
+  /**
+   * 获取当前租户的 EntityManager
+   *
+   * @description 按租户存放策略和 CLS 隔离上下文中的租户 ID 解析
+   *
+   * @returns 租户的 EntityManager；共享表模式或没有租户时为默认 EntityManager
+   *
+   * @since 1.1.0
+   */
+  async getEntityManager(): Promise<EntityManager> {
+    const tenantId = this.isolationService.getTenantId();
+    if (!tenantId) {
+      return this.orm.em;
+    }
+
+    switch (this.getTenancyStrategy()) {
+      case TenancyStrategy.SCHEMA_PER_TENANT:
+        return this.orm.em.fork({ schema: this.getTenantSchema(tenantId) });
+
+      case TenancyStrategy.DATABASE_PER_TENANT:
+        return (await this.getTenantOrm(tenantId)).em;
+
+      default:
+        return this.orm.em;
+    }
+  }
+
+  /**
+   * 获取租户数据库的 ORM 实例
+   *
+   * @description 首次访问时连接租户数据库，超过 maxTenantConnections 时淘汰最久未使用的租户连接，
+   * 被淘汰的连接在 evictionGraceMs 后关闭
+   *
+   * @param tenantId - 租户 ID
+   * @returns 租户的 MikroORM 实例
+   * @throws {DatabaseConnectionException} 连接租户数据库失败时抛出
+   *
+   * @since 1.1.0
+   */
+  async getTenantOrm(tenantId: string): Promise<MikroORM> {
+    let orm = this.tenantOrms.get(tenantId);
+    const evicted = this.evictedTenantOrms.get(tenantId);
+
+    if (orm) {
+      this.tenantOrms.delete(tenantId);
+    } else if (evicted) {
+      // 尚未关闭，恢复使用
+      clearTimeout(evicted.timer);
+      this.evictedTenantOrms.delete(tenantId);
+      orm = evicted.orm;
+    } else {
+      orm = this.createTenantOrm(tenantId);
+      // 连接失败时移除，下次访问重新连接
+      orm.catch(() => {
+        if (this.tenantOrms.get(tenantId) === orm) {
+          this.tenantOrms.delete(tenantId);
+        }
+        const evicted = this.evictedTenantOrms.get(tenantId);
+        if (evicted?.orm === orm) {
+          clearTimeout(evicted.timer);
+          this.evictedTenantOrms.delete(tenantId);
+        }
+      });
+    }
+    this.tenantOrms.set(tenantId, orm);
+
+    this.evictTenantOrms(
+      this.options.tenancy?.maxTenantConnections ??
+        TENANCY_DEFAULTS.MAX_TENANT_CONNECTIONS,
+    );
+    return orm;
+  }
+
+  /**
+   * 获取租户数据库的连接配置
+   *
+   * @description 沿用默认 ORM 的实体和配置，数据库名称及 resolveConnection 返回的字段按租户替换，不使用从库
+   *
+   * @param tenantId - 租户 ID
+   * @returns 可传给 MikroORM.init 的配置
+   *
+   * @since 1.1.0
+   */
+  async getTenantOrmOptions(tenantId: string): Promise<Options> {
+    const connection =
+      (await this.options.tenancy?.resolveConnection?.(tenantId)) ?? {};
+    return {
+      ...this.orm.config.getAll(),
+      host: connection.host ?? this.orm.config.get("host"),
+      port: connection.port ?? this.orm.config.get("port"),
+      user: connection.username ?? this.orm.config.get("user"),
+      password: connection.password ?? this.orm.config.get("password"),
+      dbName: connection.database ?? this.getTenantDatabase(tenantId),
+      replicas: [],
+    };
+  }
+
+  /**
+   * 获取已连接的租户数量
+   *
+   * @since 1.1.0
+   */
+  getTenantConnectionCount(): number {
+    return this.tenantOrms.size;
+  }
+
   /**
    * 获取 ORM 实例
    *
@@ -286,6 +568,110 @@ export class ConnectionManager implements OnModuleInit, OnModuleDestroy {
     };
   }
 
+  /**
+   * 连接租户数据库
+   */
+  private async createTenantOrm(tenantId: string): Promise<MikroORM> {
+    const database = this.getTenantDatabase(tenantId);
+
+    try {
+      const options = await this.getTenantOrmOptions(tenantId);
+      const orm = await MikroORM.init({
+        ...options,
+        pool: {
+          ...options.pool,
+          min: 0,
+          max:
+            this.options.tenancy?.tenantPoolMax ??
+            TENANCY_DEFAULTS.TENANT_POOL_MAX,
+        },
+      });
+      bindIsolationService(orm, this.isolationService);
+
+      this.logger.log("租户数据库已连接", { tenantId, database });
+      return orm;
+    } catch (error) {
+      this.logger.error("连接租户数据库失败", (error as Error).stack, {
+        tenantId,
+        database,
+      });
+      throw new DatabaseConnectionException("无法连接到租户数据库", {
+        tenantId,
+        database,
+      });
+    }
+  }
+
+  /**
+   * 淘汰最久未使用的租户连接，直到数量不超过 max
+   *
+   * @description 淘汰的连接在 evictionGraceMs 后关闭，让已取得连接的请求执行完
+   */
+  private evictTenantOrms(max: number): void {
+    const graceMs =
+      this.options.tenancy?.evictionGraceMs ??
+      TENANCY_DEFAULTS.EVICTION_GRACE_MS;
+
+    while (this.tenantOrms.size > max) {
+      const [tenantId, orm] = this.tenantOrms.entries().next().value!;
+      this.tenantOrms.delete(tenantId);
+
+      const timer = setTimeout(() => {
+        this.evictedTenantOrms.delete(tenantId);
+        void this.closeTenantOrm(tenantId, orm);
+      }, graceMs);
+      timer.unref();
+      this.evictedTenantOrms.set(tenantId, { orm, timer });
+    }
+  }
+
+  /**
+   * 立即关闭所有租户连接，包括等待关闭的连接
+   */
+  private async closeTenantOrms(): Promise<void> {
+    const orms = [...this.tenantOrms];
+    for (const [tenantId, { orm, timer }] of this.evictedTenantOrms) {
+      clearTimeout(timer);
+      orms.push([tenantId, orm]);
+    }
+    this.tenantOrms.clear();
+    this.evictedTenantOrms.clear();
+
+    for (const [tenantId, orm] of orms) {
+      await this.closeTenantOrm(tenantId, orm);
+    }
+  }
+
+  private async closeTenantOrm(
+    tenantId: string,
+    orm: Promise<MikroORM>,
+  ): Promise<void> {
+    try {
+      await (await orm).close();
+      this.logger.log("租户数据库连接已关闭", { tenantId });
+    } catch (error) {
+      this.logger.warn("关闭租户数据库连接失败", {
+        tenantId,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * 生成租户 schema 或数据库名称
+   */
+  private toIdentifier(prefix: string, tenantId: string): string {
+    const identifier = `${prefix}${tenantId}`.toLowerCase().replace(/-/g, "_");
+
+    if (!/^[a-z_][a-z0-9_]{0,62}$/.test(identifier)) {
+      throw new DatabaseConnectionException("租户 ID 不能用于生成标识符", {
+        tenantId,
+        identifier,
+      });
+    }
+    return identifier;
+  }
+
   /**
    * 延迟辅助方法
    *
@@ -99,6 +99,65 @@ export const CONNECTION_DEFAULTS = {
   RECONNECT_MAX_DELAY: 30_000,
 } as const;
 
+/**
+ * 从库复制默认配置
+ */
+export const REPLICATION_DEFAULTS = {
+  /**
+   * 允许的最大复制延迟（毫秒），超过后从库移出读轮转
+   *
+   * @default 10000 (10 秒)
+   */
+  MAX_LAG: 10_000,
+
+  /**
+   * 复制延迟检查间隔（毫秒）
+   *
+   * @default 5000 (5 秒)
+   */
+  CHECK_INTERVAL: 5_000,
+} as const;
+
+/**
+ * 多租户物理隔离默认配置
+ */
+export const TENANCY_DEFAULTS = {
+  /**
+   * 租户 schema 名称前缀
+   *
+   * @default "tenant_"
+   */
+  SCHEMA_PREFIX: "tenant_",
+
+  /**
+   * 租户数据库名称前缀
+   *
+   * @default "tenant_"
+   */
+  DATABASE_PREFIX: "tenant_",
+
+  /**
+   * 同时保持连接的租户数据库数量（LRU）
+   *
+   * @default 20
+   */
+  MAX_TENANT_CONNECTIONS: 20,
+
+  /**
+   * 每个租户数据库的连接池上限
+   *
+   * @default 5
+   */
+  TENANT_POOL_MAX: 5,
+
+  /**
+   * 被淘汰的租户连接延迟关闭的时间（毫秒），与事务默认超时一致
+   *
+   * @default 60000 (60 秒)
+   */
+  EVICTION_GRACE_MS: 60_000,
+} as const;
+
 /**
  * 事务默认配置
  */
@@ -109,6 +168,20 @@ export const TRANSACTION_DEFAULTS = {
    * @default 60000 (60 秒)
    */
   TIMEOUT: 60_000,
+
+  /**
+   * 冲突重试退避基数（毫秒）
+   *
+   * @default 50
+   */
+  RETRY_BACKOFF: 50,
+
+  /**
+   * 冲突重试最大等待时间（毫秒）
+   *
+   * @default 2000 (2 秒)
+   */
+  RETRY_MAX_BACKOFF: 2_000,
 } as const;
 
 /**
@@ -142,4 +215,24 @@ export const MONITORING_DEFAULTS = {
    * @default 3000 (3 秒)
    */
   HEALTH_CHECK_TIMEOUT: 3_000,
+
+  /**
+   * 慢查询执行计划采样比例
+   *
+   * @default 0.1
+   */
+  EXPLAIN_SAMPLE_RATE: 0.1,
+
+  /**
+   * N+1 检测阈值：同一请求中同一语句形态允许执行的次数
+   *
+   * @default 10
+   */
+  N_PLUS_ONE_THRESHOLD: 10,
+
+  /**
+   * N+1 告警查找调用位置时跳过的栈帧：依赖包、MikroORM / Knex（打包部署时不在 node_modules 下）、Node 内部和本库
+   */
+  N_PLUS_ONE_IGNORED_FRAMES:
+    /node_modules|node:internal|@mikro-orm|[\\/]knex[\\/]|@hl8[\\/]database|libs[\\/]database[\\/](?:src|dist)[\\/]/,
 } as const;
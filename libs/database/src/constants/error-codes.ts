@@ -40,6 +40,30 @@ export const DATABASE_ERROR_CODES = {
    */
   TRANSACTION_ERROR: "DATABASE_TRANSACTION_ERROR",
 
+  /**
+   * 事务传播错误
+   *
+   * @description 事务状态不满足传播行为要求（MANDATORY、NEVER）
+   * @httpStatus 500
+   */
+  TRANSACTION_PROPAGATION_ERROR: "DATABASE_TRANSACTION_PROPAGATION_ERROR",
+
+  /**
+   * 事务超时
+   *
+   * @description 事务执行时间超过 timeout，已回滚
+   * @httpStatus 500
+   */
+  TRANSACTION_TIMEOUT: "DATABASE_TRANSACTION_TIMEOUT",
+
+  /**
+   * 只读事务写入
+   *
+   * @description 只读事务中存在待写入的实体变更，已回滚
+   * @httpStatus 500
+   */
+  TRANSACTION_READ_ONLY_VIOLATION: "DATABASE_TRANSACTION_READ_ONLY_VIOLATION",
+
   /**
    * 隔离上下文缺失
    *
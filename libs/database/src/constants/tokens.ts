@@ -63,6 +63,15 @@ export const DI_TOKENS = {
    * @description 用于注入性能指标服务实例
    */
   METRICS_SERVICE: "DATABASE_METRICS_SERVICE",
+
+  /**
+   * 查询监听器集合令牌
+   *
+   * @description 用于注入 QueryLogger 共享的查询监听器集合
+   *
+   * @since 1.1.0
+   */
+  QUERY_LISTENERS: "DATABASE_QUERY_LISTENERS",
 } as const;
 
 /**
@@ -19,6 +19,23 @@
  * - onModuleInit: 建立数据库连接
  * - onModuleDestroy: 优雅关闭连接
  *
+ * ### 读写分离规则
+ * - 配置 replicas 后，只读事务和 @ReadOnly() 方法路由到从库
+ * - 写入和写事务中的所有操作都在主库执行
+ * - 复制延迟超过 replication.maxLag 的从库移出读轮转
+ *
+ * ### 查询监控规则
+ * - MikroORM 使用 QueryLogger，每条查询由 QueryInstrumentationService 计时并写入 MetricsService
+ * - 同时导入 nestjs-fastify 的 MetricsModule 时导出 Prometheus 直方图
+ * - 通过 mikroORM.loggerFactory 覆盖日志记录器会关闭查询监控
+ *
+ * ### 租户物理隔离规则
+ * - tenancy.strategy 默认 shared-schema，所有租户共享 entities 对应的表
+ * - schema-per-tenant / database-per-tenant 下事务按当前租户切换 schema 或数据库
+ * - 新租户通过 TenantProvisioningService 开通，结构变更通过其 migrateAll 下发到所有租户
+ * - 导出 DatabaseIsolationEventSink，可在 IsolationModule 的 eventSinks 中引用，将隔离事件写入 isolation_events 表
+ * - 导出 ClosureTableDepartmentHierarchy，可作为 IsolationModule 的 departmentHierarchy，从部门闭包表查询下级部门
+ *
  * @example
  * ```typescript
  * // 同步配置
@@ -58,6 +75,7 @@
  * @since 1.0.0
  */
 
+import type { ConnectionOptions, LoggerOptions } from "@mikro-orm/core";
 import { MikroOrmModule } from "@mikro-orm/nestjs";
 import { PostgreSqlDriver } from "@mikro-orm/postgresql";
 import { DynamicModule, Global, Module, Provider } from "@nestjs/common";
@@ -65,15 +83,39 @@ import { ClsModule } from "nestjs-cls";
 import { ConnectionManager } from "./connection/connection.manager.js";
 import { POOL_DEFAULTS } from "./constants/defaults.js";
 import { DI_TOKENS } from "./constants/tokens.js";
+import { ClosureTableDepartmentHierarchy } from "./isolation/department-closure.hierarchy.js";
+import { DatabaseIsolationEventSink } from "./isolation/isolation-event.sink.js";
 import { DatabaseIsolationService } from "./isolation/isolation.service.js";
 import { HealthCheckService } from "./monitoring/health-check.service.js";
 import { MetricsService } from "./monitoring/metrics.service.js";
+import { QueryInstrumentationService } from "./monitoring/query-instrumentation.service.js";
+import { type QueryListener, QueryLogger } from "./monitoring/query-logger.js";
+import { TenantProvisioningService } from "./tenancy/tenant-provisioning.service.js";
 import { TransactionService } from "./transaction/transaction.service.js";
+import type { ReplicaConfig } from "./types/connection.types.js";
 import type {
   DatabaseModuleAsyncOptions,
   DatabaseModuleOptions,
 } from "./types/module.types.js";
 
+/**
+ * 转换为 MikroORM 从库配置
+ *
+ * @description 未提供的连接字段由 MikroORM 沿用主库配置；名称默认 replica-{序号}
+ */
+function toReplicaOptions(
+  replicas: ReplicaConfig[] | undefined,
+): ConnectionOptions[] {
+  return (replicas ?? []).map((replica, index) => ({
+    name: replica.name ?? `replica-${index + 1}`,
+    host: replica.host,
+    port: replica.port,
+    dbName: replica.database,
+    user: replica.username,
+    password: replica.password,
+  }));
+}
+
 /**
  * 数据库管理模块
  *
@@ -91,16 +133,25 @@ export class DatabaseModule {
    * @returns 动态模块配置
    */
   static forRoot(options: DatabaseModuleOptions): DynamicModule {
+    const queryListeners = new Set<QueryListener>();
     const providers: Provider[] = [
       {
         provide: DI_TOKENS.MODULE_OPTIONS,
         useValue: options,
       },
+      {
+        provide: DI_TOKENS.QUERY_LISTENERS,
+        useValue: queryListeners,
+      },
       ConnectionManager,
       TransactionService,
       DatabaseIsolationService,
+      DatabaseIsolationEventSink,
+      ClosureTableDepartmentHierarchy,
       HealthCheckService,
       MetricsService,
+      QueryInstrumentationService,
+      TenantProvisioningService,
     ];
 
     return {
@@ -134,6 +185,12 @@ export class DatabaseModule {
             createTimeoutMillis:
               options.pool?.createTimeoutMillis ?? POOL_DEFAULTS.CREATE_TIMEOUT,
           },
+          replicas: toReplicaOptions(options.replicas),
+          // 不让 MikroORM 自行把事务外的读发往从库，由 TransactionService 按路由策略决定
+          preferReadReplicas: false,
+          // 每条查询经 QueryLogger 通知 QueryInstrumentationService 计时
+          loggerFactory: (loggerOptions: LoggerOptions) =>
+            new QueryLogger(loggerOptions, queryListeners),
           debug: options.debug ?? false,
           ...options.mikroORM,
         } as any),
@@ -144,8 +201,11 @@ export class DatabaseModule {
         ConnectionManager,
         TransactionService,
         DatabaseIsolationService,
+        DatabaseIsolationEventSink,
+        ClosureTableDepartmentHierarchy,
         HealthCheckService,
         MetricsService,
+        TenantProvisioningService,
       ],
     };
   }
@@ -159,17 +219,26 @@ export class DatabaseModule {
    * @returns 动态模块配置
    */
   static forRootAsync(options: DatabaseModuleAsyncOptions): DynamicModule {
+    const queryListeners = new Set<QueryListener>();
     const providers: Provider[] = [
       {
         provide: DI_TOKENS.MODULE_OPTIONS,
         useFactory: options.useFactory,
         inject: options.inject || [],
       },
+      {
+        provide: DI_TOKENS.QUERY_LISTENERS,
+        useValue: queryListeners,
+      },
       ConnectionManager,
       TransactionService,
       DatabaseIsolationService,
+      DatabaseIsolationEventSink,
+      ClosureTableDepartmentHierarchy,
       HealthCheckService,
       MetricsService,
+      QueryInstrumentationService,
+      TenantProvisioningService,
     ];
 
     return {
@@ -208,6 +277,10 @@ export class DatabaseModule {
                   config.pool?.createTimeoutMillis ??
                   POOL_DEFAULTS.CREATE_TIMEOUT,
               },
+              replicas: toReplicaOptions(config.replicas),
+              preferReadReplicas: false,
+              loggerFactory: (loggerOptions: LoggerOptions) =>
+                new QueryLogger(loggerOptions, queryListeners),
               debug: config.debug ?? false,
               ...config.mikroORM,
             } as any;
@@ -221,8 +294,11 @@ export class DatabaseModule {
         ConnectionManager,
         TransactionService,
         DatabaseIsolationService,
+        DatabaseIsolationEventSink,
+        ClosureTableDepartmentHierarchy,
         HealthCheckService,
         MetricsService,
+        TenantProvisioningService,
       ],
     };
   }
@@ -4,6 +4,7 @@
  * @description 测试 DatabaseTransactionException 异常类
  */
 
+import { DATABASE_ERROR_CODES } from "../constants/error-codes.js";
 import { DatabaseTransactionException } from "./database-transaction.exception.js";
 
 describe("DatabaseTransactionException", () => {
@@ -20,4 +21,15 @@ describe("DatabaseTransactionException", () => {
     expect(response.status).toBe(500);
     expect(response.title).toBe("数据库事务错误");
   });
+
+  it("应该支持专用错误代码", () => {
+    const exception = new DatabaseTransactionException(
+      "事务超时",
+      undefined,
+      DATABASE_ERROR_CODES.TRANSACTION_TIMEOUT,
+    );
+    const response = exception.getResponse() as any;
+
+    expect(response.errorCode).toBe("DATABASE_TRANSACTION_TIMEOUT");
+  });
 });
@@ -6,7 +6,7 @@
  * ## 业务规则
  *
  * - HTTP 状态码：500 Internal Server Error
- * - 错误代码：DATABASE_TRANSACTION_ERROR
+ * - 错误代码：默认 DATABASE_TRANSACTION_ERROR；超时、只读事务写入等可区分的失败使用专用代码
  * - 使用场景：事务提交失败、回滚失败、死锁
  *
  * ## 使用场景
@@ -15,6 +15,7 @@
  * - 事务回滚失败
  * - 事务超时
  * - 数据库死锁
+ * - 只读事务中写入
  *
  * @example
  * ```typescript
@@ -34,6 +35,7 @@
  */
 
 import { AbstractHttpException } from "@hl8/exceptions";
+import { DATABASE_ERROR_CODES } from "../constants/error-codes.js";
 
 export class DatabaseTransactionException extends AbstractHttpException {
   /**
@@ -41,14 +43,23 @@ export class DatabaseTransactionException extends AbstractHttpException {
    *
    * @param detail - 详细错误说明（中文）
    * @param data - 诊断信息（可选），如 operation、step 等
+   * @param errorCode - 错误代码（可选），取值见 DATABASE_ERROR_CODES
+   * @param rootCause - 导致事务失败的原始错误（可选）
    */
-  constructor(detail: string, data?: Record<string, any>) {
+  constructor(
+    detail: string,
+    data?: Record<string, any>,
+    errorCode: string = DATABASE_ERROR_CODES.TRANSACTION_ERROR,
+    rootCause?: Error,
+  ) {
     super(
-      "DATABASE_TRANSACTION_ERROR", // errorCode
+      errorCode, // errorCode
       "数据库事务错误", // title
       detail, // detail
       500, // status
       data, // data
+      undefined, // type
+      rootCause, // rootCause
     );
   }
 }
@@ -11,3 +11,4 @@ export * from "./database-query.exception.js";
 export * from "./database-transaction.exception.js";
 export * from "./health-check.exception.js";
 export * from "./isolation-context-missing.exception.js";
+export * from "./transaction-propagation.exception.js";
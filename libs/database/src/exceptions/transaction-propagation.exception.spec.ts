@@ -0,0 +1,23 @@
+/**
+ * 事务传播异常测试
+ *
+ * @description 测试 TransactionPropagationException 异常类
+ */
+
+import { TransactionPropagationException } from "./transaction-propagation.exception.js";
+
+describe("TransactionPropagationException", () => {
+  it("应该创建异常实例", () => {
+    const exception = new TransactionPropagationException("要求在事务中调用");
+    expect(exception).toBeInstanceOf(TransactionPropagationException);
+  });
+
+  it("应该包含正确的错误代码和状态码", () => {
+    const exception = new TransactionPropagationException("要求在事务中调用");
+    const response = exception.getResponse() as any;
+
+    expect(response.errorCode).toBe("DATABASE_TRANSACTION_PROPAGATION_ERROR");
+    expect(response.status).toBe(500);
+    expect(response.title).toBe("事务传播错误");
+  });
+});
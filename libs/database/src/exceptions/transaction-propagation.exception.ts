@@ -0,0 +1,48 @@
+/**
+ * 事务传播异常
+ *
+ * @description 当调用方的事务状态不满足传播行为要求时抛出此异常
+ *
+ * ## 业务规则
+ *
+ * - HTTP 状态码：500 Internal Server Error
+ * - 错误代码：DATABASE_TRANSACTION_PROPAGATION_ERROR
+ * - 使用场景：MANDATORY 传播但不在事务中、NEVER 传播但已在事务中
+ *
+ * ## 使用场景
+ *
+ * - 要求由上层事务统一提交的方法被单独调用
+ * - 禁止在事务中执行的操作（如调用外部服务）被放进了事务
+ *
+ * @example
+ * ```typescript
+ * if (!this.isInTransaction()) {
+ *   throw new TransactionPropagationException(
+ *     'MANDATORY 传播要求在现有事务中调用',
+ *     { propagation: TransactionPropagation.MANDATORY }
+ *   );
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { AbstractHttpException } from "@hl8/exceptions";
+
+export class TransactionPropagationException extends AbstractHttpException {
+  /**
+   * 创建事务传播异常
+   *
+   * @param detail - 详细错误说明（中文）
+   * @param data - 诊断信息（可选），如 propagation、transactionId 等
+   */
+  constructor(detail: string, data?: Record<string, any>) {
+    super(
+      "DATABASE_TRANSACTION_PROPAGATION_ERROR", // errorCode
+      "事务传播错误", // title
+      detail, // detail
+      500, // status
+      data, // data
+    );
+  }
+}
@@ -34,6 +34,9 @@ export * from "./isolation/index.js";
 // 监控服务导出
 export * from "./monitoring/index.js";
 
+// 租户物理隔离导出
+export * from "./tenancy/index.js";
+
 // 模块导出
 export * from "./database.module.js";
 
@@ -0,0 +1,63 @@
+/**
+ * 闭包表部门层级解析器测试
+ *
+ * @description 测试 ClosureTableDepartmentHierarchy 生成的查询
+ */
+
+import { ClosureTableDepartmentHierarchy } from "./department-closure.hierarchy.js";
+
+describe("ClosureTableDepartmentHierarchy", () => {
+  let execute: jest.Mock;
+
+  const create = (
+    departmentClosure?: Record<string, string>,
+    schema?: string,
+  ) =>
+    new ClosureTableDepartmentHierarchy(
+      {
+        getEntityManager: async () => ({
+          schema,
+          getConnection: () => ({ execute }),
+        }),
+      } as any,
+      { departmentClosure } as any,
+    );
+
+  beforeEach(() => {
+    execute = jest.fn().mockResolvedValue([{ id: "dept-2" }, { id: "dept-3" }]);
+  });
+
+  it("应该查询默认闭包表中的全部下级部门", async () => {
+    const ids = await create().getDescendantIds("tenant-1", "dept-1");
+
+    expect(ids).toEqual(["dept-2", "dept-3"]);
+    expect(execute).toHaveBeenCalledWith(
+      `select distinct "descendant_id" as "id" from "department_closure" where "ancestor_id" = ? and "depth" > 0`,
+      ["dept-1"],
+      "all",
+    );
+  });
+
+  it("schema-per-tenant 模式下应该查询租户 schema 中的闭包表", async () => {
+    await create(undefined, "tenant_abc").getDescendantIds(
+      "tenant-1",
+      "dept-1",
+    );
+
+    expect(execute.mock.calls[0][0]).toContain(
+      `from "tenant_abc"."department_closure" where`,
+    );
+  });
+
+  it("配置租户列时应该附加租户条件", async () => {
+    await create({
+      table: "org_unit_paths",
+      tenantColumn: "tenant_id",
+    }).getDescendantIds("tenant-1", "dept-1");
+
+    const [sql, params] = execute.mock.calls[0];
+    expect(sql).toContain(`from "org_unit_paths"`);
+    expect(sql).toContain(`and "tenant_id" = ?`);
+    expect(params).toEqual(["dept-1", "tenant-1"]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * 闭包表部门层级解析器
+ *
+ * @description 从部门闭包表（ancestor / descendant / depth）查询部门的全部下级部门，供 IsolationModule 的 departmentHierarchy 使用
+ *
+ * ## 业务规则
+ *
+ * ### 查询规则
+ * - 查询 ancestor = 当前部门且 depth > 0 的全部行，一次取得所有层级的下级部门
+ * - 配置 departmentClosure.tenantColumn 时附加租户条件（共享表模式下闭包表包含多个租户的数据时使用）
+ * - 通过 ConnectionManager 在当前租户的 schema 或数据库中查询
+ * - 原生 SQL 不会自动带上 fork 的 schema，表名显式以 EntityManager 的 schema 限定；
+ *   schema-per-tenant 模式下只读取租户 schema 中的闭包表，不会读到默认 schema 中的数据
+ *
+ * ### 缓存规则
+ * - 本类不做缓存，每个请求每个部门最多查询一次，由 DepartmentHierarchyService 缓存在 CLS 中
+ *
+ * @example
+ * ```typescript
+ * IsolationModule.forRoot({
+ *   departmentHierarchy: ClosureTableDepartmentHierarchy,
+ * });
+ *
+ * DatabaseModule.forRoot({
+ *   // ...
+ *   departmentClosure: { table: 'department_closure', tenantColumn: 'tenant_id' },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { DepartmentHierarchyResolver } from "@hl8/nestjs-isolation";
+import type { PostgreSqlConnection } from "@mikro-orm/postgresql";
+import { Inject, Injectable } from "@nestjs/common";
+import { ConnectionManager } from "../connection/connection.manager.js";
+import { DI_TOKENS } from "../constants/tokens.js";
+import type { DatabaseModuleOptions } from "../types/module.types.js";
+
+@Injectable()
+export class ClosureTableDepartmentHierarchy
+  implements DepartmentHierarchyResolver
+{
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    private readonly options: DatabaseModuleOptions,
+  ) {}
+
+  /**
+   * 查询部门的全部下级部门
+   *
+   * @param tenantId - 租户 ID
+   * @param departmentId - 部门 ID
+   * @returns 下级部门 ID 列表，不包含部门自身
+   */
+  async getDescendantIds(
+    tenantId: string,
+    departmentId: string,
+  ): Promise<string[]> {
+    const config = this.options.departmentClosure ?? {};
+    const conditions = [
+      `${quote(config.ancestorColumn ?? "ancestor_id")} = ?`,
+      `${quote(config.depthColumn ?? "depth")} > 0`,
+    ];
+    const params = [departmentId];
+    if (config.tenantColumn) {
+      conditions.push(`${quote(config.tenantColumn)} = ?`);
+      params.push(tenantId);
+    }
+
+    const em = await this.connectionManager.getEntityManager();
+    const table = quote(config.table ?? "department_closure");
+    const rows = await (em.getConnection() as PostgreSqlConnection).execute<
+      Array<{ id: string }>
+    >(
+      `select distinct ${quote(config.descendantColumn ?? "descendant_id")} as "id" from ${em.schema ? `${quote(em.schema)}.${table}` : table} where ${conditions.join(" and ")}`,
+      params,
+      "all",
+    );
+    return rows.map((row) => String(row.id));
+  }
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
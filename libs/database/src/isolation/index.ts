@@ -6,5 +6,10 @@
  * @since 1.0.0
  */
 
+export * from "./department-closure.hierarchy.js";
+export * from "./isolated-entity.decorator.js";
+export * from "./isolation-event.sink.js";
 export * from "./isolation-aware.decorator.js";
 export * from "./isolation.service.js";
+export * from "./row-level-security.js";
+export * from "./sharing-grants.js";
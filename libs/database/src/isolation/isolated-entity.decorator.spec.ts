@@ -0,0 +1,108 @@
+/**
+ * 隔离实体装饰器测试
+ *
+ * @description 测试 @IsolatedEntity 注册的 MikroORM 过滤器
+ */
+
+import { AccessMode } from "@hl8/isolation-model";
+import { MetadataStorage, type MikroORM } from "@mikro-orm/core";
+import { IsolationContextMissingException } from "../exceptions/isolation-context-missing.exception.js";
+import {
+  ISOLATION_FILTER,
+  IsolatedEntity,
+  bindIsolationService,
+} from "./isolated-entity.decorator.js";
+import { IsolationLevel } from "./isolation.service.js";
+
+describe("IsolatedEntity", () => {
+  @IsolatedEntity(IsolationLevel.DEPARTMENT)
+  class Document {}
+
+  type Cond = (args: object, type: string, em: object) => unknown;
+
+  const filter = () =>
+    MetadataStorage.getMetadataFromDecorator(Document).filters[
+      ISOLATION_FILTER
+    ];
+
+  /** 创建注册了指定隔离服务的 ORM，返回其 EntityManager */
+  const boundEm = (isolationService: object) => {
+    const orm = { config: {} } as MikroORM;
+    bindIsolationService(orm, isolationService as any);
+    return { config: orm.config };
+  };
+
+  it("应该注册默认启用且无需参数的过滤器", () => {
+    expect(filter()).toEqual(
+      expect.objectContaining({
+        name: ISOLATION_FILTER,
+        default: true,
+        args: false,
+      }),
+    );
+  });
+
+  it("过滤条件应该来自 EntityManager 所属 ORM 注册的隔离服务", () => {
+    const buildEntityFilter = jest.fn().mockReturnValue({ tenantId: "t-1" });
+    const cond = filter().cond as Cond;
+
+    expect(cond({}, "read", boundEm({ buildEntityFilter }))).toEqual({
+      tenantId: "t-1",
+    });
+    expect(buildEntityFilter).toHaveBeenCalledWith(IsolationLevel.DEPARTMENT);
+  });
+
+  it("不同 ORM 应该各自使用注册的隔离服务", () => {
+    const cond = filter().cond as Cond;
+    const first = boundEm({ buildEntityFilter: () => ({ tenantId: "t-1" }) });
+    const second = boundEm({ buildEntityFilter: () => ({ tenantId: "t-2" }) });
+
+    expect(cond({}, "read", second)).toEqual({ tenantId: "t-2" });
+    expect(cond({}, "read", first)).toEqual({ tenantId: "t-1" });
+  });
+
+  it("声明 sharedWith 时应该使用带共享的过滤条件", () => {
+    @IsolatedEntity(IsolationLevel.TENANT, { sharedWith: "sharedWith" })
+    class Note {}
+
+    const buildSharedEntityFilter = jest.fn().mockReturnValue({ $or: [] });
+    const cond = MetadataStorage.getMetadataFromDecorator(Note).filters[
+      ISOLATION_FILTER
+    ].cond as Cond;
+
+    expect(cond({}, "read", boundEm({ buildSharedEntityFilter }))).toEqual({
+      $or: [],
+    });
+    expect(buildSharedEntityFilter).toHaveBeenCalledWith(
+      IsolationLevel.TENANT,
+      "sharedWith",
+      AccessMode.READ,
+    );
+  });
+
+  it.each(["update", "delete"])("%s 时共享条件应该只匹配写入授权", (type) => {
+    @IsolatedEntity(IsolationLevel.TENANT, { sharedWith: "sharedWith" })
+    class Note {}
+
+    const buildSharedEntityFilter = jest.fn().mockReturnValue({ $or: [] });
+    const cond = MetadataStorage.getMetadataFromDecorator(Note).filters[
+      ISOLATION_FILTER
+    ].cond as Cond;
+    cond({}, type, boundEm({ buildSharedEntityFilter }));
+
+    expect(buildSharedEntityFilter).toHaveBeenCalledWith(
+      IsolationLevel.TENANT,
+      "sharedWith",
+      AccessMode.WRITE,
+    );
+  });
+
+  it("ORM 未注册隔离服务时应该拒绝执行", () => {
+    boundEm({ buildEntityFilter: () => ({ tenantId: "t-1" }) });
+    const cond = filter().cond as Cond;
+
+    expect(() => cond({}, "read", { config: {} })).toThrow(
+      IsolationContextMissingException,
+    );
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * 隔离实体装饰器
+ *
+ * @description 为实体注册 MikroORM 全局过滤器，自动为查询、更新和删除附加隔离条件
+ *
+ * ## 业务规则
+ *
+ * - 过滤器默认启用，对 find / count / nativeUpdate / nativeDelete 及关联加载生效
+ * - 条件来自当前请求的隔离上下文，规则与 buildIsolationFilter 相同
+ * - 过滤器通过执行查询的 EntityManager 所属 ORM 取得 DatabaseIsolationService，
+ *   DatabaseModule 为主 ORM 和各租户 ORM 注册（见 bindIsolationService）
+ * - ORM 未注册隔离服务或缺少所需上下文时操作直接失败，不会退化为不过滤
+ * - 平台级任务使用 DatabaseIsolationService.runAsPlatform 显式绕过，并记录审计日志
+ * - 实体需包含与级别对应的 tenantId / organizationId / departmentId / userId 属性
+ * - 指定 sharedWith 属性（text[]，存放 encodeSharingGrants 编码的授权）时，
+ *   列表查询同时返回共享给当前用户、部门或组织的行；nativeUpdate / nativeDelete 只匹配写入授权
+ *
+ * @example
+ * ```typescript
+ * @Entity()
+ * @IsolatedEntity(IsolationLevel.ORGANIZATION)
+ * export class Project {
+ *   @Property()
+ *   tenantId!: string;
+ *
+ *   @Property()
+ *   organizationId!: string;
+ * }
+ *
+ * // 自动附加 { tenantId, organizationId }
+ * await em.find(Project, { archived: false });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { AccessMode } from "@hl8/isolation-model";
+import {
+  Filter,
+  type Configuration,
+  type EntityManager,
+  type MikroORM,
+} from "@mikro-orm/core";
+import { IsolationContextMissingException } from "../exceptions/isolation-context-missing.exception.js";
+import {
+  IsolationLevel,
+  type DatabaseIsolationService,
+} from "./isolation.service.js";
+
+/**
+ * 隔离过滤器名称
+ *
+ * @description 同名过滤器可通过查询选项 filters 控制；绕过隔离应使用 runAsPlatform 以留下审计记录
+ */
+export const ISOLATION_FILTER = "isolation";
+
+/**
+ * 各 ORM 实例注册的隔离服务，以 ORM 配置为键
+ */
+const isolationServices = new WeakMap<
+  Configuration,
+  DatabaseIsolationService
+>();
+
+/**
+ * 为 ORM 注册隔离服务
+ *
+ * @description 该 ORM 的 EntityManager（含 fork 和事务）执行查询时，隔离过滤器从这里取得隔离上下文。
+ * DatabaseModule 会自动注册主 ORM 和租户 ORM，仅在自行创建 ORM 实例时需要手动调用
+ *
+ * @param orm - MikroORM 实例
+ * @param isolationService - 当前应用的隔离服务
+ *
+ * @since 1.1.0
+ */
+export function bindIsolationService(
+  orm: MikroORM,
+  isolationService: DatabaseIsolationService,
+): void {
+  isolationServices.set(orm.config, isolationService);
+}
+
+/**
+ * 隔离实体选项
+ *
+ * @since 1.1.0
+ */
+export interface IsolatedEntityOptions {
+  /**
+   * 存放精确共享授权的属性名（可选）
+   *
+   * @description 属性类型为 text[]，值由 encodeSharingGrants 生成
+   */
+  sharedWith?: string;
+}
+
+/**
+ * 隔离实体装饰器
+ *
+ * @param level - 实体的隔离级别，默认为 TENANT
+ * @param options - 实体选项（1.1.0 起）
+ * @returns 类装饰器
+ */
+export function IsolatedEntity(
+  level: IsolationLevel = IsolationLevel.TENANT,
+  options: IsolatedEntityOptions = {},
+): ClassDecorator {
+  return Filter({
+    name: ISOLATION_FILTER,
+    default: true,
+    args: false,
+    cond: (_args, type, em: EntityManager) => {
+      const isolationService = isolationServices.get(em.config);
+
+      if (!isolationService) {
+        throw new IsolationContextMissingException(
+          "ORM 未注册 DatabaseIsolationService，无法应用数据隔离过滤",
+          { requiredLevel: level },
+        );
+      }
+
+      return options.sharedWith
+        ? isolationService.buildSharedEntityFilter(
+            level,
+            options.sharedWith,
+            type === "read" ? AccessMode.READ : AccessMode.WRITE,
+          )
+        : isolationService.buildEntityFilter(level);
+    },
+  }) as ClassDecorator;
+}
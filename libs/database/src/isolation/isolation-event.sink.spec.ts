@@ -0,0 +1,135 @@
+/**
+ * 数据库隔离事件接收器测试
+ *
+ * @description 测试 DatabaseIsolationEventSink 写入的行和建表 SQL
+ */
+
+import {
+  DataAccessDeniedEvent,
+  IsolationContext,
+  IsolationContextSwitchedEvent,
+  OrganizationId,
+  TenantId,
+} from "@hl8/isolation-model";
+import {
+  createIsolationEventsTable,
+  DatabaseIsolationEventSink,
+} from "./isolation-event.sink.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+const ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+
+describe("DatabaseIsolationEventSink", () => {
+  let execute: jest.Mock;
+  let sink: DatabaseIsolationEventSink;
+
+  beforeEach(() => {
+    execute = jest.fn().mockResolvedValue({ affectedRows: 1 });
+    sink = new DatabaseIsolationEventSink(
+      { em: { getConnection: () => ({ execute }) } } as any,
+      { isActive: () => true, getId: () => "req-1" } as any,
+    );
+  });
+
+  it("应该写入跨租户访问事件，并记录双方租户", async () => {
+    const occurredAt = new Date("2026-01-01T00:00:00Z");
+    await sink.publish(
+      new DataAccessDeniedEvent(
+        IsolationContext.tenant(TenantId.create(TENANT_A)),
+        IsolationContext.tenant(TenantId.create(TENANT_B)),
+        "cross-tenant-access",
+        occurredAt,
+      ),
+    );
+
+    const [sql, params, method] = execute.mock.calls[0];
+    expect(sql).toMatch(/^insert into "isolation_events"/);
+    expect(method).toBe("run");
+    expect(params.slice(1)).toEqual([
+      "access-denied",
+      "cross-tenant-access",
+      TENANT_A,
+      TENANT_B,
+      expect.stringContaining(`"tenantId":"${TENANT_A}"`),
+      expect.stringContaining(`"tenantId":"${TENANT_B}"`),
+      "req-1",
+      occurredAt,
+    ]);
+  });
+
+  it("守卫拒绝时目标上下文应该为空", async () => {
+    await sink.publish(
+      new DataAccessDeniedEvent(
+        IsolationContext.platform(),
+        undefined,
+        "insufficient-isolation-level:tenant",
+      ),
+    );
+
+    const params = execute.mock.calls[0][1];
+    expect(params[3]).toBeNull();
+    expect(params[4]).toBeNull();
+    expect(params[6]).toBeNull();
+  });
+
+  it("匿名请求方应该记录为空上下文，而不是平台级", async () => {
+    await sink.publish(
+      new DataAccessDeniedEvent(
+        undefined,
+        undefined,
+        "missing-isolation-context",
+      ),
+    );
+
+    const params = execute.mock.calls[0][1];
+    expect(params[3]).toBeNull();
+    expect(params[5]).toBeNull();
+  });
+
+  it("应该写入上下文切换事件", async () => {
+    const from = IsolationContext.tenant(TenantId.create(TENANT_A));
+    const to = from.switchOrganization(OrganizationId.create(ORG));
+    await sink.publish(new IsolationContextSwitchedEvent(from, to, "switch"));
+
+    const params = execute.mock.calls[0][1];
+    expect(params[1]).toBe("context-switched");
+    expect(params[6]).toContain(`"organizationId":"${ORG}"`);
+  });
+
+  it("模拟期间应该记录真实操作者", async () => {
+    const actor = IsolationContext.platform();
+    const impersonated = IsolationContext.tenant(
+      TenantId.create(TENANT_A),
+    ).impersonate({
+      sessionId: "session-1",
+      sessionRef: "ref-1",
+      actorId: "staff-1",
+      reason: "TICKET-1234",
+      expiresAt: new Date("2026-01-01T01:00:00Z"),
+    });
+    await sink.publish(
+      new IsolationContextSwitchedEvent(
+        actor,
+        impersonated,
+        "impersonation-start",
+      ),
+    );
+
+    const params = execute.mock.calls[0][1];
+    expect(params[4]).toBe(TENANT_A);
+    expect(JSON.parse(params[6])).toMatchObject({
+      impersonatedBy: "staff-1",
+      impersonationSessionRef: "ref-1",
+      impersonationReason: "TICKET-1234",
+    });
+    expect(params[6]).not.toContain("session-1");
+  });
+
+  it("建表 SQL 应该包含按租户查询的索引", () => {
+    const sql = createIsolationEventsTable();
+
+    expect(sql[0]).toContain('create table if not exists "isolation_events"');
+    expect(sql.slice(1).join("\n")).toContain('("tenant_id", "occurred_at")');
+  });
+});
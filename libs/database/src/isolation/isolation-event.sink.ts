@@ -0,0 +1,124 @@
+/**
+ * 数据库隔离事件接收器
+ *
+ * @description 把 @hl8/nestjs-isolation 发布的隔离事件写入 isolation_events 表，供安全人员按租户审查越权访问
+ *
+ * ## 业务规则
+ *
+ * ### 写入规则
+ * - 每个事件写入一行，在独立连接上自动提交，不受当前请求事务回滚的影响
+ * - 始终写入主数据库（库级租户隔离时也不写入租户库），便于集中审查
+ * - 写入失败由 IsolationEventPublisher 记录警告，不影响业务请求
+ *
+ * ### 字段规则
+ * - tenant_id：发起方（用户上下文 / 切换前上下文）的租户；匿名请求方（没有隔离上下文）为空
+ * - target_tenant_id：被访问的数据或切换后上下文的租户；守卫按级别拒绝时为空
+ * - context / target_context：双方的完整隔离上下文（JSON）；匿名请求方的 context 为空，不记录为平台级
+ * - 平台人员模拟租户期间，上下文 JSON 附带 impersonatedBy / impersonationSessionRef / impersonationReason，
+ *   可按真实操作者审查模拟期间的操作；会话 ID 是凭证，只记录其摘要 sessionRef
+ * - request_id：CLS 请求 ID
+ *
+ * @example
+ * ```typescript
+ * // 迁移中建表
+ * createIsolationEventsTable().forEach((sql) => this.addSql(sql));
+ *
+ * // 注册接收器
+ * IsolationModule.forRoot({
+ *   eventSinks: [LoggerIsolationEventSink, DatabaseIsolationEventSink],
+ * });
+ *
+ * // 审查某租户最近的越权尝试
+ * // select * from isolation_events
+ * //  where event_type = 'access-denied' and tenant_id = ? order by occurred_at desc;
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import {
+  DataAccessDeniedEvent,
+  type IsolationContext,
+  IsolationContextSwitchedEvent,
+} from "@hl8/isolation-model";
+import type { IsolationEvent, IsolationEventSink } from "@hl8/nestjs-isolation";
+import { MikroORM } from "@mikro-orm/core";
+import { Injectable } from "@nestjs/common";
+import { ClsService } from "nestjs-cls";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * 隔离事件表名
+ */
+export const ISOLATION_EVENTS_TABLE = "isolation_events";
+
+/**
+ * 生成隔离事件表的建表 SQL
+ *
+ * @returns 按顺序执行的 SQL 语句
+ */
+export function createIsolationEventsTable(): string[] {
+  return [
+    `create table if not exists "${ISOLATION_EVENTS_TABLE}" (
+      "id" uuid primary key,
+      "event_type" varchar(32) not null,
+      "reason" varchar(255) not null,
+      "tenant_id" uuid null,
+      "target_tenant_id" uuid null,
+      "context" jsonb null,
+      "target_context" jsonb null,
+      "request_id" varchar(255) null,
+      "occurred_at" timestamptz not null
+    )`,
+    `create index if not exists "${ISOLATION_EVENTS_TABLE}_tenant_idx" on "${ISOLATION_EVENTS_TABLE}" ("tenant_id", "occurred_at")`,
+    `create index if not exists "${ISOLATION_EVENTS_TABLE}_target_tenant_idx" on "${ISOLATION_EVENTS_TABLE}" ("target_tenant_id", "occurred_at")`,
+  ];
+}
+
+@Injectable()
+export class DatabaseIsolationEventSink implements IsolationEventSink {
+  constructor(
+    private readonly orm: MikroORM,
+    private readonly cls: ClsService,
+  ) {}
+
+  async publish(event: IsolationEvent): Promise<void> {
+    const [type, reason, context, target] =
+      event instanceof DataAccessDeniedEvent
+        ? ["access-denied", event.reason, event.userContext, event.dataContext]
+        : event instanceof IsolationContextSwitchedEvent
+          ? ["context-switched", event.reason, event.from, event.to]
+          : ["context-created", "", event.context, undefined];
+
+    await this.orm.em
+      .getConnection()
+      .execute(
+        `insert into "${ISOLATION_EVENTS_TABLE}" ("id", "event_type", "reason", "tenant_id", "target_tenant_id", "context", "target_context", "request_id", "occurred_at") values (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          type,
+          reason,
+          context?.tenantId?.getValue() ?? null,
+          target?.tenantId?.getValue() ?? null,
+          context ? JSON.stringify(toJson(context)) : null,
+          target ? JSON.stringify(toJson(target)) : null,
+          this.cls.isActive() ? (this.cls.getId() ?? null) : null,
+          event.occurredAt,
+        ],
+        "run",
+      );
+  }
+}
+
+function toJson(context: IsolationContext): Record<string, string | undefined> {
+  return {
+    level: context.getIsolationLevel(),
+    tenantId: context.tenantId?.getValue(),
+    organizationId: context.organizationId?.getValue(),
+    departmentId: context.departmentId?.getValue(),
+    userId: context.userId?.getValue(),
+    impersonatedBy: context.impersonation?.actorId,
+    impersonationSessionRef: context.impersonation?.sessionRef,
+    impersonationReason: context.impersonation?.reason,
+  };
+}
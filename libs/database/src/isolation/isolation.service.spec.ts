@@ -4,19 +4,31 @@
  * @description 测试 DatabaseIsolationService 的隔离功能
  */
 
+import {
+  AccessMode,
+  type SharingGrant,
+  SharingGranteeType,
+} from "@hl8/isolation-model";
 import { FastifyLoggerService } from "@hl8/nestjs-fastify";
-import { IsolationContextService } from "@hl8/nestjs-isolation";
+import {
+  DepartmentHierarchyService,
+  IsolationContextService,
+} from "@hl8/nestjs-isolation";
 import { Test, TestingModule } from "@nestjs/testing";
+import { ClsService } from "nestjs-cls";
 import { IsolationContextMissingException } from "../exceptions/isolation-context-missing.exception.js";
 import {
   DatabaseIsolationService,
   IsolationLevel,
 } from "./isolation.service.js";
+import { encodeSharingGrants } from "./sharing-grants.js";
 
 describe("DatabaseIsolationService", () => {
   let service: DatabaseIsolationService;
   let mockIsolationService: any;
   let mockLogger: jest.Mocked<FastifyLoggerService>;
+  let clsStore: Map<string, unknown>;
+  let mockDepartmentHierarchy: { getDepartmentScope: jest.Mock };
 
   beforeEach(async () => {
     mockLogger = {
@@ -27,6 +39,28 @@ describe("DatabaseIsolationService", () => {
 
     mockIsolationService = {
       context: undefined,
+      getIsolationContext() {
+        return this.context;
+      },
+    };
+
+    mockDepartmentHierarchy = {
+      getDepartmentScope: jest.fn().mockReturnValue(undefined),
+    };
+
+    clsStore = new Map();
+    const mockCls = {
+      isActive: () => true,
+      get: (key: string) => clsStore.get(key),
+      set: (key: string, value: unknown) => clsStore.set(key, value),
+      run: async (_options: unknown, callback: () => Promise<unknown>) => {
+        const parent = new Map(clsStore);
+        try {
+          return await callback();
+        } finally {
+          clsStore = parent;
+        }
+      },
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -40,6 +74,14 @@ describe("DatabaseIsolationService", () => {
           provide: FastifyLoggerService,
           useValue: mockLogger,
         },
+        {
+          provide: ClsService,
+          useValue: mockCls,
+        },
+        {
+          provide: DepartmentHierarchyService,
+          useValue: mockDepartmentHierarchy,
+        },
       ],
     }).compile();
 
@@ -99,6 +141,42 @@ describe("DatabaseIsolationService", () => {
     });
   });
 
+  describe("部门范围", () => {
+    beforeEach(() => {
+      mockIsolationService.context = {
+        tenantId: { getValue: () => "tenant-123" },
+        departmentId: { getValue: () => "dept-1" },
+      };
+    });
+
+    it("未加载下级部门时应该按部门精确过滤", () => {
+      expect(service.buildIsolationFilter(IsolationLevel.DEPARTMENT)).toEqual({
+        tenantId: "tenant-123",
+        departmentId: "dept-1",
+      });
+      expect(service.getSessionVariables()).not.toHaveProperty(
+        "app.department_scope",
+      );
+    });
+
+    it("包含下级部门时应该生成 IN 条件和部门范围会话变量", () => {
+      mockDepartmentHierarchy.getDepartmentScope.mockReturnValue([
+        "dept-1",
+        "dept-2",
+      ]);
+
+      expect(service.buildIsolationFilter(IsolationLevel.DEPARTMENT)).toEqual({
+        tenantId: "tenant-123",
+        departmentId: { $in: ["dept-1", "dept-2"] },
+      });
+      expect(service.getSessionVariables()).toEqual({
+        "app.tenant_id": "tenant-123",
+        "app.department_id": "dept-1",
+        "app.department_scope": "dept-1,dept-2",
+      });
+    });
+  });
+
   describe("getTenantId", () => {
     it("应该返回租户 ID", () => {
       mockIsolationService.context = {
@@ -112,4 +190,151 @@ describe("DatabaseIsolationService", () => {
       expect(service.getTenantId()).toBeUndefined();
     });
   });
+
+  describe("getSessionVariables", () => {
+    it("应该只包含上下文中存在的字段", () => {
+      mockIsolationService.context = {
+        tenantId: { getValue: () => "tenant-123" },
+        userId: { getValue: () => "user-789" },
+      };
+
+      expect(service.getSessionVariables()).toEqual({
+        "app.tenant_id": "tenant-123",
+        "app.user_id": "user-789",
+      });
+    });
+
+    it("应该在无上下文时返回空对象", () => {
+      expect(service.getSessionVariables()).toEqual({});
+    });
+  });
+
+  describe("buildEntityFilter", () => {
+    it("应该返回当前上下文的隔离条件", () => {
+      mockIsolationService.context = {
+        tenantId: { getValue: () => "tenant-123" },
+        organizationId: { getValue: () => "org-456" },
+      };
+
+      expect(service.buildEntityFilter(IsolationLevel.ORGANIZATION)).toEqual({
+        tenantId: "tenant-123",
+        organizationId: "org-456",
+      });
+    });
+
+    it("应该在缺少上下文时抛出异常", () => {
+      expect(() => service.buildEntityFilter(IsolationLevel.TENANT)).toThrow(
+        IsolationContextMissingException,
+      );
+    });
+  });
+
+  describe("buildSharedEntityFilter", () => {
+    it("应该组合隔离条件和共享条件", () => {
+      mockIsolationService.context = {
+        tenantId: { getValue: () => "tenant-123" },
+        organizationId: { getValue: () => "org-456" },
+      };
+
+      expect(
+        service.buildSharedEntityFilter(
+          IsolationLevel.ORGANIZATION,
+          "sharedWith",
+        ),
+      ).toEqual({
+        $or: [
+          { tenantId: "tenant-123", organizationId: "org-456" },
+          {
+            tenantId: "tenant-123",
+            sharedWith: {
+              $overlap: ["organization:org-456", "organization:org-456:write"],
+            },
+          },
+        ],
+      });
+    });
+
+    it("只读授权不应该匹配更新和删除", () => {
+      mockIsolationService.context = {
+        tenantId: { getValue: () => "tenant-123" },
+        userId: { getValue: () => "user-789" },
+      };
+      const overlaps = (mode: AccessMode, grant: SharingGrant) => {
+        const filter = service.buildSharedEntityFilter(
+          IsolationLevel.DEPARTMENT,
+          "sharedWith",
+          mode,
+        ) as { sharedWith: { $overlap: string[] } };
+        const row = encodeSharingGrants([grant]);
+        return filter.sharedWith.$overlap.some((token) => row.includes(token));
+      };
+      const readGrant = {
+        granteeType: SharingGranteeType.USER,
+        granteeId: "user-789",
+      };
+      const writeGrant = { ...readGrant, mode: AccessMode.WRITE };
+
+      expect(overlaps(AccessMode.READ, readGrant)).toBe(true);
+      expect(overlaps(AccessMode.WRITE, readGrant)).toBe(false);
+      expect(overlaps(AccessMode.WRITE, writeGrant)).toBe(true);
+    });
+
+    it("上下文不满足隔离级别时应该只返回共享条件", () => {
+      mockIsolationService.context = {
+        tenantId: { getValue: () => "tenant-123" },
+        userId: { getValue: () => "user-789" },
+      };
+
+      expect(
+        service.buildSharedEntityFilter(
+          IsolationLevel.DEPARTMENT,
+          "sharedWith",
+        ),
+      ).toEqual({
+        tenantId: "tenant-123",
+        sharedWith: { $overlap: ["user:user-789", "user:user-789:write"] },
+      });
+    });
+
+    it("既不满足隔离级别也没有共享条件时应该抛出异常", () => {
+      mockIsolationService.context = {
+        tenantId: { getValue: () => "tenant-123" },
+      };
+
+      expect(() =>
+        service.buildSharedEntityFilter(
+          IsolationLevel.DEPARTMENT,
+          "sharedWith",
+        ),
+      ).toThrow(IsolationContextMissingException);
+    });
+  });
+
+  describe("runAsPlatform", () => {
+    it("应该在回调内跳过过滤并记录审计日志", async () => {
+      const filter = await service.runAsPlatform("月度账单汇总", async () =>
+        service.buildEntityFilter(IsolationLevel.TENANT),
+      );
+
+      expect(filter).toEqual({});
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "以平台身份执行，跳过数据隔离过滤",
+        expect.objectContaining({ reason: "月度账单汇总" }),
+      );
+      expect(mockLogger.log).toHaveBeenCalledWith(
+        "平台身份执行结束，恢复数据隔离过滤",
+        expect.objectContaining({ duration: expect.any(Number) }),
+      );
+      expect(service.getPlatformBypassReason()).toBeUndefined();
+      expect(() => service.buildEntityFilter(IsolationLevel.TENANT)).toThrow(
+        IsolationContextMissingException,
+      );
+    });
+
+    it("应该拒绝未说明原因的调用", async () => {
+      await expect(service.runAsPlatform(" ", async () => 1)).rejects.toThrow(
+        "runAsPlatform 必须说明绕过数据隔离的原因",
+      );
+    });
+  });
 });
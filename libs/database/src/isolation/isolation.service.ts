@@ -14,6 +14,18 @@
  * - 自动应用租户隔离过滤
  * - 根据隔离级别应用组织/部门过滤
  * - 确保跨租户数据完全隔离
+ * - IsolationModule 配置了部门层级解析器时，部门级过滤为 departmentId IN (当前部门及其下级部门)
+ *
+ * ### 行级安全规则
+ * - 每个新事务开始时，隔离上下文写入 app.tenant_id 等会话变量（仅当前事务有效）
+ * - 部门范围包含下级部门时，另外写入 app.department_scope（逗号分隔的部门 ID）
+ * - 数据库中的行级安全策略据此过滤，遗漏隔离过滤的查询也读不到其他租户的数据
+ *
+ * ### 实体过滤规则
+ * - @IsolatedEntity 注册的过滤器通过 buildEntityFilter 取得当前请求的隔离条件
+ * - 缺少所需上下文时查询直接失败，不会退化为不过滤
+ * - 平台级任务通过 runAsPlatform 显式绕过过滤，必须提供原因并记录审计日志
+ * - 声明了 sharedWith 列的实体，过滤条件为"隔离条件 OR 共享给当前用户、部门或组织"
  *
  * ### 审计日志规则
  * - 记录所有隔离验证结果
@@ -39,11 +51,20 @@
  * @since 1.0.0
  */
 
-import type { IsolationContext } from "@hl8/isolation-model";
+import { AccessMode, type IsolationContext } from "@hl8/isolation-model";
 import { FastifyLoggerService } from "@hl8/nestjs-fastify";
-import { IsolationContextService } from "@hl8/nestjs-isolation";
-import { Injectable } from "@nestjs/common";
+import {
+  DepartmentHierarchyService,
+  IsolationContextService,
+} from "@hl8/nestjs-isolation";
+import { Injectable, Optional } from "@nestjs/common";
+import { ClsService } from "nestjs-cls";
 import { IsolationContextMissingException } from "../exceptions/isolation-context-missing.exception.js";
+import {
+  DEPARTMENT_SCOPE_SESSION_VARIABLE,
+  ISOLATION_SESSION_VARIABLES,
+} from "./row-level-security.js";
+import { sharingGrantTokens } from "./sharing-grants.js";
 
 /**
  * 隔离级别枚举
@@ -67,11 +88,31 @@ export enum IsolationLevel {
   USER = "USER",
 }
 
+/**
+ * 隔离过滤条件
+ *
+ * @description 字段名到取值的映射；部门范围包含下级部门时 departmentId 为 { $in: [...] }，共享列为 { $overlap: [...] }
+ *
+ * @since 1.1.0
+ */
+export type IsolationFilter = Record<
+  string,
+  string | { $in: string[] } | { $overlap: string[] }
+>;
+
+/**
+ * CLS 中平台级执行原因的键
+ */
+const PLATFORM_BYPASS_KEY = "isolationPlatformBypass";
+
 @Injectable()
 export class DatabaseIsolationService {
   constructor(
     private readonly isolationContextService: IsolationContextService,
     private readonly logger: FastifyLoggerService,
+    private readonly cls: ClsService,
+    @Optional()
+    private readonly departmentHierarchy?: DepartmentHierarchyService,
   ) {
     this.logger.log("DatabaseIsolationService 初始化");
   }
@@ -84,8 +125,7 @@ export class DatabaseIsolationService {
    * @returns 隔离上下文，如果不存在则返回 undefined
    */
   getContext(): IsolationContext | undefined {
-    // IsolationContextService 提供 context 属性
-    return (this.isolationContextService as any).context;
+    return this.isolationContextService.getIsolationContext();
   }
 
   /**
@@ -218,11 +258,11 @@ export class DatabaseIsolationService {
    * const users = await this.em.find(User, filter);
    * ```
    */
-  buildIsolationFilter(level: IsolationLevel): Record<string, string> {
+  buildIsolationFilter(level: IsolationLevel): IsolationFilter {
     this.validateContext(level);
 
     const context = this.getContext()!;
-    const filter: Record<string, string> = {};
+    const filter: IsolationFilter = {};
 
     // 租户级及以上都需要租户 ID
     if (context.tenantId) {
@@ -234,9 +274,11 @@ export class DatabaseIsolationService {
       filter.organizationId = context.organizationId.getValue();
     }
 
-    // 部门级需要部门 ID
+    // 部门级需要部门 ID，已加载下级部门时包含下级部门
     if (level === IsolationLevel.DEPARTMENT && context.departmentId) {
-      filter.departmentId = context.departmentId.getValue();
+      const scope = this.getDepartmentScope();
+      filter.departmentId =
+        scope.length > 1 ? { $in: scope } : context.departmentId.getValue();
     }
 
     // 用户级需要用户 ID
@@ -246,4 +288,206 @@ export class DatabaseIsolationService {
 
     return filter;
   }
+
+  /**
+   * 获取部门范围
+   *
+   * @description 当前部门及其已加载的下级部门；未配置部门层级解析器时只有当前部门
+   *
+   * @returns 部门 ID 列表；上下文没有部门时为空数组
+   *
+   * @since 1.1.0
+   */
+  getDepartmentScope(): string[] {
+    const departmentId = this.getDepartmentId();
+    if (!departmentId) {
+      return [];
+    }
+    return this.departmentHierarchy?.getDepartmentScope() ?? [departmentId];
+  }
+
+  /**
+   * 获取行级安全会话变量
+   *
+   * @description 将当前隔离上下文转换为会话变量，供事务开始时写入数据库
+   *
+   * @returns 变量名到值的映射，只包含上下文中存在的字段；没有上下文时为空对象
+   *
+   * @since 1.1.0
+   */
+  getSessionVariables(): Record<string, string> {
+    const values = {
+      tenantId: this.getTenantId(),
+      organizationId: this.getOrganizationId(),
+      departmentId: this.getDepartmentId(),
+      userId: this.getUserId(),
+    };
+
+    const variables: Record<string, string> = {};
+    for (const [field, name] of Object.entries(ISOLATION_SESSION_VARIABLES)) {
+      const value = values[field as keyof typeof values];
+      if (value !== undefined) {
+        variables[name] = value;
+      }
+    }
+
+    const scope = this.getDepartmentScope();
+    if (scope.length > 1) {
+      variables[DEPARTMENT_SCOPE_SESSION_VARIABLE] = scope.join(",");
+    }
+    return variables;
+  }
+  /**
+   * 构建实体过滤条件
+   *
+   * @description 供 @IsolatedEntity 注册的过滤器在每次查询、更新和删除时调用
+   *
+   * @param level - 实体的隔离级别
+   * @returns 过滤条件；以平台身份执行时返回空对象
+   * @throws {IsolationContextMissingException} 上下文缺失或不完整时抛出
+   *
+   * @since 1.1.0
+   */
+  buildEntityFilter(level: IsolationLevel): IsolationFilter {
+    if (this.getPlatformBypassReason() !== undefined) {
+      return {};
+    }
+    return this.buildIsolationFilter(level);
+  }
+
+  /**
+   * 构建精确共享过滤条件
+   *
+   * @description 匹配 sharedWith 列中授权给当前用户、部门或组织的行，可与隔离条件以 $or 组合
+   *
+   * @param property - 实体上存放授权令牌（text[]）的属性名
+   * @param mode - 访问方式，默认为 READ；WRITE 只匹配写入授权
+   * @returns 过滤条件；当前上下文没有用户、部门和组织时返回 undefined
+   *
+   * @example
+   * ```typescript
+   * const shared = this.isolationService.buildSharedWithFilter('sharedWith');
+   * // => { sharedWith: { $overlap: ['user:...', 'user:...:write'] }, tenantId: '...' }
+   * ```
+   *
+   * @since 1.1.0
+   */
+  buildSharedWithFilter(
+    property: string,
+    mode: AccessMode = AccessMode.READ,
+  ): IsolationFilter | undefined {
+    const context = this.getContext();
+    const tokens = context ? sharingGrantTokens(context, mode) : [];
+    if (!context || tokens.length === 0) {
+      return undefined;
+    }
+
+    const filter: IsolationFilter = { [property]: { $overlap: tokens } };
+    // 授权不跨租户
+    if (context.tenantId) {
+      filter.tenantId = context.tenantId.getValue();
+    }
+    return filter;
+  }
+
+  /**
+   * 构建带精确共享的实体过滤条件
+   *
+   * @description 供声明了 sharedWith 的 @IsolatedEntity 过滤器调用，返回"隔离条件 OR 共享条件"
+   *
+   * @param level - 实体的隔离级别
+   * @param property - 实体上存放授权令牌的属性名
+   * @param mode - 访问方式，默认为 READ；更新和删除应使用 WRITE，只读授权不匹配
+   * @returns 过滤条件；以平台身份执行时返回空对象；上下文不满足隔离级别但有共享条件时只返回共享条件
+   * @throws {IsolationContextMissingException} 上下文既不满足隔离级别也没有共享条件时抛出
+   *
+   * @since 1.1.0
+   */
+  buildSharedEntityFilter(
+    level: IsolationLevel,
+    property: string,
+    mode: AccessMode = AccessMode.READ,
+  ): IsolationFilter | { $or: IsolationFilter[] } {
+    if (this.getPlatformBypassReason() !== undefined) {
+      return {};
+    }
+
+    const shared = this.buildSharedWithFilter(property, mode);
+    let filter: IsolationFilter;
+    try {
+      filter = this.buildIsolationFilter(level);
+    } catch (error) {
+      if (shared && error instanceof IsolationContextMissingException) {
+        return shared;
+      }
+      throw error;
+    }
+    return shared ? { $or: [filter, shared] } : filter;
+  }
+
+  /**
+   * 以平台身份执行
+   *
+   * @description 回调内对 @IsolatedEntity 实体的操作不再附加隔离条件，用于跨租户的平台级任务
+   *
+   * ## 业务规则
+   *
+   * - 必须提供原因，开始和结束都记录审计日志
+   * - 只作用于回调内（含其中的异步调用），结束后恢复隔离过滤
+   * - 不影响数据库行级安全策略，需要时配合 BYPASSRLS 角色使用
+   *
+   * @param reason - 绕过隔离的原因，记录到审计日志
+   * @param callback - 以平台身份执行的回调
+   * @returns 回调的返回值
+   *
+   * @example
+   * ```typescript
+   * await this.isolationService.runAsPlatform('月度账单汇总', () =>
+   *   this.em.find(Invoice, { period }),
+   * );
+   * ```
+   *
+   * @since 1.1.0
+   */
+  async runAsPlatform<T>(
+    reason: string,
+    callback: () => Promise<T>,
+  ): Promise<T> {
+    if (!reason.trim()) {
+      throw new Error("runAsPlatform 必须说明绕过数据隔离的原因");
+    }
+
+    return this.cls.run({ ifNested: "inherit" }, async () => {
+      const audit = {
+        reason,
+        tenantId: this.getTenantId(),
+        userId: this.getUserId(),
+      };
+      const startTime = Date.now();
+
+      this.cls.set(PLATFORM_BYPASS_KEY, reason);
+      this.logger.warn("以平台身份执行，跳过数据隔离过滤", audit);
+      try {
+        return await callback();
+      } finally {
+        this.logger.log("平台身份执行结束，恢复数据隔离过滤", {
+          ...audit,
+          duration: Date.now() - startTime,
+        });
+      }
+    });
+  }
+
+  /**
+   * 获取平台级执行的原因
+   *
+   * @returns 在 runAsPlatform 回调内时返回原因，否则返回 undefined
+   *
+   * @since 1.1.0
+   */
+  getPlatformBypassReason(): string | undefined {
+    return this.cls.isActive()
+      ? this.cls.get<string>(PLATFORM_BYPASS_KEY)
+      : undefined;
+  }
 }
@@ -0,0 +1,92 @@
+/**
+ * 行级安全策略测试
+ *
+ * @description 测试根据实体元数据生成的 RLS 策略 SQL
+ */
+
+import type { EntityMetadata } from "@mikro-orm/core";
+import {
+  createRowLevelSecurityPolicies,
+  dropRowLevelSecurityPolicies,
+} from "./row-level-security.js";
+
+describe("row-level-security", () => {
+  const meta = (
+    properties: Record<string, unknown>,
+    schema?: string,
+  ): EntityMetadata =>
+    ({ tableName: "orders", schema, properties }) as unknown as EntityMetadata;
+
+  const orders = meta({
+    id: { fieldNames: ["id"], columnTypes: ["uuid"] },
+    tenantId: { fieldNames: ["tenant_id"], columnTypes: ["uuid"] },
+    organizationId: {
+      fieldNames: ["organization_id"],
+      columnTypes: ["varchar(36)"],
+    },
+  });
+
+  describe("createRowLevelSecurityPolicies", () => {
+    it("应该为实体上存在的隔离字段生成策略", () => {
+      const expression =
+        `"tenant_id" = nullif(current_setting('app.tenant_id', true), '')::uuid` +
+        ` AND (nullif(current_setting('app.organization_id', true), '') is null` +
+        ` or "organization_id" = nullif(current_setting('app.organization_id', true), '')::varchar(36))`;
+
+      expect(createRowLevelSecurityPolicies(orders)).toEqual([
+        `alter table "orders" enable row level security`,
+        `alter table "orders" force row level security`,
+        `drop policy if exists "orders_isolation" on "orders"`,
+        `create policy "orders_isolation" on "orders" using (${expression}) with check (${expression})`,
+      ]);
+    });
+
+    it("应该支持指定字段、策略名称、schema 和不强制所有者", () => {
+      const statements = createRowLevelSecurityPolicies(
+        meta(orders.properties, "sales"),
+        {
+          columns: ["tenantId", "userId"],
+          policyName: "tenant_only",
+          force: false,
+        },
+      );
+
+      expect(statements).toHaveLength(3);
+      expect(statements[0]).toBe(
+        `alter table "sales"."orders" enable row level security`,
+      );
+      expect(statements[2]).toContain(`create policy "tenant_only"`);
+      expect(statements[2]).not.toContain("organization_id");
+      expect(statements[2]).not.toContain("user_id");
+    });
+
+    it("部门字段应该同时匹配部门范围中的下级部门", () => {
+      const [, , , policy] = createRowLevelSecurityPolicies(
+        meta({
+          departmentId: {
+            fieldNames: ["department_id"],
+            columnTypes: ["uuid"],
+          },
+        }),
+      );
+
+      expect(policy).toContain(
+        `or "department_id" = any(string_to_array(nullif(current_setting('app.department_scope', true), ''), ',')::uuid[])`,
+      );
+    });
+
+    it("没有隔离字段的实体应该返回空数组", () => {
+      expect(createRowLevelSecurityPolicies(meta({ id: {} }))).toEqual([]);
+    });
+  });
+
+  describe("dropRowLevelSecurityPolicies", () => {
+    it("应该删除策略并关闭行级安全", () => {
+      expect(dropRowLevelSecurityPolicies(orders)).toEqual([
+        `drop policy if exists "orders_isolation" on "orders"`,
+        `alter table "orders" no force row level security`,
+        `alter table "orders" disable row level security`,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * 行级安全策略（Row-Level Security）
+ *
+ * @description 根据实体的隔离字段生成 PostgreSQL 行级安全策略，作为应用层隔离过滤之外的第二道防线
+ *
+ * ## 业务规则
+ *
+ * ### 会话变量
+ * - TransactionService 在每个新事务开始时，以 set_config(..., true) 把隔离上下文写入会话变量
+ * - 变量只在当前事务内有效，连接归还连接池后不会残留
+ * - 上下文中缺少的字段不设置，读取结果为空
+ *
+ * ### 策略规则
+ * - 租户字段必须与 app.tenant_id 相等；未设置租户时不可见任何行
+ * - 组织、部门、用户字段只在对应变量已设置时参与比较，未设置时不限制
+ * - 部门字段还可以匹配 app.department_scope 中的下级部门（配置部门层级解析器时写入）
+ * - 同一条件同时用于读取（USING）和写入（WITH CHECK），不能写入其他租户的行
+ * - 默认 FORCE ROW LEVEL SECURITY，表的所有者同样受策略约束
+ * - 平台级任务（迁移、跨租户统计）应使用具有 BYPASSRLS 属性的数据库角色
+ *
+ * @example
+ * ```typescript
+ * export class Migration20250101000000 extends Migration {
+ *   async up(): Promise<void> {
+ *     const meta = this.driver.getMetadata().get(User.name);
+ *     createRowLevelSecurityPolicies(meta).forEach((sql) => this.addSql(sql));
+ *   }
+ *
+ *   async down(): Promise<void> {
+ *     const meta = this.driver.getMetadata().get(User.name);
+ *     dropRowLevelSecurityPolicies(meta).forEach((sql) => this.addSql(sql));
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { EntityMetadata } from "@mikro-orm/core";
+
+/**
+ * 隔离上下文字段对应的会话变量名
+ */
+export const ISOLATION_SESSION_VARIABLES = {
+  tenantId: "app.tenant_id",
+  organizationId: "app.organization_id",
+  departmentId: "app.department_id",
+  userId: "app.user_id",
+} as const;
+
+/**
+ * 部门范围（当前部门及其下级部门，逗号分隔）的会话变量名
+ *
+ * @since 1.1.0
+ */
+export const DEPARTMENT_SCOPE_SESSION_VARIABLE = "app.department_scope";
+
+/**
+ * 参与行级安全策略的隔离字段
+ */
+export type IsolationColumn = keyof typeof ISOLATION_SESSION_VARIABLES;
+
+/**
+ * 行级安全策略选项
+ */
+export interface RowLevelSecurityOptions {
+  /**
+   * 参与策略的隔离字段
+   *
+   * @description 未指定时使用实体上存在的全部隔离字段；实体上不存在的字段会被忽略
+   */
+  columns?: IsolationColumn[];
+
+  /**
+   * 策略名称
+   *
+   * @default `${tableName}_isolation`
+   */
+  policyName?: string;
+
+  /**
+   * 是否对表的所有者同样生效
+   *
+   * @default true
+   */
+  force?: boolean;
+}
+
+/**
+ * 生成实体的行级安全策略 SQL
+ *
+ * @param meta - 实体元数据
+ * @param options - 策略选项
+ * @returns 按顺序执行的 SQL 语句；实体没有隔离字段时返回空数组
+ */
+export function createRowLevelSecurityPolicies(
+  meta: EntityMetadata,
+  options: RowLevelSecurityOptions = {},
+): string[] {
+  const conditions = (options.columns ?? isolationColumns())
+    .filter((column) => meta.properties[column] !== undefined)
+    .map((column) => isolationCondition(meta, column));
+  if (conditions.length === 0) {
+    return [];
+  }
+
+  const table = qualifiedTableName(meta);
+  const policy = quote(options.policyName ?? `${meta.tableName}_isolation`);
+  const expression = conditions.join(" AND ");
+
+  return [
+    `alter table ${table} enable row level security`,
+    ...(options.force === false
+      ? []
+      : [`alter table ${table} force row level security`]),
+    `drop policy if exists ${policy} on ${table}`,
+    `create policy ${policy} on ${table} using (${expression}) with check (${expression})`,
+  ];
+}
+
+/**
+ * 生成删除实体行级安全策略的 SQL
+ *
+ * @param meta - 实体元数据
+ * @param options - 与创建时相同的策略选项
+ * @returns 按顺序执行的 SQL 语句
+ */
+export function dropRowLevelSecurityPolicies(
+  meta: EntityMetadata,
+  options: Pick<RowLevelSecurityOptions, "policyName"> = {},
+): string[] {
+  const table = qualifiedTableName(meta);
+  const policy = quote(options.policyName ?? `${meta.tableName}_isolation`);
+
+  return [
+    `drop policy if exists ${policy} on ${table}`,
+    `alter table ${table} no force row level security`,
+    `alter table ${table} disable row level security`,
+  ];
+}
+
+function isolationColumns(): IsolationColumn[] {
+  return Object.keys(ISOLATION_SESSION_VARIABLES) as IsolationColumn[];
+}
+
+/**
+ * 单个隔离字段的比较条件，会话变量按字段的列类型转换，以便使用列上的索引
+ */
+function isolationCondition(
+  meta: EntityMetadata,
+  column: IsolationColumn,
+): string {
+  const prop = meta.properties[column];
+  const field = quote(prop.fieldNames?.[0] ?? column);
+  const type = prop.columnTypes?.[0] ?? "uuid";
+  const setting = `nullif(current_setting('${ISOLATION_SESSION_VARIABLES[column]}', true), '')`;
+
+  if (column === "tenantId") {
+    return `${field} = ${setting}::${type}`;
+  }
+  if (column === "departmentId") {
+    const scope = `nullif(current_setting('${DEPARTMENT_SCOPE_SESSION_VARIABLE}', true), '')`;
+    return `(${setting} is null or ${field} = ${setting}::${type} or ${field} = any(string_to_array(${scope}, ',')::${type}[]))`;
+  }
+  return `(${setting} is null or ${field} = ${setting}::${type})`;
+}
+
+function qualifiedTableName(meta: EntityMetadata): string {
+  const schema = meta.schema && meta.schema !== "*" ? meta.schema : undefined;
+  return schema
+    ? `${quote(schema)}.${quote(meta.tableName)}`
+    : quote(meta.tableName);
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
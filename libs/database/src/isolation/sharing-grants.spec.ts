@@ -0,0 +1,87 @@
+/**
+ * 精确共享授权编码测试
+ *
+ * @description 测试授权令牌的编码、解码和按上下文生成
+ */
+
+import {
+  AccessMode,
+  DepartmentId,
+  IsolationContext,
+  OrganizationId,
+  SharingGranteeType,
+  TenantId,
+  UserId,
+} from "@hl8/isolation-model";
+import {
+  decodeSharingGrants,
+  encodeSharingGrants,
+  sharingGrantTokens,
+} from "./sharing-grants.js";
+
+const TENANT = "550e8400-e29b-41d4-a716-446655440000";
+const ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+const DEPT = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+const USER = "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11";
+
+describe("sharing-grants", () => {
+  it("应该编码授权并去重，字符串视为用户只读授权", () => {
+    expect(
+      encodeSharingGrants([
+        USER,
+        { granteeType: SharingGranteeType.USER, granteeId: USER },
+        {
+          granteeType: SharingGranteeType.DEPARTMENT,
+          granteeId: DEPT,
+          mode: AccessMode.WRITE,
+        },
+      ]),
+    ).toEqual([`user:${USER}`, `department:${DEPT}:write`]);
+  });
+
+  it("解码应该还原授权并忽略无法识别的令牌", () => {
+    expect(
+      decodeSharingGrants([
+        `user:${USER}`,
+        `organization:${ORG}:write`,
+        "x:1",
+        "bad",
+      ]),
+    ).toEqual([
+      {
+        granteeType: SharingGranteeType.USER,
+        granteeId: USER,
+        mode: AccessMode.READ,
+      },
+      {
+        granteeType: SharingGranteeType.ORGANIZATION,
+        granteeId: ORG,
+        mode: AccessMode.WRITE,
+      },
+    ]);
+  });
+
+  it("读取应该匹配只读和写入授权，写入只匹配写入授权", () => {
+    const department = IsolationContext.department(
+      TenantId.create(TENANT),
+      OrganizationId.create(ORG),
+      DepartmentId.create(DEPT),
+    );
+
+    expect(sharingGrantTokens(department)).toEqual([
+      `department:${DEPT}`,
+      `department:${DEPT}:write`,
+      `organization:${ORG}`,
+      `organization:${ORG}:write`,
+    ]);
+    expect(
+      sharingGrantTokens(
+        IsolationContext.user(UserId.create(USER)),
+        AccessMode.WRITE,
+      ),
+    ).toEqual([`user:${USER}:write`]);
+    expect(
+      sharingGrantTokens(IsolationContext.tenant(TenantId.create(TENANT))),
+    ).toEqual([]);
+  });
+});
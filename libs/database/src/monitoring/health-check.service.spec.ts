@@ -7,6 +7,7 @@
 import { FastifyLoggerService } from "@hl8/nestjs-fastify";
 import { Test, TestingModule } from "@nestjs/testing";
 import { ConnectionManager } from "../connection/connection.manager.js";
+import { DI_TOKENS } from "../constants/tokens.js";
 import { HealthCheckService } from "./health-check.service.js";
 
 describe("HealthCheckService", () => {
@@ -32,6 +33,8 @@ describe("HealthCheckService", () => {
         max: 20,
         min: 5,
       }),
+      getReplicaConnections: jest.fn().mockReturnValue([]),
+      setReplicaStatus: jest.fn(),
     } as any;
 
     const module: TestingModule = await Test.createTestingModule({
@@ -45,6 +48,10 @@ describe("HealthCheckService", () => {
           provide: FastifyLoggerService,
           useValue: mockLogger,
         },
+        {
+          provide: DI_TOKENS.MODULE_OPTIONS,
+          useValue: { replication: { maxLag: 1000 } },
+        },
       ],
     }).compile();
 
@@ -118,4 +125,50 @@ describe("HealthCheckService", () => {
       });
     });
   });
+
+  describe("checkReplicationLag", () => {
+    const replica = (name: string, execute: () => Promise<unknown>) => ({
+      name,
+      connection: { execute: jest.fn(execute) },
+    });
+
+    it("应该将延迟过大或不可达的从库移出读轮转", async () => {
+      mockConnectionManager.getReplicaConnections.mockReturnValue([
+        replica("replica-1", async () => [{ lag: "120" }]),
+        replica("replica-2", async () => [{ lag: 5000 }]),
+        replica("replica-3", async () => {
+          throw new Error("connection refused");
+        }),
+      ] as any);
+
+      const statuses = await service.checkReplicationLag();
+
+      expect(
+        statuses.map(({ name, inRotation, lag }) => ({
+          name,
+          inRotation,
+          lag,
+        })),
+      ).toEqual([
+        { name: "replica-1", inRotation: true, lag: 120 },
+        { name: "replica-2", inRotation: false, lag: 5000 },
+        { name: "replica-3", inRotation: false, lag: undefined },
+      ]);
+      expect(statuses[2].error).toBe("connection refused");
+      expect(mockConnectionManager.setReplicaStatus).toHaveBeenCalledTimes(3);
+    });
+
+    it("健康检查结果应该包含从库状态", async () => {
+      mockConnectionManager.getReplicaConnections.mockReturnValue([
+        replica("replica-1", async () => [{ lag: 0 }]),
+      ] as any);
+
+      const result = await service.check();
+
+      expect(result.status).toBe("healthy");
+      expect(result.replicas).toEqual([
+        expect.objectContaining({ name: "replica-1", inRotation: true }),
+      ]);
+    });
+  });
 });
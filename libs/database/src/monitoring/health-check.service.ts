@@ -16,6 +16,12 @@
  * - 检查响应时间
  * - 记录检查结果
  *
+ * ### 复制延迟规则
+ * - 配置了从库时，每 replication.checkInterval 毫秒检查一次各从库的复制延迟
+ * - 延迟超过 replication.maxLag 或查询失败的从库移出读轮转，恢复后重新加入
+ * - 从库状态随 check() 结果返回，不影响主库的健康状态
+ * - 从库已回放全部已接收的 WAL 时视为无延迟，避免主库空闲时误判
+ *
  * @example
  * ```typescript
  * @Controller('health')
@@ -35,21 +41,68 @@
  */
 
 import { FastifyLoggerService } from "@hl8/nestjs-fastify";
-import { Injectable } from "@nestjs/common";
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
 import { ConnectionManager } from "../connection/connection.manager.js";
-import { HealthCheckException } from "../exceptions/health-check.exception.js";
-import type { PoolStats } from "../types/connection.types.js";
+import { REPLICATION_DEFAULTS } from "../constants/defaults.js";
+import { DI_TOKENS } from "../constants/tokens.js";
+import type { PoolStats, ReplicaStatus } from "../types/connection.types.js";
+import type { DatabaseModuleOptions } from "../types/module.types.js";
 import type { HealthCheckResult } from "../types/monitoring.types.js";
 
+/**
+ * 从库复制延迟（毫秒）
+ */
+const REPLICATION_LAG_SQL = `SELECT CASE
+  WHEN NOT pg_is_in_recovery() THEN 0
+  WHEN pg_last_wal_receive_lsn() = pg_last_wal_replay_lsn() THEN 0
+  ELSE COALESCE(EXTRACT(EPOCH FROM now() - pg_last_xact_replay_timestamp()) * 1000, 0)
+END AS lag`;
+
 @Injectable()
-export class HealthCheckService {
+export class HealthCheckService implements OnModuleInit, OnModuleDestroy {
+  private replicationTimer?: NodeJS.Timeout;
+
   constructor(
     private readonly connectionManager: ConnectionManager,
     private readonly logger: FastifyLoggerService,
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    private readonly options: DatabaseModuleOptions,
   ) {
     this.logger.log("HealthCheckService 初始化");
   }
 
+  /**
+   * 模块初始化钩子
+   *
+   * @description 配置了从库时启动复制延迟的定期检查
+   */
+  onModuleInit(): void {
+    if (!this.options.replicas?.length) {
+      return;
+    }
+
+    this.replicationTimer = setInterval(
+      () => void this.checkReplicationLag(),
+      this.options.replication?.checkInterval ??
+        REPLICATION_DEFAULTS.CHECK_INTERVAL,
+    );
+    this.replicationTimer.unref();
+  }
+
+  /**
+   * 模块销毁钩子
+   *
+   * @description 停止复制延迟检查
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.replicationTimer);
+  }
+
   /**
    * 执行健康检查
    *
@@ -87,15 +140,13 @@ export class HealthCheckService {
         pool: poolStats,
       };
 
+      if (this.connectionManager.getReplicaConnections().length > 0) {
+        result.replicas = await this.checkReplicationLag();
+      }
+
       if (status !== "healthy") {
-        // 记录监控日志
+        // 降级或不健康时按原状态返回，不交给下面的异常处理改写为 unhealthy
         this.logger.warn("数据库健康检查异常", result as any);
-        // 抛出业务异常
-        throw new HealthCheckException(
-          `数据库健康检查失败: ${status}`,
-          status,
-          result,
-        );
       } else {
         // 记录成功日志用于监控
         this.logger.debug("数据库健康检查通过", result as any);
@@ -127,6 +178,49 @@ export class HealthCheckService {
     }
   }
 
+  /**
+   * 检查从库复制延迟
+   *
+   * @description 查询各从库的复制延迟，并据此更新从库的读轮转状态
+   *
+   * @returns 各从库状态
+   */
+  async checkReplicationLag(): Promise<ReplicaStatus[]> {
+    const maxLag =
+      this.options.replication?.maxLag ?? REPLICATION_DEFAULTS.MAX_LAG;
+
+    return Promise.all(
+      this.connectionManager
+        .getReplicaConnections()
+        .map(async ({ name, connection }) => {
+          let status: ReplicaStatus;
+          try {
+            const [row] =
+              await connection.execute<{ lag: string | number }[]>(
+                REPLICATION_LAG_SQL,
+              );
+            const lag = Number(row?.lag ?? 0);
+            status = {
+              name,
+              inRotation: lag <= maxLag,
+              lag,
+              checkedAt: new Date(),
+            };
+          } catch (error) {
+            status = {
+              name,
+              inRotation: false,
+              error: (error as Error).message,
+              checkedAt: new Date(),
+            };
+          }
+
+          this.connectionManager.setReplicaStatus(status);
+          return status;
+        }),
+    );
+  }
+
   /**
    * 获取连接池统计
    *
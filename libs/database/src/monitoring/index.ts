@@ -8,3 +8,5 @@
 
 export * from "./health-check.service.js";
 export * from "./metrics.service.js";
+export * from "./query-instrumentation.service.js";
+export * from "./query-logger.js";
@@ -174,5 +174,24 @@ describe("MetricsService", () => {
 
       expect(metrics.transactions.rolledBack).toBe(1);
     });
+
+    it("应该正确记录事务超时和只读事务写入", () => {
+      service.recordTransactionTimeout();
+      service.recordTransactionReadOnlyViolation();
+      service.recordTransactionReadOnlyViolation();
+
+      const metrics = service.getDatabaseMetrics({} as any);
+
+      expect(metrics.transactions.timedOut).toBe(1);
+      expect(metrics.transactions.readOnlyViolations).toBe(2);
+    });
+
+    it("应该正确记录事务重试", () => {
+      service.recordTransactionRetry();
+
+      const metrics = service.getDatabaseMetrics({} as any);
+
+      expect(metrics.transactions.retried).toBe(1);
+    });
   });
 });
@@ -65,6 +65,9 @@ export class MetricsService {
     active: 0,
     committed: 0,
     rolledBack: 0,
+    timedOut: 0,
+    readOnlyViolations: 0,
+    retried: 0,
   };
 
   constructor(private readonly logger: FastifyLoggerService) {
@@ -77,8 +80,9 @@ export class MetricsService {
    * @description 记录查询的执行时间和相关信息
    *
    * @param metrics - 查询指标
+   * @returns 被记录为慢查询时返回慢查询日志，否则返回 undefined
    */
-  recordQuery(metrics: Partial<QueryMetrics>): void {
+  recordQuery(metrics: Partial<QueryMetrics>): SlowQueryLog | undefined {
     const duration = metrics.duration || 0;
     const threshold = MONITORING_DEFAULTS.SLOW_QUERY_THRESHOLD;
 
@@ -115,8 +119,12 @@ export class MetricsService {
         threshold,
         query: slowQuery.query,
         tenantId: slowQuery.tenantId,
+        requestId: slowQuery.requestId,
       });
+
+      return slowQuery;
     }
+    return undefined;
   }
 
   /**
@@ -171,6 +179,33 @@ export class MetricsService {
     this.transactionStats.rolledBack++;
   }
 
+  /**
+   * 记录事务超时
+   *
+   * @description 记录因超过 timeout 而回滚的事务，回滚本身另由 recordTransactionRollback 计数
+   */
+  recordTransactionTimeout(): void {
+    this.transactionStats.timedOut++;
+  }
+
+  /**
+   * 记录只读事务写入
+   *
+   * @description 记录因在只读事务中写入而回滚的事务
+   */
+  recordTransactionReadOnlyViolation(): void {
+    this.transactionStats.readOnlyViolations++;
+  }
+
+  /**
+   * 记录事务重试
+   *
+   * @description 记录因序列化失败或死锁而重新执行的事务
+   */
+  recordTransactionRetry(): void {
+    this.transactionStats.retried++;
+  }
+
   /**
    * 增加活动事务计数
    */
@@ -0,0 +1,348 @@
+/**
+ * 查询埋点服务测试
+ *
+ * @description 测试 QueryInstrumentationService 和 QueryLogger
+ */
+
+import { FastifyLoggerService, PrometheusService } from "@hl8/nestjs-fastify";
+import { MikroORM } from "@mikro-orm/core";
+import { Test, TestingModule } from "@nestjs/testing";
+import { ClsService } from "nestjs-cls";
+import { ConnectionManager } from "../connection/connection.manager.js";
+import { DI_TOKENS } from "../constants/tokens.js";
+import { DatabaseIsolationService } from "../isolation/isolation.service.js";
+import type { DatabaseModuleOptions } from "../types/module.types.js";
+import type { SlowQueryLog } from "../types/monitoring.types.js";
+import { MetricsService } from "./metrics.service.js";
+import { QueryInstrumentationService } from "./query-instrumentation.service.js";
+import { type QueryListener, QueryLogger } from "./query-logger.js";
+
+describe("QueryInstrumentationService", () => {
+  let service: QueryInstrumentationService;
+  let mockMetrics: jest.Mocked<MetricsService>;
+  let prometheus: PrometheusService;
+  let listeners: Set<QueryListener>;
+  let options: DatabaseModuleOptions;
+  let mockLogger: { log: jest.Mock; warn: jest.Mock };
+  let mockExecute: jest.Mock;
+  let mockRollback: jest.Mock;
+  let queryLogging: boolean;
+
+  beforeEach(async () => {
+    mockMetrics = { recordQuery: jest.fn() } as any;
+    prometheus = new PrometheusService({ enableDefaultMetrics: false } as any);
+    listeners = new Set();
+    options = {} as DatabaseModuleOptions;
+    mockLogger = { log: jest.fn(), warn: jest.fn() };
+    mockExecute = jest.fn();
+    mockRollback = jest.fn();
+    queryLogging = false;
+    const store = new Map<string, unknown>();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QueryInstrumentationService,
+        {
+          provide: MikroORM,
+          useValue: {
+            getMetadata: () => ({
+              getAll: () => ({
+                User: { tableName: "users", className: "User" },
+              }),
+            }),
+          },
+        },
+        { provide: MetricsService, useValue: mockMetrics },
+        {
+          provide: ConnectionManager,
+          useValue: {
+            getEntityManager: async () => ({
+              config: { getLogger: () => ({ isEnabled: () => queryLogging }) },
+              fork: () => ({
+                begin: jest.fn(),
+                rollback: mockRollback,
+                getConnection: () => ({ execute: mockExecute }),
+                getTransactionContext: () => "trx",
+              }),
+            }),
+          },
+        },
+        {
+          provide: DatabaseIsolationService,
+          useValue: {
+            getTenantId: () => "tenant-1",
+            getOrganizationId: () => "org-1",
+            getDepartmentId: () => undefined,
+            getSessionVariables: () => ({ "app.tenant_id": "tenant-1" }),
+          },
+        },
+        {
+          provide: ClsService,
+          useValue: {
+            isActive: () => true,
+            getId: () => "req-1",
+            get: (key: string) => store.get(key),
+            set: (key: string, value: unknown) => store.set(key, value),
+          },
+        },
+        { provide: FastifyLoggerService, useValue: mockLogger },
+        { provide: DI_TOKENS.MODULE_OPTIONS, useValue: options },
+        { provide: DI_TOKENS.QUERY_LISTENERS, useValue: listeners },
+        { provide: PrometheusService, useValue: prometheus },
+      ],
+    }).compile();
+
+    service = module.get(QueryInstrumentationService);
+    service.onModuleInit();
+  });
+
+  it("应该脱敏 SQL 并附带实体、语句类型、请求 ID 和隔离上下文", () => {
+    service.record({
+      query: `select "u0".* from "tenant_a"."users" as "u0" where "u0"."email" = 'a@b.com' and "u0"."age" > 18 limit $1`,
+      took: 12,
+    });
+
+    expect(mockMetrics.recordQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: `select "u0".* from "tenant_a"."users" as "u0" where "u0"."email" = ? and "u0"."age" > ? limit $1`,
+        duration: 12,
+        entity: "User",
+        operation: "select",
+        requestId: "req-1",
+        isolationContext: {
+          tenantId: "tenant-1",
+          organizationId: "org-1",
+          departmentId: undefined,
+        },
+      }),
+    );
+  });
+
+  it("应该导出带实体、语句类型和租户标签的直方图", async () => {
+    service.record({
+      query: `insert into "orders" ("id") values (?)`,
+      took: 5,
+    });
+    service.record({ query: "begin", took: 1, level: "error" });
+
+    const metrics = await prometheus.getMetrics();
+
+    expect(metrics).toContain(
+      'db_query_duration_seconds_count{entity="orders",operation="insert",tenant_id="tenant-1",status="success"} 1',
+    );
+    expect(metrics).toContain(
+      'db_query_duration_seconds_count{entity="unknown",operation="other",tenant_id="tenant-1",status="error"} 1',
+    );
+  });
+
+  it("应该通过 QueryLogger 接收带耗时的查询", () => {
+    const logger = new QueryLogger({ writer: jest.fn() }, listeners);
+    listeners.add(() => {
+      throw new Error("监听器错误");
+    });
+
+    logger.logQuery({ query: "begin" });
+    logger.logQuery({ query: `delete from "users" where "id" = ?`, took: 3 });
+
+    expect(mockMetrics.recordQuery).toHaveBeenCalledTimes(1);
+    expect(mockMetrics.recordQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ entity: "User", operation: "delete" }),
+    );
+  });
+
+  describe("执行计划", () => {
+    let slowQuery: SlowQueryLog;
+
+    beforeEach(() => {
+      slowQuery = {
+        id: "slow-1",
+        query: "",
+        duration: 1500,
+        executedAt: new Date(),
+      };
+      mockMetrics.recordQuery.mockReturnValue(slowQuery);
+      mockExecute.mockResolvedValue([{ "QUERY PLAN": [{ Plan: {} }] }]);
+    });
+
+    it("应该在带隔离会话变量的事务中用原始 SQL 和参数采集执行计划，并回滚", async () => {
+      options.monitoring = { explain: { enabled: true, sampleRate: 1 } };
+
+      service.record({
+        query: `select * from "users" where "email" = ?`,
+        params: ["a@b.com"],
+        took: 1500,
+      });
+      await new Promise(setImmediate);
+
+      expect(mockExecute).toHaveBeenNthCalledWith(
+        1,
+        "select set_config(?, ?, true)",
+        ["app.tenant_id", "tenant-1"],
+        "run",
+        "trx",
+        { label: "hl8:explain" },
+      );
+      expect(mockExecute).toHaveBeenNthCalledWith(
+        2,
+        `explain (analyze, buffers, format json) select * from "users" where "email" = ?`,
+        ["a@b.com"],
+        "all",
+        "trx",
+        { label: "hl8:explain" },
+      );
+      expect(mockRollback).toHaveBeenCalledTimes(1);
+      expect(slowQuery.plan).toEqual([{ Plan: {} }]);
+      expect(slowQuery.planAnalyzed).toBe(true);
+    });
+
+    it("加锁的 SELECT 不应该使用 ANALYZE", async () => {
+      options.monitoring = { explain: { enabled: true, sampleRate: 1 } };
+
+      service.record({
+        query: `select * from "users" where "id" = ? for update`,
+        params: [1],
+        took: 1500,
+      });
+      await new Promise(setImmediate);
+
+      expect(mockExecute).toHaveBeenLastCalledWith(
+        `explain (format json) select * from "users" where "id" = ? for update`,
+        [1],
+        "all",
+        "trx",
+        { label: "hl8:explain" },
+      );
+      expect(slowQuery.planAnalyzed).toBe(false);
+    });
+
+    it("开启查询日志时 SQL 已被改写，不应该采集", async () => {
+      options.monitoring = { explain: { enabled: true, sampleRate: 1 } };
+      queryLogging = true;
+
+      service.record({
+        query: `select * from "users" where "email" = 'a@b.com'`,
+        params: ["a@b.com"],
+        took: 1500,
+      });
+      await new Promise(setImmediate);
+
+      expect(mockExecute).not.toHaveBeenCalled();
+      expect(slowQuery.plan).toBeUndefined();
+    });
+
+    it("关闭 analyze 时应该只做 EXPLAIN，且不记录 EXPLAIN 语句本身", async () => {
+      options.monitoring = {
+        explain: { enabled: true, analyze: false, sampleRate: 1 },
+      };
+
+      service.record({ query: `select * from "users"`, took: 1500 });
+      await new Promise(setImmediate);
+      service.record({
+        query: `explain (format json) select * from "users"`,
+        took: 2,
+        label: "hl8:explain",
+      });
+
+      expect(mockExecute).toHaveBeenCalledWith(
+        `explain (format json) select * from "users"`,
+        [],
+        "all",
+        "trx",
+        { label: "hl8:explain" },
+      );
+      expect(slowQuery.planAnalyzed).toBe(false);
+      expect(mockMetrics.recordQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it("未启用或写语句时不应该采集", () => {
+      service.record({ query: `select * from "users"`, took: 1500 });
+      options.monitoring = { explain: { enabled: true, sampleRate: 1 } };
+      service.record({ query: `delete from "users"`, took: 1500 });
+
+      expect(mockExecute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("N+1 检测", () => {
+    it("同一语句形态超过阈值时应该告警一次并附带调用位置", () => {
+      options.monitoring = {
+        nPlusOne: {
+          threshold: 2,
+          ignoreFrames:
+            /node_modules|node:internal|query-instrumentation\.service\.ts:/,
+        },
+      };
+
+      for (let id = 1; id <= 5; id++) {
+        service.record({
+          query: `select * from "orders" where "user_id" in (${Array(id).fill("?").join(", ")}) and "id" = ${id}`,
+          took: 1,
+        });
+      }
+
+      expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "检测到可能的 N+1 查询",
+        expect.objectContaining({
+          query: `select * from "orders" where "user_id" in (?) and "id" = ?`,
+          count: 3,
+          threshold: 2,
+          requestId: "req-1",
+          callSite: expect.stringContaining(
+            "query-instrumentation.service.spec.ts",
+          ),
+        }),
+      );
+    });
+
+    it("默认应该跳过 MikroORM、Knex、依赖包和本库的栈帧", () => {
+      const stack = [
+        "Error",
+        "    at QueryInstrumentationService.record (/app/node_modules/@hl8/database/dist/monitoring/query-instrumentation.service.js:120:31)",
+        "    at PostgreSqlConnection.logQuery (/app/node_modules/.pnpm/@mikro-orm+core@6.5.8/node_modules/@mikro-orm/core/connections/Connection.js:190:9)",
+        "    at Runner.query (/srv/bundle/knex/lib/execution/runner.js:151:12)",
+        "    at EntityLoader.populate (/srv/bundle/@mikro-orm/core/entity/EntityLoader.js:50:3)",
+        "    at async Promise.all (index 0)",
+        "    at async OrderService.listWithItems (/app/src/orders/order.service.ts:42:7)",
+        "    at async OrderController.list (/app/src/orders/order.controller.ts:18:12)",
+      ].join("\n");
+      const prepareStackTrace = Error.prepareStackTrace;
+      Error.prepareStackTrace = () => stack;
+      options.monitoring = { nPlusOne: { threshold: 1 } };
+
+      try {
+        for (let id = 1; id <= 2; id++) {
+          service.record({
+            query: `select * from "items" where "order_id" = ${id}`,
+            took: 1,
+          });
+        }
+      } finally {
+        Error.prepareStackTrace = prepareStackTrace;
+      }
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "检测到可能的 N+1 查询",
+        expect.objectContaining({
+          callSite:
+            "async OrderService.listWithItems (/app/src/orders/order.service.ts:42:7)",
+        }),
+      );
+    });
+
+    it("关闭后不应该告警", () => {
+      options.monitoring = { nPlusOne: { enabled: false, threshold: 1 } };
+
+      service.record({ query: `select * from "orders"`, took: 1 });
+      service.record({ query: `select * from "orders"`, took: 1 });
+
+      expect(mockLogger.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  it("模块销毁后应该停止采集", () => {
+    service.onModuleDestroy();
+
+    expect(listeners.size).toBe(0);
+  });
+});
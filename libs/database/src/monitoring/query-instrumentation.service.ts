@@ -0,0 +1,363 @@
+/**
+ * 查询埋点服务
+ *
+ * @description 为每条 MikroORM 查询计时，写入 MetricsService 并导出 Prometheus 直方图
+ *
+ * ## 业务规则
+ *
+ * ### 采集规则
+ * - 通过 QueryLogger 获取每条查询的 SQL 和耗时，包括事务、从库和租户数据库中的查询
+ * - 附带 CLS 请求 ID 和当前隔离上下文（租户、组织、部门）
+ * - monitoring.enableQueryMetrics 为 false 时不采集
+ *
+ * ### 数据脱敏规则
+ * - SQL 中的字符串和数字字面量替换为 ?，不记录参数值
+ *
+ * ### Prometheus 规则
+ * - 导入 nestjs-fastify 的 MetricsModule 时，向其注册表注册 db_query_duration_seconds 直方图
+ * - 标签：entity（实体名，无法识别时为表名或 unknown）、operation（select / insert / update / delete / other）、
+ *   tenant_id（无租户时为 platform）、status（success / error）
+ * - 未导入 MetricsModule 时只写入 MetricsService
+ *
+ * ### 执行计划规则
+ * - monitoring.explain.enabled 为 true 时，对按 sampleRate 采样的慢 SELECT 查询采集执行计划
+ * - 非生产环境默认 EXPLAIN (ANALYZE, BUFFERS)，生产环境默认只做 EXPLAIN，不实际执行查询
+ * - 执行计划在原连接之外异步采集，同一时刻最多一条，完成后写入对应的 SlowQueryLog.plan
+ * - 在当前租户的 EntityManager 上开启事务，设置与原查询相同的隔离会话变量（RLS），采集完成后回滚
+ * - 使用带占位符的原始 SQL 和参数；开启查询日志时 MikroORM 记录的是改写后的 SQL，此时不采集
+ * - INSERT / UPDATE / DELETE 不采集；SELECT ... FOR UPDATE / FOR SHARE 只做 EXPLAIN，避免 ANALYZE 加锁
+ *
+ * ### N+1 检测规则
+ * - 按请求（CLS 上下文）统计每种 SELECT 语句形态的执行次数，IN 列表长度不同视为同一形态
+ * - 超过 monitoring.nPlusOne.threshold（默认 10）时告警一次，附带调用位置（第一个业务代码栈帧）
+ * - 调用位置跳过依赖包、Node 内部和本库的栈帧，可用 monitoring.nPlusOne.ignoreFrames 覆盖
+ * - 不在请求上下文中的查询不统计
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [MetricsModule.forRoot(), DatabaseModule.forRoot(options)],
+ * })
+ * export class AppModule {}
+ *
+ * // GET /metrics
+ * // db_query_duration_seconds_bucket{entity="User",operation="select",tenant_id="...",status="success",le="0.01"} 42
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { FastifyLoggerService, PrometheusService } from "@hl8/nestjs-fastify";
+import { type LogContext, MikroORM } from "@mikro-orm/core";
+import type { PostgreSqlConnection } from "@mikro-orm/postgresql";
+import {
+  Inject,
+  Injectable,
+  type OnModuleDestroy,
+  type OnModuleInit,
+  Optional,
+} from "@nestjs/common";
+import { ClsService } from "nestjs-cls";
+import { Histogram } from "prom-client";
+import { ConnectionManager } from "../connection/connection.manager.js";
+import { MONITORING_DEFAULTS } from "../constants/defaults.js";
+import { DI_TOKENS } from "../constants/tokens.js";
+import { DatabaseIsolationService } from "../isolation/isolation.service.js";
+import type { DatabaseModuleOptions } from "../types/module.types.js";
+import type { SlowQueryLog } from "../types/monitoring.types.js";
+import { MetricsService } from "./metrics.service.js";
+import type { QueryListener } from "./query-logger.js";
+
+const QUERY_DURATION_METRIC = "db_query_duration_seconds";
+const PLATFORM_LABEL = "platform";
+const EXPLAIN_LABEL = "hl8:explain";
+const QUERY_SHAPES_KEY = "databaseQueryShapes";
+
+/**
+ * 调用位置查找时跳过没有源码位置的栈帧
+ */
+const SOURCE_FRAME_PATTERN = /:\d+:\d+\)?$/;
+
+/**
+ * 会对读取的行加锁的 SELECT，ANALYZE 会真正加锁，只做 EXPLAIN
+ */
+const LOCKING_PATTERN =
+  /\bfor\s+(?:no\s+key\s+)?(?:update|share|key\s+share)\b/i;
+
+/**
+ * 识别语句类型和目标表
+ */
+const OPERATION_PATTERN = /^\s*(select|insert|update|delete)\b/i;
+const IDENTIFIER = String.raw`(?:"[^"]+"|\w+)(?:\.(?:"[^"]+"|\w+))?`;
+const TABLE_PATTERNS: Record<string, RegExp> = {
+  select: new RegExp(String.raw`\bfrom\s+(${IDENTIFIER})`, "i"),
+  delete: new RegExp(String.raw`\bfrom\s+(${IDENTIFIER})`, "i"),
+  insert: new RegExp(String.raw`\binto\s+(${IDENTIFIER})`, "i"),
+  update: new RegExp(String.raw`^\s*update\s+(${IDENTIFIER})`, "i"),
+};
+
+@Injectable()
+export class QueryInstrumentationService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly listener: QueryListener = (context) => this.record(context);
+  private readonly histogram?: Histogram;
+  private entityNames?: Map<string, string>;
+  private explaining = false;
+
+  constructor(
+    private readonly orm: MikroORM,
+    private readonly metrics: MetricsService,
+    private readonly connectionManager: ConnectionManager,
+    private readonly isolationService: DatabaseIsolationService,
+    private readonly cls: ClsService,
+    private readonly logger: FastifyLoggerService,
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    private readonly options: DatabaseModuleOptions,
+    @Inject(DI_TOKENS.QUERY_LISTENERS)
+    private readonly listeners: Set<QueryListener>,
+    @Optional() prometheus?: PrometheusService,
+  ) {
+    if (prometheus) {
+      const registry = prometheus.getRegistry();
+      this.histogram =
+        (registry.getSingleMetric(QUERY_DURATION_METRIC) as Histogram) ??
+        new Histogram({
+          name: QUERY_DURATION_METRIC,
+          help: "数据库查询耗时（秒）",
+          labelNames: ["entity", "operation", "tenant_id", "status"],
+          buckets: [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5],
+          registers: [registry],
+        });
+    }
+    this.logger.log("QueryInstrumentationService 初始化", {
+      prometheus: this.histogram !== undefined,
+    });
+  }
+
+  /**
+   * 模块初始化钩子
+   *
+   * @description 注册查询监听器
+   */
+  onModuleInit(): void {
+    if (this.options.monitoring?.enableQueryMetrics === false) {
+      return;
+    }
+    this.listeners.add(this.listener);
+  }
+
+  /**
+   * 模块销毁钩子
+   *
+   * @description 移除查询监听器
+   */
+  onModuleDestroy(): void {
+    this.listeners.delete(this.listener);
+  }
+
+  /**
+   * 记录一条查询
+   *
+   * @param context - MikroORM 查询日志上下文
+   */
+  record(context: LogContext): void {
+    if (context.label === EXPLAIN_LABEL) {
+      return;
+    }
+
+    const duration = context.took ?? 0;
+    const query = sanitizeQuery(context.query ?? "");
+    const operation =
+      OPERATION_PATTERN.exec(query)?.[1].toLowerCase() ?? "other";
+    const entity = this.resolveEntity(query, operation);
+    const tenantId = this.isolationService.getTenantId();
+
+    const slowQuery = this.metrics.recordQuery({
+      query,
+      duration,
+      executedAt: new Date(),
+      entity,
+      operation,
+      isolationContext: {
+        tenantId,
+        organizationId: this.isolationService.getOrganizationId(),
+        departmentId: this.isolationService.getDepartmentId(),
+      },
+      requestId: this.cls.isActive() ? this.cls.getId() : undefined,
+    });
+
+    this.histogram?.observe(
+      {
+        entity,
+        operation,
+        tenant_id: tenantId ?? PLATFORM_LABEL,
+        status: context.level === "error" ? "error" : "success",
+      },
+      duration / 1000,
+    );
+
+    if (operation === "select") {
+      this.detectNPlusOne(query);
+      if (slowQuery) {
+        this.explain(slowQuery, context);
+      }
+    }
+  }
+
+  /**
+   * 统计当前请求中的语句形态，超过阈值时告警
+   */
+  private detectNPlusOne(query: string): void {
+    const options = this.options.monitoring?.nPlusOne;
+    if (options?.enabled === false || !this.cls.isActive()) {
+      return;
+    }
+
+    const threshold =
+      options?.threshold ?? MONITORING_DEFAULTS.N_PLUS_ONE_THRESHOLD;
+    const shape = query.replace(/\(\s*\?(?:\s*,\s*\?)*\s*\)/g, "(?)");
+    let shapes = this.cls.get<Map<string, number>>(QUERY_SHAPES_KEY);
+    if (!shapes) {
+      shapes = new Map();
+      this.cls.set(QUERY_SHAPES_KEY, shapes);
+    }
+
+    const count = (shapes.get(shape) ?? 0) + 1;
+    shapes.set(shape, count);
+    if (count === threshold + 1) {
+      this.logger.warn("检测到可能的 N+1 查询", {
+        query: shape,
+        count,
+        threshold,
+        callSite: findCallSite(
+          new Error().stack,
+          options?.ignoreFrames ??
+            MONITORING_DEFAULTS.N_PLUS_ONE_IGNORED_FRAMES,
+        ),
+        requestId: this.cls.getId(),
+        tenantId: this.isolationService.getTenantId(),
+      });
+    }
+  }
+
+  /**
+   * 按采样比例为慢查询异步采集执行计划
+   */
+  private explain(slowQuery: SlowQueryLog, context: LogContext): void {
+    const options = this.options.monitoring?.explain;
+    const sampleRate =
+      options?.sampleRate ?? MONITORING_DEFAULTS.EXPLAIN_SAMPLE_RATE;
+    if (
+      !options?.enabled ||
+      this.explaining ||
+      Math.random() >= sampleRate ||
+      !context.query
+    ) {
+      return;
+    }
+
+    const query = context.query;
+    const params = context.params ?? [];
+    const variables = Object.entries(
+      this.isolationService.getSessionVariables(),
+    );
+    const analyze =
+      (options.analyze ?? process.env.NODE_ENV !== "production") &&
+      !LOCKING_PATTERN.test(query);
+    const explain = analyze
+      ? "explain (analyze, buffers, format json)"
+      : "explain (format json)";
+
+    this.explaining = true;
+    this.connectionManager
+      .getEntityManager()
+      .then(async (em) => {
+        // 开启查询日志时 context.query 已被改写（内联参数或 $n 占位符），无法按原参数重放
+        if (em.config.getLogger().isEnabled("query", context)) {
+          return;
+        }
+
+        const fork = em.fork();
+        await fork.begin();
+        try {
+          const connection = fork.getConnection() as PostgreSqlConnection;
+          const ctx = fork.getTransactionContext();
+          if (variables.length > 0) {
+            await connection.execute(
+              `select ${variables.map(() => "set_config(?, ?, true)").join(", ")}`,
+              variables.flat(),
+              "run",
+              ctx,
+              { label: EXPLAIN_LABEL },
+            );
+          }
+          const rows = await connection.execute<Array<Record<string, unknown>>>(
+            `${explain} ${query}`,
+            params,
+            "all",
+            ctx,
+            { label: EXPLAIN_LABEL },
+          );
+          slowQuery.plan = rows[0]?.["QUERY PLAN"];
+          slowQuery.planAnalyzed = analyze;
+        } finally {
+          await fork.rollback();
+        }
+      })
+      .catch((error: Error) => {
+        this.logger.warn("采集慢查询执行计划失败", {
+          slowQueryId: slowQuery.id,
+          error: error.message,
+        });
+      })
+      .finally(() => {
+        this.explaining = false;
+      });
+  }
+
+  /**
+   * 根据 SQL 中的目标表解析实体名
+   */
+  private resolveEntity(query: string, operation: string): string {
+    const identifier = TABLE_PATTERNS[operation]?.exec(query)?.[1];
+    if (!identifier) {
+      return "unknown";
+    }
+
+    const table = identifier.split(".").pop()!.replace(/"/g, "");
+    if (!this.entityNames) {
+      this.entityNames = new Map(
+        Object.values(this.orm.getMetadata().getAll()).map((meta) => [
+          meta.tableName,
+          meta.className,
+        ]),
+      );
+    }
+    return this.entityNames.get(table) ?? table;
+  }
+}
+
+/**
+ * 将 SQL 中的字符串和数字字面量替换为 ?
+ */
+function sanitizeQuery(query: string): string {
+  return query
+    .replace(/'(?:[^']|'')*'/g, "?")
+    .replace(/(?<![\w"$])\d+(?:\.\d+)?(?![\w"])/g, "?");
+}
+
+/**
+ * 从调用栈中找到第一个业务代码栈帧
+ */
+function findCallSite(
+  stack: string | undefined,
+  ignoreFrames: RegExp,
+): string | undefined {
+  return stack
+    ?.split("\n")
+    .slice(1)
+    .map((line) => line.trim())
+    .find((line) => SOURCE_FRAME_PATTERN.test(line) && !ignoreFrames.test(line))
+    ?.slice(3);
+}
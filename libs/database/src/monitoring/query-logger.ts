@@ -0,0 +1,46 @@
+/**
+ * 查询日志记录器
+ *
+ * @description 扩展 MikroORM 默认日志记录器，把每条查询的执行信息转发给监听器
+ *
+ * ## 业务规则
+ *
+ * - 无论是否开启 debug，每条带耗时的查询都会通知监听器；日志输出仍遵循 debug 配置
+ * - 监听器抛出的错误被忽略，不影响查询本身
+ * - DatabaseModule 通过 loggerFactory 安装，租户数据库的 ORM 沿用同一组监听器
+ *
+ * @since 1.1.0
+ */
+
+import {
+  DefaultLogger,
+  type LogContext,
+  type LoggerOptions,
+} from "@mikro-orm/core";
+
+/**
+ * 查询监听器
+ */
+export type QueryListener = (context: LogContext) => void;
+
+export class QueryLogger extends DefaultLogger {
+  constructor(
+    options: LoggerOptions,
+    private readonly listeners: ReadonlySet<QueryListener>,
+  ) {
+    super(options);
+  }
+
+  override logQuery(context: { query: string } & LogContext): void {
+    if (context.took !== undefined) {
+      for (const listener of this.listeners) {
+        try {
+          listener(context);
+        } catch {
+          // 监听器错误不影响查询
+        }
+      }
+    }
+    super.logQuery(context);
+  }
+}
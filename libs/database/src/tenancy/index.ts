@@ -0,0 +1,10 @@
+/**
+ * 租户物理隔离模块导出
+ *
+ * @description 统一导出租户开通和迁移相关的服务和命令
+ *
+ * @since 1.1.0
+ */
+
+export * from "./tenant-migration.command.js";
+export * from "./tenant-provisioning.service.js";
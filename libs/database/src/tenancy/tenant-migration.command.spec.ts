@@ -0,0 +1,79 @@
+/**
+ * 租户迁移命令测试
+ *
+ * @description 测试 runTenantMigrationCommand 的参数解析和退出码
+ */
+
+import { Module } from "@nestjs/common";
+import type { TenantMigrationResult } from "../types/tenancy.types.js";
+import { runTenantMigrationCommand } from "./tenant-migration.command.js";
+import { TenantProvisioningService } from "./tenant-provisioning.service.js";
+
+describe("runTenantMigrationCommand", () => {
+  const result = (target: string, success = true): TenantMigrationResult => ({
+    target,
+    success,
+    migrations: [],
+    duration: 0,
+  });
+
+  const provisioning = {
+    provision: jest.fn(async (tenantId: string) => result(tenantId)),
+    migrateAll: jest.fn(async (tenantIds: string[]) =>
+      tenantIds.map((tenantId) => result(tenantId, tenantId !== "broken")),
+    ),
+  };
+
+  @Module({
+    providers: [{ provide: TenantProvisioningService, useValue: provisioning }],
+  })
+  class TestAppModule {}
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("migrate 未指定租户时应该迁移所有租户", async () => {
+    const code = await runTenantMigrationCommand(TestAppModule, {
+      argv: ["migrate"],
+      listTenantIds: () => ["a", "b"],
+    });
+
+    expect(provisioning.migrateAll).toHaveBeenCalledWith(["a", "b"]);
+    expect(code).toBe(0);
+  });
+
+  it("任一租户失败时应该返回 1", async () => {
+    const code = await runTenantMigrationCommand(TestAppModule, {
+      argv: ["migrate", "a", "broken"],
+      listTenantIds: () => [],
+    });
+
+    expect(provisioning.migrateAll).toHaveBeenCalledWith(["a", "broken"]);
+    expect(code).toBe(1);
+  });
+
+  it("provision 应该逐个开通指定租户", async () => {
+    const code = await runTenantMigrationCommand(TestAppModule, {
+      argv: ["provision", "acme", "globex"],
+      listTenantIds: () => [],
+    });
+
+    expect(provisioning.provision.mock.calls).toEqual([["acme"], ["globex"]]);
+    expect(code).toBe(0);
+  });
+
+  it("参数错误时应该抛出用法说明", async () => {
+    const options = { listTenantIds: () => [] };
+
+    await expect(
+      runTenantMigrationCommand(TestAppModule, { ...options, argv: [] }),
+    ).rejects.toThrow("用法");
+    await expect(
+      runTenantMigrationCommand(TestAppModule, {
+        ...options,
+        argv: ["provision"],
+      }),
+    ).rejects.toThrow("用法");
+  });
+});
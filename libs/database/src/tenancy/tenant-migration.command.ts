@@ -0,0 +1,95 @@
+/**
+ * 租户迁移命令
+ *
+ * @description 在命令行中开通租户或对租户执行迁移，供应用的运维脚本调用
+ *
+ * ## 业务规则
+ *
+ * ### 子命令
+ * - `provision <tenantId...>`：开通指定租户（创建 schema 或数据库后执行迁移）
+ * - `migrate [tenantId...]`：迁移指定租户；未指定时迁移 listTenantIds 返回的所有租户
+ * - 子命令或租户参数缺失时抛出错误，不创建应用上下文
+ *
+ * ### 执行规则
+ * - 用应用模块创建 Nest 应用上下文（不监听端口），执行完成后关闭
+ * - 通过 TenantProvisioningService 执行，单个租户失败不影响其他租户
+ * - 所有租户成功时返回 0，任一租户失败时返回 1，可直接作为进程退出码
+ *
+ * @example
+ * ```typescript
+ * // src/tenants.ts
+ * process.exitCode = await runTenantMigrationCommand(AppModule, {
+ *   listTenantIds: (app) => app.get(TenantService).listTenantIds(),
+ * });
+ *
+ * // node dist/tenants.js provision acme
+ * // node dist/tenants.js migrate
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type {
+  DynamicModule,
+  INestApplicationContext,
+  Type,
+} from "@nestjs/common";
+import { NestFactory } from "@nestjs/core";
+import type { TenantMigrationResult } from "../types/tenancy.types.js";
+import { TenantProvisioningService } from "./tenant-provisioning.service.js";
+
+const USAGE =
+  "用法：provision <tenantId...> | migrate [tenantId...]（不指定租户时迁移所有租户）";
+
+/**
+ * 租户迁移命令配置
+ */
+export interface TenantMigrationCommandOptions {
+  /** 列出所有租户 ID，migrate 未指定租户时调用 */
+  listTenantIds: (app: INestApplicationContext) => Promise<string[]> | string[];
+
+  /** 命令行参数，默认 process.argv.slice(2) */
+  argv?: string[];
+}
+
+/**
+ * 运行租户迁移命令
+ *
+ * @param module - 导入了 DatabaseModule 的应用模块
+ * @param options - 命令配置
+ * @returns 退出码：所有租户成功时为 0，否则为 1
+ * @throws {Error} 子命令未知或 provision 未指定租户时抛出
+ */
+export async function runTenantMigrationCommand(
+  module: Type<unknown> | DynamicModule,
+  options: TenantMigrationCommandOptions,
+): Promise<number> {
+  const [command, ...tenantIds] = options.argv ?? process.argv.slice(2);
+  if (
+    (command !== "provision" && command !== "migrate") ||
+    (command === "provision" && tenantIds.length === 0)
+  ) {
+    throw new Error(USAGE);
+  }
+
+  const app = await NestFactory.createApplicationContext(module);
+  try {
+    const provisioning = app.get(TenantProvisioningService);
+    let results: TenantMigrationResult[];
+
+    if (command === "provision") {
+      results = [];
+      for (const tenantId of tenantIds) {
+        results.push(await provisioning.provision(tenantId));
+      }
+    } else {
+      results = await provisioning.migrateAll(
+        tenantIds.length > 0 ? tenantIds : await options.listTenantIds(app),
+      );
+    }
+
+    return results.every(({ success }) => success) ? 0 : 1;
+  } finally {
+    await app.close();
+  }
+}
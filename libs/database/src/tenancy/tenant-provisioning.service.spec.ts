@@ -0,0 +1,180 @@
+/**
+ * 租户开通服务测试
+ *
+ * @description 测试 TenantProvisioningService 的开通和迁移功能
+ */
+
+import { FastifyLoggerService } from "@hl8/nestjs-fastify";
+import { MikroORM } from "@mikro-orm/core";
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConnectionManager } from "../connection/connection.manager.js";
+import { DI_TOKENS } from "../constants/tokens.js";
+import type { DatabaseModuleOptions } from "../types/module.types.js";
+import { TenancyStrategy } from "../types/tenancy.types.js";
+import { TenantProvisioningService } from "./tenant-provisioning.service.js";
+
+describe("TenantProvisioningService", () => {
+  let service: TenantProvisioningService;
+  let mockConnectionManager: jest.Mocked<ConnectionManager>;
+  let mockLogger: jest.Mocked<FastifyLoggerService>;
+  let moduleOptions: Partial<DatabaseModuleOptions>;
+  let statements: string[];
+  let up: jest.Mock;
+
+  beforeEach(async () => {
+    mockLogger = {
+      log: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    } as any;
+
+    statements = [];
+    up = jest.fn().mockResolvedValue([{ name: "Migration20250101" }]);
+    moduleOptions = {
+      tenancy: { strategy: TenancyStrategy.SCHEMA_PER_TENANT },
+    };
+
+    const execute = jest.fn(async (sql: string) => {
+      statements.push(sql);
+      return [];
+    });
+
+    mockConnectionManager = {
+      getTenancyStrategy: jest.fn(() => moduleOptions.tenancy!.strategy),
+      getTenantSchema: jest.fn((tenantId: string) => `tenant_${tenantId}`),
+      getTenantDatabase: jest.fn((tenantId: string) => `tenant_${tenantId}`),
+      getTenantOrmOptions: jest.fn(async (tenantId: string) => ({
+        dbName: `tenant_${tenantId}`,
+      })),
+      getOrm: jest.fn(() => ({
+        em: { getConnection: () => ({ execute }) },
+        config: {
+          get: (key: string) => (key === "dbName" ? "app" : undefined),
+          getAll: () => ({ dbName: "app" }),
+        },
+      })),
+    } as any;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TenantProvisioningService,
+        {
+          provide: ConnectionManager,
+          useValue: mockConnectionManager,
+        },
+        {
+          provide: FastifyLoggerService,
+          useValue: mockLogger,
+        },
+        {
+          provide: DI_TOKENS.MODULE_OPTIONS,
+          useValue: moduleOptions,
+        },
+      ],
+    }).compile();
+
+    service = module.get<TenantProvisioningService>(TenantProvisioningService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("schema-per-tenant", () => {
+    it("应该创建 schema 并在其中执行迁移", async () => {
+      const close = jest.fn();
+      const init = jest
+        .spyOn(MikroORM, "init")
+        .mockResolvedValue({ getMigrator: () => ({ up }), close } as any);
+
+      const result = await service.provision("acme");
+
+      expect(statements).toEqual(['create schema if not exists "tenant_acme"']);
+      expect(init).toHaveBeenCalledWith(
+        expect.objectContaining({
+          schema: "tenant_acme",
+          driverOptions: {
+            connection: { options: "-c search_path=tenant_acme,public" },
+          },
+        }),
+      );
+      expect(close).toHaveBeenCalled();
+      expect(result).toEqual(
+        expect.objectContaining({
+          target: "tenant_acme",
+          success: true,
+          migrations: ["Migration20250101"],
+        }),
+      );
+    });
+  });
+
+  describe("database-per-tenant", () => {
+    beforeEach(() => {
+      moduleOptions.tenancy = {
+        strategy: TenancyStrategy.DATABASE_PER_TENANT,
+      };
+    });
+
+    it("应该创建不存在的数据库并用单连接的临时 ORM 迁移", async () => {
+      const close = jest.fn();
+      const init = jest
+        .spyOn(MikroORM, "init")
+        .mockResolvedValue({ getMigrator: () => ({ up }), close } as any);
+
+      const result = await service.provision("acme");
+
+      expect(statements).toEqual([
+        "select 1 from pg_database where datname = ?",
+        'create database "tenant_acme"',
+      ]);
+      expect(init).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dbName: "tenant_acme",
+          pool: { min: 0, max: 1 },
+        }),
+      );
+      expect(close).toHaveBeenCalled();
+      expect(result.success).toBe(true);
+    });
+
+    it("配置了 resolveConnection 时不应该创建数据库", async () => {
+      moduleOptions.tenancy!.resolveConnection = () => ({ host: "db-2" });
+      jest.spyOn(MikroORM, "init").mockResolvedValue({
+        getMigrator: () => ({ up }),
+        close: jest.fn(),
+      } as any);
+
+      await service.provision("acme");
+
+      expect(statements).toEqual([]);
+      expect(up).toHaveBeenCalled();
+    });
+  });
+
+  describe("migrateAll", () => {
+    it("单个租户失败时应该继续迁移其他租户", async () => {
+      moduleOptions.tenancy = {
+        strategy: TenancyStrategy.DATABASE_PER_TENANT,
+      };
+      jest.spyOn(MikroORM, "init").mockResolvedValue({
+        getMigrator: () => ({ up }),
+        close: jest.fn(),
+      } as any);
+      up.mockRejectedValueOnce(new Error("语法错误"));
+
+      const results = await service.migrateAll(["a", "b"]);
+
+      expect(results.map(({ target, success }) => [target, success])).toEqual([
+        ["tenant_a", false],
+        ["tenant_b", true],
+      ]);
+      expect(results[0].error).toBe("语法错误");
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "部分租户迁移失败",
+        expect.objectContaining({ total: 2, failed: 1 }),
+      );
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * 租户开通服务
+ *
+ * @description 为 schema-per-tenant / database-per-tenant 模式创建租户 schema 或数据库，并执行迁移
+ *
+ * ## 业务规则
+ *
+ * ### 开通规则
+ * - schema-per-tenant：在主库中创建租户 schema（已存在时跳过）
+ * - database-per-tenant：在主库所在服务器上创建租户数据库（已存在时跳过）
+ * - 配置了 resolveConnection 的租户数据库位于其他服务器，需预先创建，这里只执行迁移
+ * - 共享表模式下无需开通，直接返回
+ * - 开通后立即执行迁移
+ *
+ * ### 迁移规则
+ * - 使用应用的 MikroORM 迁移配置（需注册 @mikro-orm/migrations 扩展）
+ * - 每个租户建立单连接的临时 ORM，迁移结束后立即关闭，不占用 ConnectionManager 中按 LRU 管理的租户连接
+ * - schema-per-tenant 的临时 ORM 把 search_path 指向租户 schema
+ * - database-per-tenant 的临时 ORM 使用 ConnectionManager 解析出的租户数据库连接配置
+ * - migrateAll 逐个租户执行，单个租户失败不影响其他租户，结果中标记失败原因
+ *
+ * @example
+ * ```typescript
+ * const results = await provisioning.migrateAll(await listTenantIds());
+ * ```
+ *
+ * 命令行运行见 runTenantMigrationCommand
+ *
+ * @since 1.1.0
+ */
+
+import { FastifyLoggerService } from "@hl8/nestjs-fastify";
+import { MikroORM, type Options } from "@mikro-orm/core";
+import { Inject, Injectable } from "@nestjs/common";
+import { ConnectionManager } from "../connection/connection.manager.js";
+import { DI_TOKENS } from "../constants/tokens.js";
+import type { DatabaseModuleOptions } from "../types/module.types.js";
+import {
+  type TenantMigrationResult,
+  TenancyStrategy,
+} from "../types/tenancy.types.js";
+
+@Injectable()
+export class TenantProvisioningService {
+  constructor(
+    private readonly connectionManager: ConnectionManager,
+    private readonly logger: FastifyLoggerService,
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    private readonly options: DatabaseModuleOptions,
+  ) {
+    this.logger.log("TenantProvisioningService 初始化");
+  }
+
+  /**
+   * 开通租户
+   *
+   * @description 创建租户 schema 或数据库并执行迁移
+   *
+   * @param tenantId - 租户 ID
+   * @returns 迁移结果
+   */
+  async provision(tenantId: string): Promise<TenantMigrationResult> {
+    const strategy = this.connectionManager.getTenancyStrategy();
+    const connection = this.connectionManager.getOrm().em.getConnection();
+
+    if (strategy === TenancyStrategy.SCHEMA_PER_TENANT) {
+      const schema = this.connectionManager.getTenantSchema(tenantId);
+      await connection.execute(`create schema if not exists "${schema}"`);
+      this.logger.log("租户 schema 已创建", { tenantId, schema });
+    } else if (
+      strategy === TenancyStrategy.DATABASE_PER_TENANT &&
+      !this.options.tenancy?.resolveConnection
+    ) {
+      const database = this.connectionManager.getTenantDatabase(tenantId);
+      const existing = await connection.execute(
+        "select 1 from pg_database where datname = ?",
+        [database],
+      );
+      if (existing.length === 0) {
+        await connection.execute(`create database "${database}"`);
+        this.logger.log("租户数据库已创建", { tenantId, database });
+      }
+    }
+
+    return this.migrate(tenantId);
+  }
+
+  /**
+   * 对单个租户执行迁移
+   *
+   * @param tenantId - 租户 ID
+   * @returns 迁移结果，失败时 success 为 false
+   */
+  async migrate(tenantId: string): Promise<TenantMigrationResult> {
+    const strategy = this.connectionManager.getTenancyStrategy();
+    const startTime = Date.now();
+    let target = this.connectionManager.getOrm().config.get("dbName");
+
+    try {
+      let migrations: string[] = [];
+
+      if (strategy === TenancyStrategy.SCHEMA_PER_TENANT) {
+        target = this.connectionManager.getTenantSchema(tenantId);
+        migrations = await this.migrateSchema(target);
+      } else if (strategy === TenancyStrategy.DATABASE_PER_TENANT) {
+        target = this.connectionManager.getTenantDatabase(tenantId);
+        migrations = await this.runMigrations(
+          await this.connectionManager.getTenantOrmOptions(tenantId),
+        );
+      }
+
+      const duration = Date.now() - startTime;
+      this.logger.log("租户迁移完成", {
+        tenantId,
+        target,
+        migrations,
+        duration,
+      });
+      return { target, success: true, migrations, duration };
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error("租户迁移失败", (error as Error).stack, {
+        tenantId,
+        target,
+        duration,
+      });
+      return {
+        target,
+        success: false,
+        migrations: [],
+        error: (error as Error).message,
+        duration,
+      };
+    }
+  }
+
+  /**
+   * 对所有租户执行迁移
+   *
+   * @param tenantIds - 租户 ID 列表
+   * @returns 每个租户的迁移结果，顺序与 tenantIds 相同
+   */
+  async migrateAll(tenantIds: string[]): Promise<TenantMigrationResult[]> {
+    const results: TenantMigrationResult[] = [];
+    for (const tenantId of tenantIds) {
+      results.push(await this.migrate(tenantId));
+    }
+
+    const failed = results.filter(({ success }) => !success);
+    const summary = {
+      total: results.length,
+      failed: failed.length,
+      failedTargets: failed.map(({ target }) => target),
+    };
+    if (failed.length > 0) {
+      this.logger.warn("部分租户迁移失败", summary);
+    } else {
+      this.logger.log("所有租户迁移完成", summary);
+    }
+    return results;
+  }
+
+  /**
+   * 在租户 schema 中执行迁移
+   *
+   * @description 迁移文件中的表名不带 schema，通过 search_path 使其落到租户 schema
+   */
+  private async migrateSchema(schema: string): Promise<string[]> {
+    const config = this.connectionManager.getOrm().config;
+    const driverOptions = config.get("driverOptions") ?? {};
+    return this.runMigrations({
+      ...config.getAll(),
+      schema,
+      replicas: [],
+      driverOptions: {
+        ...driverOptions,
+        connection: {
+          ...driverOptions.connection,
+          options: `-c search_path=${schema},public`,
+        },
+      },
+    });
+  }
+
+  /**
+   * 用单连接的临时 ORM 执行迁移，结束后关闭
+   */
+  private async runMigrations(options: Options): Promise<string[]> {
+    const orm = await MikroORM.init({
+      ...options,
+      pool: { ...options.pool, min: 0, max: 1 },
+    });
+
+    try {
+      return (await orm.getMigrator().up()).map(({ name }) => name);
+    } finally {
+      await orm.close();
+    }
+  }
+}
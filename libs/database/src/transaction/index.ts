@@ -6,5 +6,7 @@
  * @since 1.0.0
  */
 
+export * from "./read-only.decorator.js";
+export * from "./transaction-hook.decorator.js";
 export * from "./transaction.service.js";
 export * from "./transactional.decorator.js";
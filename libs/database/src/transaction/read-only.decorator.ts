@@ -0,0 +1,51 @@
+/**
+ * 只读装饰器
+ *
+ * @description 将方法放入只读事务执行，配置了从库时路由到从库
+ *
+ * ## 业务规则
+ *
+ * ### 路由规则
+ * - 不在事务中调用时，开启只读事务；有可用从库时在从库上执行
+ * - 在现有事务中调用时加入该事务，写事务中的读取仍在主库执行，保证读到本事务的写入
+ * - 方法内部写入实体会被拒绝（只读事务）
+ *
+ * ### 使用要求
+ * - 被装饰的方法必须是异步的
+ * - 类必须注入 TransactionService
+ * - 方法内部通过 CLS 获取事务 EntityManager
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class ReportRepository {
+ *   constructor(
+ *     private readonly transactionService: TransactionService,
+ *     private readonly cls: ClsService,
+ *   ) {}
+ *
+ *   @ReadOnly()
+ *   async monthlyRevenue(month: string): Promise<RevenueRow[]> {
+ *     const em = this.cls.get<EntityManager>('entityManager');
+ *     return em.find(Revenue, { month });
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { TransactionOptions } from "../types/transaction.types.js";
+import { Transactional } from "./transactional.decorator.js";
+
+/**
+ * 只读装饰器
+ *
+ * @param options - 事务选项（可选），readOnly 固定为 true
+ * @returns 方法装饰器
+ */
+export function ReadOnly(
+  options?: Omit<TransactionOptions, "readOnly">,
+): MethodDecorator {
+  return Transactional({ ...options, readOnly: true });
+}
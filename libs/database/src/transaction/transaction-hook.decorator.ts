@@ -0,0 +1,104 @@
+/**
+ * 事务钩子装饰器
+ *
+ * @description 将方法的执行推迟到当前事务的指定阶段
+ *
+ * ## 业务规则
+ *
+ * ### 装饰器行为规则
+ * - 调用被装饰的方法时，不立即执行，而是注册为当前事务的钩子
+ * - @BeforeCommit：最外层事务提交前执行，失败会导致事务回滚
+ * - @AfterCommit：最外层事务提交成功后执行
+ * - @AfterRollback：事务回滚后执行
+ * - 不在事务中调用时立即执行
+ * - 方法返回值被忽略，调用方得到的 Promise 在注册完成（或立即执行完成）后 resolve
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class UserEventPublisher {
+ *   constructor(
+ *     private readonly transactionService: TransactionService,
+ *     private readonly eventBus: EventBus,
+ *   ) {}
+ *
+ *   @AfterCommit()
+ *   async publishCreated(user: User): Promise<void> {
+ *     await this.eventBus.publish(new UserCreatedEvent(user.id));
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { TransactionHooks } from "../types/transaction.types.js";
+
+/**
+ * 创建事务钩子装饰器
+ *
+ * @param phase - 钩子阶段
+ * @returns 方法装饰器
+ */
+function createTransactionHookDecorator(
+  phase: keyof TransactionHooks,
+): MethodDecorator {
+  return function (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor,
+  ) {
+    const originalMethod = descriptor.value;
+
+    descriptor.value = async function (...args: any[]) {
+      // 获取 TransactionService（需要类中注入）
+      const transactionService = (this as any).transactionService;
+
+      if (!transactionService) {
+        throw new Error(
+          `事务钩子装饰器要求类注入 TransactionService。` +
+            `请在 ${target.constructor.name} 中添加：constructor(private readonly transactionService: TransactionService)`,
+        );
+      }
+
+      await transactionService[phase](async () => {
+        await originalMethod.apply(this, args);
+      });
+    };
+
+    return descriptor;
+  };
+}
+
+/**
+ * 提交前钩子装饰器
+ *
+ * @description 将方法推迟到最外层事务提交前执行
+ *
+ * @returns 方法装饰器
+ */
+export function BeforeCommit(): MethodDecorator {
+  return createTransactionHookDecorator("beforeCommit");
+}
+
+/**
+ * 提交后钩子装饰器
+ *
+ * @description 将方法推迟到最外层事务提交成功后执行
+ *
+ * @returns 方法装饰器
+ */
+export function AfterCommit(): MethodDecorator {
+  return createTransactionHookDecorator("afterCommit");
+}
+
+/**
+ * 回滚后钩子装饰器
+ *
+ * @description 将方法推迟到事务回滚后执行
+ *
+ * @returns 方法装饰器
+ */
+export function AfterRollback(): MethodDecorator {
+  return createTransactionHookDecorator("afterRollback");
+}
@@ -8,7 +8,16 @@ import { FastifyLoggerService } from "@hl8/nestjs-fastify";
 import { EntityManager, MikroORM } from "@mikro-orm/core";
 import { Test, TestingModule } from "@nestjs/testing";
 import { ClsService } from "nestjs-cls";
+import { ConnectionManager } from "../connection/connection.manager.js";
+import { DATABASE_ERROR_CODES } from "../constants/error-codes.js";
 import { DatabaseTransactionException } from "../exceptions/database-transaction.exception.js";
+import { TransactionPropagationException } from "../exceptions/transaction-propagation.exception.js";
+import { DatabaseIsolationService } from "../isolation/isolation.service.js";
+import { MetricsService } from "../monitoring/metrics.service.js";
+import {
+  TransactionIsolationLevel,
+  TransactionPropagation,
+} from "../types/transaction.types.js";
 import { TransactionService } from "./transaction.service.js";
 
 describe("TransactionService", () => {
@@ -16,15 +25,38 @@ describe("TransactionService", () => {
   let mockOrm: jest.Mocked<MikroORM>;
   let mockCls: jest.Mocked<ClsService>;
   let mockLogger: jest.Mocked<FastifyLoggerService>;
+  let mockMetrics: jest.Mocked<MetricsService>;
+  let mockConnectionManager: jest.Mocked<ConnectionManager>;
+  let mockIsolationService: jest.Mocked<DatabaseIsolationService>;
   let mockEm: jest.Mocked<EntityManager>;
 
   beforeEach(async () => {
     mockLogger = {
       log: jest.fn(),
       error: jest.fn(),
+      warn: jest.fn(),
       debug: jest.fn(),
     } as any;
 
+    mockMetrics = {
+      recordTransactionCommit: jest.fn(),
+      recordTransactionRollback: jest.fn(),
+      recordTransactionTimeout: jest.fn(),
+      recordTransactionReadOnlyViolation: jest.fn(),
+      recordTransactionRetry: jest.fn(),
+      incrementActiveTransactions: jest.fn(),
+      decrementActiveTransactions: jest.fn(),
+    } as any;
+
+    mockConnectionManager = {
+      getReadConnection: jest.fn(),
+      getEntityManager: jest.fn(async () => mockOrm.em),
+    } as any;
+
+    mockIsolationService = {
+      getSessionVariables: jest.fn().mockReturnValue({}),
+    } as any;
+
     mockCls = {
       get: jest.fn(),
       set: jest.fn(),
@@ -57,6 +89,18 @@ describe("TransactionService", () => {
           provide: FastifyLoggerService,
           useValue: mockLogger,
         },
+        {
+          provide: MetricsService,
+          useValue: mockMetrics,
+        },
+        {
+          provide: ConnectionManager,
+          useValue: mockConnectionManager,
+        },
+        {
+          provide: DatabaseIsolationService,
+          useValue: mockIsolationService,
+        },
       ],
     }).compile();
 
@@ -76,6 +120,8 @@ describe("TransactionService", () => {
         "事务提交成功",
         expect.objectContaining({ duration: expect.any(Number) }),
       );
+      expect(mockMetrics.recordTransactionCommit).toHaveBeenCalledTimes(1);
+      expect(mockMetrics.decrementActiveTransactions).toHaveBeenCalledTimes(1);
     });
 
     it("应该在事务失败时回滚并抛出异常", async () => {
@@ -87,6 +133,7 @@ describe("TransactionService", () => {
           throw new Error("Transaction failed");
         }),
       ).rejects.toThrow(DatabaseTransactionException);
+      expect(mockMetrics.recordTransactionRollback).toHaveBeenCalledTimes(1);
     });
 
     it("应该复用现有事务的 EntityManager", async () => {
@@ -104,6 +151,463 @@ describe("TransactionService", () => {
     });
   });
 
+  describe("传播行为", () => {
+    let store: Map<string, unknown>;
+    let outerEm: jest.Mocked<EntityManager>;
+    let savepointEm: jest.Mocked<EntityManager>;
+
+    beforeEach(() => {
+      store = new Map();
+      mockCls.get.mockImplementation(((key: string) => store.get(key)) as any);
+      mockCls.set.mockImplementation(((key: string, value: unknown) =>
+        store.set(key, value)) as any);
+
+      savepointEm = { transactional: jest.fn() } as any;
+      outerEm = {
+        transactional: jest.fn((callback) => callback(savepointEm)),
+      } as any;
+      store.set("entityManager", outerEm);
+      store.set("transactionId", "outer-tx");
+    });
+
+    it("REQUIRES_NEW 应该使用新连接开启独立事务，结束后恢复外层上下文", async () => {
+      await service.runInTransaction(
+        async (em) => {
+          expect(em).toBe(mockEm);
+          expect(service.getTransactionEntityManager()).toBe(mockEm);
+          expect(service.getTransactionContext()?.isNested).toBe(false);
+        },
+        { propagation: TransactionPropagation.REQUIRES_NEW },
+      );
+
+      expect(mockEm.fork).toHaveBeenCalled();
+      expect(outerEm.transactional).not.toHaveBeenCalled();
+      expect(service.getTransactionEntityManager()).toBe(outerEm);
+      expect(service.getTransactionId()).toBe("outer-tx");
+    });
+
+    it("NESTED 应该在外层事务中创建保存点", async () => {
+      await service.runInTransaction(
+        async (em) => {
+          expect(em).toBe(savepointEm);
+          expect(service.getTransactionContext()).toEqual(
+            expect.objectContaining({
+              entityManager: savepointEm,
+              isNested: true,
+            }),
+          );
+        },
+        { propagation: TransactionPropagation.NESTED },
+      );
+
+      expect(outerEm.transactional).toHaveBeenCalled();
+      expect(mockEm.fork).not.toHaveBeenCalled();
+      expect(service.getTransactionEntityManager()).toBe(outerEm);
+      expect(service.getTransactionContext()).toBeUndefined();
+    });
+
+    it("NESTED 失败时应该抛出异常并保留外层上下文", async () => {
+      outerEm.transactional.mockImplementation(async (callback) => {
+        await callback(savepointEm);
+      });
+
+      await expect(
+        service.runInTransaction(
+          async () => {
+            throw new Error("导入失败");
+          },
+          { propagation: TransactionPropagation.NESTED },
+        ),
+      ).rejects.toThrow(DatabaseTransactionException);
+      expect(service.getTransactionEntityManager()).toBe(outerEm);
+      expect(service.getTransactionId()).toBe("outer-tx");
+    });
+
+    it("MANDATORY 不在事务中时应该抛出异常", async () => {
+      store.clear();
+
+      await expect(
+        service.runInTransaction(async () => "success", {
+          propagation: TransactionPropagation.MANDATORY,
+        }),
+      ).rejects.toThrow(TransactionPropagationException);
+    });
+
+    it("NEVER 在事务中时应该抛出异常", async () => {
+      await expect(
+        service.runInTransaction(async () => "success", {
+          propagation: TransactionPropagation.NEVER,
+        }),
+      ).rejects.toThrow(TransactionPropagationException);
+    });
+
+    it("SUPPORTS 不在事务中时应该以非事务方式执行", async () => {
+      store.clear();
+
+      const result = await service.runInTransaction(
+        async (em) => {
+          expect(em).toBe(mockEm);
+          expect(service.isInTransaction()).toBe(false);
+          return "success";
+        },
+        { propagation: TransactionPropagation.SUPPORTS },
+      );
+
+      expect(result).toBe("success");
+      expect(mockEm.transactional).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("事务钩子", () => {
+    let store: Map<string, unknown>;
+
+    beforeEach(() => {
+      store = new Map();
+      mockCls.get.mockImplementation(((key: string) => store.get(key)) as any);
+      mockCls.set.mockImplementation(((key: string, value: unknown) =>
+        store.set(key, value)) as any);
+    });
+
+    it("不在事务中时应该立即执行", async () => {
+      const calls: string[] = [];
+
+      await service.afterCommit(() => {
+        calls.push("afterCommit");
+      });
+
+      expect(calls).toEqual(["afterCommit"]);
+    });
+
+    it("应该在提交前后按注册顺序各执行一次", async () => {
+      const calls: string[] = [];
+
+      await service.runInTransaction(async () => {
+        await service.afterCommit(() => {
+          calls.push(`afterCommit-1:${service.isInTransaction()}`);
+        });
+        await service.beforeCommit(() => {
+          calls.push(`beforeCommit:${service.isInTransaction()}`);
+        });
+        await service.afterCommit(() => {
+          calls.push("afterCommit-2");
+        });
+        await service.afterRollback(() => {
+          calls.push("afterRollback");
+        });
+        calls.push("callback");
+      });
+
+      expect(calls).toEqual([
+        "callback",
+        "beforeCommit:true",
+        "afterCommit-1:false",
+        "afterCommit-2",
+      ]);
+    });
+
+    it("回滚时应该丢弃提交钩子并执行回滚钩子", async () => {
+      const calls: string[] = [];
+
+      await expect(
+        service.runInTransaction(async () => {
+          await service.afterCommit(() => {
+            calls.push("afterCommit");
+          });
+          await service.afterRollback(() => {
+            calls.push("afterRollback");
+          });
+          throw new Error("Transaction failed");
+        }),
+      ).rejects.toThrow(DatabaseTransactionException);
+
+      expect(calls).toEqual(["afterRollback"]);
+    });
+
+    it("保存点中注册的钩子应该在最外层事务提交后执行", async () => {
+      const calls: string[] = [];
+
+      await service.runInTransaction(async () => {
+        await service.runInTransaction(
+          async () => {
+            await service.afterCommit(() => {
+              calls.push("nested");
+            });
+          },
+          { propagation: TransactionPropagation.NESTED },
+        );
+        calls.push("outer");
+      });
+
+      expect(calls).toEqual(["outer", "nested"]);
+    });
+
+    it("提交后钩子失败时应该记录日志并继续执行其余钩子", async () => {
+      const calls: string[] = [];
+
+      const result = await service.runInTransaction(async () => {
+        await service.afterCommit(() => {
+          throw new Error("发布失败");
+        });
+        await service.afterCommit(() => {
+          calls.push("afterCommit");
+        });
+        return "success";
+      });
+
+      expect(result).toBe("success");
+      expect(calls).toEqual(["afterCommit"]);
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        "事务钩子执行失败",
+        undefined,
+        expect.objectContaining({ phase: "afterCommit" }),
+      );
+    });
+  });
+
+  describe("只读与超时", () => {
+    let statements: string[];
+    let subscribers: any[];
+
+    beforeEach(() => {
+      mockCls.get.mockReturnValue(undefined);
+      statements = [];
+      subscribers = [];
+      (mockEm as any).getConnection = jest.fn(() => ({
+        execute: jest.fn(async (sql: string) => {
+          statements.push(sql);
+        }),
+      }));
+      (mockEm as any).getTransactionContext = jest.fn();
+      (mockEm as any).getEventManager = jest.fn(() => ({
+        registerSubscriber: (subscriber: unknown) =>
+          subscribers.push(subscriber),
+      }));
+    });
+
+    it("只读事务应该在从库连接上开启", async () => {
+      const replica = {
+        transactional: jest.fn(async (callback: any) =>
+          callback("replica-trx"),
+        ),
+      };
+      mockConnectionManager.getReadConnection.mockReturnValue(replica as any);
+      (mockEm as any).setTransactionContext = jest.fn();
+      (mockEm as any).resetTransactionContext = jest.fn();
+      (mockEm as any).flush = jest.fn();
+
+      const result = await service.runInTransaction(
+        async (em) => {
+          expect(em).toBe(mockEm);
+          return "report";
+        },
+        { readOnly: true },
+      );
+
+      expect(result).toBe("report");
+      expect(replica.transactional).toHaveBeenCalled();
+      expect(mockEm.transactional).not.toHaveBeenCalled();
+      expect(mockEm.setTransactionContext).toHaveBeenCalledWith("replica-trx");
+      expect(mockEm.resetTransactionContext).toHaveBeenCalled();
+      expect(statements).toEqual(["SET TRANSACTION READ ONLY"]);
+    });
+
+    it("写事务不应该路由到从库", async () => {
+      await service.runInTransaction(async () => "success");
+
+      expect(mockConnectionManager.getReadConnection).not.toHaveBeenCalled();
+      expect(mockEm.transactional).toHaveBeenCalled();
+    });
+
+    it("只读事务应该以 SET TRANSACTION READ ONLY 开始", async () => {
+      await service.runInTransaction(async () => "success", {
+        readOnly: true,
+      });
+
+      expect(statements).toEqual(["SET TRANSACTION READ ONLY"]);
+    });
+
+    it("应该在 SET TRANSACTION 之后写入隔离上下文会话变量", async () => {
+      const execute = jest.fn(async (sql: string) => {
+        statements.push(sql);
+      });
+      (mockEm as any).getConnection = jest.fn(() => ({ execute }));
+      mockIsolationService.getSessionVariables.mockReturnValue({
+        "app.tenant_id": "tenant-1",
+        "app.user_id": "user-1",
+      });
+
+      await service.runInTransaction(async () => "success", {
+        readOnly: true,
+      });
+
+      expect(statements).toEqual([
+        "SET TRANSACTION READ ONLY",
+        "select set_config(?, ?, true), set_config(?, ?, true)",
+      ]);
+      expect(execute).toHaveBeenLastCalledWith(
+        expect.any(String),
+        ["app.tenant_id", "tenant-1", "app.user_id", "user-1"],
+        "run",
+        undefined,
+      );
+    });
+
+    it("保存点不应该重复写入会话变量", async () => {
+      mockIsolationService.getSessionVariables.mockReturnValue({
+        "app.tenant_id": "tenant-1",
+      });
+      mockCls.get.mockImplementation((key: string) =>
+        key === "entityManager" ? mockEm : undefined,
+      );
+
+      await service.runInTransaction(async () => "success", {
+        propagation: TransactionPropagation.NESTED,
+      });
+
+      expect(statements).toEqual([]);
+    });
+
+    it("只读事务存在待写入的变更时应该拒绝 flush 并回滚", async () => {
+      mockEm.transactional.mockImplementation(async (callback) => {
+        const result = await callback(mockEm);
+        for (const subscriber of subscribers) {
+          await subscriber.onFlush({
+            uow: { getChangeSets: () => [{ name: "User" }] },
+          });
+        }
+        return result;
+      });
+
+      const error = await service
+        .runInTransaction(async () => "success", { readOnly: true })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(DatabaseTransactionException);
+      expect(error.errorCode).toBe(
+        DATABASE_ERROR_CODES.TRANSACTION_READ_ONLY_VIOLATION,
+      );
+      expect(
+        mockMetrics.recordTransactionReadOnlyViolation,
+      ).toHaveBeenCalledTimes(1);
+    });
+
+    it("应该以 SET LOCAL 设置超时，语句超时后以专用代码回滚", async () => {
+      const error = await service
+        .runInTransaction(
+          async () => {
+            throw Object.assign(new Error("canceling statement"), {
+              code: "57014",
+            });
+          },
+          { timeout: 5000 },
+        )
+        .catch((e) => e);
+
+      expect(statements).toEqual([
+        "SET LOCAL statement_timeout = 5000",
+        "SET LOCAL idle_in_transaction_session_timeout = 5000",
+      ]);
+      expect(error.errorCode).toBe(DATABASE_ERROR_CODES.TRANSACTION_TIMEOUT);
+      expect(mockMetrics.recordTransactionTimeout).toHaveBeenCalledTimes(1);
+    });
+
+    it("回调结束时已超过 timeout 应该回滚", async () => {
+      const error = await service
+        .runInTransaction(
+          async () => {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            return "success";
+          },
+          { timeout: 5 },
+        )
+        .catch((e) => e);
+
+      expect(error.errorCode).toBe(DATABASE_ERROR_CODES.TRANSACTION_TIMEOUT);
+    });
+  });
+
+  describe("冲突重试", () => {
+    const conflict = (code: string) =>
+      Object.assign(new Error("could not serialize access"), { code });
+
+    beforeEach(() => {
+      mockCls.get.mockReturnValue(undefined);
+    });
+
+    it("应该以指定的隔离级别开启事务", async () => {
+      await service.runInTransaction(async () => "success", {
+        isolationLevel: TransactionIsolationLevel.SERIALIZABLE,
+      });
+
+      expect(mockEm.transactional).toHaveBeenCalledWith(expect.any(Function), {
+        isolationLevel: TransactionIsolationLevel.SERIALIZABLE,
+      });
+    });
+
+    it("序列化失败时应该重新执行整个回调", async () => {
+      let calls = 0;
+
+      const result = await service.runInTransaction(
+        async () => {
+          if (++calls === 1) {
+            throw conflict("40001");
+          }
+          return "success";
+        },
+        { retry: { attempts: 2, backoff: 1 } },
+      );
+
+      expect(result).toBe("success");
+      expect(calls).toBe(2);
+      expect(mockEm.fork).toHaveBeenCalledTimes(2);
+      expect(mockMetrics.recordTransactionRetry).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        "事务发生序列化冲突或死锁，准备重试",
+        expect.objectContaining({
+          transactionId: expect.any(String),
+          retry: 1,
+          code: "40001",
+        }),
+      );
+    });
+
+    it("重试次数用尽后应该抛出异常", async () => {
+      let calls = 0;
+
+      await expect(
+        service.runInTransaction(
+          async () => {
+            calls++;
+            throw conflict("40P01");
+          },
+          { retry: { attempts: 2, backoff: 1 } },
+        ),
+      ).rejects.toThrow(DatabaseTransactionException);
+      expect(calls).toBe(3);
+      expect(mockMetrics.recordTransactionRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it("应该识别保存点包装后的冲突错误，且不重试其他错误", async () => {
+      let calls = 0;
+
+      await expect(
+        service.runInTransaction(
+          async () => {
+            calls++;
+            throw new DatabaseTransactionException(
+              "嵌套事务执行失败",
+              undefined,
+              undefined,
+              calls === 1 ? conflict("40001") : new Error("约束冲突"),
+            );
+          },
+          { retry: { attempts: 3, backoff: 1 } },
+        ),
+      ).rejects.toThrow(DatabaseTransactionException);
+      expect(calls).toBe(2);
+    });
+  });
+
   describe("isInTransaction", () => {
     it("应该正确判断是否在事务中", () => {
       mockCls.get.mockReturnValue(mockEm);
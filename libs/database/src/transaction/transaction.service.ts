@@ -11,16 +11,61 @@
  * - 失败时自动回滚所有操作
  * - 支持嵌套事务（使用相同的 EntityManager）
  *
+ * ### 传播行为规则
+ * - 通过 options.propagation 指定，默认 REQUIRED（加入现有事务）
+ * - REQUIRES_NEW 使用新的连接开启独立事务，外层事务回滚不影响它
+ * - NESTED 在现有事务中创建保存点，失败时只回滚保存点之后的操作
+ * - MANDATORY / NEVER 的前置条件不满足时抛出 TransactionPropagationException
+ * - NEVER、SUPPORTS 在没有事务时以非事务方式执行，回调收到新 fork 的 EntityManager
+ *
  * ### 上下文管理规则
  * - 使用 nestjs-cls 存储事务上下文
  * - 事务 EntityManager 存储在 CLS 中
- * - 事务结束后清理上下文
- * - 嵌套事务复用父事务的 EntityManager
+ * - 事务结束后恢复调用前的上下文（外层事务的 EM 或空）
+ * - 加入现有事务时复用父事务的 EntityManager
+ *
+ * ### 事务钩子规则
+ * - beforeCommit / afterCommit / afterRollback 注册到 CLS 中的当前事务
+ * - 钩子按注册顺序执行，每个钩子只执行一次
+ * - 保存点提交后，其钩子并入外层事务，随最外层事务结束执行
+ * - 保存点回滚时丢弃其提交钩子，回滚钩子立即执行
+ * - afterCommit / afterRollback 失败只记录日志，不改变事务结果
+ * - 不在事务中注册时立即执行
+ *
+ * ### 只读规则
+ * - readOnly 的新事务以 SET TRANSACTION READ ONLY 开始，写语句由数据库拒绝
+ * - 存在待写入的实体变更时拒绝 flush，事务回滚并抛出 DATABASE_TRANSACTION_READ_ONLY_VIOLATION
+ * - NESTED 保存点不下发 SET TRANSACTION（释放后会作用于外层事务），只拒绝 flush
  *
  * ### 超时规则
- * - 默认事务超时为 60 秒
- * - 超时后自动回滚
- * - 记录超时警告日志
+ * - 未指定 timeout 时不限制
+ * - 新事务以 SET LOCAL 设置 statement_timeout 和 idle_in_transaction_session_timeout
+ * - 回调结束时已超过 timeout，或语句被超时取消，事务回滚并抛出 DATABASE_TRANSACTION_TIMEOUT
+ * - NESTED 保存点只在回调结束时检查耗时
+ * - 加入现有事务（REQUIRED、MANDATORY、SUPPORTS）时忽略 readOnly 和 timeout
+ *
+ * ### 行级安全规则
+ * - 新事务开始时以 set_config(..., true) 写入隔离上下文会话变量（app.tenant_id 等）
+ * - 变量随事务结束失效；保存点和加入现有事务时沿用外层事务的变量
+ * - 不在事务中执行的查询不携带变量，启用行级安全的表对其不可见
+ *
+ * ### 租户物理隔离规则
+ * - 新事务和非事务执行的 EntityManager 由 ConnectionManager 按租户存放策略解析
+ * - schema-per-tenant 在租户 schema 中执行，database-per-tenant 在租户数据库中执行
+ *
+ * ### 读写分离规则
+ * - 新开启的只读事务在轮转中的从库上执行，没有可用从库时回退到主库
+ * - 写事务、加入现有事务和保存点都留在外层事务所在的连接上
+ *
+ * ### 冲突重试规则
+ * - isolationLevel 只作用于新事务，保存点沿用外层事务的隔离级别
+ * - 配置 retry 时，新事务因序列化失败（40001）或死锁（40P01）回滚后重新执行整个回调
+ * - 重试前按全抖动指数退避等待，每次重试使用新的事务 ID 并记录告警日志
+ * - 被重试的执行中注册的钩子随该次执行丢弃，重新执行时会再次注册
+ * - 保存点和加入现有事务时不重试，错误向外层传递，由最外层事务重试
+ *
+ * ### 统计规则
+ * - 活动事务数、提交、回滚、超时、只读写入和重试记录到 MetricsService
  *
  * @example
  * ```typescript
@@ -44,19 +89,79 @@
  */
 
 import { FastifyLoggerService } from "@hl8/nestjs-fastify";
-import { EntityManager, MikroORM } from "@mikro-orm/core";
+import {
+  type Connection,
+  EntityManager,
+  type FlushEventArgs,
+} from "@mikro-orm/core";
 import { Injectable } from "@nestjs/common";
 import { ClsService } from "nestjs-cls";
 import { v4 as uuidv4 } from "uuid";
+import { ConnectionManager } from "../connection/connection.manager.js";
+import { TRANSACTION_DEFAULTS } from "../constants/defaults.js";
+import { DATABASE_ERROR_CODES } from "../constants/error-codes.js";
 import { DatabaseTransactionException } from "../exceptions/database-transaction.exception.js";
-import type { TransactionOptions } from "../types/transaction.types.js";
+import { TransactionPropagationException } from "../exceptions/transaction-propagation.exception.js";
+import { DatabaseIsolationService } from "../isolation/isolation.service.js";
+import { MetricsService } from "../monitoring/metrics.service.js";
+import {
+  type TransactionContext,
+  type TransactionHook,
+  type TransactionHooks,
+  type TransactionIsolationLevel,
+  type TransactionOptions,
+  TransactionPropagation,
+} from "../types/transaction.types.js";
+
+/**
+ * 表示语句或空闲事务超时的 PostgreSQL SQLSTATE
+ *
+ * - 57014：query_canceled（statement_timeout）
+ * - 25P03：idle_in_transaction_session_timeout
+ */
+const TIMEOUT_SQL_STATES = ["57014", "25P03"];
+
+/**
+ * 可重试的 PostgreSQL SQLSTATE
+ *
+ * - 40001：serialization_failure
+ * - 40P01：deadlock_detected
+ */
+const RETRYABLE_SQL_STATES = ["40001", "40P01"];
+
+/**
+ * 是否为可重试的错误，沿 rootCause 查找内层事务包装前的原始错误
+ */
+function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { code, rootCause } = error as Error & {
+    code?: string;
+    rootCause?: unknown;
+  };
+  return (
+    RETRYABLE_SQL_STATES.includes(code ?? "") || isRetryableError(rootCause)
+  );
+}
+
+/**
+ * 只读事务中存在待写入的变更
+ */
+class ReadOnlyViolationError extends Error {
+  constructor(readonly entities: string[]) {
+    super(`只读事务中存在待写入的实体: ${entities.join(", ")}`);
+  }
+}
 
 @Injectable()
 export class TransactionService {
   constructor(
-    private readonly orm: MikroORM,
     private readonly cls: ClsService,
     private readonly logger: FastifyLoggerService,
+    private readonly metrics: MetricsService,
+    private readonly connectionManager: ConnectionManager,
+    private readonly isolationService: DatabaseIsolationService,
   ) {
     this.logger.log("TransactionService 初始化");
   }
@@ -71,6 +176,7 @@ export class TransactionService {
    * @returns 回调函数的返回值
    *
    * @throws {DatabaseTransactionException} 事务执行失败时抛出
+   * @throws {TransactionPropagationException} 事务状态不满足传播行为要求时抛出
    *
    * @example
    * ```typescript
@@ -79,70 +185,108 @@ export class TransactionService {
    *   await em.persistAndFlush(user);
    *   return user;
    * });
+   *
+   * // 审计日志独立提交，业务事务回滚也会保留
+   * await this.transactionService.runInTransaction(
+   *   async (em) => em.persistAndFlush(new AuditLog(entry)),
+   *   { propagation: TransactionPropagation.REQUIRES_NEW },
+   * );
    * ```
    */
   async runInTransaction<T>(
     callback: (em: EntityManager) => Promise<T>,
     options?: TransactionOptions,
   ): Promise<T> {
-    // 检查是否已在事务中
+    const propagation = options?.propagation ?? TransactionPropagation.REQUIRED;
     const existingEm = this.cls.get<EntityManager>("entityManager");
-    if (existingEm) {
-      this.logger.debug("检测到现有事务，复用 EntityManager");
-      return callback(existingEm);
-    }
 
-    const transactionId = uuidv4();
-    const startTime = Date.now();
+    switch (propagation) {
+      case TransactionPropagation.REQUIRES_NEW:
+        return this.executeWithRetry(callback, options);
 
-    this.logger.log("开始事务", { transactionId, options });
+      case TransactionPropagation.NESTED:
+        // 在事务 EM 上再次开启事务时，MikroORM 使用保存点
+        return existingEm
+          ? this.execute(existingEm, callback, options, true)
+          : this.executeWithRetry(callback, options);
 
-    try {
-      const em = this.orm.em.fork();
-
-      const result = await em.transactional(async (transactionEm) => {
-        // 将事务 EM 存储到上下文
-        this.cls.set("entityManager", transactionEm);
-        this.cls.set("transactionId", transactionId);
-
-        try {
-          return await callback(transactionEm);
-        } finally {
-          // 清理上下文
-          this.cls.set("entityManager", undefined);
-          this.cls.set("transactionId", undefined);
+      case TransactionPropagation.MANDATORY:
+        if (!existingEm) {
+          throw new TransactionPropagationException(
+            "MANDATORY 传播要求在现有事务中调用",
+            { propagation },
+          );
         }
-      });
+        return callback(existingEm);
 
-      const duration = Date.now() - startTime;
-      this.logger.log("事务提交成功", { transactionId, duration });
-
-      return result;
-    } catch (error) {
-      const duration = Date.now() - startTime;
+      case TransactionPropagation.NEVER:
+        if (existingEm) {
+          throw new TransactionPropagationException(
+            "NEVER 传播不允许在事务中调用",
+            { propagation, transactionId: this.getTransactionId() },
+          );
+        }
+        return callback(await this.forkEntityManager());
 
-      // 记录技术错误日志用于监控和调试
-      this.logger.error("事务执行失败，已回滚", undefined, {
-        transactionId,
-        duration,
-        err:
-          error instanceof Error
-            ? {
-                type: error.constructor.name,
-                message: error.message,
-                stack: error.stack,
-              }
-            : undefined,
-      });
+      case TransactionPropagation.SUPPORTS:
+        return callback(existingEm ?? (await this.forkEntityManager()));
 
-      // 抛出业务异常
-      throw new DatabaseTransactionException("事务执行失败，所有操作已回滚", {
-        transactionId,
-        duration,
-      });
+      default:
+        if (existingEm) {
+          this.logger.debug("检测到现有事务，复用 EntityManager");
+          return callback(existingEm);
+        }
+        return this.executeWithRetry(callback, options);
     }
   }
 
+  /**
+   * 注册提交前钩子
+   *
+   * @description 在最外层事务提交前、仍处于事务中时执行；钩子抛出异常会导致事务回滚
+   *
+   * @param hook - 钩子函数
+   *
+   * @example
+   * ```typescript
+   * await this.transactionService.beforeCommit(async () => {
+   *   await this.outbox.flush();
+   * });
+   * ```
+   */
+  async beforeCommit(hook: TransactionHook): Promise<void> {
+    await this.register("beforeCommit", hook);
+  }
+
+  /**
+   * 注册提交后钩子
+   *
+   * @description 在最外层事务提交成功后执行；事务回滚时丢弃
+   *
+   * @param hook - 钩子函数
+   *
+   * @example
+   * ```typescript
+   * await this.transactionService.afterCommit(() =>
+   *   this.eventBus.publish(new UserCreatedEvent(user.id)),
+   * );
+   * ```
+   */
+  async afterCommit(hook: TransactionHook): Promise<void> {
+    await this.register("afterCommit", hook);
+  }
+
+  /**
+   * 注册回滚后钩子
+   *
+   * @description 在事务回滚后执行；在保存点中注册且保存点回滚时，回滚后立即执行
+   *
+   * @param hook - 钩子函数
+   */
+  async afterRollback(hook: TransactionHook): Promise<void> {
+    await this.register("afterRollback", hook);
+  }
+
   /**
    * 获取当前事务的 EntityManager
    *
@@ -184,4 +328,404 @@ export class TransactionService {
   getTransactionId(): string | undefined {
     return this.cls.get<string>("transactionId");
   }
+
+  /**
+   * 获取当前事务上下文
+   *
+   * @description 从 CLS 上下文获取由本服务开启的事务或保存点的上下文信息
+   *
+   * @returns 事务上下文，如果不在事务中则返回 undefined
+   */
+  getTransactionContext(): TransactionContext | undefined {
+    return this.cls.get<TransactionContext>("transactionContext");
+  }
+
+  /**
+   * 将钩子绑定到当前事务，不在事务中时立即执行
+   */
+  private async register(
+    phase: keyof TransactionHooks,
+    hook: TransactionHook,
+  ): Promise<void> {
+    const context = this.getTransactionContext();
+    if (!context) {
+      await hook();
+      return;
+    }
+    context.hooks[phase].push(hook);
+  }
+
+  /**
+   * 开启新事务执行回调，序列化失败或死锁时按 options.retry 重新执行
+   *
+   * @description 每次执行都使用新 fork 的 EntityManager 和新的事务 ID
+   */
+  private async executeWithRetry<T>(
+    callback: (em: EntityManager) => Promise<T>,
+    options: TransactionOptions | undefined,
+  ): Promise<T> {
+    const attempts = options?.retry?.attempts ?? 0;
+    const backoff =
+      options?.retry?.backoff ?? TRANSACTION_DEFAULTS.RETRY_BACKOFF;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.execute(
+          await this.forkEntityManager(),
+          callback,
+          options,
+          false,
+          attempt < attempts ? attempt + 1 : undefined,
+          options?.readOnly
+            ? this.connectionManager.getReadConnection()
+            : undefined,
+        );
+      } catch (error) {
+        if (attempt >= attempts || !isRetryableError(error)) {
+          throw error;
+        }
+        // 全抖动指数退避，避免冲突的事务同时重试再次冲突
+        const delay =
+          Math.random() *
+          Math.min(
+            backoff * 2 ** attempt,
+            TRANSACTION_DEFAULTS.RETRY_MAX_BACKOFF,
+          );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * 在 em 上开启事务（或保存点）并执行回调
+   *
+   * @description 执行期间将新的事务上下文写入 CLS，结束后恢复调用前的上下文
+   *
+   * @param em - 开启事务的 EntityManager；isNested 时为外层事务的 EM
+   * @param callback - 事务回调函数
+   * @param options - 事务选项
+   * @param isNested - 是否在外层事务中创建保存点
+   * @param retry - 失败可重试时即将进行的重试序号；此时可重试错误原样抛出，由调用方重试
+   * @param replica - 开启事务的从库连接；为空时在主库开启
+   */
+  private async execute<T>(
+    em: EntityManager,
+    callback: (em: EntityManager) => Promise<T>,
+    options: TransactionOptions | undefined,
+    isNested: boolean,
+    retry?: number,
+    replica?: Connection,
+  ): Promise<T> {
+    const transactionId = uuidv4();
+    const parentTransactionId = isNested ? this.getTransactionId() : undefined;
+    // 保存点的钩子在提交后并入外层事务，随外层事务执行
+    const parent = isNested ? this.getTransactionContext() : undefined;
+    const hooks: TransactionHooks = {
+      beforeCommit: [],
+      afterCommit: [],
+      afterRollback: [],
+    };
+    const timeout = options?.timeout;
+    const startTime = Date.now();
+
+    this.logger.log(isNested ? "开始嵌套事务（保存点）" : "开始事务", {
+      transactionId,
+      parentTransactionId,
+      replica: replica !== undefined,
+      options,
+    });
+    this.metrics.incrementActiveTransactions();
+
+    try {
+      const result = await this.transactional(
+        em,
+        replica,
+        async (transactionEm) => {
+          // SET TRANSACTION / SET LOCAL / set_config 在保存点中执行会在释放后作用于整个外层事务，
+          // 因此只对新事务下发，保存点只做应用层检查
+          if (!isNested) {
+            await this.applySessionSettings(transactionEm, options);
+          }
+          if (options?.readOnly) {
+            this.guardReadOnly(transactionEm);
+          }
+
+          // 保存外层上下文，结束后恢复
+          const previous = {
+            entityManager: this.cls.get<EntityManager>("entityManager"),
+            transactionId: this.cls.get<string>("transactionId"),
+            transactionContext:
+              this.cls.get<TransactionContext>("transactionContext"),
+          };
+
+          const context: TransactionContext = {
+            transactionId,
+            entityManager: transactionEm,
+            startedAt: new Date(startTime),
+            options,
+            isNested,
+            hooks,
+          };
+          this.cls.set("entityManager", transactionEm);
+          this.cls.set("transactionId", transactionId);
+          this.cls.set("transactionContext", context);
+
+          try {
+            const value = await callback(transactionEm);
+            if (!parent) {
+              // 钩子内可继续注册钩子，逐个取出直到清空
+              let hook: TransactionHook | undefined;
+              while ((hook = hooks.beforeCommit.shift())) {
+                await hook();
+              }
+            }
+            if (timeout !== undefined && Date.now() - startTime > timeout) {
+              throw new Error(`事务执行超过 ${timeout}ms`);
+            }
+            return value;
+          } finally {
+            this.cls.set("entityManager", previous.entityManager);
+            this.cls.set("transactionId", previous.transactionId);
+            this.cls.set("transactionContext", previous.transactionContext);
+          }
+        },
+        // 隔离级别只能在事务开始时设置，保存点沿用外层事务的隔离级别
+        { isolationLevel: isNested ? undefined : options?.isolationLevel },
+      );
+
+      const duration = Date.now() - startTime;
+      this.logger.log(isNested ? "嵌套事务提交成功" : "事务提交成功", {
+        transactionId,
+        duration,
+      });
+      this.metrics.recordTransactionCommit();
+
+      if (parent) {
+        parent.hooks.beforeCommit.push(...hooks.beforeCommit);
+        parent.hooks.afterCommit.push(...hooks.afterCommit);
+        parent.hooks.afterRollback.push(...hooks.afterRollback);
+      } else {
+        await this.runHooks("afterCommit", hooks.afterCommit, transactionId);
+      }
+
+      return result;
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      const readOnlyViolation = error instanceof ReadOnlyViolationError;
+      const timedOut =
+        !readOnlyViolation &&
+        timeout !== undefined &&
+        (duration >= timeout ||
+          TIMEOUT_SQL_STATES.includes((error as { code?: string }).code ?? ""));
+
+      this.metrics.recordTransactionRollback();
+      if (readOnlyViolation) {
+        this.metrics.recordTransactionReadOnlyViolation();
+      }
+      if (timedOut) {
+        this.metrics.recordTransactionTimeout();
+      }
+
+      // 交由 executeWithRetry 重新执行；本次注册的钩子随本次执行一起丢弃
+      if (retry !== undefined && isRetryableError(error)) {
+        this.metrics.recordTransactionRetry();
+        this.logger.warn("事务发生序列化冲突或死锁，准备重试", {
+          transactionId,
+          duration,
+          retry,
+          attempts: options?.retry?.attempts,
+          code: (error as { code?: string }).code,
+        });
+        throw error;
+      }
+
+      // 记录技术错误日志用于监控和调试
+      this.logger.error(
+        isNested ? "嵌套事务执行失败，已回滚到保存点" : "事务执行失败，已回滚",
+        undefined,
+        {
+          transactionId,
+          parentTransactionId,
+          duration,
+          timeout,
+          err:
+            error instanceof Error
+              ? {
+                  type: error.constructor.name,
+                  message: error.message,
+                  stack: error.stack,
+                }
+              : undefined,
+        },
+      );
+
+      await this.runHooks("afterRollback", hooks.afterRollback, transactionId);
+
+      const rolledBack = isNested ? "保存点之后的操作已回滚" : "所有操作已回滚";
+
+      // 抛出业务异常
+      if (readOnlyViolation) {
+        throw new DatabaseTransactionException(
+          `只读事务中不允许写入，${rolledBack}`,
+          { transactionId, parentTransactionId, duration },
+          DATABASE_ERROR_CODES.TRANSACTION_READ_ONLY_VIOLATION,
+          error as Error,
+        );
+      }
+      if (timedOut) {
+        throw new DatabaseTransactionException(
+          `事务执行超时，${rolledBack}`,
+          { transactionId, parentTransactionId, duration, timeout },
+          DATABASE_ERROR_CODES.TRANSACTION_TIMEOUT,
+          error instanceof Error ? error : undefined,
+        );
+      }
+      throw new DatabaseTransactionException(
+        `${isNested ? "嵌套事务" : "事务"}执行失败，${rolledBack}`,
+        { transactionId, parentTransactionId, duration },
+        // 保留内层事务的失败原因（如保存点超时）
+        error instanceof DatabaseTransactionException
+          ? error.errorCode
+          : DATABASE_ERROR_CODES.TRANSACTION_ERROR,
+        error instanceof Error ? error : undefined,
+      );
+    } finally {
+      this.metrics.decrementActiveTransactions();
+    }
+  }
+
+  /**
+   * 开启事务并执行回调
+   *
+   * @description MikroORM 总在主库连接上开启事务；从库事务改为在从库连接上开启，
+   * 再绑定到复制了 EventManager 的 fork 上，使 fork 上的查询都经由从库事务执行
+   */
+  private async transactional<T>(
+    em: EntityManager,
+    replica: Connection | undefined,
+    callback: (em: EntityManager) => Promise<T>,
+    options: { isolationLevel?: TransactionIsolationLevel },
+  ): Promise<T> {
+    if (!replica) {
+      return em.transactional(callback, options);
+    }
+
+    const fork = em.fork({ clear: false, cloneEventManager: true });
+    return replica.transactional(async (trx) => {
+      fork.setTransactionContext(trx);
+      try {
+        const result = await callback(fork);
+        await fork.flush();
+        return result;
+      } finally {
+        fork.resetTransactionContext();
+      }
+    }, options);
+  }
+
+  /**
+   * fork 当前租户的 EntityManager
+   */
+  private async forkEntityManager(): Promise<EntityManager> {
+    return (await this.connectionManager.getEntityManager()).fork();
+  }
+
+  /**
+   * 为新事务下发只读、超时设置和行级安全会话变量
+   *
+   * @description 必须在事务的第一条语句之前执行；SET TRANSACTION 须先于任何查询
+   */
+  private async applySessionSettings(
+    em: EntityManager,
+    options: TransactionOptions | undefined,
+  ): Promise<void> {
+    const variables = Object.entries(
+      this.isolationService.getSessionVariables(),
+    );
+    if (
+      !options?.readOnly &&
+      options?.timeout === undefined &&
+      variables.length === 0
+    ) {
+      return;
+    }
+
+    const connection = em.getConnection();
+    const ctx = em.getTransactionContext();
+
+    if (options?.readOnly) {
+      await connection.execute("SET TRANSACTION READ ONLY", [], "run", ctx);
+    }
+    if (options?.timeout !== undefined) {
+      const timeout = Math.max(1, Math.ceil(options.timeout));
+      await connection.execute(
+        `SET LOCAL statement_timeout = ${timeout}`,
+        [],
+        "run",
+        ctx,
+      );
+      await connection.execute(
+        `SET LOCAL idle_in_transaction_session_timeout = ${timeout}`,
+        [],
+        "run",
+        ctx,
+      );
+    }
+    if (variables.length > 0) {
+      await connection.execute(
+        `select ${variables.map(() => "set_config(?, ?, true)").join(", ")}`,
+        variables.flat(),
+        "run",
+        ctx,
+      );
+    }
+  }
+
+  /**
+   * 拒绝只读事务中的实体变更
+   *
+   * @description 订阅者注册在事务 fork 复制出的 EventManager 上，只作用于本事务及其保存点
+   */
+  private guardReadOnly(em: EntityManager): void {
+    em.getEventManager().registerSubscriber({
+      onFlush: ({ uow }: FlushEventArgs) => {
+        const changeSets = uow.getChangeSets();
+        if (changeSets.length > 0) {
+          throw new ReadOnlyViolationError(
+            changeSets.map((changeSet) => changeSet.name),
+          );
+        }
+      },
+    });
+  }
+
+  /**
+   * 依次执行并清空钩子
+   *
+   * @description 事务已结束，单个钩子失败只记录日志，不影响其余钩子和事务结果
+   */
+  private async runHooks(
+    phase: "afterCommit" | "afterRollback",
+    hooks: TransactionHook[],
+    transactionId: string,
+  ): Promise<void> {
+    for (const hook of hooks.splice(0)) {
+      try {
+        await hook();
+      } catch (error) {
+        this.logger.error("事务钩子执行失败", undefined, {
+          transactionId,
+          phase,
+          err:
+            error instanceof Error
+              ? {
+                  type: error.constructor.name,
+                  message: error.message,
+                  stack: error.stack,
+                }
+              : undefined,
+        });
+      }
+    }
+  }
 }
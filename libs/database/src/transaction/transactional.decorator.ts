@@ -10,11 +10,12 @@
  * - 方法成功执行时自动提交
  * - 方法抛出异常时自动回滚
  * - 支持嵌套事务（检测并复用现有事务）
+ * - 通过 propagation 指定传播行为，语义见 TransactionPropagation
  *
  * ### 上下文传递规则
  * - 将事务 EntityManager 存储到 CLS
  * - 方法内部可以通过 CLS 获取事务 EM
- * - 事务结束后自动清理上下文
+ * - 事务结束后恢复外层事务的上下文
  *
  * @example
  * ```typescript
@@ -36,6 +37,12 @@
  *
  *     return user;
  *   }
+ *
+ *   // 单个用户导入失败只回滚到保存点，不影响整批导入
+ *   @Transactional({ propagation: TransactionPropagation.NESTED })
+ *   async importUser(data: CreateUserDto): Promise<void> {
+ *     // ...
+ *   }
  * }
  * ```
  *
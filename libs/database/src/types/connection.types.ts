@@ -62,6 +62,53 @@ export interface ConnectionConfig {
   };
 }
 
+/**
+ * 从库连接配置接口
+ *
+ * @description 只读从库的连接参数，未提供的字段沿用主库配置
+ */
+export interface ReplicaConfig {
+  /** 从库名称（用于日志和健康检查），默认 replica-{序号} */
+  name?: string;
+
+  /** 主机地址 */
+  host: string;
+
+  /** 端口号 */
+  port?: number;
+
+  /** 数据库名称 */
+  database?: string;
+
+  /** 用户名 */
+  username?: string;
+
+  /** 密码 */
+  password?: string;
+}
+
+/**
+ * 从库状态接口
+ *
+ * @description 从库的复制延迟和读轮转状态
+ */
+export interface ReplicaStatus {
+  /** 从库名称 */
+  name: string;
+
+  /** 是否参与读轮转 */
+  inRotation: boolean;
+
+  /** 复制延迟（毫秒），未检查或检查失败时为空 */
+  lag?: number;
+
+  /** 检查失败原因 */
+  error?: string;
+
+  /** 最后检查时间 */
+  checkedAt?: Date;
+}
+
 /**
  * 连接池配置接口
  *
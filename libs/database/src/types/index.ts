@@ -9,4 +9,5 @@
 export * from "./connection.types.js";
 export * from "./module.types.js";
 export * from "./monitoring.types.js";
+export * from "./tenancy.types.js";
 export * from "./transaction.types.js";
@@ -7,7 +7,12 @@
  */
 
 import type { Options as MikroORMOptions } from "@mikro-orm/core";
-import type { ConnectionConfig, PoolConfig } from "./connection.types.js";
+import type {
+  ConnectionConfig,
+  PoolConfig,
+  ReplicaConfig,
+} from "./connection.types.js";
+import type { TenancyConfig } from "./tenancy.types.js";
 
 /**
  * 数据库模块配置选项
@@ -21,6 +26,21 @@ export interface DatabaseModuleOptions {
   /** 连接池配置（可选） */
   pool?: Partial<PoolConfig>;
 
+  /** 只读从库（可选），只读事务和 @ReadOnly() 方法路由到从库 */
+  replicas?: ReplicaConfig[];
+
+  /** 从库复制延迟检查配置（可选） */
+  replication?: {
+    /** 允许的最大复制延迟（毫秒），默认 10000 */
+    maxLag?: number;
+
+    /** 检查间隔（毫秒），默认 5000 */
+    checkInterval?: number;
+  };
+
+  /** 多租户物理隔离配置（可选），默认所有租户共享表 */
+  tenancy?: TenancyConfig;
+
   /** 实体类数组 */
   entities: Function[];
 
@@ -37,6 +57,48 @@ export interface DatabaseModuleOptions {
 
     /** 是否启用查询指标 */
     enableQueryMetrics?: boolean;
+
+    /** 慢查询执行计划采集（可选，默认关闭） */
+    explain?: {
+      /** 是否启用 */
+      enabled: boolean;
+
+      /** 是否使用 EXPLAIN (ANALYZE, BUFFERS) 实际执行查询，默认非生产环境为 true */
+      analyze?: boolean;
+
+      /** 采样比例（0 ~ 1），默认 0.1 */
+      sampleRate?: number;
+    };
+
+    /** N+1 查询检测（可选，默认启用） */
+    nPlusOne?: {
+      /** 是否启用 */
+      enabled?: boolean;
+
+      /** 同一请求中同一语句形态允许执行的次数，超过后告警，默认 10 */
+      threshold?: number;
+
+      /** 查找调用位置时跳过的栈帧，默认跳过依赖包、MikroORM / Knex、Node 内部和本库 */
+      ignoreFrames?: RegExp;
+    };
+  };
+
+  /** 部门闭包表配置（可选），供 ClosureTableDepartmentHierarchy 查询下级部门 */
+  departmentClosure?: {
+    /** 表名，默认 department_closure */
+    table?: string;
+
+    /** 上级部门列，默认 ancestor_id */
+    ancestorColumn?: string;
+
+    /** 下级部门列，默认 descendant_id */
+    descendantColumn?: string;
+
+    /** 层级深度列，默认 depth */
+    depthColumn?: string;
+
+    /** 租户列（可选），闭包表包含多个租户的数据时设置 */
+    tenantColumn?: string;
   };
 
   /** 是否启用调试模式（可选） */
@@ -6,7 +6,7 @@
  * @since 1.0.0
  */
 
-import type { PoolStats } from "./connection.types.js";
+import type { PoolStats, ReplicaStatus } from "./connection.types.js";
 
 /**
  * 健康检查结果接口
@@ -32,6 +32,9 @@ export interface HealthCheckResult {
   /** 连接池状态 */
   pool: PoolStats;
 
+  /** 从库状态（配置了从库时） */
+  replicas?: ReplicaStatus[];
+
   /** 详细信息 */
   details?: Record<string, unknown>;
 }
@@ -54,6 +57,12 @@ export interface QueryMetrics {
   /** 是否为慢查询 */
   isSlow: boolean;
 
+  /** 目标实体名（无法识别时为表名或 unknown） */
+  entity?: string;
+
+  /** 语句类型：select / insert / update / delete / other */
+  operation?: string;
+
   /** 隔离上下文 */
   isolationContext?: {
     tenantId?: string;
@@ -91,6 +100,12 @@ export interface SlowQueryLog {
 
   /** 堆栈跟踪 */
   stackTrace?: string;
+
+  /** 执行计划（EXPLAIN FORMAT JSON 的结果），仅对被采样的慢查询异步补充 */
+  plan?: unknown;
+
+  /** 执行计划是否包含 ANALYZE 的实际执行数据 */
+  planAnalyzed?: boolean;
 }
 
 /**
@@ -130,5 +145,14 @@ export interface DatabaseMetrics {
 
     /** 回滚数 */
     rolledBack: number;
+
+    /** 超时回滚数 */
+    timedOut: number;
+
+    /** 只读事务写入被拒绝数 */
+    readOnlyViolations: number;
+
+    /** 因序列化失败或死锁重试的次数 */
+    retried: number;
   };
 }
@@ -0,0 +1,88 @@
+/**
+ * 多租户物理隔离类型定义
+ *
+ * @description 租户数据的存放策略及相关配置
+ *
+ * @since 1.1.0
+ */
+
+import type { ConnectionConfig } from "./connection.types.js";
+
+/**
+ * 租户存放策略
+ *
+ * @description 决定租户数据存放在共享表、独立 schema 还是独立数据库中
+ */
+export enum TenancyStrategy {
+  /** 所有租户共享表，依赖 tenant_id 字段隔离（默认） */
+  SHARED_SCHEMA = "shared-schema",
+
+  /** 每个租户一个 schema，共享同一个数据库和连接池 */
+  SCHEMA_PER_TENANT = "schema-per-tenant",
+
+  /** 每个租户一个数据库，各自维护连接池 */
+  DATABASE_PER_TENANT = "database-per-tenant",
+}
+
+/**
+ * 租户数据库连接参数
+ */
+export type TenantConnectionConfig = Partial<
+  Pick<ConnectionConfig, "host" | "port" | "database" | "username" | "password">
+>;
+
+/**
+ * 多租户物理隔离配置
+ */
+export interface TenancyConfig {
+  /** 租户存放策略 */
+  strategy: TenancyStrategy;
+
+  /** 租户 schema 名称前缀，默认 tenant_ */
+  schemaPrefix?: string;
+
+  /** 租户数据库名称前缀，默认 tenant_ */
+  databasePrefix?: string;
+
+  /** 同时保持连接的租户数据库数量，超过时关闭最久未使用的连接，默认 20 */
+  maxTenantConnections?: number;
+
+  /** 每个租户数据库的连接池上限，默认 5 */
+  tenantPoolMax?: number;
+
+  /**
+   * 被淘汰的租户连接延迟关闭的时间（毫秒），默认 60 秒
+   *
+   * @description 淘汰前已取得该租户 EntityManager 的请求在此期间仍可继续使用连接，应不小于最长的请求或事务耗时
+   */
+  evictionGraceMs?: number;
+
+  /**
+   * 租户数据库连接配置（可选）
+   *
+   * @description 租户数据库不在主库所在的服务器上时返回其连接参数，未返回的字段沿用主库配置
+   */
+  resolveConnection?: (
+    tenantId: string,
+  ) => TenantConnectionConfig | Promise<TenantConnectionConfig>;
+}
+
+/**
+ * 租户迁移结果
+ */
+export interface TenantMigrationResult {
+  /** 租户 schema 或数据库名称 */
+  target: string;
+
+  /** 是否成功 */
+  success: boolean;
+
+  /** 本次执行的迁移名称 */
+  migrations: string[];
+
+  /** 失败原因 */
+  error?: string;
+
+  /** 耗时（毫秒） */
+  duration: number;
+}
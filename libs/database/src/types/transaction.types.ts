@@ -6,7 +6,55 @@
  * @since 1.0.0
  */
 
-import type { EntityManager } from "@mikro-orm/core";
+import {
+  type EntityManager,
+  IsolationLevel as TransactionIsolationLevel,
+} from "@mikro-orm/core";
+
+/**
+ * 事务隔离级别
+ *
+ * @description 即 MikroORM 的 IsolationLevel，以别名导出，避免与多租户隔离的 IsolationLevel 重名
+ */
+export { TransactionIsolationLevel };
+
+/**
+ * 事务传播行为
+ *
+ * @description 决定调用时已存在事务的情况下如何处理，语义与 Spring 的 Propagation 一致
+ *
+ * ## 业务规则
+ *
+ * - REQUIRED：有事务则加入，没有则新建（默认）
+ * - REQUIRES_NEW：总是新建独立事务，使用新的连接，与外层事务分别提交或回滚
+ * - NESTED：有事务则创建保存点，失败时只回滚到保存点；没有则新建
+ * - MANDATORY：必须在现有事务中调用，否则抛出异常
+ * - NEVER：不能在事务中调用，否则抛出异常；以非事务方式执行
+ * - SUPPORTS：有事务则加入，没有则以非事务方式执行
+ *
+ * @since 1.1.0
+ */
+export enum TransactionPropagation {
+  REQUIRED = "REQUIRED",
+  REQUIRES_NEW = "REQUIRES_NEW",
+  NESTED = "NESTED",
+  MANDATORY = "MANDATORY",
+  NEVER = "NEVER",
+  SUPPORTS = "SUPPORTS",
+}
+
+/**
+ * 事务重试选项
+ *
+ * @description 序列化失败（40001）或死锁（40P01）时重新执行整个回调
+ */
+export interface TransactionRetryOptions {
+  /** 最大重试次数（不含首次执行） */
+  attempts: number;
+
+  /** 退避基数（毫秒），第 n 次重试等待 [0, backoff × 2^(n-1)] 内的随机时长，默认 50 */
+  backoff?: number;
+}
 
 /**
  * 事务选项接口
@@ -14,11 +62,43 @@ import type { EntityManager } from "@mikro-orm/core";
  * @description 事务的配置选项
  */
 export interface TransactionOptions {
-  /** 是否只读事务 */
+  /** 是否只读事务（SET TRANSACTION READ ONLY，并拒绝 flush 实体变更） */
   readOnly?: boolean;
 
-  /** 事务超时（毫秒） */
+  /** 事务超时（毫秒），超过后回滚并抛出 DATABASE_TRANSACTION_TIMEOUT */
   timeout?: number;
+
+  /** 传播行为，默认 REQUIRED */
+  propagation?: TransactionPropagation;
+
+  /** 隔离级别，默认使用数据库配置 */
+  isolationLevel?: TransactionIsolationLevel;
+
+  /** 冲突重试，默认不重试 */
+  retry?: TransactionRetryOptions;
+}
+
+/**
+ * 事务钩子
+ *
+ * @description 绑定到事务的回调，在事务提交或回滚前后执行
+ */
+export type TransactionHook = () => void | Promise<void>;
+
+/**
+ * 事务钩子集合
+ *
+ * @description 按注册顺序保存的各阶段钩子
+ */
+export interface TransactionHooks {
+  /** 提交前执行，仍在事务中，失败会导致事务回滚 */
+  beforeCommit: TransactionHook[];
+
+  /** 提交后执行 */
+  afterCommit: TransactionHook[];
+
+  /** 回滚后执行 */
+  afterRollback: TransactionHook[];
 }
 
 /**
@@ -39,6 +119,9 @@ export interface TransactionContext {
   /** 事务选项 */
   options?: TransactionOptions;
 
-  /** 是否嵌套事务 */
+  /** 是否嵌套事务（NESTED 传播在现有事务中创建的保存点） */
   isNested: boolean;
+
+  /** 绑定到该事务的钩子 */
+  hooks: TransactionHooks;
 }
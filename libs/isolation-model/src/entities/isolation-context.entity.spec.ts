@@ -4,9 +4,13 @@
  * @description 测试隔离上下文实体的所有业务逻辑
  */
 
+import { AccessMode } from "../enums/access-mode.enum.js";
 import { IsolationLevel } from "../enums/isolation-level.enum.js";
+import { SharingGranteeType } from "../enums/sharing-grantee-type.enum.js";
 import { SharingLevel } from "../enums/sharing-level.enum.js";
 import { IsolationValidationError } from "../errors/isolation-validation.error.js";
+import type { DataAccessContext } from "../interfaces/data-access-context.interface.js";
+import type { IDepartmentHierarchy } from "../interfaces/department-hierarchy.interface.js";
 import { DepartmentId } from "../value-objects/department-id.vo.js";
 import { OrganizationId } from "../value-objects/organization-id.vo.js";
 import { TenantId } from "../value-objects/tenant-id.vo.js";
@@ -485,6 +489,150 @@ describe("IsolationContext", () => {
       });
     });
 
+    describe("部门层级", () => {
+      // d789 是 UUID_DEPT_2 的上级部门
+      const hierarchy: IDepartmentHierarchy = {
+        contains: (ancestor, department) =>
+          ancestor.equals(department) ||
+          (ancestor.getValue() === UUID_DEPT &&
+            department.getValue() === UUID_DEPT_2),
+      };
+      const parent = () => IsolationContext.department(t123, o456, d789);
+      const child = () =>
+        IsolationContext.department(
+          t123,
+          o456,
+          DepartmentId.create(UUID_DEPT_2),
+        );
+
+      it("上级部门应该可以访问下级部门的非共享数据", () => {
+        expect(parent().canAccess(child(), false, undefined, hierarchy)).toBe(
+          true,
+        );
+      });
+
+      it("下级部门不能访问上级部门的数据", () => {
+        expect(child().canAccess(parent(), false, undefined, hierarchy)).toBe(
+          false,
+        );
+      });
+
+      it("部门共享数据应该对上级部门可见", () => {
+        expect(
+          parent().canAccess(child(), true, SharingLevel.DEPARTMENT, hierarchy),
+        ).toBe(true);
+      });
+
+      it("未提供层级时应该保持精确匹配", () => {
+        expect(parent().canAccess(child(), false)).toBe(false);
+      });
+
+      it("层级不应该跨越组织", () => {
+        const otherOrgChild = IsolationContext.department(
+          t123,
+          OrganizationId.create(UUID_ORG_2),
+          DepartmentId.create(UUID_DEPT_2),
+        );
+
+        expect(
+          parent().canAccess(otherOrgChild, false, undefined, hierarchy),
+        ).toBe(false);
+      });
+    });
+
+    describe("精确共享（sharedWith）", () => {
+      const data = (
+        sharedWith: DataAccessContext["sharedWith"],
+        dataContext = IsolationContext.department(t123, o456, d789),
+      ): DataAccessContext => ({
+        isolationContext: dataContext,
+        isShared: false,
+        sharedWith,
+      });
+      const otherUser = () => IsolationContext.user(u999, t123);
+      const otherDept = () =>
+        IsolationContext.department(
+          t123,
+          o456,
+          DepartmentId.create(UUID_DEPT_2),
+        );
+
+      it("应该允许被授权的用户读取所属范围外的数据", () => {
+        const shared = data([
+          { granteeType: SharingGranteeType.USER, granteeId: UUID_USER },
+        ]);
+
+        expect(otherUser().canAccess(shared)).toBe(true);
+        expect(otherUser().canAccess(shared, { mode: AccessMode.WRITE })).toBe(
+          false,
+        );
+      });
+
+      it("WRITE 授权应该允许写入", () => {
+        const shared = data([
+          {
+            granteeType: SharingGranteeType.DEPARTMENT,
+            granteeId: UUID_DEPT_2,
+            mode: AccessMode.WRITE,
+          },
+        ]);
+
+        expect(otherDept().canAccess(shared, { mode: AccessMode.WRITE })).toBe(
+          true,
+        );
+      });
+
+      it("应该匹配组织授权，并把字符串视为用户 ID", () => {
+        const otherOrg = IsolationContext.organization(
+          t123,
+          OrganizationId.create(UUID_ORG_2),
+        );
+        const otherUser2 = IsolationContext.user(
+          UserId.create(UUID_USER_2),
+          t123,
+        );
+
+        expect(
+          otherOrg.canAccess(
+            data([
+              {
+                granteeType: SharingGranteeType.ORGANIZATION,
+                granteeId: UUID_ORG_2,
+              },
+            ]),
+          ),
+        ).toBe(true);
+        expect(otherUser2.canAccess(data([UUID_USER_2]))).toBe(true);
+        expect(otherUser2.canAccess(data([UUID_USER]))).toBe(false);
+      });
+
+      it("授权不应该跨租户生效", () => {
+        const foreignUser = IsolationContext.user(
+          u999,
+          TenantId.create(UUID_TENANT_2),
+        );
+
+        expect(foreignUser.canAccess(data([UUID_USER]))).toBe(false);
+      });
+
+      it("共享级别只授予读取，所属范围内可以写入", () => {
+        const orgShared: DataAccessContext = {
+          isolationContext: IsolationContext.organization(t123, o456),
+          isShared: true,
+          sharingLevel: SharingLevel.ORGANIZATION,
+        };
+        const member = IsolationContext.department(t123, o456, d789);
+
+        expect(member.canAccess(orgShared)).toBe(true);
+        expect(member.canAccess(orgShared, { mode: AccessMode.WRITE })).toBe(
+          false,
+        );
+        expect(
+          member.canAccess(data(undefined), { mode: AccessMode.WRITE }),
+        ).toBe(true);
+      });
+    });
+
     describe("边界情况", () => {
       it("应该拒绝无共享级别的共享数据", () => {
         const userContext = IsolationContext.tenant(t123);
@@ -565,6 +713,56 @@ describe("IsolationContext", () => {
     });
   });
 
+  describe("impersonate()", () => {
+    const info = {
+      sessionId: "session-1",
+      sessionRef: "ref-1",
+      actorId: UUID_USER_2,
+      reason: "TICKET-1234",
+      expiresAt: new Date("2026-01-01T01:00:00Z"),
+    };
+
+    it("应该附加模拟信息，隔离标识不变", () => {
+      const original = IsolationContext.organization(t123, o456);
+      const impersonated = original.impersonate(info);
+
+      expect(original.isImpersonated()).toBe(false);
+      expect(impersonated.isImpersonated()).toBe(true);
+      expect(impersonated.getIsolationLevel()).toBe(
+        IsolationLevel.ORGANIZATION,
+      );
+      expect(impersonated.canAccess(IsolationContext.tenant(t123), false)).toBe(
+        false,
+      );
+    });
+
+    it("日志上下文应该包含真实操作者", () => {
+      expect(
+        IsolationContext.tenant(t123).impersonate(info).buildLogContext(),
+      ).toEqual({
+        tenantId: UUID_TENANT,
+        impersonatedBy: UUID_USER_2,
+        impersonationSessionRef: "ref-1",
+        impersonationReason: "TICKET-1234",
+      });
+    });
+
+    it("切换组织和部门时应该保留模拟信息", () => {
+      const context = IsolationContext.tenant(t123)
+        .impersonate(info)
+        .switchOrganization(o456)
+        .switchDepartment(d789);
+
+      expect(context.impersonation).toBe(info);
+    });
+
+    it("没有租户时应该拒绝模拟", () => {
+      expect(() => IsolationContext.platform().impersonate(info)).toThrow(
+        IsolationValidationError,
+      );
+    });
+  });
+
   describe("不可变性", () => {
     it("所有属性应该是只读的（TypeScript 保证）", () => {
       const context = IsolationContext.tenant(t123);
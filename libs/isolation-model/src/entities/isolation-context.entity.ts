@@ -28,6 +28,7 @@
  * - buildLogContext(): 供 logging 模块使用，生成日志上下文
  * - buildWhereClause(): 供 database 模块使用，生成查询条件
  * - canAccess(): 供权限模块使用，验证数据访问权限
+ * - impersonate(): 附加平台人员模拟租户时的真实操作者信息（1.1.0 起）
  *
  * @example
  * ```typescript
@@ -47,9 +48,18 @@
  * @since 1.0.0
  */
 
+import { AccessMode } from "../enums/access-mode.enum.js";
 import { IsolationLevel } from "../enums/isolation-level.enum.js";
+import { SharingGranteeType } from "../enums/sharing-grantee-type.enum.js";
 import { SharingLevel } from "../enums/sharing-level.enum.js";
 import { IsolationValidationError } from "../errors/isolation-validation.error.js";
+import type {
+  AccessCheckOptions,
+  DataAccessContext,
+} from "../interfaces/data-access-context.interface.js";
+import type { IDepartmentHierarchy } from "../interfaces/department-hierarchy.interface.js";
+import type { ImpersonationInfo } from "../interfaces/impersonation.interface.js";
+import type { SharingGrant } from "../interfaces/sharing-grant.interface.js";
 import type { DepartmentId } from "../value-objects/department-id.vo.js";
 import type { OrganizationId } from "../value-objects/organization-id.vo.js";
 import type { TenantId } from "../value-objects/tenant-id.vo.js";
@@ -74,12 +84,14 @@ export class IsolationContext {
    * @param organizationId - 组织 ID（可选）
    * @param departmentId - 部门 ID（可选）
    * @param userId - 用户 ID（可选）
+   * @param impersonation - 模拟信息（可选，1.1.0 起）
    */
   private constructor(
     public readonly tenantId?: TenantId,
     public readonly organizationId?: OrganizationId,
     public readonly departmentId?: DepartmentId,
     public readonly userId?: UserId,
+    public readonly impersonation?: ImpersonationInfo,
   ) {
     this.validate();
   }
@@ -370,6 +382,8 @@ export class IsolationContext {
    * const logContext = context.buildLogContext();
    * logger.info('操作完成', logContext);
    * // 输出: { tenantId: 't123', organizationId: 'o456', ... }
+   *
+   * // 模拟期间额外输出 impersonatedBy、impersonationSessionRef、impersonationReason（不输出会话 ID）
    * ```
    */
   buildLogContext(): Record<string, string> {
@@ -387,6 +401,11 @@ export class IsolationContext {
     if (this.userId) {
       logContext.userId = this.userId.getValue();
     }
+    if (this.impersonation) {
+      logContext.impersonatedBy = this.impersonation.actorId;
+      logContext.impersonationSessionRef = this.impersonation.sessionRef;
+      logContext.impersonationReason = this.impersonation.reason;
+    }
 
     return logContext;
   }
@@ -429,11 +448,12 @@ export class IsolationContext {
   /**
    * 检查是否可以访问数据（核心业务逻辑）
    *
-   * @description 验证当前上下文是否可以访问目标数据
+   * @description 验证当前上下文是否可以访问目标数据；传入 DataAccessContext 时同时检查精确共享授权
    *
    * @param dataContext - 数据的隔离上下文
    * @param isShared - 数据是否共享
    * @param sharingLevel - 共享级别（如果是共享数据）
+   * @param hierarchy - 部门层级（可选，1.1.0 起），提供时部门比较包含下级部门
    * @returns 如果可以访问返回 true，否则返回 false
    *
    * ## 访问规则
@@ -446,6 +466,16 @@ export class IsolationContext {
    * - 可以在共享级别及其下级访问
    * - 示例：租户级共享数据可被该租户的所有组织、部门、用户访问
    *
+   * ### 部门层级
+   * - 提供 hierarchy 时，非共享数据和 SharingLevel.DEPARTMENT 共享数据的部门比较
+   *   改为"数据所属部门是当前部门本身或其下级部门"
+   * - 示例：上级部门负责人可以访问下级部门的数据，反之不行
+   *
+   * ### 精确共享（1.1.0 起，传入 DataAccessContext）
+   * - 读取：满足上述规则，或 sharedWith 中有匹配当前用户、部门或组织的授权
+   * - 写入：数据属于当前上下文（非共享数据规则），或有匹配的 WRITE 授权；共享级别不授予写入
+   * - 授权不跨租户：数据属于其他租户时授权无效
+   *
    * @example
    * ```typescript
    * const userContext = IsolationContext.department(t123, o456, d789);
@@ -458,59 +488,184 @@ export class IsolationContext {
    *   SharingLevel.ORGANIZATION
    * );
    * // 返回 true（共享数据，用户在组织内）
+   *
+   * // 检查精确共享授权
+   * userContext.canAccess(
+   *   {
+   *     isolationContext: dataContext,
+   *     isShared: false,
+   *     sharedWith: [{ granteeType: SharingGranteeType.USER, granteeId: userId }],
+   *   },
+   *   { mode: AccessMode.READ },
+   * );
    * ```
    */
+  canAccess(data: DataAccessContext, options?: AccessCheckOptions): boolean;
   canAccess(
     dataContext: IsolationContext,
     isShared: boolean,
     sharingLevel?: SharingLevel,
+    hierarchy?: IDepartmentHierarchy,
+  ): boolean;
+  canAccess(
+    target: IsolationContext | DataAccessContext,
+    isSharedOrOptions?: boolean | AccessCheckOptions,
+    sharingLevel?: SharingLevel,
+    hierarchy?: IDepartmentHierarchy,
   ): boolean {
+    if (!(target instanceof IsolationContext)) {
+      return this.canAccessData(
+        target,
+        typeof isSharedOrOptions === "object" ? isSharedOrOptions : {},
+      );
+    }
+    const dataContext = target;
+    const isShared = isSharedOrOptions === true;
+
     // 平台级上下文可以访问所有数据
     if (this.isEmpty()) {
       return true;
     }
 
-    // 非共享数据：必须完全匹配
+    // 非共享数据：必须完全匹配（部门可按层级匹配）
     if (!isShared) {
-      return this.matches(dataContext);
+      return this.matches(dataContext, hierarchy);
     }
 
     // 共享数据：检查共享级别
-    return this.canAccessSharedData(dataContext, sharingLevel);
+    return this.canAccessSharedData(dataContext, sharingLevel, hierarchy);
+  }
+
+  /**
+   * 检查是否可以访问数据（含精确共享授权，私有方法）
+   *
+   * @param data - 数据访问上下文
+   * @param options - 访问方式和部门层级
+   * @returns 如果可以访问返回 true
+   * @private
+   */
+  private canAccessData(
+    data: DataAccessContext,
+    options: AccessCheckOptions,
+  ): boolean {
+    const mode = options.mode ?? AccessMode.READ;
+    const { isolationContext, isShared, sharingLevel } = data;
+
+    const allowed =
+      mode === AccessMode.WRITE
+        ? this.isEmpty() || this.matches(isolationContext, options.hierarchy)
+        : this.canAccess(
+            isolationContext,
+            isShared,
+            sharingLevel,
+            options.hierarchy,
+          );
+    if (allowed) {
+      return true;
+    }
+
+    // 授权不跨租户
+    if (
+      isolationContext.tenantId &&
+      !isolationContext.tenantId.equals(this.tenantId)
+    ) {
+      return false;
+    }
+    return (data.sharedWith ?? []).some((entry) => {
+      const grant: SharingGrant =
+        typeof entry === "string"
+          ? { granteeType: SharingGranteeType.USER, granteeId: entry }
+          : entry;
+      if (mode === AccessMode.WRITE && grant.mode !== AccessMode.WRITE) {
+        return false;
+      }
+      return this.isGrantee(grant);
+    });
+  }
+
+  /**
+   * 检查当前上下文是否为授权对象（私有方法）
+   *
+   * @param grant - 精确共享授权
+   * @returns 如果匹配返回 true
+   * @private
+   */
+  private isGrantee(grant: SharingGrant): boolean {
+    switch (grant.granteeType) {
+      case SharingGranteeType.USER:
+        return this.userId?.getValue() === grant.granteeId;
+
+      case SharingGranteeType.DEPARTMENT:
+        return this.departmentId?.getValue() === grant.granteeId;
+
+      case SharingGranteeType.ORGANIZATION:
+        return this.organizationId?.getValue() === grant.granteeId;
+
+      default:
+        return false;
+    }
   }
 
   /**
    * 检查是否匹配另一个上下文（私有方法）
    *
    * @param other - 另一个隔离上下文
+   * @param hierarchy - 部门层级
    * @returns 如果完全匹配返回 true
    * @private
    */
-  private matches(other: IsolationContext): boolean {
+  private matches(
+    other: IsolationContext,
+    hierarchy?: IDepartmentHierarchy,
+  ): boolean {
     // 使用值对象的 equals 方法比较
     const tenantMatch =
       this.tenantId?.equals(other.tenantId) ?? !other.tenantId;
     const orgMatch =
       this.organizationId?.equals(other.organizationId) ??
       !other.organizationId;
-    const deptMatch =
-      this.departmentId?.equals(other.departmentId) ?? !other.departmentId;
+    const deptMatch = this.departmentId
+      ? this.containsDepartment(other.departmentId, hierarchy)
+      : !other.departmentId;
     const userMatch = this.userId?.equals(other.userId) ?? !other.userId;
 
     return tenantMatch && orgMatch && deptMatch && userMatch;
   }
 
+  /**
+   * 检查数据所属部门是否为当前部门或其下级部门（私有方法）
+   *
+   * @param departmentId - 数据所属部门 ID
+   * @param hierarchy - 部门层级，未提供时只做精确匹配
+   * @returns 当前上下文没有部门时返回 false
+   * @private
+   */
+  private containsDepartment(
+    departmentId: DepartmentId | undefined,
+    hierarchy?: IDepartmentHierarchy,
+  ): boolean {
+    if (!this.departmentId || !departmentId) {
+      return false;
+    }
+    return (
+      this.departmentId.equals(departmentId) ||
+      (hierarchy?.contains(this.departmentId, departmentId) ?? false)
+    );
+  }
+
   /**
    * 检查是否可以访问共享数据（私有方法）
    *
    * @param dataContext - 数据的隔离上下文
    * @param sharingLevel - 共享级别
+   * @param hierarchy - 部门层级
    * @returns 如果可以访问返回 true
    * @private
    */
   private canAccessSharedData(
     dataContext: IsolationContext,
     sharingLevel?: SharingLevel,
+    hierarchy?: IDepartmentHierarchy,
   ): boolean {
     if (!sharingLevel) {
       return false;
@@ -534,11 +689,11 @@ export class IsolationContext {
         );
 
       case SharingLevel.DEPARTMENT:
-        // 部门共享，需要在同一部门
+        // 部门共享，需要在同一部门（或其上级部门）
         return (
           (this.tenantId?.equals(dataContext.tenantId) &&
             this.organizationId?.equals(dataContext.organizationId) &&
-            this.departmentId?.equals(dataContext.departmentId)) ??
+            this.containsDepartment(dataContext.departmentId, hierarchy)) ??
           false
         );
 
@@ -554,6 +709,8 @@ export class IsolationContext {
   /**
    * 切换组织（创建新的上下文）
    *
+   * @description 模拟信息保留到新的上下文
+   *
    * @param newOrganizationId - 新的组织 ID
    * @returns 新的 IsolationContext 实例
    *
@@ -570,12 +727,20 @@ export class IsolationContext {
       );
     }
 
-    return new IsolationContext(this.tenantId, newOrganizationId);
+    return new IsolationContext(
+      this.tenantId,
+      newOrganizationId,
+      undefined,
+      undefined,
+      this.impersonation,
+    );
   }
 
   /**
    * 切换部门（创建新的上下文）
    *
+   * @description 模拟信息保留到新的上下文
+   *
    * @param newDepartmentId - 新的部门 ID
    * @returns 新的 IsolationContext 实例
    */
@@ -591,6 +756,55 @@ export class IsolationContext {
       this.tenantId,
       this.organizationId,
       newDepartmentId,
+      undefined,
+      this.impersonation,
     );
   }
+
+  /**
+   * 附加模拟信息（创建新的上下文）
+   *
+   * @description 平台人员以当前租户上下文的身份操作时使用，标识不变，只附加真实操作者和会话信息
+   *
+   * @param impersonation - 模拟信息
+   * @returns 新的 IsolationContext 实例
+   * @throws {IsolationValidationError} 当前上下文没有租户时
+   *
+   * @example
+   * ```typescript
+   * const context = IsolationContext.tenant(tenantId).impersonate({
+   *   sessionId, sessionRef, actorId: staffUserId, reason: 'TICKET-1234', expiresAt,
+   * });
+   * context.buildLogContext(); // { tenantId, impersonatedBy: staffUserId, ... }
+   * ```
+   *
+   * @since 1.1.0
+   */
+  impersonate(impersonation: ImpersonationInfo): IsolationContext {
+    if (!this.tenantId) {
+      throw new IsolationValidationError(
+        "模拟需要租户上下文",
+        "IMPERSONATION_REQUIRES_TENANT",
+      );
+    }
+
+    return new IsolationContext(
+      this.tenantId,
+      this.organizationId,
+      this.departmentId,
+      this.userId,
+      impersonation,
+    );
+  }
+
+  /**
+   * 是否为模拟上下文
+   *
+   * @returns 附加了模拟信息时返回 true
+   *
+   * @since 1.1.0
+   */
+  isImpersonated(): boolean {
+    return this.impersonation !== undefined;
+  }
 }
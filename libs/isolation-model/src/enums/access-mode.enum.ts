@@ -0,0 +1,25 @@
+/**
+ * 访问方式枚举
+ *
+ * @description 区分读取和写入，用于精确共享授权的检查
+ *
+ * ## 访问规则
+ *
+ * - 数据所属范围内的用户可以读写
+ * - 共享级别（SharingLevel）只授予读取
+ * - 精确共享（sharedWith）按授权的 mode 授予，WRITE 授权同时允许读取
+ *
+ * @example
+ * ```typescript
+ * userContext.canAccess(data, { mode: AccessMode.WRITE });
+ * ```
+ *
+ * @since 1.1.0
+ */
+export enum AccessMode {
+  /** 读取 */
+  READ = "read",
+
+  /** 写入（包含读取） */
+  WRITE = "write",
+}
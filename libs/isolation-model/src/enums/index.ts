@@ -5,5 +5,7 @@
  * @since 1.0.0
  */
 
+export { AccessMode } from "./access-mode.enum.js";
 export { IsolationLevel } from "./isolation-level.enum.js";
+export { SharingGranteeType } from "./sharing-grantee-type.enum.js";
 export { SharingLevel } from "./sharing-level.enum.js";
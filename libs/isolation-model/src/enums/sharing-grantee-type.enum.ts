@@ -0,0 +1,23 @@
+/**
+ * 共享对象类型枚举
+ *
+ * @description 精确共享（sharedWith）授权给的对象类型
+ *
+ * ## 匹配规则
+ *
+ * - USER: 当前上下文的用户 ID 等于授权对象
+ * - DEPARTMENT: 当前上下文的部门 ID 等于授权对象
+ * - ORGANIZATION: 当前上下文的组织 ID 等于授权对象
+ *
+ * @since 1.1.0
+ */
+export enum SharingGranteeType {
+  /** 用户 */
+  USER = "user",
+
+  /** 部门 */
+  DEPARTMENT = "department",
+
+  /** 组织 */
+  ORGANIZATION = "organization",
+}
@@ -24,4 +24,14 @@ describe("DataAccessDeniedEvent", () => {
     expect(event.dataContext).toBe(dataContext);
     expect(event.reason).toBe("cross-tenant-access");
   });
+
+  it("匿名请求方的用户上下文应该为 undefined", () => {
+    const event = new DataAccessDeniedEvent(
+      undefined,
+      undefined,
+      "missing-isolation-context",
+    );
+
+    expect(event.userContext).toBeUndefined();
+  });
 });
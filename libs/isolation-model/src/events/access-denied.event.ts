@@ -16,11 +16,11 @@ import type { IsolationContext } from "../entities/isolation-context.entity.js";
 
 export class DataAccessDeniedEvent {
   constructor(
-    /** 用户上下文 */
-    public readonly userContext: IsolationContext,
+    /** 用户上下文（请求没有隔离上下文时为 undefined，表示匿名请求方，而不是平台级） */
+    public readonly userContext: IsolationContext | undefined,
 
-    /** 数据上下文 */
-    public readonly dataContext: IsolationContext,
+    /** 数据上下文（守卫按隔离级别拒绝请求时没有具体数据，为 undefined） */
+    public readonly dataContext: IsolationContext | undefined,
 
     /** 拒绝原因 */
     public readonly reason: string,
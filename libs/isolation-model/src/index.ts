@@ -23,13 +23,21 @@ export { TenantId } from "./value-objects/tenant-id.vo.js";
 export { UserId } from "./value-objects/user-id.vo.js";
 
 // 枚举
+export { AccessMode } from "./enums/access-mode.enum.js";
 export { IsolationLevel } from "./enums/isolation-level.enum.js";
+export { SharingGranteeType } from "./enums/sharing-grantee-type.enum.js";
 export { SharingLevel } from "./enums/sharing-level.enum.js";
 
 // 接口
-export type { DataAccessContext } from "./interfaces/data-access-context.interface.js";
+export type {
+  AccessCheckOptions,
+  DataAccessContext,
+} from "./interfaces/data-access-context.interface.js";
+export type { IDepartmentHierarchy } from "./interfaces/department-hierarchy.interface.js";
+export type { ImpersonationInfo } from "./interfaces/impersonation.interface.js";
 export type { IIsolationContextProvider } from "./interfaces/isolation-context-provider.interface.js";
 export type { IIsolationValidator } from "./interfaces/isolation-validator.interface.js";
+export type { SharingGrant } from "./interfaces/sharing-grant.interface.js";
 
 // 事件
 export { DataAccessDeniedEvent } from "./events/access-denied.event.js";
@@ -7,7 +7,10 @@
  */
 
 import type { IsolationContext } from "../entities/isolation-context.entity.js";
+import type { AccessMode } from "../enums/access-mode.enum.js";
 import type { SharingLevel } from "../enums/sharing-level.enum.js";
+import type { IDepartmentHierarchy } from "./department-hierarchy.interface.js";
+import type { SharingGrant } from "./sharing-grant.interface.js";
 
 export interface DataAccessContext {
   /** 数据的隔离上下文 */
@@ -19,6 +22,23 @@ export interface DataAccessContext {
   /** 共享级别（如果是共享数据） */
   sharingLevel?: SharingLevel;
 
-  /** 精确共享对象列表（可选） */
-  sharedWith?: string[];
+  /**
+   * 精确共享对象列表（可选）
+   *
+   * @description 字符串视为用户 ID 的只读授权（兼容 1.0）
+   */
+  sharedWith?: Array<SharingGrant | string>;
+}
+
+/**
+ * 数据访问检查选项
+ *
+ * @since 1.1.0
+ */
+export interface AccessCheckOptions {
+  /** 访问方式，默认为 READ */
+  mode?: AccessMode;
+
+  /** 部门层级（可选），提供时部门比较包含下级部门 */
+  hierarchy?: IDepartmentHierarchy;
 }
@@ -0,0 +1,36 @@
+/**
+ * 部门层级接口
+ *
+ * @description 供 canAccess 判断部门之间的上下级关系，使上级部门可以访问下级部门的数据
+ *
+ * ## 实现要求
+ *
+ * - 同步判断：实现方应预先加载所需的层级数据（例如按请求缓存当前部门的全部下级部门）
+ * - 包含自身：contains(d, d) 必须返回 true
+ * - 未加载的部门按不包含处理，退化为精确匹配
+ *
+ * @example
+ * ```typescript
+ * const hierarchy: IDepartmentHierarchy = {
+ *   contains: (ancestor, department) =>
+ *     ancestor.equals(department) || descendantsOf(ancestor).has(department.getValue()),
+ * };
+ *
+ * userContext.canAccess(dataContext, false, undefined, hierarchy);
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { DepartmentId } from "../value-objects/department-id.vo.js";
+
+export interface IDepartmentHierarchy {
+  /**
+   * 判断部门是否为上级部门本身或其下级部门
+   *
+   * @param ancestor - 上级部门 ID
+   * @param department - 待判断的部门 ID
+   * @returns department 等于 ancestor 或位于其子树中时返回 true
+   */
+  contains(ancestor: DepartmentId, department: DepartmentId): boolean;
+}
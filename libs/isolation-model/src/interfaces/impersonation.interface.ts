@@ -0,0 +1,31 @@
+/**
+ * 模拟信息接口
+ *
+ * @description 平台人员以租户身份操作（act as）时，附加在隔离上下文上的真实操作者和会话信息
+ *
+ * ## 业务规则
+ *
+ * - 模拟期间的隔离上下文就是被模拟的租户上下文，canAccess 等规则与租户用户完全相同
+ * - buildLogContext() 附带 impersonatedBy / impersonationSessionRef / impersonationReason，
+ *   模拟期间的每条日志都能追溯到真实操作者
+ * - 会话 ID 是使用会话的凭证，不得写入日志或审计记录；日志和审计只使用不可逆推出会话 ID 的 sessionRef
+ * - 会话有明确的过期时间，过期后不能继续使用
+ *
+ * @since 1.1.0
+ */
+export interface ImpersonationInfo {
+  /** 模拟会话 ID（凭证，不写入日志） */
+  sessionId: string;
+
+  /** 会话引用，用于在日志和审计记录中关联同一会话，不能用来使用会话 */
+  sessionRef: string;
+
+  /** 真实操作者（平台人员）的用户 ID */
+  actorId: string;
+
+  /** 模拟原因，例如工单号 */
+  reason: string;
+
+  /** 会话过期时间 */
+  expiresAt: Date;
+}
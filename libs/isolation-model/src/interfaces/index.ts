@@ -5,6 +5,12 @@
  * @since 1.0.0
  */
 
-export type { DataAccessContext } from "./data-access-context.interface.js";
+export type {
+  AccessCheckOptions,
+  DataAccessContext,
+} from "./data-access-context.interface.js";
+export type { IDepartmentHierarchy } from "./department-hierarchy.interface.js";
+export type { ImpersonationInfo } from "./impersonation.interface.js";
 export type { IIsolationContextProvider } from "./isolation-context-provider.interface.js";
 export type { IIsolationValidator } from "./isolation-validator.interface.js";
+export type { SharingGrant } from "./sharing-grant.interface.js";
@@ -7,8 +7,10 @@
  */
 
 import type { IsolationContext } from "../entities/isolation-context.entity.js";
+import type { AccessMode } from "../enums/access-mode.enum.js";
 import type { IsolationLevel } from "../enums/isolation-level.enum.js";
 import type { SharingLevel } from "../enums/sharing-level.enum.js";
+import type { DataAccessContext } from "./data-access-context.interface.js";
 
 export interface IIsolationValidator {
   /**
@@ -32,4 +34,14 @@ export interface IIsolationValidator {
     isShared: boolean,
     sharingLevel?: SharingLevel,
   ): boolean;
+
+  /**
+   * 检查数据访问权限（含精确共享授权）
+   *
+   * @param data - 数据访问上下文
+   * @param mode - 访问方式，默认为 READ
+   * @returns 如果有权限返回 true
+   * @since 1.1.0
+   */
+  checkDataAccess(data: DataAccessContext, mode?: AccessMode): boolean;
 }
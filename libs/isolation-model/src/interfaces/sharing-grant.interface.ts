@@ -0,0 +1,36 @@
+/**
+ * 精确共享授权接口
+ *
+ * @description 把单条数据授权给所属范围之外的指定用户、部门或组织
+ *
+ * ## 业务规则
+ *
+ * - 授权只在数据所属租户内有效，不能跨租户共享
+ * - mode 默认为 READ；WRITE 授权同时允许读取
+ * - 部门授权只匹配该部门本身，不包含其下级部门
+ *
+ * @example
+ * ```typescript
+ * const grant: SharingGrant = {
+ *   granteeType: SharingGranteeType.USER,
+ *   granteeId: 'a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11',
+ *   mode: AccessMode.WRITE,
+ * };
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { AccessMode } from "../enums/access-mode.enum.js";
+import type { SharingGranteeType } from "../enums/sharing-grantee-type.enum.js";
+
+export interface SharingGrant {
+  /** 授权对象类型 */
+  granteeType: SharingGranteeType;
+
+  /** 授权对象 ID */
+  granteeId: string;
+
+  /** 授权的访问方式，默认为 READ */
+  mode?: AccessMode;
+}
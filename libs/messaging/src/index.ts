@@ -0,0 +1,141 @@
+/**
+ * @hl8/messaging
+ *
+ * 企业级消息队列和事件总线模块
+ * 支持多层级数据隔离，隔离上下文随消息在服务间传递
+ *
+ * @module @hl8/messaging
+ * @since 1.1.0
+ */
+
+// 模块
+export { MessagingModule } from "./lib/messaging.module.js";
+
+// 服务
+export { EventService } from "./lib/event.service.js";
+export { MessagingService } from "./lib/messaging.service.js";
+export { TaskService, type TaskProcessor } from "./lib/task.service.js";
+export {
+  ConsumerStateService,
+  type ConsumerRegistration,
+  type ConsumerState,
+  type ConsumerStatus,
+} from "./lib/services/consumer-state.service.js";
+export {
+  DeadLetterCacheService,
+  type DeadLetterFilter,
+} from "./lib/services/dead-letter-cache.service.js";
+export {
+  MemoryDeduplicationStore,
+  MessageDeduplicationService,
+  RedisDeduplicationStore,
+} from "./lib/services/message-deduplication.service.js";
+
+// 监控
+export {
+  MessagingMonitorService,
+  type MessagingMonitorSnapshot,
+} from "./lib/monitoring/messaging-monitor.service.js";
+export { MessagingStatsService } from "./lib/monitoring/messaging-stats.service.js";
+
+// 适配器
+export {
+  BaseMessagingAdapter,
+  type AdapterPublishOptions,
+  type DeliverySettlement,
+  type MessagingAdapterOptions,
+} from "./lib/adapters/base.adapter.js";
+export {
+  KafkaMessagingAdapter,
+  type KafkaClient,
+  type KafkaClientFactory,
+} from "./lib/adapters/kafka.adapter.js";
+export { MemoryMessagingAdapter } from "./lib/adapters/memory.adapter.js";
+export { createMessagingAdapter } from "./lib/adapters/messaging-adapter.factory.js";
+export {
+  RabbitMQMessagingAdapter,
+  type AmqpConnectFn,
+  type AmqpConnection,
+} from "./lib/adapters/rabbitmq.adapter.js";
+export {
+  RedisMessagingAdapter,
+  type RedisClientFactory,
+  type RedisStreamsClient,
+} from "./lib/adapters/redis.adapter.js";
+
+// 装饰器
+export {
+  EventHandler,
+  getEventHandlers,
+  type EventHandlerMetadata,
+} from "./lib/decorators/event-handler.decorator.js";
+export {
+  MessageHandler,
+  getMessageHandlers,
+  type MessageHandlerMetadata,
+} from "./lib/decorators/message-handler.decorator.js";
+export {
+  TaskHandler,
+  getTaskHandlers,
+  type TaskHandlerMetadata,
+} from "./lib/decorators/task-handler.decorator.js";
+
+// 常量
+export {
+  DECORATOR_METADATA,
+  DI_TOKENS,
+  MESSAGE_HEADERS,
+  MESSAGING_DEFAULTS,
+  TOPIC_NAMESPACES,
+} from "./lib/constants.js";
+
+// 枚举
+export {
+  MessagingAdapterType,
+  TaskStatus,
+} from "./lib/types/messaging.types.js";
+
+// 类型
+export type {
+  ConnectionInfo,
+  ConsumerLag,
+  DeadLetter,
+  DeadLetterCacheOptions,
+  DeadLetterRecord,
+  KafkaOptions,
+  Message,
+  MessageDeduplicationOptions,
+  MessageDeduplicationStore,
+  MessageListener,
+  MessageSubscription,
+  MessagingModuleAsyncOptions,
+  MessagingModuleOptions,
+  MessagingMonitoringOptions,
+  MessagingStats,
+  PartitionLag,
+  PublishOptions,
+  RabbitMQOptions,
+  RedisStreamsOptions,
+  ReceivedMessage,
+  RetryOptions,
+  SubscribeOptions,
+  TaskMessage,
+  TaskOptions,
+  TopicStats,
+} from "./lib/types/messaging.types.js";
+
+// 工具
+export {
+  buildIsolationHeaders,
+  restoreIsolationContext,
+} from "./lib/utils/isolation-headers.util.js";
+
+// 异常
+export {
+  MessagingAdapterNotFoundException,
+  MessagingConfigException,
+  MessagingConnectionException,
+  MessagingConsumeException,
+  MessagingPublishException,
+  MessagingTaskException,
+} from "./lib/exceptions/messaging.exceptions.js";
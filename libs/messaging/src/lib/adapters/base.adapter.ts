@@ -0,0 +1,342 @@
+/**
+ * 消息适配器基类
+ *
+ * @description 定义所有消息中间件适配器的统一契约，并实现与中间件无关的部分：
+ * 连接状态、租户主题命名和 ack/nack 处理流程
+ *
+ * ## 业务规则
+ *
+ * ### 主题命名
+ * - 物理主题名 = topicPrefix + (tenant.{tenantId}.) + 逻辑主题名
+ * - 未启用租户隔离或平台级消息不带租户段
+ * - 适配器可按中间件特性选择使用物理主题名（RabbitMQ 路由键）或分区键（Kafka）
+ *
+ * ### 确认流程（dispatch）
+ * - 每次投递生成一个 ReceivedMessage，ack/nack 只生效一次
+ * - autoAck 时处理器正常返回即 ack
+ * - 处理器抛出异常时 nack：未超过最大重试次数则重新投递，否则进入死信
+ * - 处理器显式 nack({ requeue: true }) 同样受最大重试次数限制
+ *
+ * @example
+ * ```typescript
+ * export class MyAdapter extends BaseMessagingAdapter {
+ *   readonly type = MessagingAdapterType.MEMORY;
+ *
+ *   async publish(message: Message): Promise<void> {
+ *     this.assertConnected();
+ *     const topic = this.resolveTopic(message.topic, message.tenantId);
+ *     // 写入中间件...
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { Logger } from "@nestjs/common";
+import { MESSAGING_DEFAULTS } from "../constants.js";
+import { MessagingConnectionException } from "../exceptions/messaging.exceptions.js";
+import type {
+  ConnectionInfo,
+  ConsumerLag,
+  Message,
+  MessageSubscription,
+  MessagingAdapterType,
+  ReceivedMessage,
+} from "../types/messaging.types.js";
+
+/**
+ * 适配器通用配置
+ */
+export interface MessagingAdapterOptions {
+  /**
+   * 物理主题名前缀
+   *
+   * @default ''
+   */
+  topicPrefix?: string;
+
+  /**
+   * 是否按租户划分物理主题
+   *
+   * @default true
+   */
+  enableTenantIsolation?: boolean;
+
+  /**
+   * 重新投递前的等待时间（毫秒）
+   *
+   * @default 1000
+   */
+  retryDelay?: number;
+}
+
+/**
+ * 单次投递的确认回调
+ *
+ * @description 由具体适配器实现，dispatch 保证每次投递只调用其中一个且只调用一次
+ */
+export interface DeliverySettlement {
+  /** 确认消息 */
+  ack(): Promise<void>;
+
+  /**
+   * 拒绝消息
+   *
+   * @param requeue - true 表示重新投递，false 表示进入死信
+   * @param reason - 拒绝原因
+   */
+  nack(requeue: boolean, reason: string): Promise<void>;
+}
+
+/**
+ * 发布时的投递选项
+ */
+export interface AdapterPublishOptions {
+  /** 延迟投递（毫秒） */
+  delay?: number;
+}
+
+const TENANT_SEGMENT = "tenant.";
+
+export abstract class BaseMessagingAdapter {
+  /**
+   * 适配器类型
+   */
+  abstract readonly type: MessagingAdapterType;
+
+  protected readonly logger: Logger;
+  protected readonly topicPrefix: string;
+  protected readonly enableTenantIsolation: boolean;
+  protected readonly retryDelay: number;
+
+  private connected = false;
+  private connectedAt?: Date;
+  private disconnectedAt?: Date;
+  private connectionError?: string;
+
+  constructor(options: MessagingAdapterOptions = {}) {
+    this.logger = new Logger(this.constructor.name);
+    this.topicPrefix = options.topicPrefix ?? MESSAGING_DEFAULTS.TOPIC_PREFIX;
+    this.enableTenantIsolation = options.enableTenantIsolation ?? true;
+    this.retryDelay = options.retryDelay ?? MESSAGING_DEFAULTS.RETRY_DELAY;
+  }
+
+  /**
+   * 连接消息中间件
+   */
+  abstract connect(): Promise<void>;
+
+  /**
+   * 断开连接并停止所有消费者
+   */
+  abstract disconnect(): Promise<void>;
+
+  /**
+   * 发布消息
+   *
+   * @param message - 消息（ID、租户和消息头已由 MessagingService 填充）
+   * @param options - 投递选项
+   */
+  abstract publish(
+    message: Message,
+    options?: AdapterPublishOptions,
+  ): Promise<void>;
+
+  /**
+   * 建立订阅
+   *
+   * @description 收到消息后应调用 dispatch() 执行处理器
+   *
+   * @param subscription - 订阅
+   */
+  abstract subscribe(subscription: MessageSubscription): Promise<void>;
+
+  /**
+   * 取消订阅
+   *
+   * @param subscriptionId - 订阅 ID
+   */
+  abstract unsubscribe(subscriptionId: string): Promise<void>;
+
+  /**
+   * 获取消费组延迟
+   *
+   * @description 中间件支持查询积压时由适配器覆盖；默认返回空列表
+   *
+   * @returns 当前实例订阅的各消费组延迟
+   */
+  async getConsumerLag(): Promise<ConsumerLag[]> {
+    return [];
+  }
+
+  /**
+   * 是否已连接
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * 获取连接信息
+   */
+  getConnectionInfo(): ConnectionInfo {
+    return {
+      adapter: this.type,
+      connected: this.connected,
+      connectedAt: this.connectedAt,
+      disconnectedAt: this.disconnectedAt,
+      error: this.connectionError,
+    };
+  }
+
+  /**
+   * 生成物理主题名
+   *
+   * @param topic - 逻辑主题名
+   * @param tenantId - 租户 ID
+   * @returns 物理主题名
+   *
+   * @example
+   * ```typescript
+   * adapter.resolveTopic('user.created', 'tenant-a');
+   * // => 'tenant.tenant-a.user.created'
+   * ```
+   */
+  resolveTopic(topic: string, tenantId?: string): string {
+    if (this.enableTenantIsolation && tenantId) {
+      return `${this.topicPrefix}${TENANT_SEGMENT}${tenantId}.${topic}`;
+    }
+    return `${this.topicPrefix}${topic}`;
+  }
+
+  /**
+   * 解析物理主题名
+   *
+   * @param physicalTopic - 物理主题名
+   * @returns 逻辑主题名和租户 ID
+   */
+  parseTopic(physicalTopic: string): { topic: string; tenantId?: string } {
+    const name = physicalTopic.startsWith(this.topicPrefix)
+      ? physicalTopic.slice(this.topicPrefix.length)
+      : physicalTopic;
+
+    if (this.enableTenantIsolation && name.startsWith(TENANT_SEGMENT)) {
+      const rest = name.slice(TENANT_SEGMENT.length);
+      const separator = rest.indexOf(".");
+      if (separator > 0) {
+        return {
+          topic: rest.slice(separator + 1),
+          tenantId: rest.slice(0, separator),
+        };
+      }
+    }
+
+    return { topic: name };
+  }
+
+  /**
+   * 判断消息是否属于订阅
+   *
+   * @param subscription - 订阅
+   * @param message - 消息
+   */
+  protected matches(
+    subscription: MessageSubscription,
+    message: Message,
+  ): boolean {
+    return (
+      subscription.topic === message.topic &&
+      (!subscription.tenantId || subscription.tenantId === message.tenantId)
+    );
+  }
+
+  /**
+   * 执行处理器并完成确认
+   *
+   * @param subscription - 订阅
+   * @param message - 消息
+   * @param attempts - 第几次投递（首次为 1）
+   * @param settlement - 适配器的确认实现
+   */
+  protected async dispatch(
+    subscription: MessageSubscription,
+    message: Message,
+    attempts: number,
+    settlement: DeliverySettlement,
+  ): Promise<void> {
+    let settled = false;
+    let failure = "rejected by handler";
+
+    const settle = async (operation: () => Promise<void>) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      await operation();
+    };
+
+    const received: ReceivedMessage = {
+      ...message,
+      attempts,
+      ack: () => settle(() => settlement.ack()),
+      nack: (options) =>
+        settle(() =>
+          settlement.nack(
+            (options?.requeue ?? true) && attempts <= subscription.maxRetries,
+            failure,
+          ),
+        ),
+    };
+
+    try {
+      await subscription.handler(message.data, received);
+      if (subscription.autoAck) {
+        await received.ack();
+      }
+    } catch (error) {
+      failure = (error as Error).message;
+      this.logger.error(
+        `处理消息失败: ${message.topic} (${message.id})，第 ${attempts} 次投递`,
+        undefined,
+        { error: failure, stack: (error as Error).stack },
+      );
+      await received.nack();
+    }
+  }
+
+  /**
+   * 标记为已连接
+   */
+  protected markConnected(): void {
+    this.connected = true;
+    this.connectedAt = new Date();
+    this.connectionError = undefined;
+  }
+
+  /**
+   * 标记为已断开
+   *
+   * @param error - 导致断开的错误
+   */
+  protected markDisconnected(error?: Error): void {
+    this.connected = false;
+    this.disconnectedAt = new Date();
+    this.connectionError = error?.message;
+  }
+
+  /**
+   * 确认已连接
+   *
+   * @throws {MessagingConnectionException} 未连接时
+   */
+  protected assertConnected(): void {
+    if (!this.connected) {
+      throw new MessagingConnectionException(
+        "消息队列未连接",
+        `适配器 ${this.type} 尚未连接`,
+        { adapter: this.type },
+      );
+    }
+  }
+}
@@ -0,0 +1,558 @@
+/**
+ * KafkaMessagingAdapter 单元测试
+ *
+ * @description 使用进程内 Kafka 桩（按键分区、消费组位移、事务提交后可见）测试分区、
+ * 位移提交、阻塞重试、死信、事务和消费组延迟
+ *
+ * @group adapters
+ */
+
+import { MESSAGE_HEADERS } from "../constants.js";
+import { MessagingConfigException } from "../exceptions/messaging.exceptions.js";
+import { ConsumerStateService } from "../services/consumer-state.service.js";
+import { DeadLetterCacheService } from "../services/dead-letter-cache.service.js";
+import {
+  type Message,
+  type MessageListener,
+  type MessageSubscription,
+  MessagingAdapterType,
+} from "../types/messaging.types.js";
+import { KafkaMessagingAdapter } from "./kafka.adapter.js";
+import { createMessagingAdapter } from "./messaging-adapter.factory.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+const PARTITIONS = 3;
+
+interface StubRecord {
+  key: string | null;
+  value: Buffer | null;
+  headers: Record<string, any>;
+  timestamp: string;
+  offset: string;
+}
+
+interface StubConsumer {
+  groupId: string;
+  topics: string[];
+  eachMessage?: (payload: any) => Promise<void>;
+}
+
+/**
+ * 进程内 Kafka 桩
+ *
+ * @description 实现适配器用到的 kafkajs 接口子集：按键哈希分区，
+ * 同一消费组的成员按分区号分摊分区，事务中的消息在提交后才可见
+ */
+class StubKafka {
+  readonly topics = new Map<string, StubRecord[][]>();
+  readonly committed = new Map<string, string>();
+  readonly producerConfigs: any[] = [];
+  aborted = 0;
+  private readonly groups = new Map<
+    string,
+    {
+      members: StubConsumer[];
+      positions: Map<string, number>;
+      busy: Set<string>;
+    }
+  >();
+
+  readonly createClient = () =>
+    ({
+      producer: (config: any) => this.producer(config),
+      consumer: ({ groupId }: { groupId: string }) => this.consumer(groupId),
+      admin: () => this.admin(),
+    }) as any;
+
+  records(topic: string): StubRecord[] {
+    return (this.topics.get(topic) ?? []).flat();
+  }
+
+  partitionOf(topic: string, key: string): number {
+    return this.partitions(topic).findIndex((records) =>
+      records.some((record) => record.key === key),
+    );
+  }
+
+  private partitions(topic: string): StubRecord[][] {
+    let partitions = this.topics.get(topic);
+    if (!partitions) {
+      partitions = Array.from({ length: PARTITIONS }, () => []);
+      this.topics.set(topic, partitions);
+    }
+    return partitions;
+  }
+
+  private append(topic: string, message: any): void {
+    const key =
+      message.key === null || message.key === undefined
+        ? null
+        : String(message.key);
+    const partition = key
+      ? [...key].reduce((sum, char) => sum + char.charCodeAt(0), 0) % PARTITIONS
+      : 0;
+    const records = this.partitions(topic)[partition]!;
+    records.push({
+      key,
+      value: message.value === null ? null : Buffer.from(message.value),
+      headers: message.headers ?? {},
+      timestamp: message.timestamp ?? String(Date.now()),
+      offset: String(records.length),
+    });
+  }
+
+  private commit(
+    groupId: string,
+    topic: string,
+    partition: number,
+    offset: string,
+  ) {
+    this.committed.set(`${groupId}|${topic}|${partition}`, offset);
+  }
+
+  private producer(config: any) {
+    this.producerConfigs.push(config);
+    return {
+      connect: async () => undefined,
+      disconnect: async () => undefined,
+      send: async ({ topic, messages }: any) => {
+        messages.forEach((message: any) => this.append(topic, message));
+        this.pump();
+      },
+      transaction: async () => {
+        const records: any[] = [];
+        const offsets: any[] = [];
+        return {
+          send: async (record: any) => {
+            records.push(record);
+          },
+          sendOffsets: async (entry: any) => {
+            offsets.push(entry);
+          },
+          commit: async () => {
+            for (const { topic, messages } of records) {
+              messages.forEach((message: any) => this.append(topic, message));
+            }
+            for (const { consumerGroupId, topics } of offsets) {
+              for (const { topic, partitions } of topics) {
+                for (const { partition, offset } of partitions) {
+                  this.commit(consumerGroupId, topic, partition, offset);
+                }
+              }
+            }
+            this.pump();
+          },
+          abort: async () => {
+            this.aborted++;
+          },
+        };
+      },
+    };
+  }
+
+  private consumer(groupId: string) {
+    const member: StubConsumer = { groupId, topics: [] };
+    const group = this.groups.get(groupId) ?? {
+      members: [],
+      positions: new Map<string, number>(),
+      busy: new Set<string>(),
+    };
+    this.groups.set(groupId, group);
+
+    return {
+      events: { GROUP_JOIN: "consumer.group_join", CRASH: "consumer.crash" },
+      on: () => () => undefined,
+      connect: async () => undefined,
+      subscribe: async ({ topics }: { topics: string[] }) => {
+        member.topics = topics;
+        for (const topic of topics) {
+          this.partitions(topic).forEach((records, partition) => {
+            const key = `${topic}|${partition}`;
+            if (!group.positions.has(key)) {
+              group.positions.set(key, records.length);
+            }
+          });
+        }
+      },
+      run: async ({ eachMessage }: any) => {
+        member.eachMessage = eachMessage;
+        group.members.push(member);
+        this.pump();
+      },
+      commitOffsets: async (offsets: any[]) => {
+        for (const { topic, partition, offset } of offsets) {
+          this.commit(groupId, topic, partition, offset);
+        }
+      },
+      disconnect: async () => {
+        group.members = group.members.filter(
+          (candidate) => candidate !== member,
+        );
+      },
+    };
+  }
+
+  private admin() {
+    return {
+      connect: async () => undefined,
+      disconnect: async () => undefined,
+      fetchTopicOffsets: async (topic: string) =>
+        this.partitions(topic).map((records, partition) => ({
+          partition,
+          offset: String(records.length),
+          high: String(records.length),
+          low: "0",
+        })),
+      fetchOffsets: async ({
+        groupId,
+        topics,
+      }: {
+        groupId: string;
+        topics: string[];
+      }) =>
+        topics.map((topic) => ({
+          topic,
+          partitions: this.partitions(topic).map((_, partition) => ({
+            partition,
+            offset:
+              this.committed.get(`${groupId}|${topic}|${partition}`) ?? "-1",
+          })),
+        })),
+    };
+  }
+
+  /** 把每个分区的下一条消息交给负责该分区的成员，处理完成后推进位置 */
+  private pump(): void {
+    for (const group of this.groups.values()) {
+      for (const [key, position] of group.positions) {
+        const [topic, partitionText] = key.split("|") as [string, string];
+        const partition = Number(partitionText);
+        const record = this.partitions(topic)[partition]![position];
+        const members = group.members.filter((m) => m.topics.includes(topic));
+        if (!record || group.busy.has(key) || members.length === 0) {
+          continue;
+        }
+
+        const member = members[partition % members.length]!;
+        group.busy.add(key);
+        setImmediate(() => {
+          member.eachMessage!({
+            topic,
+            partition,
+            message: record,
+            heartbeat: async () => undefined,
+            pause: () => () => undefined,
+          })
+            .then(() => group.positions.set(key, position + 1))
+            .catch(() => undefined)
+            .finally(() => {
+              group.busy.delete(key);
+              this.pump();
+            });
+        });
+      }
+    }
+  }
+}
+
+/** 轮询等待条件成立 */
+const until = async (condition: () => boolean, timeout = 1000) => {
+  const deadline = Date.now() + timeout;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe("KafkaMessagingAdapter", () => {
+  let kafka: StubKafka;
+  let consumerState: ConsumerStateService;
+  let adapter: KafkaMessagingAdapter;
+  let sequence = 0;
+
+  const message = (
+    topic: string,
+    tenantId?: string,
+    data: unknown = {},
+  ): Message => ({
+    id: `msg-${++sequence}`,
+    topic,
+    data,
+    headers: tenantId ? { [MESSAGE_HEADERS.TENANT_ID]: tenantId } : {},
+    tenantId,
+    key: tenantId,
+    timestamp: new Date(),
+  });
+
+  const subscription = (
+    topic: string,
+    handler: MessageListener,
+    options: Partial<MessageSubscription> = {},
+  ): MessageSubscription => ({
+    id: `sub-${++sequence}`,
+    topic,
+    autoAck: true,
+    maxRetries: 2,
+    handler,
+    ...options,
+  });
+
+  const committed = (group: string, topic: string, partition: number) =>
+    kafka.committed.get(`hl8.${group}|${topic}|${partition}`);
+
+  beforeEach(async () => {
+    kafka = new StubKafka();
+    consumerState = new ConsumerStateService();
+    adapter = new KafkaMessagingAdapter(
+      { retryDelay: 5 },
+      { brokers: ["stub:9092"] },
+      consumerState,
+      kafka.createClient,
+    );
+    await adapter.connect();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe("发布", () => {
+    it("应该使用幂等生产者", () => {
+      expect(kafka.producerConfigs[0]).toMatchObject({
+        idempotent: true,
+        maxInFlightRequests: 1,
+      });
+      expect(adapter.getConnectionInfo()).toMatchObject({
+        adapter: MessagingAdapterType.KAFKA,
+        connected: true,
+      });
+    });
+
+    it("应该以租户 ID 为消息键，同一租户的消息进入同一分区", async () => {
+      for (let i = 0; i < 3; i++) {
+        await adapter.publish(message("user.created", TENANT_A, i));
+      }
+      await adapter.publish(message("user.created", TENANT_B));
+
+      const partition = kafka.partitionOf("user.created", TENANT_A);
+      expect(
+        kafka.topics.get("user.created")![partition]!.map((r) => r.key),
+      ).toEqual([TENANT_A, TENANT_A, TENANT_A]);
+      expect(kafka.records("user.created")).toHaveLength(4);
+    });
+  });
+
+  describe("消费", () => {
+    it("应该还原消息，并在处理成功后提交位移", async () => {
+      const received: Message[] = [];
+      let committedDuringHandler: string | undefined = "unset";
+      await adapter.subscribe(
+        subscription(
+          "user.created",
+          (_data, msg) => {
+            committedDuringHandler = committed(
+              "projection",
+              "user.created",
+              kafka.partitionOf("user.created", TENANT_A),
+            );
+            received.push(msg);
+          },
+          { group: "projection" },
+        ),
+      );
+
+      const published = message("user.created", TENANT_A, { name: "张三" });
+      await adapter.publish(published);
+      const partition = kafka.partitionOf("user.created", TENANT_A);
+      await until(
+        () => committed("projection", "user.created", partition) === "1",
+      );
+
+      expect(committedDuringHandler).toBeUndefined();
+      expect(received[0]).toMatchObject({
+        id: published.id,
+        topic: "user.created",
+        data: { name: "张三" },
+        tenantId: TENANT_A,
+        key: TENANT_A,
+        headers: { [MESSAGE_HEADERS.TENANT_ID]: TENANT_A },
+        attempts: 1,
+      });
+    });
+
+    it("处理失败时应该在原分区上重试，保持租户内顺序", async () => {
+      const deliveries: string[] = [];
+      await adapter.subscribe(
+        subscription("order.created", (data, msg) => {
+          deliveries.push(`${data}#${msg.attempts}`);
+          if (data === "first" && msg.attempts === 1) {
+            throw new Error("暂时失败");
+          }
+        }),
+      );
+
+      await adapter.publish(message("order.created", TENANT_A, "first"));
+      await adapter.publish(message("order.created", TENANT_A, "second"));
+      await until(() => deliveries.length === 3);
+
+      expect(deliveries).toEqual(["first#1", "first#2", "second#1"]);
+    });
+
+    it("超过最大重试次数后应该写入死信主题并提交位移", async () => {
+      const sub = subscription(
+        "user.created",
+        () => {
+          throw new Error("永久失败");
+        },
+        { group: "projection", maxRetries: 1 },
+      );
+      await adapter.subscribe(sub);
+
+      await adapter.publish(message("user.created", TENANT_A));
+      const partition = kafka.partitionOf("user.created", TENANT_A);
+      await until(
+        () => committed("projection", "user.created", partition) === "1",
+      );
+
+      const [deadLetter] = kafka.records("user.created.dlq");
+      expect(deadLetter?.key).toBe(TENANT_A);
+      expect(deadLetter?.headers).toMatchObject({
+        "x-death-reason": "永久失败",
+        "x-attempts": "2",
+        "x-consumer-group": "hl8.projection",
+      });
+      expect(consumerState.getState(sub.id)).toMatchObject({
+        failed: 1,
+        deadLettered: 1,
+      });
+    });
+
+    it("同一消费组的订阅应该分摊分区，每条消息只处理一次", async () => {
+      const received: string[] = [];
+      for (const name of ["a", "b"]) {
+        await adapter.subscribe(
+          subscription(
+            "order.created",
+            (data) => received.push(`${name}:${data}`),
+            {
+              group: "billing",
+            },
+          ),
+        );
+      }
+
+      await adapter.publish(message("order.created", TENANT_A, 1));
+      await adapter.publish(message("order.created", TENANT_B, 2));
+      await adapter.publish(message("order.created", undefined, 3));
+      await until(() => received.length === 3);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(received.map((r) => r.split(":")[1]).sort()).toEqual([
+        "1",
+        "2",
+        "3",
+      ]);
+    });
+
+    it("限定租户的订阅应该只处理该租户的消息", async () => {
+      const received: unknown[] = [];
+      await adapter.subscribe(
+        subscription("user.created", (data) => received.push(data), {
+          tenantId: TENANT_A,
+        }),
+      );
+
+      await adapter.publish(message("user.created", TENANT_B, "b"));
+      await adapter.publish(message("user.created", TENANT_A, "a"));
+      await until(() => received.length === 1);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(received).toEqual(["a"]);
+    });
+  });
+
+  describe("事务", () => {
+    it("处理器发布的消息应该与位移一起提交，失败时回滚", async () => {
+      let attempts = 0;
+      await adapter.subscribe(
+        subscription(
+          "order.paid",
+          async (data) => {
+            attempts++;
+            await adapter.publish(message("order.shipped", TENANT_A, data));
+            if (attempts === 1) {
+              throw new Error("库存服务超时");
+            }
+          },
+          { group: "shipping", transactional: true },
+        ),
+      );
+
+      await adapter.publish(message("order.paid", TENANT_A, "o-1"));
+      const partition = kafka.partitionOf("order.paid", TENANT_A);
+      await until(() => committed("shipping", "order.paid", partition) === "1");
+
+      expect(attempts).toBe(2);
+      expect(kafka.aborted).toBe(1);
+      expect(kafka.records("order.shipped")).toHaveLength(1);
+      expect(kafka.producerConfigs).toContainEqual(
+        expect.objectContaining({
+          transactionalId: expect.stringMatching(/^hl8-messaging-tx\./),
+        }),
+      );
+    });
+  });
+
+  describe("消费组延迟", () => {
+    it("应该返回各分区最新位移与已提交位移之差", async () => {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      let handled = 0;
+      await adapter.subscribe(
+        subscription(
+          "user.created",
+          async () => {
+            if (handled++ > 0) {
+              await gate;
+            }
+          },
+          { group: "projection" },
+        ),
+      );
+
+      for (let i = 0; i < 3; i++) {
+        await adapter.publish(message("user.created", TENANT_A, i));
+      }
+      const partition = kafka.partitionOf("user.created", TENANT_A);
+      await until(
+        () => committed("projection", "user.created", partition) === "1",
+      );
+
+      const [lag] = await adapter.getConsumerLag();
+      release();
+
+      expect(lag).toMatchObject({
+        adapter: MessagingAdapterType.KAFKA,
+        group: "hl8.projection",
+        topic: "user.created",
+        totalLag: 2,
+      });
+      expect(lag!.partitions[partition]).toEqual({
+        partition,
+        committedOffset: "1",
+        latestOffset: "3",
+        lag: 2,
+      });
+    });
+  });
+
+  it("工厂在缺少 kafka 配置时应该抛出异常", () => {
+    expect(() =>
+      createMessagingAdapter(
+        { adapter: MessagingAdapterType.KAFKA },
+        consumerState,
+        new DeadLetterCacheService({ adapter: MessagingAdapterType.KAFKA }),
+      ),
+    ).toThrow(MessagingConfigException);
+  });
+});
@@ -0,0 +1,743 @@
+/**
+ * Kafka 消息适配器
+ *
+ * @description 基于 kafkajs 的适配器，按租户分区保证同一租户的消息有序，
+ * 处理成功后才提交位移，并支持幂等生产者和事务性的消费-处理-生产
+ *
+ * ## 业务规则
+ *
+ * ### 主题与分区
+ * - 物理主题名为 topicPrefix + 逻辑主题名，不按租户拆分主题
+ * - 消息键为租户 ID（平台级消息使用发布时的 key），同一租户的消息进入同一分区
+ * - 消息 ID、逻辑主题名和隔离上下文写入 Kafka 消息头
+ * - 不支持延迟投递，发布选项中的 delay 被忽略
+ *
+ * ### 消费组
+ * - 指定消费组：Kafka 消费组 ID 为 {groupIdPrefix}{group}，同组订阅分摊分区
+ * - 未指定消费组：每个订阅使用独立的消费组，从最新位移开始消费
+ * - 限定租户的订阅跳过其他租户的消息并提交位移
+ *
+ * ### 位移与重试
+ * - 关闭自动提交，处理器确认后提交下一条消息的位移
+ * - 处理失败时在原分区上等待 retryDelay 后重试（阻塞该分区，保证租户内顺序），
+ *   等待期间保持心跳
+ * - 超过最大重试次数、显式拒绝或无法解析的消息写入 {物理主题名}.dlq 后提交位移，
+ *   原因记录在 x-death-reason 消息头
+ * - 提交位移或写入死信失败时抛出异常，由 kafkajs 从未提交的位移重新投递
+ * - 未自动确认且处理器未调用 ack/nack 的消息不提交位移
+ *
+ * ### 事务（transactional 订阅）
+ * - 每个事务性订阅使用独立的事务生产者，事务 ID 为 {transactionalIdPrefix}.{订阅 ID}
+ * - 处理器执行期间发布的消息加入当前事务，确认时与消费位移一起提交
+ * - 处理失败时中止事务，已发布的消息对 read_committed 消费者不可见，重试时开启新事务
+ * - 处理器中的发布须在处理器返回前完成
+ *
+ * ### 消费组延迟
+ * - getConsumerLag() 按消费组和主题返回各分区的 high watermark 与已提交位移之差
+ * - 尚未提交位移的分区不计入积压
+ *
+ * @example
+ * ```typescript
+ * MessagingModule.forRoot({
+ *   adapter: MessagingAdapterType.KAFKA,
+ *   kafka: { brokers: ['kafka:9092'], clientId: 'order-service' },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import {
+  type Admin,
+  Kafka,
+  type EachMessagePayload,
+  type IHeaders,
+  type Consumer as KafkaConsumer,
+  type KafkaConfig,
+  type KafkaMessage,
+  type Message as KafkaRecord,
+  type Producer,
+  type SASLOptions,
+  type Transaction,
+} from "kafkajs";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { setTimeout as sleep } from "node:timers/promises";
+import { MESSAGE_HEADERS } from "../constants.js";
+import {
+  MessagingConnectionException,
+  MessagingConsumeException,
+  MessagingPublishException,
+} from "../exceptions/messaging.exceptions.js";
+import type { ConsumerStateService } from "../services/consumer-state.service.js";
+import type {
+  ConsumerLag,
+  KafkaOptions,
+  Message,
+  MessageSubscription,
+  PartitionLag,
+} from "../types/messaging.types.js";
+import { MessagingAdapterType } from "../types/messaging.types.js";
+import {
+  type AdapterPublishOptions,
+  BaseMessagingAdapter,
+  type DeliverySettlement,
+  type MessagingAdapterOptions,
+} from "./base.adapter.js";
+
+/**
+ * Kafka 客户端
+ *
+ * @description kafkajs Kafka 实例中适配器用到的部分，便于在测试中替换
+ */
+export type KafkaClient = Pick<Kafka, "producer" | "consumer" | "admin">;
+
+/**
+ * 创建 Kafka 客户端的函数
+ */
+export type KafkaClientFactory = (config: KafkaConfig) => KafkaClient;
+
+const KAFKA_DEFAULTS = {
+  CLIENT_ID: "hl8-messaging",
+  GROUP_ID_PREFIX: "hl8.",
+  HEARTBEAT_INTERVAL: 3000,
+} as const;
+
+const KAFKA_HEADERS = {
+  MESSAGE_ID: "x-message-id",
+  TOPIC: "x-topic",
+  KEY: "x-message-key",
+  ATTEMPTS: "x-attempts",
+  DEATH_REASON: "x-death-reason",
+  CONSUMER_GROUP: "x-consumer-group",
+} as const;
+
+const INTERNAL_HEADERS = new Set<string>(Object.values(KAFKA_HEADERS));
+
+const DEAD_LETTER_SUFFIX = ".dlq";
+
+type Outcome = "ack" | "retry" | "dead-letter" | "unsettled";
+
+interface TopicPartitionOffset {
+  topic: string;
+  partition: number;
+  offset: string;
+}
+
+interface ConsumerEntry {
+  subscription: MessageSubscription;
+  groupId: string;
+  physicalTopic: string;
+  consumer: KafkaConsumer;
+  transactionalProducer?: Producer;
+}
+
+export class KafkaMessagingAdapter extends BaseMessagingAdapter {
+  readonly type = MessagingAdapterType.KAFKA;
+
+  private readonly clientId: string;
+  private readonly groupIdPrefix: string;
+  private readonly transactionalIdPrefix: string;
+  private readonly idempotent: boolean;
+
+  private client?: KafkaClient;
+  private producer?: Producer;
+  private admin?: Admin;
+  private readonly consumers = new Map<string, ConsumerEntry>();
+  private readonly transactions = new AsyncLocalStorage<Transaction>();
+
+  constructor(
+    options: MessagingAdapterOptions,
+    private readonly kafka: KafkaOptions,
+    private readonly consumerState: ConsumerStateService,
+    private readonly createClient: KafkaClientFactory = (config) =>
+      new Kafka(config),
+  ) {
+    super(options);
+    this.clientId = kafka.clientId ?? KAFKA_DEFAULTS.CLIENT_ID;
+    this.groupIdPrefix = kafka.groupIdPrefix ?? KAFKA_DEFAULTS.GROUP_ID_PREFIX;
+    this.transactionalIdPrefix =
+      kafka.transactionalIdPrefix ?? `${this.clientId}-tx`;
+    this.idempotent = kafka.idempotent ?? true;
+  }
+
+  /**
+   * 连接 Kafka
+   *
+   * @description 连接共享的生产者和管理客户端；消费者在订阅时创建
+   *
+   * @throws {MessagingConnectionException} 连接失败时
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected()) {
+      return;
+    }
+
+    const client = this.createClient({
+      clientId: this.clientId,
+      brokers: this.kafka.brokers,
+      ssl: this.kafka.ssl,
+      sasl: this.kafka.sasl as SASLOptions | undefined,
+    });
+    const producer = client.producer({
+      idempotent: this.idempotent,
+      maxInFlightRequests: this.idempotent ? 1 : undefined,
+    });
+    const admin = client.admin();
+
+    try {
+      await producer.connect();
+      await admin.connect();
+    } catch (error) {
+      await Promise.allSettled([producer.disconnect(), admin.disconnect()]);
+      this.markDisconnected(error as Error);
+      throw new MessagingConnectionException(
+        "消息队列连接失败",
+        `无法连接 Kafka：${(error as Error).message}`,
+        { adapter: this.type, brokers: this.kafka.brokers },
+        error as Error,
+      );
+    }
+
+    this.client = client;
+    this.producer = producer;
+    this.admin = admin;
+    this.markConnected();
+  }
+
+  async disconnect(): Promise<void> {
+    const entries = Array.from(this.consumers.values());
+    this.consumers.clear();
+    for (const entry of entries) {
+      this.consumerState.remove(entry.subscription.id);
+      await this.stopConsumer(entry);
+    }
+
+    await Promise.allSettled([
+      this.producer?.disconnect(),
+      this.admin?.disconnect(),
+    ]);
+    this.client = undefined;
+    this.producer = undefined;
+    this.admin = undefined;
+    this.markDisconnected();
+  }
+
+  /**
+   * 发布消息
+   *
+   * @description 在事务性处理器中调用时加入当前事务
+   *
+   * @throws {MessagingPublishException} Kafka 拒绝消息时
+   */
+  async publish(
+    message: Message,
+    options: AdapterPublishOptions = {},
+  ): Promise<void> {
+    this.assertConnected();
+    if (options.delay) {
+      this.logger.warn(`Kafka 不支持延迟投递，忽略消息 ${message.id} 的 delay`);
+    }
+
+    const sender = this.transactions.getStore() ?? this.producer!;
+    try {
+      await sender.send({
+        topic: this.resolveTopic(message.topic),
+        messages: [this.encode(message)],
+      });
+    } catch (error) {
+      throw new MessagingPublishException(
+        "消息发布失败",
+        `Kafka 未接受消息 ${message.id}：${(error as Error).message}`,
+        { topic: message.topic, messageId: message.id },
+      );
+    }
+  }
+
+  /**
+   * 建立订阅
+   *
+   * @description 为订阅创建独立的 Kafka 消费者（事务性订阅另有事务生产者）
+   *
+   * @throws {MessagingConsumeException} 创建消费者失败时
+   */
+  async subscribe(subscription: MessageSubscription): Promise<void> {
+    this.assertConnected();
+
+    const client = this.client!;
+    const groupId = subscription.group
+      ? `${this.groupIdPrefix}${subscription.group}`
+      : `${this.groupIdPrefix}${subscription.topic}.${subscription.id}`;
+    const entry: ConsumerEntry = {
+      subscription,
+      groupId,
+      physicalTopic: this.resolveTopic(subscription.topic),
+      consumer: client.consumer({ groupId, readUncommitted: false }),
+    };
+
+    this.consumers.set(subscription.id, entry);
+    this.consumerState.register({
+      consumerId: subscription.id,
+      adapter: this.type,
+      topic: subscription.topic,
+      group: subscription.group,
+      tenantId: subscription.tenantId,
+      source: entry.physicalTopic,
+      consumerTag: groupId,
+    });
+
+    try {
+      if (subscription.transactional) {
+        entry.transactionalProducer = client.producer({
+          transactionalId: `${this.transactionalIdPrefix}.${subscription.id}`,
+          idempotent: true,
+          maxInFlightRequests: 1,
+        });
+        await entry.transactionalProducer.connect();
+      }
+
+      const { consumer } = entry;
+      await consumer.connect();
+      await consumer.subscribe({
+        topics: [entry.physicalTopic],
+        fromBeginning: false,
+      });
+      consumer.on(consumer.events.GROUP_JOIN, () =>
+        this.consumerState.setStatus(subscription.id, "active"),
+      );
+      consumer.on(consumer.events.CRASH, ({ payload }) =>
+        this.handleCrash(entry, payload.error, payload.restart),
+      );
+      await consumer.run({
+        autoCommit: false,
+        eachMessage: (payload) => this.handleMessage(entry, payload),
+      });
+    } catch (error) {
+      this.consumers.delete(subscription.id);
+      this.consumerState.remove(subscription.id);
+      await this.stopConsumer(entry);
+      throw new MessagingConsumeException(
+        "创建消费者失败",
+        `无法在 ${entry.physicalTopic} 上创建消费组 ${groupId}：${(error as Error).message}`,
+        { topic: subscription.topic, groupId },
+        error as Error,
+      );
+    }
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    const entry = this.consumers.get(subscriptionId);
+    if (!entry) {
+      return;
+    }
+
+    this.consumers.delete(subscriptionId);
+    this.consumerState.remove(subscriptionId);
+    await this.stopConsumer(entry);
+  }
+
+  /**
+   * 获取消费组延迟
+   *
+   * @returns 当前实例订阅的各消费组、各主题的积压
+   */
+  override async getConsumerLag(): Promise<ConsumerLag[]> {
+    const admin = this.admin;
+    if (!admin) {
+      return [];
+    }
+
+    const targets = new Map<string, ConsumerEntry>();
+    for (const entry of this.consumers.values()) {
+      targets.set(`${entry.groupId}\u0000${entry.physicalTopic}`, entry);
+    }
+
+    return Promise.all(
+      Array.from(targets.values()).map(
+        async ({ groupId, physicalTopic, subscription }) => {
+          const [latest, committed] = await Promise.all([
+            admin.fetchTopicOffsets(physicalTopic),
+            admin.fetchOffsets({ groupId, topics: [physicalTopic] }),
+          ]);
+          const committedOffsets = new Map(
+            (
+              committed.find(({ topic }) => topic === physicalTopic)
+                ?.partitions ?? []
+            ).map(({ partition, offset }) => [partition, offset]),
+          );
+
+          const partitions: PartitionLag[] = latest.map(
+            ({ partition, high }) => {
+              const committedOffset = committedOffsets.get(partition) ?? "-1";
+              const lag =
+                committedOffset === "-1"
+                  ? 0
+                  : Math.max(Number(BigInt(high) - BigInt(committedOffset)), 0);
+              return { partition, committedOffset, latestOffset: high, lag };
+            },
+          );
+
+          return {
+            adapter: this.type,
+            group: groupId,
+            topic: subscription.topic,
+            partitions,
+            totalLag: partitions.reduce((sum, { lag }) => sum + lag, 0),
+            measuredAt: new Date(),
+          };
+        },
+      ),
+    );
+  }
+
+  private async handleMessage(
+    entry: ConsumerEntry,
+    { topic, partition, message: raw, heartbeat }: EachMessagePayload,
+  ): Promise<void> {
+    const { subscription } = entry;
+    const offsets: TopicPartitionOffset = {
+      topic,
+      partition,
+      offset: (BigInt(raw.offset) + 1n).toString(),
+    };
+
+    let message: Message;
+    try {
+      message = this.decode(raw);
+    } catch (error) {
+      const reason = `无法解析消息: ${(error as Error).message}`;
+      await this.producer!.send(this.deadLetterRecord(entry, raw, reason, 1));
+      await entry.consumer.commitOffsets([offsets]);
+      this.consumerState.recordFailure(
+        subscription.id,
+        undefined,
+        reason,
+        true,
+      );
+      this.logger.warn(
+        `${topic}[${partition}]@${raw.offset} 无法解析，已写入死信: ${reason}`,
+      );
+      return;
+    }
+
+    if (!this.matches(subscription, message)) {
+      await entry.consumer.commitOffsets([offsets]);
+      return;
+    }
+
+    for (let attempts = 1; ; attempts++) {
+      const outcome = subscription.transactional
+        ? await this.processInTransaction(
+            entry,
+            message,
+            raw,
+            attempts,
+            offsets,
+          )
+        : await this.process(entry, message, raw, attempts, offsets);
+      if (outcome !== "retry") {
+        return;
+      }
+
+      await this.waitBeforeRetry(heartbeat);
+      if (!this.consumers.has(subscription.id)) {
+        // 已取消订阅：不提交位移，由消费组中的其他成员重新消费
+        return;
+      }
+    }
+  }
+
+  /**
+   * 处理消息并直接提交位移
+   */
+  private async process(
+    entry: ConsumerEntry,
+    message: Message,
+    raw: KafkaMessage,
+    attempts: number,
+    offsets: TopicPartitionOffset,
+  ): Promise<Outcome> {
+    const { subscription, consumer } = entry;
+    let outcome: Outcome = "unsettled";
+
+    await this.dispatchGuarded(subscription, message, attempts, {
+      ack: async () => {
+        await consumer.commitOffsets([offsets]);
+        outcome = "ack";
+        this.consumerState.recordProcessed(subscription.id, message.id);
+      },
+      nack: async (requeue, reason) => {
+        if (requeue) {
+          outcome = "retry";
+          this.consumerState.recordFailure(
+            subscription.id,
+            message.id,
+            reason,
+            false,
+          );
+          return;
+        }
+        await this.producer!.send(
+          this.deadLetterRecord(entry, raw, reason, attempts),
+        );
+        await consumer.commitOffsets([offsets]);
+        outcome = "dead-letter";
+        this.recordDeadLetter(entry, message, reason, attempts);
+      },
+    });
+
+    return outcome;
+  }
+
+  /**
+   * 在事务中处理消息：处理器发布的消息与消费位移一起提交
+   */
+  private async processInTransaction(
+    entry: ConsumerEntry,
+    message: Message,
+    raw: KafkaMessage,
+    attempts: number,
+    offsets: TopicPartitionOffset,
+  ): Promise<Outcome> {
+    const { subscription } = entry;
+    const producer = entry.transactionalProducer!;
+    const transaction = await producer.transaction();
+    let open = true;
+    let outcome: Outcome = "unsettled";
+
+    const finish = async (operation: () => Promise<void>) => {
+      open = false;
+      await operation();
+    };
+
+    try {
+      await this.transactions.run(transaction, () =>
+        this.dispatchGuarded(subscription, message, attempts, {
+          ack: async () => {
+            await finish(async () => {
+              await this.sendOffsets(transaction, entry, offsets);
+              await transaction.commit();
+            });
+            outcome = "ack";
+            this.consumerState.recordProcessed(subscription.id, message.id);
+          },
+          nack: async (requeue, reason) => {
+            await finish(() => transaction.abort());
+            if (requeue) {
+              outcome = "retry";
+              this.consumerState.recordFailure(
+                subscription.id,
+                message.id,
+                reason,
+                false,
+              );
+              return;
+            }
+
+            const deadLetter = await producer.transaction();
+            try {
+              await deadLetter.send(
+                this.deadLetterRecord(entry, raw, reason, attempts),
+              );
+              await this.sendOffsets(deadLetter, entry, offsets);
+              await deadLetter.commit();
+            } catch (error) {
+              await deadLetter.abort().catch(() => undefined);
+              throw error;
+            }
+            outcome = "dead-letter";
+            this.recordDeadLetter(entry, message, reason, attempts);
+          },
+        }),
+      );
+    } finally {
+      if (open) {
+        await transaction.abort().catch(() => undefined);
+      }
+    }
+
+    return outcome;
+  }
+
+  /**
+   * 调用 dispatch，并把确认阶段（提交位移、写入死信）的失败重新抛出
+   *
+   * @description dispatch 会吞掉确认阶段的异常；Kafka 需要让 eachMessage 失败，
+   * 由 kafkajs 从未提交的位移重新投递
+   */
+  private async dispatchGuarded(
+    subscription: MessageSubscription,
+    message: Message,
+    attempts: number,
+    settlement: DeliverySettlement,
+  ): Promise<void> {
+    let failure: Error | undefined;
+    const guard =
+      <A extends unknown[]>(operation: (...args: A) => Promise<void>) =>
+      async (...args: A) => {
+        try {
+          await operation(...args);
+        } catch (error) {
+          failure = error as Error;
+          throw error;
+        }
+      };
+
+    await this.dispatch(subscription, message, attempts, {
+      ack: guard(() => settlement.ack()),
+      nack: guard((requeue: boolean, reason: string) =>
+        settlement.nack(requeue, reason),
+      ),
+    });
+
+    if (failure) {
+      throw failure;
+    }
+  }
+
+  private sendOffsets(
+    transaction: Transaction,
+    entry: ConsumerEntry,
+    { topic, partition, offset }: TopicPartitionOffset,
+  ): Promise<void> {
+    return transaction.sendOffsets({
+      consumerGroupId: entry.groupId,
+      topics: [{ topic, partitions: [{ partition, offset }] }],
+    });
+  }
+
+  private recordDeadLetter(
+    entry: ConsumerEntry,
+    message: Message,
+    reason: string,
+    attempts: number,
+  ): void {
+    this.consumerState.recordFailure(
+      entry.subscription.id,
+      message.id,
+      reason,
+      true,
+    );
+    this.logger.warn(
+      `消息 ${message.id} 在 ${entry.groupId} 投递 ${attempts} 次后进入死信: ${reason}`,
+    );
+  }
+
+  /**
+   * 等待重试间隔，期间保持心跳以免触发再均衡
+   */
+  private async waitBeforeRetry(heartbeat: () => Promise<void>) {
+    let remaining = this.retryDelay;
+    while (remaining > 0) {
+      const step = Math.min(remaining, KAFKA_DEFAULTS.HEARTBEAT_INTERVAL);
+      await sleep(step);
+      remaining -= step;
+      await heartbeat();
+    }
+  }
+
+  private encode(message: Message): KafkaRecord {
+    const headers: IHeaders = {
+      ...message.headers,
+      [KAFKA_HEADERS.MESSAGE_ID]: message.id,
+      [KAFKA_HEADERS.TOPIC]: message.topic,
+    };
+    if (message.key) {
+      headers[KAFKA_HEADERS.KEY] = message.key;
+    }
+
+    return {
+      key: message.tenantId ?? message.key ?? null,
+      value: JSON.stringify({ data: message.data }),
+      headers,
+      timestamp: String(message.timestamp.getTime()),
+    };
+  }
+
+  /**
+   * 还原消息
+   *
+   * @throws {Error} 缺少消息 ID、主题或消息体，消息体不是 JSON 时
+   */
+  private decode(raw: KafkaMessage): Message {
+    const headers = raw.headers ?? {};
+    const text = (name: string): string | undefined => {
+      const value = headers[name];
+      const first = Array.isArray(value) ? value[0] : value;
+      return first?.toString();
+    };
+
+    const id = text(KAFKA_HEADERS.MESSAGE_ID);
+    const topic = text(KAFKA_HEADERS.TOPIC);
+    if (!id || !topic || !raw.value) {
+      throw new Error("缺少 x-message-id、x-topic 消息头或消息体");
+    }
+
+    const body = JSON.parse(raw.value.toString("utf8")) as { data?: unknown };
+    const messageHeaders: Record<string, string> = {};
+    for (const name of Object.keys(headers)) {
+      const value = text(name);
+      if (value !== undefined && !INTERNAL_HEADERS.has(name)) {
+        messageHeaders[name] = value;
+      }
+    }
+
+    return {
+      id,
+      topic,
+      data: body.data,
+      headers: messageHeaders,
+      tenantId: messageHeaders[MESSAGE_HEADERS.TENANT_ID],
+      key: text(KAFKA_HEADERS.KEY),
+      timestamp: new Date(Number(raw.timestamp)),
+    };
+  }
+
+  private deadLetterRecord(
+    entry: ConsumerEntry,
+    raw: KafkaMessage,
+    reason: string,
+    attempts: number,
+  ) {
+    return {
+      topic: `${entry.physicalTopic}${DEAD_LETTER_SUFFIX}`,
+      messages: [
+        {
+          key: raw.key,
+          value: raw.value,
+          headers: {
+            ...raw.headers,
+            [KAFKA_HEADERS.DEATH_REASON]: reason,
+            [KAFKA_HEADERS.ATTEMPTS]: String(attempts),
+            [KAFKA_HEADERS.CONSUMER_GROUP]: entry.groupId,
+          },
+        },
+      ],
+    };
+  }
+
+  private handleCrash(
+    entry: ConsumerEntry,
+    error: Error,
+    restart: boolean,
+  ): void {
+    this.consumerState.setStatus(
+      entry.subscription.id,
+      "disconnected",
+      error.message,
+    );
+    this.logger.error(
+      `Kafka 消费者异常${restart ? "，正在重启" : "，已停止"}: ${entry.groupId}`,
+      undefined,
+      { error: error.message, stack: error.stack },
+    );
+  }
+
+  private async stopConsumer(entry: ConsumerEntry): Promise<void> {
+    await entry.consumer.disconnect().catch((error: Error) => {
+      this.logger.warn(`断开 Kafka 消费者失败: ${error.message}`);
+    });
+    await entry.transactionalProducer?.disconnect().catch((error: Error) => {
+      this.logger.warn(`断开 Kafka 事务生产者失败: ${error.message}`);
+    });
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * MemoryMessagingAdapter 单元测试
+ *
+ * @group adapters
+ */
+
+import { MessagingConnectionException } from "../exceptions/messaging.exceptions.js";
+import type {
+  Message,
+  MessageListener,
+  MessageSubscription,
+} from "../types/messaging.types.js";
+import { MemoryMessagingAdapter } from "./memory.adapter.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+
+let sequence = 0;
+
+const createMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: `msg-${++sequence}`,
+  topic: "user.created",
+  data: { name: "张三" },
+  headers: {},
+  timestamp: new Date(),
+  ...overrides,
+});
+
+const createSubscription = (
+  handler: MessageListener,
+  overrides: Partial<MessageSubscription> = {},
+): MessageSubscription => ({
+  id: `sub-${++sequence}`,
+  topic: "user.created",
+  autoAck: true,
+  maxRetries: 2,
+  handler,
+  ...overrides,
+});
+
+describe("MemoryMessagingAdapter", () => {
+  let adapter: MemoryMessagingAdapter;
+
+  beforeEach(async () => {
+    adapter = new MemoryMessagingAdapter({ retryDelay: 0 });
+    await adapter.connect();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe("连接", () => {
+    it("未连接时发布应该抛出异常", async () => {
+      const disconnected = new MemoryMessagingAdapter();
+
+      await expect(disconnected.publish(createMessage())).rejects.toThrow(
+        MessagingConnectionException,
+      );
+    });
+
+    it("应该记录连接信息", async () => {
+      expect(adapter.getConnectionInfo()).toMatchObject({
+        adapter: "memory",
+        connected: true,
+      });
+
+      await adapter.disconnect();
+
+      expect(adapter.isConnected()).toBe(false);
+    });
+  });
+
+  describe("主题命名", () => {
+    it("应该为租户消息生成带租户前缀的物理主题", () => {
+      const prefixed = new MemoryMessagingAdapter({ topicPrefix: "hl8." });
+
+      expect(prefixed.resolveTopic("user.created", TENANT_A)).toBe(
+        `hl8.tenant.${TENANT_A}.user.created`,
+      );
+      expect(prefixed.resolveTopic("user.created")).toBe("hl8.user.created");
+      expect(
+        prefixed.parseTopic(`hl8.tenant.${TENANT_A}.user.created`),
+      ).toEqual({ topic: "user.created", tenantId: TENANT_A });
+    });
+
+    it("关闭租户隔离时不应该添加租户前缀", () => {
+      const shared = new MemoryMessagingAdapter({
+        enableTenantIsolation: false,
+      });
+
+      expect(shared.resolveTopic("user.created", TENANT_A)).toBe(
+        "user.created",
+      );
+    });
+  });
+
+  describe("投递", () => {
+    it("应该把消息投递给所有无消费组的订阅", async () => {
+      const received: string[] = [];
+      await adapter.subscribe(
+        createSubscription(() => {
+          received.push("a");
+        }),
+      );
+      await adapter.subscribe(
+        createSubscription(() => {
+          received.push("b");
+        }),
+      );
+
+      await adapter.publish(createMessage());
+      await adapter.whenIdle();
+
+      expect(received.sort()).toEqual(["a", "b"]);
+    });
+
+    it("同一消费组的订阅应该轮询消费", async () => {
+      const received: string[] = [];
+      for (const name of ["a", "b"]) {
+        await adapter.subscribe(
+          createSubscription(
+            () => {
+              received.push(name);
+            },
+            { group: "workers" },
+          ),
+        );
+      }
+
+      for (let i = 0; i < 4; i++) {
+        await adapter.publish(createMessage());
+      }
+      await adapter.whenIdle();
+
+      expect(received).toEqual(["a", "b", "a", "b"]);
+    });
+
+    it("限定租户的订阅应该只接收该租户的消息", async () => {
+      const received: Array<string | undefined> = [];
+      await adapter.subscribe(
+        createSubscription(
+          (_data, message) => {
+            received.push(message.tenantId);
+          },
+          { tenantId: TENANT_A },
+        ),
+      );
+
+      await adapter.publish(createMessage({ tenantId: TENANT_A }));
+      await adapter.publish(createMessage({ tenantId: TENANT_B }));
+      await adapter.publish(createMessage());
+      await adapter.whenIdle();
+
+      expect(received).toEqual([TENANT_A]);
+    });
+
+    it("应该支持延迟投递", async () => {
+      let receivedAt = 0;
+      await adapter.subscribe(
+        createSubscription(() => {
+          receivedAt = Date.now();
+        }),
+      );
+
+      const publishedAt = Date.now();
+      await adapter.publish(createMessage(), { delay: 30 });
+      await adapter.whenIdle();
+
+      expect(receivedAt - publishedAt).toBeGreaterThanOrEqual(25);
+    });
+
+    it("取消订阅后不应该再收到消息", async () => {
+      let count = 0;
+      const subscription = createSubscription(() => {
+        count++;
+      });
+      await adapter.subscribe(subscription);
+      await adapter.unsubscribe(subscription.id);
+
+      await adapter.publish(createMessage());
+      await adapter.whenIdle();
+
+      expect(count).toBe(0);
+    });
+  });
+
+  describe("确认与重试", () => {
+    it("处理失败时应该重新投递，成功后停止", async () => {
+      const attempts: number[] = [];
+      await adapter.subscribe(
+        createSubscription((_data, message) => {
+          attempts.push(message.attempts);
+          if (message.attempts < 2) {
+            throw new Error("暂时失败");
+          }
+        }),
+      );
+
+      await adapter.publish(createMessage());
+      await adapter.whenIdle();
+
+      expect(attempts).toEqual([1, 2]);
+      expect(adapter.getDeadLetters()).toHaveLength(0);
+    });
+
+    it("超过最大重试次数后应该进入死信", async () => {
+      let count = 0;
+      await adapter.subscribe(
+        createSubscription(() => {
+          count++;
+          throw new Error("永久失败");
+        }),
+      );
+
+      await adapter.publish(createMessage({ tenantId: TENANT_A }));
+      await adapter.whenIdle();
+
+      expect(count).toBe(3);
+      expect(adapter.getDeadLetters()).toEqual([
+        expect.objectContaining({
+          physicalTopic: `tenant.${TENANT_A}.user.created`,
+          reason: "永久失败",
+          attempts: 3,
+        }),
+      ]);
+    });
+
+    it("nack({ requeue: false }) 应该直接进入死信", async () => {
+      await adapter.subscribe(
+        createSubscription((_data, message) =>
+          message.nack({ requeue: false }),
+        ),
+      );
+
+      await adapter.publish(createMessage());
+      await adapter.whenIdle();
+
+      expect(adapter.getDeadLetters()).toHaveLength(1);
+      expect(adapter.getDeadLetters()[0]!.attempts).toBe(1);
+    });
+
+    it("手动确认后抛出异常不应该重新投递", async () => {
+      let count = 0;
+      await adapter.subscribe(
+        createSubscription(
+          async (_data, message) => {
+            count++;
+            await message.ack();
+            throw new Error("确认后失败");
+          },
+          { autoAck: false },
+        ),
+      );
+
+      await adapter.publish(createMessage());
+      await adapter.whenIdle();
+
+      expect(count).toBe(1);
+      expect(adapter.getDeadLetters()).toHaveLength(0);
+    });
+
+    it("原订阅取消后应该重新投递给同组的其他订阅", async () => {
+      const received: string[] = [];
+      const first = createSubscription(
+        async () => {
+          received.push("first");
+          await adapter.unsubscribe(first.id);
+          throw new Error("实例下线");
+        },
+        { group: "workers" },
+      );
+      await adapter.subscribe(first);
+      await adapter.subscribe(
+        createSubscription(
+          () => {
+            received.push("second");
+          },
+          { group: "workers" },
+        ),
+      );
+
+      await adapter.publish(createMessage());
+      await adapter.whenIdle();
+
+      expect(received).toEqual(["first", "second"]);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * 内存消息适配器
+ *
+ * @description 在进程内完成发布、订阅、确认和重试，无需消息中间件，
+ * 用于单元测试和本地开发
+ *
+ * ## 业务规则
+ *
+ * ### 投递规则
+ * - 发布后异步投递，publish() 不等待处理器执行
+ * - 未指定消费组的订阅各收到一份消息
+ * - 同一主题、同一消费组的订阅按轮询方式竞争消费
+ * - 限定租户的订阅只接收对应物理主题（tenant.{tenantId}.{topic}）的消息
+ *
+ * ### 重试与死信
+ * - nack 重新投递时等待 retryDelay，优先投递给原订阅，原订阅已取消时投递给同组其他订阅
+ * - 超过最大重试次数的消息进入死信列表，可通过 getDeadLetters() 查看
+ *
+ * ### 限制
+ * - 消息不持久化，断开连接后丢弃所有未完成的投递
+ * - 未确认的消息不会因超时重新投递
+ *
+ * @example
+ * ```typescript
+ * const adapter = new MemoryMessagingAdapter({ retryDelay: 0 });
+ * await adapter.connect();
+ *
+ * // 测试中等待所有投递（含重试）完成
+ * await messagingService.publish('user.created', user);
+ * await adapter.whenIdle();
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type {
+  DeadLetter,
+  Message,
+  MessageSubscription,
+} from "../types/messaging.types.js";
+import { MessagingAdapterType } from "../types/messaging.types.js";
+import {
+  type AdapterPublishOptions,
+  BaseMessagingAdapter,
+} from "./base.adapter.js";
+
+export class MemoryMessagingAdapter extends BaseMessagingAdapter {
+  readonly type = MessagingAdapterType.MEMORY;
+
+  private readonly subscriptions = new Map<string, MessageSubscription>();
+  private readonly groupCursors = new Map<string, number>();
+  private readonly timers = new Map<NodeJS.Timeout, () => void>();
+  private readonly pending = new Set<Promise<void>>();
+  private readonly deadLetters: DeadLetter[] = [];
+
+  async connect(): Promise<void> {
+    this.markConnected();
+  }
+
+  async disconnect(): Promise<void> {
+    for (const [timer, release] of this.timers) {
+      clearTimeout(timer);
+      release();
+    }
+    this.timers.clear();
+    this.subscriptions.clear();
+    this.groupCursors.clear();
+    this.markDisconnected();
+  }
+
+  async publish(
+    message: Message,
+    options: AdapterPublishOptions = {},
+  ): Promise<void> {
+    this.assertConnected();
+
+    const physicalTopic = this.resolveTopic(message.topic, message.tenantId);
+    this.schedule(
+      () =>
+        Promise.all(
+          this.selectTargets(message).map((subscription) =>
+            this.deliver(subscription, message, physicalTopic, 1),
+          ),
+        ),
+      options.delay ?? 0,
+    );
+  }
+
+  async subscribe(subscription: MessageSubscription): Promise<void> {
+    this.assertConnected();
+    this.subscriptions.set(subscription.id, subscription);
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    this.subscriptions.delete(subscriptionId);
+  }
+
+  /**
+   * 获取死信列表
+   */
+  getDeadLetters(): readonly DeadLetter[] {
+    return this.deadLetters;
+  }
+
+  /**
+   * 等待所有投递完成
+   *
+   * @description 包括延迟投递和重新投递；用于测试断言前的同步点
+   */
+  async whenIdle(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(this.pending);
+    }
+  }
+
+  /**
+   * 选择接收消息的订阅
+   *
+   * @description 无消费组的订阅全部接收；每个消费组轮询选出一个
+   */
+  private selectTargets(message: Message): MessageSubscription[] {
+    const targets: MessageSubscription[] = [];
+    const groups = new Map<string, MessageSubscription[]>();
+
+    for (const subscription of this.subscriptions.values()) {
+      if (!this.matches(subscription, message)) {
+        continue;
+      }
+      if (!subscription.group) {
+        targets.push(subscription);
+        continue;
+      }
+      const members = groups.get(subscription.group) ?? [];
+      members.push(subscription);
+      groups.set(subscription.group, members);
+    }
+
+    for (const [group, members] of groups) {
+      targets.push(this.pickMember(message.topic, group, members));
+    }
+
+    return targets;
+  }
+
+  private pickMember(
+    topic: string,
+    group: string,
+    members: MessageSubscription[],
+  ): MessageSubscription {
+    const cursorKey = `${topic}\u0000${group}`;
+    const cursor = this.groupCursors.get(cursorKey) ?? 0;
+    this.groupCursors.set(cursorKey, cursor + 1);
+    return members[cursor % members.length]!;
+  }
+
+  private deliver(
+    subscription: MessageSubscription,
+    message: Message,
+    physicalTopic: string,
+    attempts: number,
+  ): Promise<void> {
+    return this.dispatch(subscription, message, attempts, {
+      ack: async () => {},
+      nack: async (requeue, reason) => {
+        if (!requeue) {
+          this.deadLetters.push({
+            message,
+            physicalTopic,
+            reason,
+            attempts,
+            deadLetteredAt: new Date(),
+          });
+          this.logger.warn(
+            `消息 ${message.id} 在 ${physicalTopic} 投递 ${attempts} 次后进入死信: ${reason}`,
+          );
+          return;
+        }
+
+        this.schedule(() => {
+          const target = this.findRedeliveryTarget(subscription, message);
+          return target
+            ? this.deliver(target, message, physicalTopic, attempts + 1)
+            : undefined;
+        }, this.retryDelay);
+      },
+    });
+  }
+
+  /**
+   * 选择重新投递的订阅
+   */
+  private findRedeliveryTarget(
+    original: MessageSubscription,
+    message: Message,
+  ): MessageSubscription | undefined {
+    if (this.subscriptions.has(original.id)) {
+      return original;
+    }
+    if (!original.group) {
+      return undefined;
+    }
+
+    const members = Array.from(this.subscriptions.values()).filter(
+      (subscription) =>
+        subscription.group === original.group &&
+        this.matches(subscription, message),
+    );
+    return members.length > 0
+      ? this.pickMember(message.topic, original.group, members)
+      : undefined;
+  }
+
+  /**
+   * 延迟执行投递任务，并纳入 whenIdle() 的等待范围
+   */
+  private schedule(task: () => unknown, delay: number): void {
+    const done = new Promise<void>((resolve) => {
+      const timer = setTimeout(
+        () => {
+          this.timers.delete(timer);
+          Promise.resolve()
+            .then(task)
+            .catch((error: Error) => {
+              this.logger.error("内存消息投递失败", undefined, {
+                error: error.message,
+                stack: error.stack,
+              });
+            })
+            .finally(resolve);
+        },
+        Math.max(delay, 0),
+      );
+      this.timers.set(timer, resolve);
+    });
+
+    this.pending.add(done);
+    void done.then(() => this.pending.delete(done));
+  }
+}
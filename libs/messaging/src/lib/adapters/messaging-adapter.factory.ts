@@ -0,0 +1,95 @@
+/**
+ * 消息适配器工厂
+ *
+ * @description 根据模块配置创建对应的消息适配器
+ *
+ * @since 1.1.0
+ */
+
+import {
+  MessagingAdapterNotFoundException,
+  MessagingConfigException,
+} from "../exceptions/messaging.exceptions.js";
+import type { ConsumerStateService } from "../services/consumer-state.service.js";
+import type { DeadLetterCacheService } from "../services/dead-letter-cache.service.js";
+import {
+  MessagingAdapterType,
+  type MessagingModuleOptions,
+} from "../types/messaging.types.js";
+import type {
+  BaseMessagingAdapter,
+  MessagingAdapterOptions,
+} from "./base.adapter.js";
+import { KafkaMessagingAdapter } from "./kafka.adapter.js";
+import { MemoryMessagingAdapter } from "./memory.adapter.js";
+import { RabbitMQMessagingAdapter } from "./rabbitmq.adapter.js";
+import { RedisMessagingAdapter } from "./redis.adapter.js";
+
+/**
+ * 创建消息适配器
+ *
+ * @param options - 消息模块配置
+ * @param consumerState - 消费者状态服务
+ * @param deadLetters - 死信缓存服务
+ * @returns 未连接的适配器实例
+ * @throws {MessagingAdapterNotFoundException} 适配器类型不受支持时
+ * @throws {MessagingConfigException} 缺少适配器所需的配置时
+ */
+export function createMessagingAdapter(
+  options: MessagingModuleOptions,
+  consumerState: ConsumerStateService,
+  deadLetters: DeadLetterCacheService,
+): BaseMessagingAdapter {
+  const adapterOptions: MessagingAdapterOptions = {
+    topicPrefix: options.topicPrefix,
+    enableTenantIsolation: options.enableTenantIsolation,
+    retryDelay: options.retry?.retryDelay,
+  };
+
+  switch (options.adapter) {
+    case MessagingAdapterType.MEMORY:
+      return new MemoryMessagingAdapter(adapterOptions);
+    case MessagingAdapterType.RABBITMQ:
+      if (!options.rabbitmq) {
+        throw new MessagingConfigException(
+          "消息模块配置错误",
+          "使用 RabbitMQ 适配器时必须提供 rabbitmq 配置",
+          { adapter: options.adapter },
+        );
+      }
+      return new RabbitMQMessagingAdapter(
+        adapterOptions,
+        options.rabbitmq,
+        consumerState,
+      );
+    case MessagingAdapterType.KAFKA:
+      if (!options.kafka) {
+        throw new MessagingConfigException(
+          "消息模块配置错误",
+          "使用 Kafka 适配器时必须提供 kafka 配置",
+          { adapter: options.adapter },
+        );
+      }
+      return new KafkaMessagingAdapter(
+        adapterOptions,
+        options.kafka,
+        consumerState,
+      );
+    case MessagingAdapterType.REDIS:
+      if (!options.redis) {
+        throw new MessagingConfigException(
+          "消息模块配置错误",
+          "使用 Redis Streams 适配器时必须提供 redis 配置",
+          { adapter: options.adapter },
+        );
+      }
+      return new RedisMessagingAdapter(
+        adapterOptions,
+        options.redis,
+        consumerState,
+        deadLetters,
+      );
+    default:
+      throw new MessagingAdapterNotFoundException(options.adapter);
+  }
+}
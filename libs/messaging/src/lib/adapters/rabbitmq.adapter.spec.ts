@@ -0,0 +1,582 @@
+/**
+ * RabbitMQMessagingAdapter 单元测试
+ *
+ * @description 使用进程内 AMQP 桩（交换机路由、队列 TTL 死信、发布确认）测试拓扑、
+ * 租户路由、退避重试、死信和重连
+ *
+ * @group adapters
+ */
+
+import { MESSAGE_HEADERS } from "../constants.js";
+import {
+  MessagingConfigException,
+  MessagingPublishException,
+} from "../exceptions/messaging.exceptions.js";
+import { ConsumerStateService } from "../services/consumer-state.service.js";
+import { DeadLetterCacheService } from "../services/dead-letter-cache.service.js";
+import {
+  type Message,
+  type MessageListener,
+  type MessageSubscription,
+  MessagingAdapterType,
+} from "../types/messaging.types.js";
+import { createMessagingAdapter } from "./messaging-adapter.factory.js";
+import { RabbitMQMessagingAdapter } from "./rabbitmq.adapter.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+
+type Listener = (...args: any[]) => void;
+
+interface StubMessage {
+  content: Buffer;
+  fields: { routingKey: string; deliveryTag: number };
+  properties: Record<string, any>;
+}
+
+interface StubQueue {
+  options: Record<string, any>;
+  messages: StubMessage[];
+  consumers: Array<{
+    tag: string;
+    callback: (msg: StubMessage | null) => void;
+  }>;
+  cursor: number;
+}
+
+/**
+ * 进程内 AMQP 桩
+ *
+ * @description 实现适配器用到的 amqplib 接口子集；消息异步投递
+ */
+class StubBroker {
+  readonly exchanges = new Map<
+    string,
+    {
+      type: string;
+      bindings: Array<{ target: string; pattern: string; toExchange: boolean }>;
+    }
+  >();
+  readonly queues = new Map<string, StubQueue>();
+  readonly connections: Array<{
+    emit: (event: string, ...args: any[]) => void;
+  }> = [];
+  rejectPublishes = false;
+  private deliveryTag = 0;
+  private consumerTag = 0;
+  private readonly deliveredFrom = new Map<StubMessage, string>();
+
+  readonly connect = async () => {
+    const listeners = new Map<string, Listener[]>();
+    const emit = (event: string, ...args: any[]) =>
+      (listeners.get(event) ?? []).forEach((listener) => listener(...args));
+    const on = (event: string, listener: Listener) => {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+    };
+    this.connections.push({ emit });
+
+    return {
+      on,
+      close: async () => emit("close"),
+      createConfirmChannel: async () => this.createChannel(),
+    } as any;
+  };
+
+  /** 模拟连接意外断开 */
+  dropConnections(): void {
+    for (const queue of this.queues.values()) {
+      queue.consumers = [];
+    }
+    this.connections
+      .splice(0)
+      .forEach((connection) => connection.emit("close", new Error("连接重置")));
+  }
+
+  /** 直接向交换机发布原始消息 */
+  inject(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    properties = {},
+  ) {
+    this.route(exchange, routingKey, {
+      content,
+      fields: { routingKey, deliveryTag: 0 },
+      properties: { headers: {}, ...properties },
+    });
+  }
+
+  private createChannel() {
+    return {
+      on: () => undefined,
+      prefetch: async () => undefined,
+      assertExchange: async (name: string, type: string) => {
+        if (!this.exchanges.has(name)) {
+          this.exchanges.set(name, { type, bindings: [] });
+        }
+      },
+      bindExchange: async (
+        destination: string,
+        source: string,
+        pattern: string,
+      ) => {
+        this.exchanges
+          .get(source)!
+          .bindings.push({ target: destination, pattern, toExchange: true });
+      },
+      assertQueue: async (name: string, options: Record<string, any> = {}) => {
+        if (!this.queues.has(name)) {
+          this.queues.set(name, {
+            options,
+            messages: [],
+            consumers: [],
+            cursor: 0,
+          });
+        }
+        return { queue: name };
+      },
+      bindQueue: async (queue: string, exchange: string, pattern: string) => {
+        const bindings = this.exchanges.get(exchange)!.bindings;
+        if (
+          !bindings.some((b) => b.target === queue && b.pattern === pattern)
+        ) {
+          bindings.push({ target: queue, pattern, toExchange: false });
+        }
+      },
+      publish: (
+        exchange: string,
+        routingKey: string,
+        content: Buffer,
+        options: Record<string, any>,
+        callback: (error: Error | null) => void,
+      ) => {
+        if (this.rejectPublishes) {
+          setImmediate(() => callback(new Error("nacked")));
+          return true;
+        }
+        this.route(exchange, routingKey, {
+          content,
+          fields: { routingKey, deliveryTag: 0 },
+          properties: options,
+        });
+        setImmediate(() => callback(null));
+        return true;
+      },
+      consume: async (
+        name: string,
+        callback: (msg: StubMessage | null) => void,
+      ) => {
+        const queue = this.queues.get(name)!;
+        const tag = `ctag-${++this.consumerTag}`;
+        queue.consumers.push({ tag, callback });
+        queue.messages
+          .splice(0)
+          .forEach((message) => this.enqueue(name, message));
+        return { consumerTag: tag };
+      },
+      cancel: async (tag: string) => {
+        for (const queue of this.queues.values()) {
+          queue.consumers = queue.consumers.filter((c) => c.tag !== tag);
+        }
+      },
+      ack: (message: StubMessage) => {
+        this.deliveredFrom.delete(message);
+      },
+      nack: (message: StubMessage, _allUpTo: boolean, requeue: boolean) => {
+        const queueName = this.deliveredFrom.get(message)!;
+        this.deliveredFrom.delete(message);
+        if (requeue) {
+          this.enqueue(queueName, message);
+        } else {
+          this.deadLetter(queueName, message);
+        }
+      },
+    };
+  }
+
+  private route(
+    exchange: string,
+    routingKey: string,
+    message: StubMessage,
+  ): void {
+    if (exchange === "") {
+      this.enqueue(routingKey, message);
+      return;
+    }
+    const definition = this.exchanges.get(exchange);
+    if (!definition) {
+      return;
+    }
+    for (const binding of definition.bindings) {
+      const matched =
+        definition.type === "direct"
+          ? binding.pattern === routingKey
+          : topicMatches(binding.pattern, routingKey);
+      if (!matched) {
+        continue;
+      }
+      if (binding.toExchange) {
+        this.route(binding.target, routingKey, message);
+      } else {
+        this.enqueue(binding.target, message);
+      }
+    }
+  }
+
+  private enqueue(name: string, message: StubMessage): void {
+    const queue = this.queues.get(name);
+    if (!queue) {
+      return;
+    }
+    const copy: StubMessage = {
+      ...message,
+      fields: { ...message.fields, deliveryTag: ++this.deliveryTag },
+    };
+
+    if (queue.consumers.length > 0) {
+      const consumer =
+        queue.consumers[queue.cursor++ % queue.consumers.length]!;
+      this.deliveredFrom.set(copy, name);
+      setImmediate(() => consumer.callback(copy));
+    } else if (queue.options.messageTtl !== undefined) {
+      setTimeout(() => this.deadLetter(name, copy), queue.options.messageTtl);
+    } else {
+      queue.messages.push(copy);
+    }
+  }
+
+  private deadLetter(name: string, message: StubMessage): void {
+    const { deadLetterExchange, deadLetterRoutingKey } =
+      this.queues.get(name)!.options;
+    if (deadLetterExchange !== undefined) {
+      this.route(
+        deadLetterExchange,
+        deadLetterRoutingKey ?? message.fields.routingKey,
+        message,
+      );
+    }
+  }
+}
+
+/** AMQP topic 路由键匹配（* 匹配一个单词，# 匹配零或多个单词） */
+function topicMatches(pattern: string, routingKey: string): boolean {
+  const match = (words: string[], keys: string[]): boolean => {
+    if (words.length === 0) {
+      return keys.length === 0;
+    }
+    const [head, ...rest] = words;
+    if (head === "#") {
+      return (
+        keys.some((_, index) => match(rest, keys.slice(index))) ||
+        match(rest, [])
+      );
+    }
+    return (
+      keys.length > 0 &&
+      (head === "*" || head === keys[0]) &&
+      match(rest, keys.slice(1))
+    );
+  };
+  return match(pattern.split("."), routingKey.split("."));
+}
+
+/** 轮询等待条件成立 */
+const until = async (condition: () => boolean, timeout = 1000) => {
+  const deadline = Date.now() + timeout;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe("RabbitMQMessagingAdapter", () => {
+  let broker: StubBroker;
+  let consumerState: ConsumerStateService;
+  let adapter: RabbitMQMessagingAdapter;
+  let sequence = 0;
+
+  const createAdapter = async (rabbitmq: Record<string, unknown> = {}) => {
+    adapter = new RabbitMQMessagingAdapter(
+      { retryDelay: 10 },
+      { url: "amqp://stub", reconnectDelay: 10, ...rabbitmq },
+      consumerState,
+      broker.connect,
+    );
+    await adapter.connect();
+  };
+
+  const message = (
+    topic: string,
+    tenantId?: string,
+    data: unknown = {},
+  ): Message => ({
+    id: `msg-${++sequence}`,
+    topic,
+    data,
+    headers: tenantId ? { [MESSAGE_HEADERS.TENANT_ID]: tenantId } : {},
+    tenantId,
+    key: tenantId,
+    timestamp: new Date(),
+  });
+
+  const subscription = (
+    topic: string,
+    handler: MessageListener,
+    options: Partial<MessageSubscription> = {},
+  ): MessageSubscription => ({
+    id: `sub-${++sequence}`,
+    topic,
+    autoAck: true,
+    maxRetries: 2,
+    handler,
+    ...options,
+  });
+
+  beforeEach(async () => {
+    broker = new StubBroker();
+    consumerState = new ConsumerStateService();
+    await createAdapter();
+  });
+
+  afterEach(async () => {
+    await adapter.disconnect();
+  });
+
+  describe("连接", () => {
+    it("应该声明主交换机和死信交换机", () => {
+      expect(broker.exchanges.get("hl8.messaging")?.type).toBe("topic");
+      expect(broker.exchanges.get("hl8.messaging.dlx")?.type).toBe("direct");
+      expect(adapter.getConnectionInfo()).toMatchObject({
+        adapter: MessagingAdapterType.RABBITMQ,
+        connected: true,
+      });
+    });
+
+    it("连接意外断开后应该重连并恢复消费者", async () => {
+      const received: unknown[] = [];
+      const sub = subscription("user.created", (data) => {
+        received.push(data);
+      });
+      await adapter.subscribe(sub);
+
+      broker.dropConnections();
+      expect(adapter.isConnected()).toBe(false);
+      expect(consumerState.getState(sub.id)?.status).toBe("disconnected");
+
+      await until(() => adapter.isConnected());
+      await adapter.publish(message("user.created", undefined, 1));
+      await until(() => received.length === 1);
+
+      expect(received).toEqual([1]);
+      expect(consumerState.getState(sub.id)?.status).toBe("active");
+    });
+  });
+
+  describe("发布", () => {
+    it("应该以物理主题名为路由键并还原消息", async () => {
+      const received: Message[] = [];
+      await adapter.subscribe(
+        subscription("user.created", (_data, msg) => {
+          received.push(msg);
+        }),
+      );
+
+      const published = message("user.created", TENANT_A, { name: "张三" });
+      await adapter.publish(published);
+      await until(() => received.length === 1);
+
+      expect(received[0]).toMatchObject({
+        id: published.id,
+        topic: "user.created",
+        data: { name: "张三" },
+        tenantId: TENANT_A,
+        key: TENANT_A,
+        headers: { [MESSAGE_HEADERS.TENANT_ID]: TENANT_A },
+        attempts: 1,
+      });
+    });
+
+    it("RabbitMQ 未确认时应该抛出异常", async () => {
+      broker.rejectPublishes = true;
+
+      await expect(adapter.publish(message("user.created"))).rejects.toThrow(
+        MessagingPublishException,
+      );
+    });
+  });
+
+  describe("路由", () => {
+    it("同一消费组的订阅应该共享队列、竞争消费", async () => {
+      const received: string[] = [];
+      await adapter.subscribe(
+        subscription("order.created", () => received.push("a"), {
+          group: "billing",
+        }),
+      );
+      await adapter.subscribe(
+        subscription("order.created", () => received.push("b"), {
+          group: "billing",
+        }),
+      );
+      await adapter.subscribe(
+        subscription("order.created", () => received.push("c")),
+      );
+
+      await adapter.publish(message("order.created"));
+      await adapter.publish(message("order.created"));
+      await until(() => received.length === 4);
+
+      expect(received.filter((r) => r === "c")).toHaveLength(2);
+      expect(received.filter((r) => r !== "c").sort()).toEqual(["a", "b"]);
+      expect(
+        broker.queues.get("hl8.billing.order.created")?.options.durable,
+      ).toBe(true);
+    });
+
+    it("限定租户的订阅应该只接收该租户的消息", async () => {
+      const scoped: unknown[] = [];
+      const all: unknown[] = [];
+      await adapter.subscribe(
+        subscription("user.created", (data) => scoped.push(data), {
+          tenantId: TENANT_A,
+        }),
+      );
+      await adapter.subscribe(
+        subscription("user.created", (data) => all.push(data)),
+      );
+
+      await adapter.publish(message("user.created", TENANT_A, "a"));
+      await adapter.publish(message("user.created", TENANT_B, "b"));
+      await adapter.publish(message("user.created", undefined, "platform"));
+      await until(() => all.length === 3);
+
+      expect(scoped).toEqual(["a"]);
+      expect([...all].sort()).toEqual(["a", "b", "platform"]);
+    });
+
+    it("启用 tenantExchanges 时应该通过租户交换机路由", async () => {
+      await adapter.disconnect();
+      await createAdapter({ tenantExchanges: true });
+      const scoped: unknown[] = [];
+      await adapter.subscribe(
+        subscription("user.created", (data) => scoped.push(data), {
+          tenantId: TENANT_A,
+        }),
+      );
+
+      await adapter.publish(message("user.created", TENANT_A, "a"));
+      await adapter.publish(message("user.created", TENANT_B, "b"));
+      await until(() => scoped.length === 1);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const tenantExchange = `hl8.messaging.tenant.${TENANT_A}`;
+      expect(broker.exchanges.get("hl8.messaging")?.bindings).toContainEqual({
+        target: tenantExchange,
+        pattern: `tenant.${TENANT_A}.#`,
+        toExchange: true,
+      });
+      expect(scoped).toEqual(["a"]);
+    });
+  });
+
+  describe("重试与死信", () => {
+    it("处理失败时应该经退避重试队列重新投递", async () => {
+      const attempts: number[] = [];
+      const sub = subscription("user.created", (_data, msg) => {
+        attempts.push(msg.attempts);
+        if (msg.attempts < 2) {
+          throw new Error("暂时失败");
+        }
+      });
+      await adapter.subscribe(sub);
+
+      await adapter.publish(message("user.created"));
+      await until(() => attempts.length === 2);
+      await until(() => consumerState.getState(sub.id)?.processed === 1);
+
+      expect(attempts).toEqual([1, 2]);
+      const queue = consumerState.getState(sub.id)!.source;
+      expect(broker.queues.get(`${queue}.retry.1`)?.options.messageTtl).toBe(
+        10,
+      );
+      expect(broker.queues.get(`${queue}.retry.2`)?.options.messageTtl).toBe(
+        20,
+      );
+      expect(consumerState.getState(sub.id)).toMatchObject({
+        processed: 1,
+        failed: 1,
+        lastError: "暂时失败",
+      });
+    });
+
+    it("超过最大重试次数后应该进入死信队列", async () => {
+      const sub = subscription(
+        "user.created",
+        () => {
+          throw new Error("永久失败");
+        },
+        { group: "projection", maxRetries: 1 },
+      );
+      await adapter.subscribe(sub);
+
+      await adapter.publish(message("user.created"));
+      const dlq = broker.queues.get("hl8.projection.user.created.dlq")!;
+      await until(() => consumerState.getState(sub.id)?.deadLettered === 1);
+
+      expect(dlq.messages).toHaveLength(1);
+      expect(dlq.messages[0]!.properties.headers).toMatchObject({
+        "x-attempts": 2,
+        "x-death-reason": "永久失败",
+      });
+      expect(consumerState.getState(sub.id)).toMatchObject({
+        failed: 1,
+        deadLettered: 1,
+      });
+    });
+
+    it("无法解析的消息应该直接进入死信队列", async () => {
+      const handled: unknown[] = [];
+      const sub = subscription("user.created", (data) => handled.push(data), {
+        group: "projection",
+      });
+      await adapter.subscribe(sub);
+
+      broker.inject("hl8.messaging", "user.created", Buffer.from("not json"), {
+        messageId: "bad",
+        headers: { "x-topic": "user.created" },
+      });
+      const dlq = broker.queues.get("hl8.projection.user.created.dlq")!;
+      await until(() => dlq.messages.length === 1);
+
+      expect(handled).toEqual([]);
+      expect(consumerState.getState(sub.id)).toMatchObject({
+        deadLettered: 1,
+        lastMessageId: "bad",
+      });
+    });
+  });
+
+  describe("取消订阅", () => {
+    it("应该停止消费并移除消费者状态", async () => {
+      const received: unknown[] = [];
+      const sub = subscription("user.created", (data) => received.push(data));
+      await adapter.subscribe(sub);
+
+      await adapter.unsubscribe(sub.id);
+      await adapter.publish(message("user.created"));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(received).toEqual([]);
+      expect(consumerState.getState(sub.id)).toBeUndefined();
+    });
+  });
+
+  it("工厂在缺少 rabbitmq 配置时应该抛出异常", () => {
+    expect(() =>
+      createMessagingAdapter(
+        { adapter: MessagingAdapterType.RABBITMQ },
+        consumerState,
+        new DeadLetterCacheService({ adapter: MessagingAdapterType.RABBITMQ }),
+      ),
+    ).toThrow(MessagingConfigException);
+  });
+});
@@ -0,0 +1,687 @@
+/**
+ * RabbitMQ 消息适配器
+ *
+ * @description 基于 amqplib 的适配器，使用 topic 交换机路由、发布确认、
+ * 按队列 TTL 实现的退避重试和死信交换机
+ *
+ * ## 业务规则
+ *
+ * ### 拓扑
+ * - 主交换机 {exchange}（topic），路由键为物理主题名（tenant.{tenantId}.{topic}）
+ * - 死信交换机 {exchange}.dlx（direct），每个消费队列有对应的 {queue}.dlq
+ * - 启用 tenantExchanges 时，每个租户的交换机 {exchange}.tenant.{tenantId}
+ *   以 tenant.{tenantId}.# 绑定到主交换机，限定租户的订阅绑定到租户交换机
+ * - 订阅所有租户时同时绑定 {topic} 和 tenant.*.{topic}
+ *
+ * ### 消费队列
+ * - 指定消费组：持久队列 {queuePrefix}{group}.{topic}，同组订阅共享队列、竞争消费
+ * - 未指定消费组：每个订阅一个非持久队列，空闲 60 秒后由 RabbitMQ 删除
+ * - 限定租户的队列名追加 .tenant.{tenantId}
+ *
+ * ### 重试与死信
+ * - 第 n 次失败后消息发布到 {queue}.retry.{n}，该队列 TTL 为
+ *   retryDelay * backoffMultiplier^(n-1)，到期后经默认交换机回到原队列
+ * - 投递次数记录在 x-attempts 消息头中
+ * - 超过最大重试次数或显式拒绝的消息发布到死信交换机，原因记录在 x-death-reason
+ * - 无法解析的消息直接 nack，由队列的 x-dead-letter-exchange 转入死信队列
+ * - 重试和死信消息先确认发布成功再 ack 原消息，失败时原消息随通道关闭重新投递
+ *
+ * ### 发布确认
+ * - 使用 confirm channel，publish() 在 RabbitMQ 确认后返回
+ * - 未确认时抛出 MessagingPublishException
+ *
+ * ### 连接
+ * - 连接或通道意外关闭时标记为断开，并按 reconnectDelay 重连、恢复所有消费者
+ * - 消费者状态记录在 ConsumerStateService 中
+ *
+ * ### 限制
+ * - 重试队列的 TTL 在声明时确定，修改 retryDelay、backoffMultiplier 或 maxRetries
+ *   后需要删除旧的重试队列
+ *
+ * @example
+ * ```typescript
+ * MessagingModule.forRoot({
+ *   adapter: MessagingAdapterType.RABBITMQ,
+ *   retry: { maxRetries: 3, retryDelay: 1000 },
+ *   rabbitmq: { url: 'amqp://localhost', tenantExchanges: true },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import amqp, {
+  type ChannelModel,
+  type ConfirmChannel,
+  type ConsumeMessage,
+  type Options,
+} from "amqplib";
+import { MESSAGE_HEADERS } from "../constants.js";
+import {
+  MessagingConnectionException,
+  MessagingConsumeException,
+  MessagingPublishException,
+} from "../exceptions/messaging.exceptions.js";
+import type { ConsumerStateService } from "../services/consumer-state.service.js";
+import type {
+  Message,
+  MessageSubscription,
+  RabbitMQOptions,
+} from "../types/messaging.types.js";
+import { MessagingAdapterType } from "../types/messaging.types.js";
+import {
+  type AdapterPublishOptions,
+  BaseMessagingAdapter,
+  type MessagingAdapterOptions,
+} from "./base.adapter.js";
+
+/**
+ * AMQP 连接
+ *
+ * @description amqplib ChannelModel 中适配器用到的部分，便于在测试中替换
+ */
+export type AmqpConnection = Pick<
+  ChannelModel,
+  "createConfirmChannel" | "close" | "on"
+>;
+
+/**
+ * 建立 AMQP 连接的函数
+ */
+export type AmqpConnectFn = (url: string) => Promise<AmqpConnection>;
+
+const RABBITMQ_DEFAULTS = {
+  EXCHANGE: "hl8.messaging",
+  QUEUE_PREFIX: "hl8.",
+  PREFETCH: 10,
+  BACKOFF_MULTIPLIER: 2,
+  RECONNECT_DELAY: 5000,
+  TRANSIENT_QUEUE_EXPIRES: 60_000,
+} as const;
+
+const AMQP_HEADERS = {
+  ATTEMPTS: "x-attempts",
+  TOPIC: "x-topic",
+  KEY: "x-message-key",
+  DEATH_REASON: "x-death-reason",
+  DELAY: "x-delay",
+} as const;
+
+const INTERNAL_HEADERS = new Set<string>(Object.values(AMQP_HEADERS));
+
+interface Consumer {
+  subscription: MessageSubscription;
+  queue: string;
+  consumerTag?: string;
+}
+
+export class RabbitMQMessagingAdapter extends BaseMessagingAdapter {
+  readonly type = MessagingAdapterType.RABBITMQ;
+
+  private readonly exchange: string;
+  private readonly deadLetterExchange: string;
+  private readonly queuePrefix: string;
+  private readonly prefetch: number;
+  private readonly backoffMultiplier: number;
+  private readonly reconnectDelay: number;
+
+  private connection?: AmqpConnection;
+  private channel?: ConfirmChannel;
+  private readonly consumers = new Map<string, Consumer>();
+  private readonly tenantExchanges = new Set<string>();
+  private reconnectTimer?: NodeJS.Timeout;
+  private closing = false;
+
+  constructor(
+    options: MessagingAdapterOptions,
+    private readonly rabbitmq: RabbitMQOptions,
+    private readonly consumerState: ConsumerStateService,
+    private readonly connectFn: AmqpConnectFn = (url) => amqp.connect(url),
+  ) {
+    super(options);
+    this.exchange = rabbitmq.exchange ?? RABBITMQ_DEFAULTS.EXCHANGE;
+    this.deadLetterExchange = `${this.exchange}.dlx`;
+    this.queuePrefix = rabbitmq.queuePrefix ?? RABBITMQ_DEFAULTS.QUEUE_PREFIX;
+    this.prefetch = rabbitmq.prefetch ?? RABBITMQ_DEFAULTS.PREFETCH;
+    this.backoffMultiplier =
+      rabbitmq.backoffMultiplier ?? RABBITMQ_DEFAULTS.BACKOFF_MULTIPLIER;
+    this.reconnectDelay =
+      rabbitmq.reconnectDelay ?? RABBITMQ_DEFAULTS.RECONNECT_DELAY;
+  }
+
+  /**
+   * 连接 RabbitMQ
+   *
+   * @description 声明主交换机和死信交换机；重连时恢复已有的消费者
+   *
+   * @throws {MessagingConnectionException} 连接失败时
+   */
+  async connect(): Promise<void> {
+    if (this.connection) {
+      return;
+    }
+    this.closing = false;
+
+    let connection: AmqpConnection | undefined;
+    try {
+      connection = await this.connectFn(this.rabbitmq.url);
+      connection.on("error", (error: Error) => {
+        this.logger.error("RabbitMQ 连接错误", undefined, {
+          error: error.message,
+          stack: error.stack,
+        });
+      });
+      const current = connection;
+      connection.on("close", (error?: Error) =>
+        this.handleConnectionLost(current, error),
+      );
+
+      const channel = await connection.createConfirmChannel();
+      channel.on("error", (error: Error) => {
+        this.logger.error("RabbitMQ 通道错误", undefined, {
+          error: error.message,
+          stack: error.stack,
+        });
+      });
+      channel.on("close", () => {
+        if (!this.closing && this.connection === current) {
+          this.handleConnectionLost(current, new Error("RabbitMQ 通道已关闭"));
+          void current.close().catch(() => undefined);
+        }
+      });
+
+      await channel.prefetch(this.prefetch);
+      await this.assertExchanges(channel);
+
+      this.connection = connection;
+      this.channel = channel;
+      this.tenantExchanges.clear();
+      this.markConnected();
+    } catch (error) {
+      await connection?.close().catch(() => undefined);
+      this.markDisconnected(error as Error);
+      throw new MessagingConnectionException(
+        "消息队列连接失败",
+        `无法连接 RabbitMQ：${(error as Error).message}`,
+        { adapter: this.type, exchange: this.exchange },
+        error as Error,
+      );
+    }
+
+    for (const consumer of this.consumers.values()) {
+      try {
+        await this.startConsumer(consumer);
+      } catch (error) {
+        this.logger.error(`恢复消费者失败: ${consumer.queue}`, undefined, {
+          error: (error as Error).message,
+          stack: (error as Error).stack,
+        });
+      }
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.closing = true;
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+
+    for (const subscriptionId of this.consumers.keys()) {
+      this.consumerState.remove(subscriptionId);
+    }
+    this.consumers.clear();
+
+    const connection = this.connection;
+    this.connection = undefined;
+    this.channel = undefined;
+    if (connection) {
+      await connection.close().catch((error: Error) => {
+        this.logger.warn(`关闭 RabbitMQ 连接失败: ${error.message}`);
+      });
+    }
+    this.markDisconnected();
+  }
+
+  /**
+   * 发布消息
+   *
+   * @throws {MessagingPublishException} RabbitMQ 未确认消息时
+   */
+  async publish(
+    message: Message,
+    options: AdapterPublishOptions = {},
+  ): Promise<void> {
+    this.assertConnected();
+
+    const headers: Record<string, unknown> = {
+      ...message.headers,
+      [AMQP_HEADERS.TOPIC]: message.topic,
+      [AMQP_HEADERS.ATTEMPTS]: 1,
+    };
+    if (message.key) {
+      headers[AMQP_HEADERS.KEY] = message.key;
+    }
+    if (options.delay) {
+      if (this.rabbitmq.delayedMessageExchange) {
+        headers[AMQP_HEADERS.DELAY] = options.delay;
+      } else {
+        this.logger.warn(
+          `未启用 delayedMessageExchange，忽略消息 ${message.id} 的延迟投递`,
+        );
+      }
+    }
+
+    try {
+      await this.confirmPublish(
+        this.exchange,
+        this.resolveTopic(message.topic, message.tenantId),
+        Buffer.from(JSON.stringify({ data: message.data })),
+        {
+          messageId: message.id,
+          timestamp: Math.floor(message.timestamp.getTime() / 1000),
+          contentType: "application/json",
+          persistent: true,
+          headers,
+        },
+      );
+    } catch (error) {
+      throw new MessagingPublishException(
+        "消息发布失败",
+        `RabbitMQ 未确认消息 ${message.id}：${(error as Error).message}`,
+        { topic: message.topic, messageId: message.id },
+      );
+    }
+  }
+
+  /**
+   * 建立订阅
+   *
+   * @description 声明消费队列、重试队列、死信队列及绑定，然后开始消费
+   *
+   * @throws {MessagingConsumeException} 声明拓扑或创建消费者失败时
+   */
+  async subscribe(subscription: MessageSubscription): Promise<void> {
+    this.assertConnected();
+
+    const consumer: Consumer = {
+      subscription,
+      queue: this.queueName(subscription),
+    };
+    try {
+      await this.startConsumer(consumer);
+    } catch (error) {
+      throw new MessagingConsumeException(
+        "创建消费者失败",
+        `无法在队列 ${consumer.queue} 上创建消费者：${(error as Error).message}`,
+        { topic: subscription.topic, queue: consumer.queue },
+        error as Error,
+      );
+    }
+    this.consumers.set(subscription.id, consumer);
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    const consumer = this.consumers.get(subscriptionId);
+    if (!consumer) {
+      return;
+    }
+
+    this.consumers.delete(subscriptionId);
+    this.consumerState.remove(subscriptionId);
+    if (consumer.consumerTag && this.channel) {
+      await this.channel.cancel(consumer.consumerTag);
+    }
+  }
+
+  /**
+   * 计算第 n 次重试前的等待时间
+   *
+   * @param attempt - 第几次重试（从 1 开始）
+   * @returns 毫秒
+   */
+  getRetryDelay(attempt: number): number {
+    return Math.round(
+      this.retryDelay * this.backoffMultiplier ** (attempt - 1),
+    );
+  }
+
+  private async assertExchanges(channel: ConfirmChannel): Promise<void> {
+    if (this.rabbitmq.delayedMessageExchange) {
+      await channel.assertExchange(this.exchange, "x-delayed-message", {
+        durable: true,
+        arguments: { "x-delayed-type": "topic" },
+      });
+    } else {
+      await channel.assertExchange(this.exchange, "topic", { durable: true });
+    }
+    await channel.assertExchange(this.deadLetterExchange, "direct", {
+      durable: true,
+    });
+  }
+
+  private async startConsumer(consumer: Consumer): Promise<void> {
+    const channel = this.requireChannel();
+    const { subscription, queue } = consumer;
+
+    await this.assertQueues(channel, consumer);
+    for (const [source, pattern] of await this.bindings(
+      channel,
+      subscription,
+    )) {
+      await channel.bindQueue(queue, source, pattern);
+    }
+
+    const { consumerTag } = await channel.consume(
+      queue,
+      (raw) => {
+        if (!raw) {
+          this.handleCancelled(consumer);
+          return;
+        }
+        this.handleDelivery(channel, consumer, raw).catch((error: Error) => {
+          this.logger.error(`确认消息失败: ${queue}`, undefined, {
+            error: error.message,
+            stack: error.stack,
+          });
+        });
+      },
+      { noAck: false },
+    );
+
+    consumer.consumerTag = consumerTag;
+    this.consumerState.register({
+      consumerId: subscription.id,
+      adapter: this.type,
+      topic: subscription.topic,
+      group: subscription.group,
+      tenantId: subscription.tenantId,
+      source: queue,
+      consumerTag,
+    });
+  }
+
+  /**
+   * 声明消费队列、各级重试队列和死信队列
+   */
+  private async assertQueues(
+    channel: ConfirmChannel,
+    { subscription, queue }: Consumer,
+  ): Promise<void> {
+    const durable = Boolean(subscription.group);
+    const lifetime: Options.AssertQueue = durable
+      ? { durable }
+      : { durable, expires: RABBITMQ_DEFAULTS.TRANSIENT_QUEUE_EXPIRES };
+
+    await channel.assertQueue(queue, {
+      ...lifetime,
+      deadLetterExchange: this.deadLetterExchange,
+      deadLetterRoutingKey: queue,
+    });
+
+    for (let attempt = 1; attempt <= subscription.maxRetries; attempt++) {
+      await channel.assertQueue(this.retryQueueName(queue, attempt), {
+        ...lifetime,
+        messageTtl: this.getRetryDelay(attempt),
+        deadLetterExchange: "",
+        deadLetterRoutingKey: queue,
+      });
+    }
+
+    const deadLetterQueue = `${queue}.dlq`;
+    await channel.assertQueue(deadLetterQueue, lifetime);
+    await channel.bindQueue(deadLetterQueue, this.deadLetterExchange, queue);
+  }
+
+  /**
+   * 计算消费队列的绑定
+   *
+   * @returns [交换机, 路由键模式] 列表
+   */
+  private async bindings(
+    channel: ConfirmChannel,
+    { topic, tenantId }: MessageSubscription,
+  ): Promise<Array<[string, string]>> {
+    if (tenantId && this.enableTenantIsolation) {
+      const source = this.rabbitmq.tenantExchanges
+        ? await this.assertTenantExchange(channel, tenantId)
+        : this.exchange;
+      return [[source, this.resolveTopic(topic, tenantId)]];
+    }
+
+    const bindings: Array<[string, string]> = [
+      [this.exchange, this.resolveTopic(topic)],
+    ];
+    if (this.enableTenantIsolation) {
+      bindings.push([this.exchange, this.resolveTopic(topic, "*")]);
+    }
+    return bindings;
+  }
+
+  private async assertTenantExchange(
+    channel: ConfirmChannel,
+    tenantId: string,
+  ): Promise<string> {
+    const name = `${this.exchange}.tenant.${tenantId}`;
+    if (!this.tenantExchanges.has(name)) {
+      await channel.assertExchange(name, "topic", { durable: true });
+      await channel.bindExchange(
+        name,
+        this.exchange,
+        this.resolveTopic("#", tenantId),
+      );
+      this.tenantExchanges.add(name);
+    }
+    return name;
+  }
+
+  private async handleDelivery(
+    channel: ConfirmChannel,
+    { subscription, queue }: Consumer,
+    raw: ConsumeMessage,
+  ): Promise<void> {
+    let message: Message;
+    try {
+      message = this.decode(raw);
+    } catch (error) {
+      const reason = `无法解析消息: ${(error as Error).message}`;
+      channel.nack(raw, false, false);
+      this.consumerState.recordFailure(
+        subscription.id,
+        raw.properties.messageId as string | undefined,
+        reason,
+        true,
+      );
+      this.logger.warn(`${queue} 收到无法解析的消息，已转入死信: ${reason}`);
+      return;
+    }
+
+    if (!this.matches(subscription, message)) {
+      channel.ack(raw);
+      return;
+    }
+
+    const headers = raw.properties.headers ?? {};
+    const attempts = Number(headers[AMQP_HEADERS.ATTEMPTS] ?? 1);
+
+    await this.dispatch(subscription, message, attempts, {
+      ack: async () => {
+        channel.ack(raw);
+        this.consumerState.recordProcessed(subscription.id, message.id);
+      },
+      nack: async (requeue, reason) => {
+        if (requeue) {
+          await this.confirmPublish(
+            "",
+            this.retryQueueName(queue, attempts),
+            raw.content,
+            this.republishOptions(raw, {
+              ...headers,
+              [AMQP_HEADERS.ATTEMPTS]: attempts + 1,
+            }),
+          );
+        } else {
+          await this.confirmPublish(
+            this.deadLetterExchange,
+            queue,
+            raw.content,
+            this.republishOptions(raw, {
+              ...headers,
+              [AMQP_HEADERS.DEATH_REASON]: reason,
+            }),
+          );
+          this.logger.warn(
+            `消息 ${message.id} 在 ${queue} 投递 ${attempts} 次后进入死信: ${reason}`,
+          );
+        }
+        channel.ack(raw);
+        this.consumerState.recordFailure(
+          subscription.id,
+          message.id,
+          reason,
+          !requeue,
+        );
+      },
+    });
+  }
+
+  /**
+   * 还原消息
+   *
+   * @throws {Error} 缺少主题或消息 ID、消息体不是 JSON 时
+   */
+  private decode(raw: ConsumeMessage): Message {
+    const { messageId, timestamp } = raw.properties;
+    const headers = (raw.properties.headers ?? {}) as Record<string, unknown>;
+    const topic = headers[AMQP_HEADERS.TOPIC];
+    if (typeof topic !== "string" || typeof messageId !== "string") {
+      throw new Error("缺少 x-topic 消息头或 messageId");
+    }
+
+    const body = JSON.parse(raw.content.toString("utf8")) as {
+      data?: unknown;
+    };
+    const messageHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      if (typeof value === "string" && !INTERNAL_HEADERS.has(name)) {
+        messageHeaders[name] = value;
+      }
+    }
+    const key = headers[AMQP_HEADERS.KEY];
+
+    return {
+      id: messageId,
+      topic,
+      data: body.data,
+      headers: messageHeaders,
+      tenantId: messageHeaders[MESSAGE_HEADERS.TENANT_ID],
+      key: typeof key === "string" ? key : undefined,
+      timestamp:
+        typeof timestamp === "number" ? new Date(timestamp * 1000) : new Date(),
+    };
+  }
+
+  private republishOptions(
+    raw: ConsumeMessage,
+    headers: Record<string, unknown>,
+  ): Options.Publish {
+    return {
+      messageId: raw.properties.messageId as string | undefined,
+      timestamp: raw.properties.timestamp as number | undefined,
+      contentType: raw.properties.contentType as string | undefined,
+      persistent: true,
+      headers,
+    };
+  }
+
+  /**
+   * 发布并等待 RabbitMQ 确认
+   */
+  private confirmPublish(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    options: Options.Publish,
+  ): Promise<void> {
+    const channel = this.requireChannel();
+    return new Promise<void>((resolve, reject) => {
+      channel.publish(exchange, routingKey, content, options, (error) =>
+        error ? reject(error as Error) : resolve(),
+      );
+    });
+  }
+
+  private handleCancelled(consumer: Consumer): void {
+    consumer.consumerTag = undefined;
+    this.consumerState.setStatus(
+      consumer.subscription.id,
+      "cancelled",
+      "消费者被 RabbitMQ 取消",
+    );
+    this.logger.warn(`队列 ${consumer.queue} 的消费者被 RabbitMQ 取消`);
+  }
+
+  /**
+   * 处理连接意外断开：标记状态并安排重连
+   */
+  private handleConnectionLost(
+    connection: AmqpConnection,
+    error?: Error,
+  ): void {
+    if (this.closing || this.connection !== connection) {
+      return;
+    }
+
+    this.connection = undefined;
+    this.channel = undefined;
+    this.markDisconnected(error ?? new Error("RabbitMQ 连接已关闭"));
+    for (const consumer of this.consumers.values()) {
+      consumer.consumerTag = undefined;
+      this.consumerState.setStatus(
+        consumer.subscription.id,
+        "disconnected",
+        error?.message,
+      );
+    }
+
+    this.logger.warn(
+      `RabbitMQ 连接断开，${this.reconnectDelay}ms 后重连: ${error?.message ?? "连接已关闭"}`,
+    );
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect().catch((error: Error) => {
+        this.logger.error("RabbitMQ 重连失败", undefined, {
+          error: error.message,
+          stack: error.stack,
+        });
+        if (!this.closing) {
+          this.scheduleReconnect();
+        }
+      });
+    }, this.reconnectDelay);
+  }
+
+  private requireChannel(): ConfirmChannel {
+    if (!this.channel) {
+      throw new MessagingConnectionException(
+        "消息队列未连接",
+        `适配器 ${this.type} 尚未连接`,
+        { adapter: this.type },
+      );
+    }
+    return this.channel;
+  }
+
+  private queueName({ topic, group, tenantId, id }: MessageSubscription) {
+    const tenantSuffix = tenantId ? `.tenant.${tenantId}` : "";
+    return group
+      ? `${this.queuePrefix}${group}.${topic}${tenantSuffix}`
+      : `${this.queuePrefix}${topic}${tenantSuffix}.${id}`;
+  }
+
+  private retryQueueName(queue: string, attempt: number): string {
+    return `${queue}.retry.${attempt}`;
+  }
+}
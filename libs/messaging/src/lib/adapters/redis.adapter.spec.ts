@@ -0,0 +1,622 @@
+/**
+ * RedisMessagingAdapter 单元测试
+ *
+ * @description 使用进程内 Redis Streams 桩（消费组、待确认列表、投递次数、MAXLEN 裁剪）
+ * 测试发布、竞争消费、重试、死信、认领空闲消息和消费组延迟
+ *
+ * @group adapters
+ */
+
+import { MESSAGE_HEADERS } from "../constants.js";
+import { MessagingConfigException } from "../exceptions/messaging.exceptions.js";
+import { ConsumerStateService } from "../services/consumer-state.service.js";
+import { DeadLetterCacheService } from "../services/dead-letter-cache.service.js";
+import {
+  type Message,
+  type MessageListener,
+  type MessageSubscription,
+  MessagingAdapterType,
+  type RedisStreamsOptions,
+} from "../types/messaging.types.js";
+import { createMessagingAdapter } from "./messaging-adapter.factory.js";
+import { RedisMessagingAdapter } from "./redis.adapter.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+const STREAM = "hl8:stream:user.created";
+
+interface StubPending {
+  consumer: string;
+  deliveries: number;
+  deliveredAt: number;
+}
+
+interface StubGroup {
+  lastDelivered: number;
+  pending: Map<string, StubPending>;
+  consumers: Set<string>;
+}
+
+interface StubStream {
+  entries: { seq: number; id: string; fields: string[] }[];
+  seq: number;
+  groups: Map<string, StubGroup>;
+}
+
+const seqOf = (id: string) => Number(id.split("-")[1]);
+
+const toObject = (fields: string[]) => {
+  const record: Record<string, string> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    record[fields[i]!] = fields[i + 1]!;
+  }
+  return record;
+};
+
+/**
+ * 进程内 Redis Streams 桩
+ *
+ * @description 实现适配器用到的流命令子集；MAXLEN ~ 按精确裁剪处理，
+ * 阻塞读取以轮询模拟，连接断开后阻塞中的读取立即失败
+ */
+class StubRedis {
+  readonly streams = new Map<string, StubStream>();
+
+  readonly createClient = () => this.client() as any;
+
+  records(key: string): Record<string, string>[] {
+    return (this.streams.get(key)?.entries ?? []).map(({ fields }) =>
+      toObject(fields),
+    );
+  }
+
+  group(key: string, name: string): StubGroup | undefined {
+    return this.streams.get(key)?.groups.get(name);
+  }
+
+  private stream(key: string): StubStream {
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = { entries: [], seq: 0, groups: new Map() };
+      this.streams.set(key, stream);
+    }
+    return stream;
+  }
+
+  private requireGroup(key: string, name: string): StubGroup {
+    const group = this.group(key, name);
+    if (!group) {
+      throw new Error(
+        `NOGROUP No such key '${key}' or consumer group '${name}'`,
+      );
+    }
+    return group;
+  }
+
+  private claim(
+    key: string,
+    group: StubGroup,
+    consumer: string,
+    minIdle: number,
+    ids: string[],
+  ) {
+    const stream = this.stream(key);
+    const claimed: [string, string[]][] = [];
+    for (const id of ids) {
+      const pending = group.pending.get(id);
+      if (!pending || Date.now() - pending.deliveredAt < minIdle) {
+        continue;
+      }
+      const entry = stream.entries.find((candidate) => candidate.id === id);
+      if (!entry) {
+        group.pending.delete(id);
+        continue;
+      }
+      pending.consumer = consumer;
+      pending.deliveries++;
+      pending.deliveredAt = Date.now();
+      group.consumers.add(consumer);
+      claimed.push([id, entry.fields]);
+    }
+    return claimed;
+  }
+
+  private client() {
+    let closed = false;
+
+    const client = {
+      on: () => client,
+      connect: async () => undefined,
+      quit: async () => {
+        closed = true;
+        return "OK";
+      },
+      disconnect: () => {
+        closed = true;
+      },
+      duplicate: () => this.client(),
+      xadd: async (key: string, ...args: (string | number)[]) => {
+        const stream = this.stream(key);
+        const maxLen = args[0] === "MAXLEN" ? Number(args[2]) : Infinity;
+        const fields = args.slice(args.indexOf("*") + 1).map(String);
+        const seq = ++stream.seq;
+        stream.entries.push({ seq, id: `0-${seq}`, fields });
+        if (stream.entries.length > maxLen) {
+          stream.entries.splice(0, stream.entries.length - maxLen);
+        }
+        return `0-${seq}`;
+      },
+      xgroup: async (
+        command: string,
+        key: string,
+        name: string,
+        ...rest: string[]
+      ) => {
+        if (command === "CREATE") {
+          const stream = this.stream(key);
+          if (stream.groups.has(name)) {
+            throw new Error("BUSYGROUP Consumer Group name already exists");
+          }
+          stream.groups.set(name, {
+            lastDelivered: stream.seq,
+            pending: new Map(),
+            consumers: new Set(),
+          });
+          return "OK";
+        }
+        if (command === "DESTROY") {
+          return this.streams.get(key)?.groups.delete(name) ? 1 : 0;
+        }
+        // DELCONSUMER
+        return this.group(key, name)?.consumers.delete(rest[0]!) ? 1 : 0;
+      },
+      xreadgroup: async (...args: (string | number)[]) => {
+        const [, name, consumer, , count, , block, , key] = args as string[];
+        const deadline = Date.now() + Number(block);
+        for (;;) {
+          if (closed) {
+            throw new Error("Connection is closed.");
+          }
+          const group = this.requireGroup(key!, name!);
+          const fresh = this.stream(key!)
+            .entries.filter(({ seq }) => seq > group.lastDelivered)
+            .slice(0, Number(count));
+          if (fresh.length > 0) {
+            group.consumers.add(consumer!);
+            for (const entry of fresh) {
+              group.lastDelivered = entry.seq;
+              group.pending.set(entry.id, {
+                consumer: consumer!,
+                deliveries: 1,
+                deliveredAt: Date.now(),
+              });
+            }
+            return [[key, fresh.map(({ id, fields }) => [id, fields])]];
+          }
+          if (Date.now() >= deadline) {
+            return null;
+          }
+          await new Promise((resolve) => setTimeout(resolve, 2));
+        }
+      },
+      xack: async (key: string, name: string, ...ids: string[]) =>
+        ids.filter((id) => this.requireGroup(key, name).pending.delete(id))
+          .length,
+      xclaim: async (
+        key: string,
+        name: string,
+        consumer: string,
+        minIdle: number,
+        ...ids: string[]
+      ) =>
+        this.claim(key, this.requireGroup(key, name), consumer, minIdle, ids),
+      xautoclaim: async (
+        key: string,
+        name: string,
+        consumer: string,
+        minIdle: number,
+        _start: string,
+        _count: string,
+        count: number,
+      ) => {
+        const group = this.requireGroup(key, name);
+        const ids = Array.from(group.pending.keys())
+          .sort((a, b) => seqOf(a) - seqOf(b))
+          .slice(0, count);
+        return ["0-0", this.claim(key, group, consumer, minIdle, ids), []];
+      },
+      xpending: async (
+        key: string,
+        name: string,
+        start: string,
+        end: string,
+        count: number,
+        consumer?: string,
+      ) =>
+        Array.from(this.requireGroup(key, name).pending)
+          .filter(
+            ([id, pending]) =>
+              (start === "-" || seqOf(id) >= seqOf(start)) &&
+              (end === "+" || seqOf(id) <= seqOf(end)) &&
+              (!consumer || pending.consumer === consumer),
+          )
+          .slice(0, count)
+          .map(([id, pending]) => [
+            id,
+            pending.consumer,
+            Date.now() - pending.deliveredAt,
+            pending.deliveries,
+          ]),
+      xinfo: async (subcommand: string, key: string) => {
+        const stream = this.stream(key);
+        if (subcommand === "STREAM") {
+          return [
+            "length",
+            stream.entries.length,
+            "last-generated-id",
+            `0-${stream.seq}`,
+          ];
+        }
+        return Array.from(stream.groups).map(([name, group]) => [
+          "name",
+          name,
+          "consumers",
+          group.consumers.size,
+          "pending",
+          group.pending.size,
+          "last-delivered-id",
+          `0-${group.lastDelivered}`,
+          "lag",
+          stream.entries.filter(({ seq }) => seq > group.lastDelivered).length,
+        ]);
+      },
+    };
+    return client;
+  }
+}
+
+/** 轮询等待条件成立 */
+const until = async (condition: () => boolean, timeout = 1000) => {
+  const deadline = Date.now() + timeout;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+};
+
+describe("RedisMessagingAdapter", () => {
+  let redis: StubRedis;
+  let consumerState: ConsumerStateService;
+  let deadLetters: DeadLetterCacheService;
+  let adapters: RedisMessagingAdapter[];
+  let adapter: RedisMessagingAdapter;
+  let sequence = 0;
+
+  const createAdapter = async (options: Partial<RedisStreamsOptions> = {}) => {
+    const created = new RedisMessagingAdapter(
+      { retryDelay: 20 },
+      {
+        blockTimeout: 10,
+        claimIdleTime: 5000,
+        claimInterval: 5000,
+        ...options,
+      },
+      consumerState,
+      deadLetters,
+      redis.createClient,
+    );
+    await created.connect();
+    adapters.push(created);
+    return created;
+  };
+
+  const message = (
+    topic: string,
+    tenantId?: string,
+    data: unknown = {},
+  ): Message => ({
+    id: `msg-${++sequence}`,
+    topic,
+    data,
+    headers: tenantId ? { [MESSAGE_HEADERS.TENANT_ID]: tenantId } : {},
+    tenantId,
+    timestamp: new Date(),
+  });
+
+  const subscription = (
+    topic: string,
+    handler: MessageListener,
+    options: Partial<MessageSubscription> = {},
+  ): MessageSubscription => ({
+    id: `sub-${++sequence}`,
+    topic,
+    autoAck: true,
+    maxRetries: 2,
+    handler,
+    ...options,
+  });
+
+  beforeEach(async () => {
+    redis = new StubRedis();
+    consumerState = new ConsumerStateService();
+    deadLetters = new DeadLetterCacheService({
+      adapter: MessagingAdapterType.REDIS,
+    });
+    adapters = [];
+    adapter = await createAdapter();
+  });
+
+  afterEach(async () => {
+    for (const created of adapters) {
+      await created.disconnect();
+    }
+  });
+
+  describe("发布", () => {
+    it("应该以 XADD 写入主题流，并按 maxLen 裁剪", async () => {
+      const bounded = await createAdapter({ maxLen: 3 });
+      for (let i = 0; i < 5; i++) {
+        await bounded.publish(message("user.created", TENANT_A, i));
+      }
+
+      const records = redis.records(STREAM);
+      expect(records).toHaveLength(3);
+      expect(records[2]).toMatchObject({
+        topic: "user.created",
+        body: JSON.stringify({ data: 4 }),
+        headers: JSON.stringify({ [MESSAGE_HEADERS.TENANT_ID]: TENANT_A }),
+      });
+      expect(bounded.getConnectionInfo()).toMatchObject({
+        adapter: MessagingAdapterType.REDIS,
+        connected: true,
+      });
+    });
+  });
+
+  describe("消费", () => {
+    it("应该还原消息，并在处理成功后 XACK", async () => {
+      const received: Message[] = [];
+      const sub = subscription(
+        "user.created",
+        (_data, msg) => {
+          received.push(msg);
+        },
+        { group: "projection" },
+      );
+      await adapter.subscribe(sub);
+
+      const published = message("user.created", TENANT_A, { name: "张三" });
+      await adapter.publish(published);
+      await until(() => consumerState.getState(sub.id)?.processed === 1);
+
+      expect(received[0]).toMatchObject({
+        id: published.id,
+        topic: "user.created",
+        data: { name: "张三" },
+        tenantId: TENANT_A,
+        attempts: 1,
+      });
+      expect(redis.group(STREAM, "hl8.projection")?.pending.size).toBe(0);
+    });
+
+    it("同一消费组的订阅应该竞争消费，每条消息只处理一次", async () => {
+      const received: number[] = [];
+      const other = await createAdapter();
+      await adapter.subscribe(
+        subscription("user.created", (data) => received.push(data as number), {
+          group: "billing",
+        }),
+      );
+      await other.subscribe(
+        subscription("user.created", (data) => received.push(data as number), {
+          group: "billing",
+        }),
+      );
+
+      for (let i = 0; i < 4; i++) {
+        await adapter.publish(message("user.created", TENANT_A, i));
+      }
+      await until(() => received.length === 4);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(received.sort()).toEqual([0, 1, 2, 3]);
+    });
+
+    it("未指定消费组的订阅应该各收到一份，取消订阅时删除消费组", async () => {
+      const received: string[] = [];
+      const first = subscription("user.created", () => received.push("a"));
+      await adapter.subscribe(first);
+      await adapter.subscribe(
+        subscription("user.created", () => received.push("b")),
+      );
+
+      await adapter.publish(message("user.created", TENANT_A));
+      await until(() => received.length === 2);
+      expect(received.sort()).toEqual(["a", "b"]);
+
+      await adapter.unsubscribe(first.id);
+      expect(
+        redis.group(STREAM, `hl8.user.created.${first.id}`),
+      ).toBeUndefined();
+    });
+
+    it("限定租户的订阅应该只处理该租户的消息", async () => {
+      const received: unknown[] = [];
+      await adapter.subscribe(
+        subscription("user.created", (data) => received.push(data), {
+          group: "projection",
+          tenantId: TENANT_A,
+        }),
+      );
+
+      await adapter.publish(message("user.created", TENANT_B, "b"));
+      await adapter.publish(message("user.created", TENANT_A, "a"));
+      await until(() => received.length === 1);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      expect(received).toEqual(["a"]);
+      expect(redis.group(STREAM, "hl8.projection")?.pending.size).toBe(0);
+    });
+  });
+
+  describe("重试与死信", () => {
+    it("处理失败时应该在 retryDelay 后重新认领，不阻塞后续消息", async () => {
+      const deliveries: string[] = [];
+      await adapter.subscribe(
+        subscription("user.created", (data, msg) => {
+          deliveries.push(`${data}#${msg.attempts}`);
+          if (data === "first" && msg.attempts === 1) {
+            throw new Error("暂时失败");
+          }
+        }),
+      );
+
+      await adapter.publish(message("user.created", TENANT_A, "first"));
+      await adapter.publish(message("user.created", TENANT_A, "second"));
+      await until(() => deliveries.length === 3);
+
+      expect(deliveries).toEqual(["first#1", "second#1", "first#2"]);
+    });
+
+    it("超过最大重试次数后应该写入死信流和死信缓存", async () => {
+      const sub = subscription(
+        "user.created",
+        () => {
+          throw new Error("永久失败");
+        },
+        { group: "projection", maxRetries: 1 },
+      );
+      await adapter.subscribe(sub);
+
+      const published = message("user.created", TENANT_A);
+      await adapter.publish(published);
+      await until(() => consumerState.getState(sub.id)?.deadLettered === 1);
+
+      expect(redis.records(`${STREAM}:dlq`)[0]).toMatchObject({
+        id: published.id,
+        "death-reason": "永久失败",
+        attempts: "2",
+        "consumer-group": "hl8.projection",
+      });
+      expect(deadLetters.list({ tenantId: TENANT_A })[0]).toMatchObject({
+        adapter: MessagingAdapterType.REDIS,
+        group: "hl8.projection",
+        reason: "永久失败",
+        attempts: 2,
+        message: { id: published.id },
+      });
+      expect(redis.group(STREAM, "hl8.projection")?.pending.size).toBe(0);
+    });
+  });
+
+  describe("认领空闲消息", () => {
+    const deliverToCrashedConsumer = async (published: Message) => {
+      const raw = redis.createClient();
+      await raw.xgroup("CREATE", STREAM, "hl8.projection", "$", "MKSTREAM");
+      await adapter.publish(published);
+      await raw.xreadgroup(
+        "GROUP",
+        "hl8.projection",
+        "crashed",
+        "COUNT",
+        10,
+        "BLOCK",
+        0,
+        "STREAMS",
+        STREAM,
+        ">",
+      );
+      return raw;
+    };
+
+    it("应该认领失效消费者未确认的消息并重新处理", async () => {
+      const published = message("user.created", TENANT_A);
+      await deliverToCrashedConsumer(published);
+
+      const received: Message[] = [];
+      const claimer = await createAdapter({
+        claimIdleTime: 20,
+        claimInterval: 10,
+      });
+      await claimer.subscribe(
+        subscription("user.created", (_data, msg) => received.push(msg), {
+          group: "projection",
+        }),
+      );
+      await until(() => received.length === 1);
+
+      expect(received[0]).toMatchObject({ id: published.id, attempts: 2 });
+      await until(
+        () => redis.group(STREAM, "hl8.projection")?.pending.size === 0,
+      );
+      expect(redis.group(STREAM, "hl8.projection")?.pending.size).toBe(0);
+    });
+
+    it("投递次数超过上限的消息应该直接进入死信，不再执行处理器", async () => {
+      const published = message("user.created", TENANT_A);
+      const raw = await deliverToCrashedConsumer(published);
+      await raw.xclaim(STREAM, "hl8.projection", "crashed", 0, "0-1");
+
+      let handled = 0;
+      const claimer = await createAdapter({
+        claimIdleTime: 20,
+        claimInterval: 10,
+      });
+      const sub = subscription("user.created", () => handled++, {
+        group: "projection",
+        maxRetries: 1,
+      });
+      await claimer.subscribe(sub);
+      await until(() => consumerState.getState(sub.id)?.deadLettered === 1);
+
+      expect(handled).toBe(0);
+      expect(redis.records(`${STREAM}:dlq`)[0]).toMatchObject({
+        id: published.id,
+        attempts: "3",
+      });
+    });
+  });
+
+  it("消费组延迟应该包含未投递和未确认的消息", async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    const sub = subscription("user.created", () => gate, {
+      group: "projection",
+    });
+    await adapter.subscribe(sub);
+
+    await adapter.publish(message("user.created", TENANT_A));
+    await until(
+      () => redis.group(STREAM, "hl8.projection")?.pending.size === 1,
+    );
+    await adapter.publish(message("user.created", TENANT_A));
+    await adapter.publish(message("user.created", TENANT_A));
+
+    const [lag] = await adapter.getConsumerLag();
+    release();
+
+    expect(lag).toMatchObject({
+      adapter: MessagingAdapterType.REDIS,
+      group: "hl8.projection",
+      topic: "user.created",
+      totalLag: 3,
+      partitions: [
+        {
+          partition: 0,
+          committedOffset: "0-1",
+          latestOffset: "0-3",
+          lag: 3,
+        },
+      ],
+    });
+  });
+
+  it("工厂在缺少 redis 配置时应该抛出异常", () => {
+    expect(() =>
+      createMessagingAdapter(
+        { adapter: MessagingAdapterType.REDIS },
+        consumerState,
+        deadLetters,
+      ),
+    ).toThrow(MessagingConfigException);
+  });
+});
@@ -0,0 +1,803 @@
+/**
+ * Redis Streams 消息适配器
+ *
+ * @description 基于 ioredis 的适配器，使用 Redis Streams 消费组实现竞争消费，
+ * 已部署 Redis 的小型环境无需单独的消息中间件
+ *
+ * ## 业务规则
+ *
+ * ### 流与消费组
+ * - 每个逻辑主题一个流，键名为 streamPrefix + topicPrefix + 逻辑主题名，不按租户拆分
+ * - 发布使用 XADD，并按 maxLen 近似裁剪（MAXLEN ~），被裁剪的未确认消息不再重试
+ * - 指定消费组：Redis 消费组名为 {groupPrefix}{group}，同组订阅竞争消费
+ * - 未指定消费组：每个订阅使用独立的消费组，取消订阅时删除
+ * - 新建的消费组从最新消息开始消费
+ * - 每个订阅使用独立的连接执行阻塞读取（XREADGROUP BLOCK）
+ * - 限定租户的订阅确认并跳过其他租户的消息
+ * - 不支持延迟投递，发布选项中的 delay 被忽略
+ *
+ * ### 确认与重试
+ * - 处理器确认后 XACK
+ * - 处理失败时消息保留在待确认列表中，retryDelay 后由同一消费者 XCLAIM 重新处理，不阻塞后续消息
+ * - 超过最大重试次数或显式拒绝的消息写入 {流键名}:dlq 后 XACK，
+ *   并写入 DeadLetterCacheService；无法解析的消息只写入死信流
+ *
+ * ### 认领失效消费者的消息
+ * - 每隔 claimInterval 使用 XAUTOCLAIM 认领空闲超过 claimIdleTime 的待确认消息（包括进程崩溃前未确认的消息）
+ * - 投递次数取自 Redis 的 delivery count，超过 maxRetries + 1 次的消息不再执行处理器，直接进入死信
+ * - 确认或写入死信失败的消息保留在待确认列表中，由认领流程重新处理
+ *
+ * ### 消费组延迟
+ * - 流视为单个分区 0：committedOffset 为 last-delivered-id，latestOffset 为 last-generated-id
+ * - 积压 = 尚未投递的消息数（XINFO GROUPS 的 lag，需要 Redis 7）+ 已投递未确认的消息数
+ *
+ * @example
+ * ```typescript
+ * MessagingModule.forRoot({
+ *   adapter: MessagingAdapterType.REDIS,
+ *   redis: { host: 'localhost', port: 6379, maxLen: 100_000 },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { Redis, type RedisOptions as IoRedisOptions } from "ioredis";
+import { setTimeout as sleep } from "node:timers/promises";
+import { MESSAGE_HEADERS } from "../constants.js";
+import {
+  MessagingConnectionException,
+  MessagingConsumeException,
+  MessagingPublishException,
+} from "../exceptions/messaging.exceptions.js";
+import type { ConsumerStateService } from "../services/consumer-state.service.js";
+import type { DeadLetterCacheService } from "../services/dead-letter-cache.service.js";
+import type {
+  ConsumerLag,
+  Message,
+  MessageSubscription,
+  RedisStreamsOptions,
+} from "../types/messaging.types.js";
+import { MessagingAdapterType } from "../types/messaging.types.js";
+import {
+  type AdapterPublishOptions,
+  BaseMessagingAdapter,
+  type MessagingAdapterOptions,
+} from "./base.adapter.js";
+
+/**
+ * Redis 客户端
+ *
+ * @description ioredis 实例中适配器用到的部分，便于在测试中替换
+ */
+export type RedisStreamsClient = Pick<
+  Redis,
+  | "connect"
+  | "quit"
+  | "disconnect"
+  | "duplicate"
+  | "on"
+  | "xadd"
+  | "xgroup"
+  | "xreadgroup"
+  | "xack"
+  | "xclaim"
+  | "xautoclaim"
+  | "xpending"
+  | "xinfo"
+>;
+
+/**
+ * 创建 Redis 客户端的函数
+ */
+export type RedisClientFactory = (
+  options: IoRedisOptions,
+) => RedisStreamsClient;
+
+const REDIS_DEFAULTS = {
+  HOST: "localhost",
+  PORT: 6379,
+  STREAM_PREFIX: "hl8:stream:",
+  GROUP_PREFIX: "hl8.",
+  MAX_LEN: 10_000,
+  BATCH_SIZE: 10,
+  BLOCK_TIMEOUT: 5000,
+  CLAIM_IDLE_TIME: 30_000,
+  CLAIM_INTERVAL: 10_000,
+} as const;
+
+const REDIS_FIELDS = {
+  MESSAGE_ID: "id",
+  TOPIC: "topic",
+  KEY: "key",
+  HEADERS: "headers",
+  BODY: "body",
+  TIMESTAMP: "timestamp",
+  DEATH_REASON: "death-reason",
+  ATTEMPTS: "attempts",
+  CONSUMER_GROUP: "consumer-group",
+} as const;
+
+const DEAD_LETTER_SUFFIX = ":dlq";
+
+/** 流条目：[条目 ID, 字段名与值交替排列]，已被裁剪的条目字段为 null */
+type StreamEntry = [id: string, fields: string[] | null];
+
+interface ConsumerEntry {
+  subscription: MessageSubscription;
+  groupName: string;
+  streamKey: string;
+  consumerName: string;
+  connection: RedisStreamsClient;
+  active: boolean;
+  claiming: boolean;
+  loop?: Promise<void>;
+  claimTimer?: NodeJS.Timeout;
+  retryTimers: Set<NodeJS.Timeout>;
+}
+
+export class RedisMessagingAdapter extends BaseMessagingAdapter {
+  readonly type = MessagingAdapterType.REDIS;
+
+  private readonly streamPrefix: string;
+  private readonly groupPrefix: string;
+  private readonly maxLen: number;
+  private readonly batchSize: number;
+  private readonly blockTimeout: number;
+  private readonly claimIdleTime: number;
+  private readonly claimInterval: number;
+
+  private client?: RedisStreamsClient;
+  private readonly consumers = new Map<string, ConsumerEntry>();
+
+  constructor(
+    options: MessagingAdapterOptions,
+    private readonly redis: RedisStreamsOptions,
+    private readonly consumerState: ConsumerStateService,
+    private readonly deadLetters: DeadLetterCacheService,
+    private readonly createClient: RedisClientFactory = (config) =>
+      new Redis(config),
+  ) {
+    super(options);
+    this.streamPrefix = redis.streamPrefix ?? REDIS_DEFAULTS.STREAM_PREFIX;
+    this.groupPrefix = redis.groupPrefix ?? REDIS_DEFAULTS.GROUP_PREFIX;
+    this.maxLen = redis.maxLen ?? REDIS_DEFAULTS.MAX_LEN;
+    this.batchSize = redis.batchSize ?? REDIS_DEFAULTS.BATCH_SIZE;
+    this.blockTimeout = redis.blockTimeout ?? REDIS_DEFAULTS.BLOCK_TIMEOUT;
+    this.claimIdleTime = redis.claimIdleTime ?? REDIS_DEFAULTS.CLAIM_IDLE_TIME;
+    this.claimInterval = redis.claimInterval ?? REDIS_DEFAULTS.CLAIM_INTERVAL;
+  }
+
+  /**
+   * 连接 Redis
+   *
+   * @throws {MessagingConnectionException} 连接失败时
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected()) {
+      return;
+    }
+
+    const client = this.createClient({
+      host: this.redis.host ?? REDIS_DEFAULTS.HOST,
+      port: this.redis.port ?? REDIS_DEFAULTS.PORT,
+      password: this.redis.password,
+      db: this.redis.db,
+      lazyConnect: true,
+    });
+    client.on("error", (error: Error) => {
+      this.logger.error(`Redis 错误: ${error.message}`, undefined, {
+        error: error.message,
+        stack: error.stack,
+      });
+    });
+
+    try {
+      await client.connect();
+    } catch (error) {
+      client.disconnect();
+      this.markDisconnected(error as Error);
+      throw new MessagingConnectionException(
+        "消息队列连接失败",
+        `无法连接 Redis：${(error as Error).message}`,
+        { adapter: this.type, host: this.redis.host, port: this.redis.port },
+        error as Error,
+      );
+    }
+
+    this.client = client;
+    this.markConnected();
+  }
+
+  async disconnect(): Promise<void> {
+    const entries = Array.from(this.consumers.values());
+    this.consumers.clear();
+    for (const entry of entries) {
+      this.consumerState.remove(entry.subscription.id);
+      await this.stopConsumer(entry);
+    }
+
+    await this.client?.quit().catch(() => this.client?.disconnect());
+    this.client = undefined;
+    this.markDisconnected();
+  }
+
+  /**
+   * 发布消息
+   *
+   * @throws {MessagingPublishException} Redis 拒绝写入时
+   */
+  async publish(
+    message: Message,
+    options: AdapterPublishOptions = {},
+  ): Promise<void> {
+    this.assertConnected();
+    if (options.delay) {
+      this.logger.warn(
+        `Redis Streams 不支持延迟投递，忽略消息 ${message.id} 的 delay`,
+      );
+    }
+
+    try {
+      await this.append(this.streamKey(message.topic), this.encode(message));
+    } catch (error) {
+      throw new MessagingPublishException(
+        "消息发布失败",
+        `Redis 未接受消息 ${message.id}：${(error as Error).message}`,
+        { topic: message.topic, messageId: message.id },
+      );
+    }
+  }
+
+  /**
+   * 建立订阅
+   *
+   * @description 创建消费组（已存在时复用），启动阻塞读取和定时认领
+   *
+   * @throws {MessagingConsumeException} 创建消费组失败时
+   */
+  async subscribe(subscription: MessageSubscription): Promise<void> {
+    this.assertConnected();
+
+    const streamKey = this.streamKey(subscription.topic);
+    const groupName = subscription.group
+      ? `${this.groupPrefix}${subscription.group}`
+      : `${this.groupPrefix}${subscription.topic}.${subscription.id}`;
+    const entry: ConsumerEntry = {
+      subscription,
+      groupName,
+      streamKey,
+      consumerName: subscription.id,
+      connection: this.client!.duplicate(),
+      active: true,
+      claiming: false,
+      retryTimers: new Set(),
+    };
+
+    try {
+      await this.ensureGroup(entry);
+    } catch (error) {
+      entry.connection.disconnect();
+      throw new MessagingConsumeException(
+        "创建消费者失败",
+        `无法在 ${streamKey} 上创建消费组 ${groupName}：${(error as Error).message}`,
+        { topic: subscription.topic, group: groupName },
+        error as Error,
+      );
+    }
+
+    this.consumers.set(subscription.id, entry);
+    this.consumerState.register({
+      consumerId: subscription.id,
+      adapter: this.type,
+      topic: subscription.topic,
+      group: subscription.group,
+      tenantId: subscription.tenantId,
+      source: streamKey,
+      consumerTag: entry.consumerName,
+    });
+
+    entry.loop = this.consume(entry);
+    entry.claimTimer = setInterval(
+      () => void this.claimStale(entry),
+      this.claimInterval,
+    );
+    entry.claimTimer.unref();
+    void this.claimStale(entry);
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    const entry = this.consumers.get(subscriptionId);
+    if (!entry) {
+      return;
+    }
+
+    this.consumers.delete(subscriptionId);
+    this.consumerState.remove(subscriptionId);
+    await this.stopConsumer(entry);
+  }
+
+  /**
+   * 获取消费组延迟
+   *
+   * @returns 当前实例订阅的各消费组、各流的积压
+   */
+  override async getConsumerLag(): Promise<ConsumerLag[]> {
+    const client = this.client;
+    if (!client) {
+      return [];
+    }
+
+    const targets = new Map<string, ConsumerEntry>();
+    for (const entry of this.consumers.values()) {
+      targets.set(`${entry.groupName}\u0000${entry.streamKey}`, entry);
+    }
+
+    return Promise.all(
+      Array.from(targets.values()).map(
+        async ({ groupName, streamKey, subscription }) => {
+          const [groups, stream] = await Promise.all([
+            client.xinfo("GROUPS", streamKey) as Promise<unknown[][]>,
+            client.xinfo("STREAM", streamKey) as Promise<unknown[]>,
+          ]);
+          const group = groups
+            .map((fields) => this.toRecord(fields))
+            .find(({ name }) => name === groupName);
+          const lag = Number(group?.pending ?? 0) + Number(group?.lag ?? 0);
+
+          return {
+            adapter: this.type,
+            group: groupName,
+            topic: subscription.topic,
+            partitions: [
+              {
+                partition: 0,
+                committedOffset: String(group?.["last-delivered-id"] ?? "-1"),
+                latestOffset: String(
+                  this.toRecord(stream)["last-generated-id"] ?? "0-0",
+                ),
+                lag,
+              },
+            ],
+            totalLag: lag,
+            measuredAt: new Date(),
+          };
+        },
+      ),
+    );
+  }
+
+  /**
+   * 创建消费组，已存在时忽略
+   */
+  private async ensureGroup(entry: ConsumerEntry): Promise<void> {
+    try {
+      await this.client!.xgroup(
+        "CREATE",
+        entry.streamKey,
+        entry.groupName,
+        "$",
+        "MKSTREAM",
+      );
+    } catch (error) {
+      if (!(error as Error).message.startsWith("BUSYGROUP")) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 阻塞读取新消息并逐条处理
+   */
+  private async consume(entry: ConsumerEntry): Promise<void> {
+    const { subscription } = entry;
+
+    while (entry.active) {
+      let reply: [string, StreamEntry[]][] | null;
+      try {
+        reply = (await entry.connection.xreadgroup(
+          "GROUP",
+          entry.groupName,
+          entry.consumerName,
+          "COUNT",
+          this.batchSize,
+          "BLOCK",
+          this.blockTimeout,
+          "STREAMS",
+          entry.streamKey,
+          ">",
+        )) as [string, StreamEntry[]][] | null;
+      } catch (error) {
+        if (!entry.active) {
+          return;
+        }
+        const reason = (error as Error).message;
+        this.consumerState.setStatus(subscription.id, "disconnected", reason);
+        this.logger.error(
+          `读取 Redis 流失败: ${entry.streamKey} / ${entry.groupName}`,
+          undefined,
+          { error: reason, stack: (error as Error).stack },
+        );
+        await sleep(this.retryDelay);
+        if (reason.startsWith("NOGROUP")) {
+          // 流或消费组被删除：重新创建后继续消费
+          await this.ensureGroup(entry).catch(() => undefined);
+        }
+        continue;
+      }
+
+      if (this.consumerState.getState(subscription.id)?.status !== "active") {
+        this.consumerState.setStatus(subscription.id, "active");
+      }
+      for (const [, entries] of reply ?? []) {
+        for (const [id, fields] of entries) {
+          if (!entry.active) {
+            return;
+          }
+          await this.handleEntryGuarded(entry, id, fields, 1);
+        }
+      }
+    }
+  }
+
+  /**
+   * 认领空闲超过 claimIdleTime 的待确认消息并重新处理
+   */
+  private async claimStale(entry: ConsumerEntry): Promise<void> {
+    if (!entry.active || entry.claiming || !this.client) {
+      return;
+    }
+
+    const client = this.client;
+    entry.claiming = true;
+    try {
+      let cursor = "0-0";
+      do {
+        const [next, entries] = (await client.xautoclaim(
+          entry.streamKey,
+          entry.groupName,
+          entry.consumerName,
+          this.claimIdleTime,
+          cursor,
+          "COUNT",
+          this.batchSize,
+        )) as [string, StreamEntry[]];
+        cursor = next;
+
+        for (const [id, fields] of entries) {
+          if (!entry.active) {
+            return;
+          }
+          const attempts = await this.deliveryCount(entry, id);
+          this.logger.warn(
+            `认领空闲消息 ${entry.streamKey}@${id}（${entry.groupName}，第 ${attempts} 次投递）`,
+          );
+          await this.handleEntryGuarded(entry, id, fields, attempts);
+        }
+      } while (cursor !== "0-0" && entry.active);
+    } catch (error) {
+      this.logger.error(
+        `认领待确认消息失败: ${entry.streamKey} / ${entry.groupName}`,
+        undefined,
+        { error: (error as Error).message, stack: (error as Error).stack },
+      );
+    } finally {
+      entry.claiming = false;
+    }
+  }
+
+  /**
+   * 重新认领失败的消息并再次处理
+   */
+  private async retry(
+    entry: ConsumerEntry,
+    id: string,
+    attempts: number,
+  ): Promise<void> {
+    if (!entry.active || !this.client) {
+      return;
+    }
+
+    try {
+      const claimed = (await this.client.xclaim(
+        entry.streamKey,
+        entry.groupName,
+        entry.consumerName,
+        0,
+        id,
+      )) as StreamEntry[];
+      for (const [claimedId, fields] of claimed) {
+        await this.handleEntryGuarded(entry, claimedId, fields, attempts);
+      }
+    } catch (error) {
+      this.logger.error(
+        `重新认领消息失败: ${entry.streamKey}@${id}`,
+        undefined,
+        { error: (error as Error).message, stack: (error as Error).stack },
+      );
+    }
+  }
+
+  /**
+   * 处理单条消息，确认失败时只记录日志（消息保留在待确认列表中，由认领流程重新处理）
+   */
+  private async handleEntryGuarded(
+    entry: ConsumerEntry,
+    id: string,
+    fields: string[] | null,
+    attempts: number,
+  ): Promise<void> {
+    try {
+      await this.handleEntry(entry, id, fields, attempts);
+    } catch (error) {
+      this.logger.error(
+        `确认消息失败: ${entry.streamKey}@${id}（${entry.groupName}）`,
+        undefined,
+        { error: (error as Error).message, stack: (error as Error).stack },
+      );
+    }
+  }
+
+  private async handleEntry(
+    entry: ConsumerEntry,
+    id: string,
+    fields: string[] | null,
+    attempts: number,
+  ): Promise<void> {
+    const { subscription, streamKey, groupName } = entry;
+    const client = this.client!;
+
+    if (!fields) {
+      // 条目已被 MAXLEN 裁剪，无法重试
+      await client.xack(streamKey, groupName, id);
+      return;
+    }
+
+    let message: Message;
+    try {
+      message = this.decode(fields);
+    } catch (error) {
+      const reason = `无法解析消息: ${(error as Error).message}`;
+      await this.moveToDeadLetter(entry, id, fields, reason, attempts);
+      this.consumerState.recordFailure(
+        subscription.id,
+        undefined,
+        reason,
+        true,
+      );
+      this.logger.warn(`${streamKey}@${id} 无法解析，已写入死信: ${reason}`);
+      return;
+    }
+
+    if (!this.matches(subscription, message)) {
+      await client.xack(streamKey, groupName, id);
+      return;
+    }
+
+    if (attempts > subscription.maxRetries + 1) {
+      const reason = `超过最大投递次数 ${subscription.maxRetries + 1}`;
+      await this.moveToDeadLetter(entry, id, fields, reason, attempts);
+      this.recordDeadLetter(entry, message, reason, attempts);
+      return;
+    }
+
+    await this.dispatch(subscription, message, attempts, {
+      ack: async () => {
+        await client.xack(streamKey, groupName, id);
+        this.consumerState.recordProcessed(subscription.id, message.id);
+      },
+      nack: async (requeue, reason) => {
+        if (requeue) {
+          this.consumerState.recordFailure(
+            subscription.id,
+            message.id,
+            reason,
+            false,
+          );
+          this.scheduleRetry(entry, id, attempts + 1);
+          return;
+        }
+        await this.moveToDeadLetter(entry, id, fields, reason, attempts);
+        this.recordDeadLetter(entry, message, reason, attempts);
+      },
+    });
+  }
+
+  private scheduleRetry(
+    entry: ConsumerEntry,
+    id: string,
+    attempts: number,
+  ): void {
+    const timer = setTimeout(() => {
+      entry.retryTimers.delete(timer);
+      void this.retry(entry, id, attempts);
+    }, this.retryDelay);
+    entry.retryTimers.add(timer);
+  }
+
+  /**
+   * 查询消息的投递次数
+   */
+  private async deliveryCount(
+    entry: ConsumerEntry,
+    id: string,
+  ): Promise<number> {
+    const [pending] = (await this.client!.xpending(
+      entry.streamKey,
+      entry.groupName,
+      id,
+      id,
+      1,
+    )) as [string, string, number, number][];
+    return pending ? Number(pending[3]) : 1;
+  }
+
+  /**
+   * 写入死信流并确认原消息
+   */
+  private async moveToDeadLetter(
+    entry: ConsumerEntry,
+    id: string,
+    fields: string[],
+    reason: string,
+    attempts: number,
+  ): Promise<void> {
+    await this.append(`${entry.streamKey}${DEAD_LETTER_SUFFIX}`, [
+      ...fields,
+      REDIS_FIELDS.DEATH_REASON,
+      reason,
+      REDIS_FIELDS.ATTEMPTS,
+      String(attempts),
+      REDIS_FIELDS.CONSUMER_GROUP,
+      entry.groupName,
+    ]);
+    await this.client!.xack(entry.streamKey, entry.groupName, id);
+  }
+
+  private recordDeadLetter(
+    entry: ConsumerEntry,
+    message: Message,
+    reason: string,
+    attempts: number,
+  ): void {
+    this.deadLetters.add(
+      this.type,
+      {
+        message,
+        physicalTopic: entry.streamKey,
+        reason,
+        attempts,
+        deadLetteredAt: new Date(),
+      },
+      entry.groupName,
+    );
+    this.consumerState.recordFailure(
+      entry.subscription.id,
+      message.id,
+      reason,
+      true,
+    );
+    this.logger.warn(
+      `消息 ${message.id} 在 ${entry.groupName} 投递 ${attempts} 次后进入死信: ${reason}`,
+    );
+  }
+
+  private async append(streamKey: string, fields: string[]): Promise<void> {
+    await this.client!.xadd(
+      streamKey,
+      "MAXLEN",
+      "~",
+      this.maxLen,
+      "*",
+      ...fields,
+    );
+  }
+
+  private streamKey(topic: string): string {
+    return `${this.streamPrefix}${this.resolveTopic(topic)}`;
+  }
+
+  private encode(message: Message): string[] {
+    const fields = [
+      REDIS_FIELDS.MESSAGE_ID,
+      message.id,
+      REDIS_FIELDS.TOPIC,
+      message.topic,
+      REDIS_FIELDS.HEADERS,
+      JSON.stringify(message.headers),
+      REDIS_FIELDS.BODY,
+      JSON.stringify({ data: message.data }),
+      REDIS_FIELDS.TIMESTAMP,
+      String(message.timestamp.getTime()),
+    ];
+    if (message.key) {
+      fields.push(REDIS_FIELDS.KEY, message.key);
+    }
+    return fields;
+  }
+
+  /**
+   * 还原消息
+   *
+   * @throws {Error} 缺少消息 ID、主题或消息体，消息体或消息头不是 JSON 时
+   */
+  private decode(fields: string[]): Message {
+    const record = this.toRecord(fields) as Record<string, string | undefined>;
+    const id = record[REDIS_FIELDS.MESSAGE_ID];
+    const topic = record[REDIS_FIELDS.TOPIC];
+    const body = record[REDIS_FIELDS.BODY];
+    if (!id || !topic || !body) {
+      throw new Error("缺少 id、topic 或 body 字段");
+    }
+
+    const headers = JSON.parse(record[REDIS_FIELDS.HEADERS] ?? "{}") as Record<
+      string,
+      string
+    >;
+    return {
+      id,
+      topic,
+      data: (JSON.parse(body) as { data?: unknown }).data,
+      headers,
+      tenantId: headers[MESSAGE_HEADERS.TENANT_ID],
+      key: record[REDIS_FIELDS.KEY],
+      timestamp: new Date(Number(record[REDIS_FIELDS.TIMESTAMP] ?? Date.now())),
+    };
+  }
+
+  /**
+   * 把 Redis 返回的 [名, 值, 名, 值...] 转换为对象
+   */
+  private toRecord(fields: unknown[]): Record<string, unknown> {
+    const record: Record<string, unknown> = {};
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      record[String(fields[i])] = fields[i + 1];
+    }
+    return record;
+  }
+
+  private async stopConsumer(entry: ConsumerEntry): Promise<void> {
+    entry.active = false;
+    clearInterval(entry.claimTimer);
+    for (const timer of entry.retryTimers) {
+      clearTimeout(timer);
+    }
+    entry.retryTimers.clear();
+
+    // 断开专用连接以中断阻塞读取
+    entry.connection.disconnect();
+    await entry.loop?.catch(() => undefined);
+
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+    try {
+      if (!entry.subscription.group) {
+        await client.xgroup("DESTROY", entry.streamKey, entry.groupName);
+        return;
+      }
+      // 没有待确认消息时删除消费者，有则保留给其他消费者认领
+      const pending = (await client.xpending(
+        entry.streamKey,
+        entry.groupName,
+        "-",
+        "+",
+        1,
+        entry.consumerName,
+      )) as unknown[];
+      if (pending.length === 0) {
+        await client.xgroup(
+          "DELCONSUMER",
+          entry.streamKey,
+          entry.groupName,
+          entry.consumerName,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `清理 Redis 消费组失败: ${entry.groupName}（${(error as Error).message}）`,
+      );
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Messaging 模块常量定义
+ *
+ * @description 定义消息模块中使用的依赖注入令牌、装饰器元数据键、消息头名称和默认值
+ *
+ * @since 1.1.0
+ */
+
+/**
+ * 依赖注入令牌
+ */
+export const DI_TOKENS = {
+  /**
+   * 消息模块配置选项
+   *
+   * @example
+   * ```typescript
+   * @Inject(DI_TOKENS.MODULE_OPTIONS)
+   * private readonly options: MessagingModuleOptions
+   * ```
+   */
+  MODULE_OPTIONS: "MESSAGING_MODULE_OPTIONS",
+
+  /**
+   * 当前使用的消息适配器（BaseMessagingAdapter 实例）
+   */
+  MESSAGING_ADAPTER: "MESSAGING_ADAPTER",
+} as const;
+
+/**
+ * 装饰器元数据键
+ *
+ * @description 元数据存放在类构造函数上，值为处理器定义数组
+ */
+export const DECORATOR_METADATA = {
+  /** @MessageHandler() */
+  MESSAGE_HANDLERS: "messaging:message-handlers",
+  /** @EventHandler() */
+  EVENT_HANDLERS: "messaging:event-handlers",
+  /** @TaskHandler() */
+  TASK_HANDLERS: "messaging:task-handlers",
+} as const;
+
+/**
+ * 消息头名称
+ *
+ * @description 隔离标识与 @hl8/nestjs-isolation 的请求头保持一致，
+ * 消费端据此恢复发布方的隔离上下文
+ */
+export const MESSAGE_HEADERS = {
+  TENANT_ID: "x-tenant-id",
+  ORGANIZATION_ID: "x-organization-id",
+  DEPARTMENT_ID: "x-department-id",
+  USER_ID: "x-user-id",
+} as const;
+
+/**
+ * 事件和任务的主题前缀
+ *
+ * @description EventService 与 TaskService 基于 MessagingService 的主题实现，
+ * 使用独立前缀避免与业务主题冲突
+ */
+export const TOPIC_NAMESPACES = {
+  EVENT: "events.",
+  TASK: "tasks.",
+} as const;
+
+/**
+ * 消息模块配置默认值
+ */
+export const MESSAGING_DEFAULTS = {
+  /** 主题前缀 */
+  TOPIC_PREFIX: "",
+  /** 处理失败后的最大重试次数（不含首次投递） */
+  MAX_RETRIES: 3,
+  /** 重新投递前的等待时间（毫秒） */
+  RETRY_DELAY: 1000,
+} as const;
@@ -0,0 +1,62 @@
+import "reflect-metadata";
+import { DECORATOR_METADATA } from "../constants.js";
+import type { SubscribeOptions } from "../types/messaging.types.js";
+
+/**
+ * 事件处理器元数据
+ */
+export interface EventHandlerMetadata {
+  /** 事件名 */
+  eventName: string;
+  /** 方法名 */
+  methodName: string | symbol;
+  /** 订阅选项 */
+  options: SubscribeOptions;
+}
+
+/**
+ * 事件处理器装饰器
+ *
+ * @description 标记 Provider 的方法为事件监听器，模块初始化时自动调用
+ * EventService.on() 注册
+ *
+ * @param eventName - 事件名
+ * @param options - 订阅选项（多实例部署时建议指定 group）
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class OrderNotifier {
+ *   @EventHandler('order.completed', { group: 'order-notifier' })
+ *   async onOrderCompleted(event: OrderCompletedEvent) {
+ *     await this.mailer.sendReceipt(event.orderId);
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export function EventHandler(
+  eventName: string,
+  options: SubscribeOptions = {},
+): MethodDecorator {
+  return (target, propertyKey) => {
+    const handlers = [...getEventHandlers(target.constructor)];
+    handlers.push({ eventName, methodName: propertyKey, options });
+    Reflect.defineMetadata(
+      DECORATOR_METADATA.EVENT_HANDLERS,
+      handlers,
+      target.constructor,
+    );
+  };
+}
+
+/**
+ * 获取类上声明的事件处理器
+ *
+ * @param target - 类构造函数
+ * @returns 事件处理器元数据
+ */
+export function getEventHandlers(target: object): EventHandlerMetadata[] {
+  return Reflect.getMetadata(DECORATOR_METADATA.EVENT_HANDLERS, target) ?? [];
+}
@@ -0,0 +1,68 @@
+import "reflect-metadata";
+import { DECORATOR_METADATA } from "../constants.js";
+import type { SubscribeOptions } from "../types/messaging.types.js";
+
+/**
+ * 消息处理器元数据
+ */
+export interface MessageHandlerMetadata {
+  /** 逻辑主题名 */
+  topic: string;
+  /** 方法名 */
+  methodName: string | symbol;
+  /** 订阅选项 */
+  options: SubscribeOptions;
+}
+
+/**
+ * 消息处理器装饰器
+ *
+ * @description 标记 Provider 的方法为主题处理器，模块初始化时自动调用
+ * MessagingService.subscribe() 订阅
+ *
+ * ## 业务规则
+ *
+ * - 方法签名与 MessageListener 一致：(data, message) => unknown
+ * - 方法在所属实例上调用，可以使用注入的依赖
+ * - 只扫描单例 Provider，请求作用域的 Provider 不会被注册
+ *
+ * @param topic - 逻辑主题名
+ * @param options - 订阅选项
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class UserProjection {
+ *   @MessageHandler('user.created', { group: 'user-projection' })
+ *   async onUserCreated(data: UserCreatedPayload, message: ReceivedMessage) {
+ *     await this.repository.insert(data);
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export function MessageHandler(
+  topic: string,
+  options: SubscribeOptions = {},
+): MethodDecorator {
+  return (target, propertyKey) => {
+    const handlers = [...getMessageHandlers(target.constructor)];
+    handlers.push({ topic, methodName: propertyKey, options });
+    Reflect.defineMetadata(
+      DECORATOR_METADATA.MESSAGE_HANDLERS,
+      handlers,
+      target.constructor,
+    );
+  };
+}
+
+/**
+ * 获取类上声明的消息处理器
+ *
+ * @param target - 类构造函数
+ * @returns 消息处理器元数据
+ */
+export function getMessageHandlers(target: object): MessageHandlerMetadata[] {
+  return Reflect.getMetadata(DECORATOR_METADATA.MESSAGE_HANDLERS, target) ?? [];
+}
@@ -0,0 +1,66 @@
+import "reflect-metadata";
+import { DECORATOR_METADATA } from "../constants.js";
+
+/**
+ * 任务处理器元数据
+ */
+export interface TaskHandlerMetadata {
+  /** 任务名 */
+  taskName: string;
+  /** 方法名 */
+  methodName: string | symbol;
+  /** 处理器选项 */
+  options: { maxRetries?: number };
+}
+
+/**
+ * 任务处理器装饰器
+ *
+ * @description 标记 Provider 的方法为任务处理器，模块初始化时自动调用
+ * TaskService.processTask() 注册
+ *
+ * ## 业务规则
+ *
+ * - 方法签名与 TaskProcessor 一致：(data, task) => unknown
+ * - 同一任务名只能有一个处理器，重复声明时模块初始化失败
+ *
+ * @param taskName - 任务名
+ * @param options.maxRetries - 最大重试次数
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class EmailWorker {
+ *   @TaskHandler('send-email', { maxRetries: 5 })
+ *   async send(data: SendEmailData) {
+ *     await this.mailer.send(data);
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.1.0
+ */
+export function TaskHandler(
+  taskName: string,
+  options: { maxRetries?: number } = {},
+): MethodDecorator {
+  return (target, propertyKey) => {
+    const handlers = [...getTaskHandlers(target.constructor)];
+    handlers.push({ taskName, methodName: propertyKey, options });
+    Reflect.defineMetadata(
+      DECORATOR_METADATA.TASK_HANDLERS,
+      handlers,
+      target.constructor,
+    );
+  };
+}
+
+/**
+ * 获取类上声明的任务处理器
+ *
+ * @param target - 类构造函数
+ * @returns 任务处理器元数据
+ */
+export function getTaskHandlers(target: object): TaskHandlerMetadata[] {
+  return Reflect.getMetadata(DECORATOR_METADATA.TASK_HANDLERS, target) ?? [];
+}
@@ -0,0 +1,142 @@
+/**
+ * 事件服务
+ *
+ * @description 在 MessagingService 之上提供按事件名发布和监听的事件总线
+ *
+ * ## 业务规则
+ *
+ * - 事件发布到 events.{eventName} 主题，与业务主题互不干扰
+ * - 未指定消费组时每个监听器都收到事件；多实例部署时应为监听器指定 group
+ * - once() 注册的监听器在首次处理完成后自动移除
+ * - 使用 @EventHandler() 装饰的方法在模块初始化时自动注册
+ *
+ * @example
+ * ```typescript
+ * await eventService.emit('order.completed', { orderId });
+ *
+ * await eventService.on('order.completed', async (event) => {
+ *   await this.notify(event.orderId);
+ * }, { group: 'notification' });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { Injectable } from "@nestjs/common";
+import { TOPIC_NAMESPACES } from "./constants.js";
+import { MessagingService } from "./messaging.service.js";
+import type {
+  MessageListener,
+  PublishOptions,
+  SubscribeOptions,
+} from "./types/messaging.types.js";
+
+@Injectable()
+export class EventService {
+  private readonly listeners = new Map<string, Map<MessageListener, string>>();
+
+  constructor(private readonly messagingService: MessagingService) {}
+
+  /**
+   * 发布事件
+   *
+   * @param eventName - 事件名
+   * @param data - 事件数据
+   * @param options - 发布选项
+   * @returns 消息 ID
+   */
+  emit<T>(
+    eventName: string,
+    data: T,
+    options?: PublishOptions,
+  ): Promise<string> {
+    return this.messagingService.publish(
+      this.toTopic(eventName),
+      data,
+      options,
+    );
+  }
+
+  /**
+   * 注册事件监听器
+   *
+   * @param eventName - 事件名
+   * @param listener - 监听器
+   * @param options - 订阅选项
+   */
+  async on<T>(
+    eventName: string,
+    listener: MessageListener<T>,
+    options?: SubscribeOptions,
+  ): Promise<void> {
+    const subscriptionId = await this.messagingService.subscribe(
+      this.toTopic(eventName),
+      listener,
+      options,
+    );
+
+    const registered = this.listeners.get(eventName) ?? new Map();
+    registered.set(listener as MessageListener, subscriptionId);
+    this.listeners.set(eventName, registered);
+  }
+
+  /**
+   * 注册只执行一次的事件监听器
+   *
+   * @param eventName - 事件名
+   * @param listener - 监听器
+   * @param options - 订阅选项
+   */
+  async once<T>(
+    eventName: string,
+    listener: MessageListener<T>,
+    options?: SubscribeOptions,
+  ): Promise<void> {
+    let handled = false;
+    const wrapper: MessageListener<T> = async (data, message) => {
+      if (handled) {
+        return;
+      }
+      await listener(data, message);
+      handled = true;
+      await this.off(eventName, wrapper as MessageListener);
+    };
+
+    await this.on(eventName, wrapper, options);
+  }
+
+  /**
+   * 移除事件监听器
+   *
+   * @param eventName - 事件名
+   * @param listener - 监听器，未指定时移除该事件的所有监听器
+   */
+  async off(eventName: string, listener?: MessageListener): Promise<void> {
+    const registered = this.listeners.get(eventName);
+    if (!registered) {
+      return;
+    }
+
+    for (const [candidate, subscriptionId] of registered) {
+      if (!listener || candidate === listener) {
+        registered.delete(candidate);
+        await this.messagingService.cancelSubscription(subscriptionId);
+      }
+    }
+
+    if (registered.size === 0) {
+      this.listeners.delete(eventName);
+    }
+  }
+
+  /**
+   * 获取已注册监听器的事件名
+   */
+  getEventNames(): string[] {
+    return Array.from(this.listeners.keys());
+  }
+
+  private toTopic(eventName: string): string {
+    return `${TOPIC_NAMESPACES.EVENT}${eventName}`;
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  GeneralBadRequestException,
+  GeneralInternalServerException,
+  GeneralNotFoundException,
+} from "@hl8/exceptions";
+
+/**
+ * 消息队列连接异常
+ *
+ * @description 适配器连接失败，或在未连接时发布、订阅消息
+ *
+ * ## 业务规则
+ *
+ * ### 触发条件
+ * - 消息中间件不可用、认证失败
+ * - 适配器已断开或尚未连接
+ *
+ * ### 响应规则
+ * - HTTP状态码：500 Internal Server Error
+ *
+ * @example
+ * ```typescript
+ * throw new MessagingConnectionException(
+ *   '消息队列未连接',
+ *   '适配器 memory 尚未连接',
+ *   { adapter: 'memory' },
+ * );
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class MessagingConnectionException extends GeneralInternalServerException {
+  constructor(
+    title: string,
+    detail: string,
+    data?: Record<string, unknown>,
+    rootCause?: Error,
+  ) {
+    super(title, detail, data, rootCause);
+  }
+}
+
+/**
+ * 消息发布异常
+ *
+ * @description 消息无法发布到指定主题
+ *
+ * ## 业务规则
+ *
+ * ### 触发条件
+ * - 主题名为空
+ * - 适配器拒绝了消息
+ *
+ * ### 响应规则
+ * - HTTP状态码：400 Bad Request
+ *
+ * @example
+ * ```typescript
+ * throw new MessagingPublishException(
+ *   '消息发布失败',
+ *   '主题名不能为空',
+ *   { topic },
+ * );
+ * ```
+ *
+ * @since 1.1.0
+ */
+export class MessagingPublishException extends GeneralBadRequestException {
+  constructor(title: string, detail: string, data?: Record<string, unknown>) {
+    super(title, detail, data);
+  }
+}
+
+/**
+ * 消息消费异常
+ *
+ * @description 订阅或消费消息失败
+ *
+ * ## 业务规则
+ *
+ * ### 触发条件
+ * - 无法在中间件上建立消费者
+ * - 同一任务注册了多个处理器
+ *
+ * ### 响应规则
+ * - HTTP状态码：500 Internal Server Error
+ *
+ * @since 1.1.0
+ */
+export class MessagingConsumeException extends GeneralInternalServerException {
+  constructor(
+    title: string,
+    detail: string,
+    data?: Record<string, unknown>,
+    rootCause?: Error,
+  ) {
+    super(title, detail, data, rootCause);
+  }
+}
+
+/**
+ * 消息适配器未找到异常
+ *
+ * @description 配置的适配器类型不受支持
+ *
+ * ## 业务规则
+ *
+ * ### 响应规则
+ * - HTTP状态码：404 Not Found
+ *
+ * @since 1.1.0
+ */
+export class MessagingAdapterNotFoundException extends GeneralNotFoundException {
+  constructor(adapter: string) {
+    super("消息适配器未找到", `不支持的消息适配器类型：${adapter}`, {
+      adapter,
+    });
+  }
+}
+
+/**
+ * 消息模块配置异常
+ *
+ * @description 所选适配器缺少必要的配置
+ *
+ * ## 业务规则
+ *
+ * ### 触发条件
+ * - 适配器类型为 RABBITMQ 但未提供 rabbitmq 配置
+ * - 适配器类型为 KAFKA 但未提供 kafka 配置
+ * - 适配器类型为 REDIS 但未提供 redis 配置
+ * - 去重存储为 redis 但未提供 Redis 连接配置
+ *
+ * ### 响应规则
+ * - HTTP状态码：500 Internal Server Error
+ *
+ * @since 1.1.0
+ */
+export class MessagingConfigException extends GeneralInternalServerException {
+  constructor(title: string, detail: string, data?: Record<string, unknown>) {
+    super(title, detail, data);
+  }
+}
+
+/**
+ * 消息任务异常
+ *
+ * @description 任务不存在或状态不允许当前操作
+ *
+ * ## 业务规则
+ *
+ * ### 触发条件
+ * - 取消不存在的任务
+ * - 取消已开始执行的任务
+ *
+ * ### 响应规则
+ * - HTTP状态码：400 Bad Request
+ *
+ * @since 1.1.0
+ */
+export class MessagingTaskException extends GeneralBadRequestException {
+  constructor(title: string, detail: string, data?: Record<string, unknown>) {
+    super(title, detail, data);
+  }
+}
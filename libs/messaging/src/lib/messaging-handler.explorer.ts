@@ -0,0 +1,96 @@
+/**
+ * 消息处理器扫描器
+ *
+ * @description 模块初始化时扫描所有单例 Provider 和 Controller，
+ * 将 @MessageHandler、@EventHandler、@TaskHandler 装饰的方法注册到对应服务
+ *
+ * @since 1.1.0
+ */
+
+import { Injectable, Logger, type OnModuleInit } from "@nestjs/common";
+import { DiscoveryService } from "@nestjs/core";
+import { getEventHandlers } from "./decorators/event-handler.decorator.js";
+import { getMessageHandlers } from "./decorators/message-handler.decorator.js";
+import { getTaskHandlers } from "./decorators/task-handler.decorator.js";
+import { EventService } from "./event.service.js";
+import { MessagingService } from "./messaging.service.js";
+import { TaskService } from "./task.service.js";
+
+type HandlerMethod = (...args: unknown[]) => unknown;
+
+@Injectable()
+export class MessagingHandlerExplorer implements OnModuleInit {
+  private readonly logger = new Logger(MessagingHandlerExplorer.name);
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly messagingService: MessagingService,
+    private readonly eventService: EventService,
+    private readonly taskService: TaskService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const wrappers = [
+      ...this.discoveryService.getProviders(),
+      ...this.discoveryService.getControllers(),
+    ];
+
+    for (const wrapper of wrappers) {
+      const { instance } = wrapper;
+      if (
+        !instance ||
+        typeof instance !== "object" ||
+        !wrapper.isDependencyTreeStatic()
+      ) {
+        continue;
+      }
+      await this.register(instance as Record<string | symbol, unknown>);
+    }
+  }
+
+  private async register(
+    instance: Record<string | symbol, unknown>,
+  ): Promise<void> {
+    const target = instance.constructor;
+
+    for (const handler of getMessageHandlers(target)) {
+      await this.messagingService.subscribe(
+        handler.topic,
+        this.bind(instance, handler.methodName),
+        handler.options,
+      );
+      this.logger.log(
+        `已注册消息处理器 ${target.name}.${String(handler.methodName)} -> ${handler.topic}`,
+      );
+    }
+
+    for (const handler of getEventHandlers(target)) {
+      await this.eventService.on(
+        handler.eventName,
+        this.bind(instance, handler.methodName),
+        handler.options,
+      );
+      this.logger.log(
+        `已注册事件处理器 ${target.name}.${String(handler.methodName)} -> ${handler.eventName}`,
+      );
+    }
+
+    for (const handler of getTaskHandlers(target)) {
+      await this.taskService.processTask(
+        handler.taskName,
+        this.bind(instance, handler.methodName),
+        handler.options,
+      );
+      this.logger.log(
+        `已注册任务处理器 ${target.name}.${String(handler.methodName)} -> ${handler.taskName}`,
+      );
+    }
+  }
+
+  private bind(
+    instance: Record<string | symbol, unknown>,
+    methodName: string | symbol,
+  ): HandlerMethod {
+    return (instance[methodName] as HandlerMethod).bind(instance);
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * MessagingModule 集成测试
+ *
+ * @description 使用内存适配器测试处理器自动注册、事件服务和任务服务
+ */
+
+import { Injectable } from "@nestjs/common";
+import { Test, type TestingModule } from "@nestjs/testing";
+import { ClsModule } from "nestjs-cls";
+import type { MemoryMessagingAdapter } from "./adapters/memory.adapter.js";
+import { DI_TOKENS } from "./constants.js";
+import { EventHandler } from "./decorators/event-handler.decorator.js";
+import { MessageHandler } from "./decorators/message-handler.decorator.js";
+import { TaskHandler } from "./decorators/task-handler.decorator.js";
+import { EventService } from "./event.service.js";
+import {
+  MessagingAdapterNotFoundException,
+  MessagingConsumeException,
+} from "./exceptions/messaging.exceptions.js";
+import { MessagingModule } from "./messaging.module.js";
+import { MessagingService } from "./messaging.service.js";
+import { TaskService } from "./task.service.js";
+import {
+  MessagingAdapterType,
+  type ReceivedMessage,
+  TaskStatus,
+} from "./types/messaging.types.js";
+
+@Injectable()
+class OrderHandlers {
+  readonly messages: unknown[] = [];
+  readonly events: unknown[] = [];
+  readonly tasks: unknown[] = [];
+  failuresLeft = 0;
+
+  @MessageHandler("order.created", { group: "orders" })
+  onOrderCreated(data: unknown, message: ReceivedMessage) {
+    this.messages.push({ data, topic: message.topic });
+  }
+
+  @EventHandler("order.completed")
+  onOrderCompleted(event: unknown) {
+    this.events.push(event);
+  }
+
+  @TaskHandler("send-receipt")
+  sendReceipt(data: unknown) {
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error("邮件服务不可用");
+    }
+    this.tasks.push(data);
+  }
+}
+
+describe("MessagingModule", () => {
+  let moduleRef: TestingModule;
+  let adapter: MemoryMessagingAdapter;
+  let handlers: OrderHandlers;
+
+  const createModule = async (
+    imports = [
+      MessagingModule.forRoot({
+        adapter: MessagingAdapterType.MEMORY,
+        retry: { maxRetries: 1, retryDelay: 0 },
+      }),
+    ],
+  ) => {
+    moduleRef = await Test.createTestingModule({
+      imports: [ClsModule.forRoot({ global: true }), ...imports],
+      providers: [OrderHandlers],
+    }).compile();
+    await moduleRef.init();
+
+    adapter = moduleRef.get(DI_TOKENS.MESSAGING_ADAPTER);
+    handlers = moduleRef.get(OrderHandlers);
+  };
+
+  afterEach(async () => {
+    await moduleRef?.close();
+  });
+
+  describe("处理器自动注册", () => {
+    beforeEach(() => createModule());
+
+    it("应该注册 @MessageHandler 方法", async () => {
+      await moduleRef
+        .get(MessagingService)
+        .publish("order.created", { orderId: "o-1" });
+      await adapter.whenIdle();
+
+      expect(handlers.messages).toEqual([
+        { data: { orderId: "o-1" }, topic: "order.created" },
+      ]);
+    });
+
+    it("应该注册 @EventHandler 方法", async () => {
+      await moduleRef
+        .get(EventService)
+        .emit("order.completed", { orderId: "o-1" });
+      await adapter.whenIdle();
+
+      expect(handlers.events).toEqual([{ orderId: "o-1" }]);
+      expect(moduleRef.get(EventService).getEventNames()).toEqual([
+        "order.completed",
+      ]);
+    });
+
+    it("应该注册 @TaskHandler 方法", async () => {
+      const taskService = moduleRef.get(TaskService);
+
+      const taskId = await taskService.addTask("send-receipt", { to: "a@b" });
+      await adapter.whenIdle();
+
+      expect(handlers.tasks).toEqual([{ to: "a@b" }]);
+      expect(taskService.getTaskStatus(taskId)).toBe(TaskStatus.COMPLETED);
+    });
+  });
+
+  describe("EventService", () => {
+    beforeEach(() => createModule());
+
+    it("once() 注册的监听器应该只执行一次", async () => {
+      const eventService = moduleRef.get(EventService);
+      const received: unknown[] = [];
+      await eventService.once("user.login", (event) => {
+        received.push(event);
+      });
+
+      await eventService.emit("user.login", 1);
+      await adapter.whenIdle();
+      await eventService.emit("user.login", 2);
+      await adapter.whenIdle();
+
+      expect(received).toEqual([1]);
+      expect(eventService.getEventNames()).not.toContain("user.login");
+    });
+
+    it("off() 应该移除监听器", async () => {
+      const eventService = moduleRef.get(EventService);
+      const received: unknown[] = [];
+      await eventService.on("user.login", (event) => {
+        received.push(event);
+      });
+
+      await eventService.off("user.login");
+      await eventService.emit("user.login", 1);
+      await adapter.whenIdle();
+
+      expect(received).toEqual([]);
+    });
+  });
+
+  describe("TaskService", () => {
+    beforeEach(() => createModule());
+
+    it("超过最大重试次数后任务状态应该为 FAILED", async () => {
+      const taskService = moduleRef.get(TaskService);
+      handlers.failuresLeft = 5;
+
+      const taskId = await taskService.addTask("send-receipt", {});
+      await adapter.whenIdle();
+
+      expect(taskService.getTaskStatus(taskId)).toBe(TaskStatus.FAILED);
+    });
+
+    it("重试成功后任务状态应该为 COMPLETED", async () => {
+      const taskService = moduleRef.get(TaskService);
+      handlers.failuresLeft = 1;
+
+      const taskId = await taskService.addTask("send-receipt", {});
+      await adapter.whenIdle();
+
+      expect(taskService.getTaskStatus(taskId)).toBe(TaskStatus.COMPLETED);
+      expect(handlers.tasks).toHaveLength(1);
+    });
+
+    it("已取消的任务不应该执行", async () => {
+      const taskService = moduleRef.get(TaskService);
+
+      const taskId = await taskService.addTask(
+        "send-receipt",
+        {},
+        {
+          delay: 20,
+        },
+      );
+      taskService.cancelTask(taskId);
+      await adapter.whenIdle();
+
+      expect(handlers.tasks).toEqual([]);
+      expect(taskService.getTaskStatus(taskId)).toBe(TaskStatus.CANCELLED);
+    });
+
+    it("不应该允许同一任务重复注册处理器", async () => {
+      await expect(
+        moduleRef.get(TaskService).processTask("send-receipt", () => {}),
+      ).rejects.toThrow(MessagingConsumeException);
+    });
+  });
+
+  describe("forRootAsync", () => {
+    it("应该使用工厂函数的配置", async () => {
+      await createModule([
+        MessagingModule.forRootAsync({
+          useFactory: () => ({ adapter: MessagingAdapterType.MEMORY }),
+        }),
+      ]);
+
+      expect(adapter.type).toBe(MessagingAdapterType.MEMORY);
+    });
+
+    it("不支持的适配器类型应该抛出异常", async () => {
+      await expect(
+        createModule([
+          MessagingModule.forRoot({
+            adapter: "unknown" as MessagingAdapterType,
+          }),
+        ]),
+      ).rejects.toThrow(MessagingAdapterNotFoundException);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * 消息模块
+ *
+ * @description 提供消息发布/订阅、事件总线和任务队列
+ *
+ * ## 功能特性
+ *
+ * - 可切换的消息适配器（RabbitMQ、Kafka、Redis Streams；内存适配器用于测试和本地开发）
+ * - 自动传递隔离上下文（发布方的租户等信息随消息头传递给处理器）
+ * - 按租户划分的物理主题
+ * - ack/nack、重试和死信
+ * - @MessageHandler、@EventHandler、@TaskHandler 装饰器自动注册
+ * - 消息统计、消费者状态和消费组延迟监控
+ * - 死信缓存，按租户和主题查询死信
+ * - 消息去重（内存或 Redis 存储），重复投递的消息不再执行处理器
+ *
+ * ## 依赖
+ *
+ * - 需要全局注册 ClsModule（IsolationModule 已包含）
+ *
+ * ## 使用方式
+ *
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     IsolationModule.forRoot(),
+ *     MessagingModule.forRoot({
+ *       adapter: MessagingAdapterType.MEMORY,
+ *       retry: { maxRetries: 3, retryDelay: 1000 },
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import {
+  type DynamicModule,
+  Global,
+  Module,
+  type Provider,
+} from "@nestjs/common";
+import { DiscoveryModule } from "@nestjs/core";
+import { createMessagingAdapter } from "./adapters/messaging-adapter.factory.js";
+import { DI_TOKENS } from "./constants.js";
+import { EventService } from "./event.service.js";
+import { MessagingHandlerExplorer } from "./messaging-handler.explorer.js";
+import { MessagingService } from "./messaging.service.js";
+import { MessagingMonitorService } from "./monitoring/messaging-monitor.service.js";
+import { MessagingStatsService } from "./monitoring/messaging-stats.service.js";
+import { ConsumerStateService } from "./services/consumer-state.service.js";
+import { DeadLetterCacheService } from "./services/dead-letter-cache.service.js";
+import { MessageDeduplicationService } from "./services/message-deduplication.service.js";
+import { TaskService } from "./task.service.js";
+import type {
+  MessagingModuleAsyncOptions,
+  MessagingModuleOptions,
+} from "./types/messaging.types.js";
+
+@Global()
+@Module({})
+export class MessagingModule {
+  /**
+   * 同步配置消息模块
+   *
+   * @param options - 消息模块配置
+   * @returns 动态模块
+   */
+  static forRoot(options: MessagingModuleOptions): DynamicModule {
+    return {
+      module: MessagingModule,
+      imports: [DiscoveryModule],
+      providers: [
+        { provide: DI_TOKENS.MODULE_OPTIONS, useValue: options },
+        ...MessagingModule.createProviders(),
+      ],
+      exports: MessagingModule.exportedProviders(),
+    };
+  }
+
+  /**
+   * 异步配置消息模块
+   *
+   * @param options - 异步配置选项
+   * @returns 动态模块
+   *
+   * @example
+   * ```typescript
+   * MessagingModule.forRootAsync({
+   *   inject: [ConfigService],
+   *   useFactory: (config: ConfigService) => ({
+   *     adapter: config.get('messaging.adapter'),
+   *   }),
+   * })
+   * ```
+   */
+  static forRootAsync(options: MessagingModuleAsyncOptions): DynamicModule {
+    return {
+      module: MessagingModule,
+      imports: [...(options.imports ?? []), DiscoveryModule],
+      providers: [
+        {
+          provide: DI_TOKENS.MODULE_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject ?? [],
+        },
+        ...MessagingModule.createProviders(),
+      ],
+      exports: MessagingModule.exportedProviders(),
+    };
+  }
+
+  private static createProviders(): Provider[] {
+    return [
+      {
+        provide: DI_TOKENS.MESSAGING_ADAPTER,
+        useFactory: createMessagingAdapter,
+        inject: [
+          DI_TOKENS.MODULE_OPTIONS,
+          ConsumerStateService,
+          DeadLetterCacheService,
+        ],
+      },
+      ConsumerStateService,
+      DeadLetterCacheService,
+      MessageDeduplicationService,
+      MessagingStatsService,
+      MessagingMonitorService,
+      MessagingService,
+      EventService,
+      TaskService,
+      MessagingHandlerExplorer,
+    ];
+  }
+
+  private static exportedProviders() {
+    return [
+      DI_TOKENS.MESSAGING_ADAPTER,
+      ConsumerStateService,
+      DeadLetterCacheService,
+      MessageDeduplicationService,
+      MessagingStatsService,
+      MessagingMonitorService,
+      MessagingService,
+      EventService,
+      TaskService,
+    ];
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * MessagingService 单元测试
+ *
+ * @description 使用内存适配器和真实的 ClsService 测试发布、订阅和隔离上下文传递
+ *
+ * @group services
+ */
+
+import {
+  IsolationContext,
+  OrganizationId,
+  TenantId,
+} from "@hl8/isolation-model";
+import { ClsService } from "nestjs-cls";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { MemoryMessagingAdapter } from "./adapters/memory.adapter.js";
+import { MessagingPublishException } from "./exceptions/messaging.exceptions.js";
+import { MessagingService } from "./messaging.service.js";
+import { MessagingStatsService } from "./monitoring/messaging-stats.service.js";
+import { MessageDeduplicationService } from "./services/message-deduplication.service.js";
+import {
+  MessagingAdapterType,
+  type MessagingModuleOptions,
+} from "./types/messaging.types.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+const ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+
+describe("MessagingService", () => {
+  let adapter: MemoryMessagingAdapter;
+  let cls: ClsService;
+  let service: MessagingService;
+  let stats: MessagingStatsService;
+
+  /** 在指定隔离上下文中执行（模拟 HTTP 请求） */
+  const inContext = <T>(context: IsolationContext, fn: () => Promise<T>) =>
+    cls.run(() => {
+      cls.set("ISOLATION_CONTEXT", context);
+      return fn();
+    });
+
+  const createService = (options: Partial<MessagingModuleOptions> = {}) => {
+    const moduleOptions: MessagingModuleOptions = {
+      adapter: MessagingAdapterType.MEMORY,
+      retry: { maxRetries: 1 },
+      ...options,
+    };
+    return new MessagingService(
+      adapter,
+      moduleOptions,
+      cls,
+      stats,
+      new MessageDeduplicationService(moduleOptions),
+    );
+  };
+
+  beforeEach(() => {
+    adapter = new MemoryMessagingAdapter({ retryDelay: 0 });
+    cls = new ClsService(new AsyncLocalStorage());
+    stats = new MessagingStatsService();
+    service = createService();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+  });
+
+  describe("发布", () => {
+    it("应该在首次发布时自动连接", async () => {
+      await service.publish("user.created", {});
+
+      expect(service.isConnected()).toBe(true);
+    });
+
+    it("主题名为空时应该抛出异常", async () => {
+      await expect(service.publish("", {})).rejects.toThrow(
+        MessagingPublishException,
+      );
+    });
+
+    it("应该把隔离上下文写入消息头并以租户 ID 作为分区键", async () => {
+      let received: unknown;
+      await service.subscribe("user.created", (_data, message) => {
+        received = message;
+      });
+
+      const id = await inContext(
+        IsolationContext.organization(
+          TenantId.create(TENANT_A),
+          OrganizationId.create(ORG),
+        ),
+        () => service.publish("user.created", { name: "张三" }),
+      );
+      await adapter.whenIdle();
+
+      expect(received).toMatchObject({
+        id,
+        topic: "user.created",
+        data: { name: "张三" },
+        tenantId: TENANT_A,
+        key: TENANT_A,
+        headers: {
+          "x-tenant-id": TENANT_A,
+          "x-organization-id": ORG,
+        },
+      });
+    });
+
+    it("调用方附加的消息头不能覆盖隔离消息头", async () => {
+      let received: any;
+      await service.subscribe("user.created", (_data, message) => {
+        received = message;
+      });
+
+      await inContext(IsolationContext.tenant(TenantId.create(TENANT_A)), () =>
+        service.publish(
+          "user.created",
+          {},
+          {
+            headers: {
+              "x-tenant-id": TENANT_B,
+              "X-Organization-Id": ORG,
+              "x-trace-id": "trace-1",
+            },
+          },
+        ),
+      );
+      await adapter.whenIdle();
+
+      expect(received.tenantId).toBe(TENANT_A);
+      expect(received.headers).toEqual({
+        "x-tenant-id": TENANT_A,
+        "x-trace-id": "trace-1",
+      });
+    });
+
+    it("应该使用自定义消息 ID", async () => {
+      const id = await service.publish(
+        "user.created",
+        {},
+        {
+          messageId: "custom-id",
+        },
+      );
+
+      expect(id).toBe("custom-id");
+    });
+  });
+
+  describe("订阅", () => {
+    it("处理器应该在发布方的隔离上下文中执行", async () => {
+      const contexts: Array<string | undefined> = [];
+      await service.subscribe("user.created", () => {
+        contexts.push(
+          cls.get<IsolationContext>("ISOLATION_CONTEXT")?.tenantId?.getValue(),
+        );
+      });
+
+      await inContext(IsolationContext.tenant(TenantId.create(TENANT_A)), () =>
+        service.publish("user.created", {}),
+      );
+      await inContext(IsolationContext.tenant(TenantId.create(TENANT_B)), () =>
+        service.publish("user.created", {}),
+      );
+      await service.publish("user.created", {});
+      await adapter.whenIdle();
+
+      expect(contexts.sort()).toEqual([TENANT_A, TENANT_B, undefined].sort());
+    });
+
+    it("应该使用模块配置的最大重试次数", async () => {
+      let count = 0;
+      await service.subscribe("user.created", () => {
+        count++;
+        throw new Error("失败");
+      });
+
+      await service.publish("user.created", {});
+      await adapter.whenIdle();
+
+      expect(count).toBe(2);
+      expect(adapter.getDeadLetters()).toHaveLength(1);
+    });
+
+    it("应该统计发布和处理结果", async () => {
+      let failures = 1;
+      await service.subscribe("user.created", () => {
+        if (failures-- > 0) {
+          throw new Error("失败");
+        }
+      });
+
+      await service.publish("user.created", {});
+      await adapter.whenIdle();
+
+      expect(stats.getStats().topics["user.created"]).toMatchObject({
+        published: 1,
+        processed: 1,
+        failed: 1,
+      });
+    });
+
+    it("应该按主题和处理器取消订阅", async () => {
+      const received: string[] = [];
+      const first = () => {
+        received.push("first");
+      };
+      await service.subscribe("user.created", first);
+      await service.subscribe("user.created", () => {
+        received.push("second");
+      });
+
+      await service.unsubscribe("user.created", first);
+      await service.publish("user.created", {});
+      await adapter.whenIdle();
+
+      expect(received).toEqual(["second"]);
+
+      await service.unsubscribe("user.created");
+      expect(service.getSubscribedTopics()).toEqual([]);
+    });
+  });
+
+  describe("去重", () => {
+    beforeEach(async () => {
+      await service.onModuleDestroy();
+      service = createService({ deduplication: {} });
+    });
+
+    it("重复投递的消息应该直接确认，不再执行处理器", async () => {
+      let count = 0;
+      await service.subscribe("order.created", () => {
+        count++;
+      });
+
+      await service.publish("order.created", {}, { messageId: "order-1" });
+      await adapter.whenIdle();
+      await service.publish("order.created", {}, { messageId: "order-1" });
+      await adapter.whenIdle();
+
+      expect(count).toBe(1);
+      expect(adapter.getDeadLetters()).toHaveLength(0);
+      expect(stats.getStats().topics["order.created"]).toMatchObject({
+        processed: 1,
+        duplicates: 1,
+      });
+    });
+
+    it("不同消费组应该各自处理同一条消息", async () => {
+      const received: string[] = [];
+      await service.subscribe("order.created", () => received.push("a"), {
+        group: "billing",
+      });
+      await service.subscribe("order.created", () => received.push("b"), {
+        group: "shipping",
+      });
+
+      await service.publish("order.created", {}, { messageId: "order-1" });
+      await adapter.whenIdle();
+      await service.publish("order.created", {}, { messageId: "order-1" });
+      await adapter.whenIdle();
+
+      expect(received.sort()).toEqual(["a", "b"]);
+    });
+
+    it("处理失败或拒绝的消息不应该被记录为已处理", async () => {
+      let count = 0;
+      await service.subscribe(
+        "order.created",
+        async (_data, message) => {
+          count++;
+          if (count === 1) {
+            await message.nack({ requeue: false });
+          }
+        },
+        { group: "billing" },
+      );
+
+      await service.publish("order.created", {}, { messageId: "order-1" });
+      await adapter.whenIdle();
+      await service.publish("order.created", {}, { messageId: "order-1" });
+      await adapter.whenIdle();
+
+      expect(count).toBe(2);
+      expect(stats.getStats().duplicates).toBe(0);
+    });
+
+    it("手动确认的订阅应该在 ack 后记录", async () => {
+      let count = 0;
+      await service.subscribe(
+        "order.created",
+        async (_data, message) => {
+          count++;
+          await message.ack();
+        },
+        { autoAck: false },
+      );
+
+      await service.publish("order.created", {}, { messageId: "order-1" });
+      await adapter.whenIdle();
+      await service.publish("order.created", {}, { messageId: "order-1" });
+      await adapter.whenIdle();
+
+      expect(count).toBe(1);
+      expect(stats.getStats().duplicates).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * 消息服务
+ *
+ * @description 基于消息适配器提供发布/订阅功能，并在发布方与处理器之间传递隔离上下文
+ *
+ * ## 业务规则
+ *
+ * ### 发布规则
+ * - 从 CLS 读取当前隔离上下文，写入消息头（x-tenant-id 等）
+ * - 消息的租户 ID 取自隔离上下文，未指定 key 时以租户 ID 作为分区键
+ * - options.headers 中的隔离消息头（不区分大小写）被忽略，调用方不能借此切换到其他租户
+ * - 首次发布或订阅时自动连接适配器
+ *
+ * ### 订阅规则
+ * - 处理器在新的 CLS 上下文中执行，隔离上下文从消息头恢复
+ * - 处理器正常返回后自动 ack，抛出异常时按重试配置重新投递或进入死信
+ * - 启用去重时，同一订阅已处理过的消息直接确认，不执行处理器，计入 duplicates
+ * - 处理器成功并确认后记录去重键，处理失败或拒绝时不记录
+ * - 发布和处理结果计入 MessagingStatsService
+ * - 使用 @MessageHandler() 装饰的方法在模块初始化时自动订阅
+ *
+ * @example
+ * ```typescript
+ * await messagingService.publish('user.created', { userId });
+ *
+ * await messagingService.subscribe('user.created', async (data, message) => {
+ *   // 隔离上下文与发布方一致
+ *   await this.userProjection.apply(data);
+ * }, { group: 'user-projection' });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { IsolationContext } from "@hl8/isolation-model";
+import {
+  Inject,
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+} from "@nestjs/common";
+import { ClsService } from "nestjs-cls";
+import { randomUUID } from "node:crypto";
+import type { BaseMessagingAdapter } from "./adapters/base.adapter.js";
+import { DI_TOKENS, MESSAGE_HEADERS, MESSAGING_DEFAULTS } from "./constants.js";
+import { MessagingPublishException } from "./exceptions/messaging.exceptions.js";
+import { MessagingStatsService } from "./monitoring/messaging-stats.service.js";
+import { MessageDeduplicationService } from "./services/message-deduplication.service.js";
+import type {
+  ConnectionInfo,
+  MessageListener,
+  MessageSubscription,
+  MessagingModuleOptions,
+  PublishOptions,
+  ReceivedMessage,
+  SubscribeOptions,
+} from "./types/messaging.types.js";
+import {
+  buildIsolationHeaders,
+  omitIsolationHeaders,
+  restoreIsolationContext,
+} from "./utils/isolation-headers.util.js";
+
+const ISOLATION_CONTEXT_KEY = "ISOLATION_CONTEXT";
+
+/** 处理器对单次投递的显式确认状态 */
+interface SettlementState {
+  acked: boolean;
+  nacked: boolean;
+}
+
+interface RegisteredSubscription {
+  subscription: MessageSubscription;
+  listener: MessageListener;
+}
+
+@Injectable()
+export class MessagingService implements OnModuleDestroy {
+  private readonly logger = new Logger(MessagingService.name);
+  private readonly subscriptions = new Map<string, RegisteredSubscription>();
+  private connecting?: Promise<void>;
+
+  constructor(
+    @Inject(DI_TOKENS.MESSAGING_ADAPTER)
+    private readonly adapter: BaseMessagingAdapter,
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    private readonly options: MessagingModuleOptions,
+    private readonly cls: ClsService,
+    private readonly stats: MessagingStatsService,
+    private readonly deduplication: MessageDeduplicationService,
+  ) {}
+
+  /**
+   * 连接适配器
+   *
+   * @description 已连接时直接返回；并发调用共享同一次连接
+   */
+  async connect(): Promise<void> {
+    if (this.adapter.isConnected()) {
+      return;
+    }
+    this.connecting ??= this.adapter.connect().finally(() => {
+      this.connecting = undefined;
+    });
+    await this.connecting;
+    this.logger.log(`消息适配器已连接: ${this.adapter.type}`);
+  }
+
+  /**
+   * 断开适配器并清除所有订阅
+   */
+  async disconnect(): Promise<void> {
+    this.subscriptions.clear();
+    if (this.adapter.isConnected()) {
+      await this.adapter.disconnect();
+    }
+  }
+
+  /**
+   * 是否已连接
+   */
+  isConnected(): boolean {
+    return this.adapter.isConnected();
+  }
+
+  /**
+   * 获取连接信息
+   */
+  getConnectionInfo(): ConnectionInfo {
+    return this.adapter.getConnectionInfo();
+  }
+
+  /**
+   * 获取当前使用的适配器
+   */
+  getAdapter(): BaseMessagingAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * 发布消息
+   *
+   * @param topic - 逻辑主题名
+   * @param data - 消息数据
+   * @param options - 发布选项
+   * @returns 消息 ID
+   * @throws {MessagingPublishException} 主题名为空时
+   */
+  async publish<T>(
+    topic: string,
+    data: T,
+    options: PublishOptions = {},
+  ): Promise<string> {
+    if (!topic) {
+      throw new MessagingPublishException("消息发布失败", "主题名不能为空");
+    }
+
+    const headers = {
+      ...omitIsolationHeaders(options.headers),
+      ...buildIsolationHeaders(this.getIsolationContext()),
+    };
+    const tenantId = headers[MESSAGE_HEADERS.TENANT_ID];
+    const id = options.messageId ?? randomUUID();
+
+    await this.connect();
+    await this.adapter.publish(
+      {
+        id,
+        topic,
+        data,
+        headers,
+        tenantId,
+        key: options.key ?? tenantId,
+        timestamp: new Date(),
+      },
+      { delay: options.delay },
+    );
+    this.stats.recordPublished(topic);
+
+    return id;
+  }
+
+  /**
+   * 订阅主题
+   *
+   * @param topic - 逻辑主题名
+   * @param listener - 处理器
+   * @param options - 订阅选项
+   * @returns 订阅 ID
+   */
+  async subscribe<T>(
+    topic: string,
+    listener: MessageListener<T>,
+    options: SubscribeOptions = {},
+  ): Promise<string> {
+    const subscription: MessageSubscription = {
+      id: randomUUID(),
+      topic,
+      group: options.group,
+      tenantId: options.tenantId,
+      autoAck: options.autoAck ?? true,
+      maxRetries:
+        options.maxRetries ??
+        this.options.retry?.maxRetries ??
+        MESSAGING_DEFAULTS.MAX_RETRIES,
+      transactional: options.transactional,
+      handler: (data, message) =>
+        this.cls.run({ ifNested: "override" }, async () => {
+          this.cls.set(
+            ISOLATION_CONTEXT_KEY,
+            restoreIsolationContext(message.headers),
+          );
+          if (await this.deduplication.isProcessed(subscription, message)) {
+            this.stats.recordDuplicate(topic);
+            await message.ack();
+            return undefined;
+          }
+
+          const settlement: SettlementState = { acked: false, nacked: false };
+          const startedAt = Date.now();
+          try {
+            const result = await (listener as MessageListener)(
+              data,
+              this.trackSettlement(subscription, message, settlement),
+            );
+            this.stats.recordProcessed(topic, Date.now() - startedAt);
+            if (
+              subscription.autoAck &&
+              !settlement.acked &&
+              !settlement.nacked
+            ) {
+              await this.deduplication.markProcessed(subscription, message);
+            }
+            return result;
+          } catch (error) {
+            this.stats.recordFailed(topic);
+            throw error;
+          }
+        }),
+    };
+
+    await this.connect();
+    await this.adapter.subscribe(subscription);
+    this.subscriptions.set(subscription.id, {
+      subscription,
+      listener: listener as MessageListener,
+    });
+
+    return subscription.id;
+  }
+
+  /**
+   * 取消订阅
+   *
+   * @param topic - 逻辑主题名
+   * @param listener - 处理器，未指定时取消该主题的所有订阅
+   */
+  async unsubscribe(topic: string, listener?: MessageListener): Promise<void> {
+    for (const [id, registered] of this.subscriptions) {
+      if (
+        registered.subscription.topic === topic &&
+        (!listener || registered.listener === listener)
+      ) {
+        await this.cancelSubscription(id);
+      }
+    }
+  }
+
+  /**
+   * 按订阅 ID 取消订阅
+   *
+   * @param subscriptionId - subscribe() 返回的订阅 ID
+   */
+  async cancelSubscription(subscriptionId: string): Promise<void> {
+    if (!this.subscriptions.delete(subscriptionId)) {
+      return;
+    }
+    await this.adapter.unsubscribe(subscriptionId);
+  }
+
+  /**
+   * 获取已订阅的主题
+   */
+  getSubscribedTopics(): string[] {
+    return Array.from(
+      new Set(
+        Array.from(this.subscriptions.values()).map(
+          ({ subscription }) => subscription.topic,
+        ),
+      ),
+    );
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.disconnect();
+  }
+
+  /**
+   * 包装确认方法：处理器显式 ack 时记录去重键，显式 nack 后不再记录
+   *
+   * @description autoAck 的订阅在处理器返回后由适配器确认，由 subscribe() 根据 settlement 记录去重键
+   */
+  private trackSettlement(
+    subscription: MessageSubscription,
+    message: ReceivedMessage,
+    settlement: SettlementState,
+  ): ReceivedMessage {
+    if (!this.deduplication.isEnabled()) {
+      return message;
+    }
+
+    return {
+      ...message,
+      ack: async () => {
+        const first = !settlement.acked && !settlement.nacked;
+        settlement.acked = true;
+        await message.ack();
+        if (first) {
+          await this.deduplication.markProcessed(subscription, message);
+        }
+      },
+      nack: async (options) => {
+        settlement.nacked = true;
+        await message.nack(options);
+      },
+    };
+  }
+
+  private getIsolationContext(): IsolationContext | undefined {
+    return this.cls.isActive()
+      ? this.cls.get<IsolationContext>(ISOLATION_CONTEXT_KEY)
+      : undefined;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * MessagingMonitorService 单元测试
+ *
+ * @group monitoring
+ */
+
+import { ConsumerStateService } from "../services/consumer-state.service.js";
+import {
+  type ConsumerLag,
+  MessagingAdapterType,
+} from "../types/messaging.types.js";
+import { MessagingMonitorService } from "./messaging-monitor.service.js";
+import { MessagingStatsService } from "./messaging-stats.service.js";
+
+describe("MessagingMonitorService", () => {
+  let stats: MessagingStatsService;
+  let connected: boolean;
+  let lag: ConsumerLag[] | Error;
+  let warnings: string[];
+  let service: MessagingMonitorService;
+
+  const groupLag = (group: string, totalLag: number): ConsumerLag => ({
+    adapter: MessagingAdapterType.KAFKA,
+    group,
+    topic: "user.created",
+    partitions: [
+      {
+        partition: 0,
+        committedOffset: "0",
+        latestOffset: String(totalLag),
+        lag: totalLag,
+      },
+    ],
+    totalLag,
+    measuredAt: new Date(),
+  });
+
+  beforeEach(() => {
+    stats = new MessagingStatsService();
+    connected = true;
+    lag = [];
+    warnings = [];
+    const adapter = {
+      isConnected: () => connected,
+      getConsumerLag: async () => {
+        if (lag instanceof Error) {
+          throw lag;
+        }
+        return lag;
+      },
+      getConnectionInfo: () => ({
+        adapter: MessagingAdapterType.KAFKA,
+        connected,
+      }),
+    };
+    service = new MessagingMonitorService(
+      adapter as any,
+      {
+        adapter: MessagingAdapterType.KAFKA,
+        monitoring: { lagCheckInterval: 0, lagWarningThreshold: 100 },
+      },
+      stats,
+      new ConsumerStateService(),
+    );
+    (service as any).logger = {
+      warn: (message: string) => warnings.push(message),
+      error: () => undefined,
+    };
+  });
+
+  it("应该把采集到的延迟写入统计，并对超过阈值的消费组告警", async () => {
+    lag = [groupLag("hl8.projection", 150), groupLag("hl8.billing", 5)];
+
+    await expect(service.collectConsumerLag()).resolves.toHaveLength(2);
+
+    expect(stats.getStats().totalLag).toBe(155);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain("hl8.projection");
+  });
+
+  it("未连接或采集失败时应该返回空列表", async () => {
+    connected = false;
+    await expect(service.collectConsumerLag()).resolves.toEqual([]);
+
+    connected = true;
+    lag = new Error("broker 不可用");
+    await expect(service.collectConsumerLag()).resolves.toEqual([]);
+    expect(stats.getStats().consumerLag).toEqual([]);
+  });
+
+  it("应该汇总连接、统计和消费者状态", () => {
+    stats.recordPublished("user.created");
+
+    expect(service.getSnapshot()).toMatchObject({
+      connection: { connected: true },
+      stats: { published: 1 },
+      consumers: [],
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * 消息监控服务
+ *
+ * @description 定期采集消费组延迟，汇总连接、统计和消费者状态
+ *
+ * ## 业务规则
+ *
+ * ### 延迟采集
+ * - 模块初始化后按 lagCheckInterval 定时采集，lagCheckInterval 为 0 时只能手动调用
+ * - 适配器未连接或不支持查询积压时结果为空列表
+ * - 采集结果写入 MessagingStatsService
+ * - 单个消费组的积压达到 lagWarningThreshold 时记录告警日志
+ * - 采集失败只记录错误日志，不影响消息收发
+ *
+ * @example
+ * ```typescript
+ * const lag = await messagingMonitorService.collectConsumerLag();
+ * const snapshot = messagingMonitorService.getSnapshot();
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import {
+  Inject,
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+  type OnModuleInit,
+} from "@nestjs/common";
+import type { BaseMessagingAdapter } from "../adapters/base.adapter.js";
+import { DI_TOKENS } from "../constants.js";
+import {
+  type ConsumerState,
+  ConsumerStateService,
+} from "../services/consumer-state.service.js";
+import type {
+  ConnectionInfo,
+  ConsumerLag,
+  MessagingModuleOptions,
+  MessagingStats,
+} from "../types/messaging.types.js";
+import { MessagingStatsService } from "./messaging-stats.service.js";
+
+/**
+ * 监控快照
+ */
+export interface MessagingMonitorSnapshot {
+  /** 连接信息 */
+  connection: ConnectionInfo;
+  /** 消息统计 */
+  stats: MessagingStats;
+  /** 消费者状态 */
+  consumers: ConsumerState[];
+}
+
+const DEFAULT_LAG_CHECK_INTERVAL = 30_000;
+const DEFAULT_LAG_WARNING_THRESHOLD = 1000;
+
+@Injectable()
+export class MessagingMonitorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessagingMonitorService.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(DI_TOKENS.MESSAGING_ADAPTER)
+    private readonly adapter: BaseMessagingAdapter,
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    private readonly options: MessagingModuleOptions,
+    private readonly stats: MessagingStatsService,
+    private readonly consumerState: ConsumerStateService,
+  ) {}
+
+  onModuleInit(): void {
+    const interval =
+      this.options.monitoring?.lagCheckInterval ?? DEFAULT_LAG_CHECK_INTERVAL;
+    if (interval > 0) {
+      this.timer = setInterval(() => void this.collectConsumerLag(), interval);
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * 采集消费组延迟
+   *
+   * @returns 各消费组的延迟，采集失败时返回空列表
+   */
+  async collectConsumerLag(): Promise<ConsumerLag[]> {
+    if (!this.adapter.isConnected()) {
+      return [];
+    }
+
+    try {
+      const lag = await this.adapter.getConsumerLag();
+      this.stats.updateConsumerLag(lag);
+
+      const threshold =
+        this.options.monitoring?.lagWarningThreshold ??
+        DEFAULT_LAG_WARNING_THRESHOLD;
+      for (const { group, topic, totalLag } of lag) {
+        if (totalLag >= threshold) {
+          this.logger.warn(
+            `消费组积压过高: ${group} / ${topic}，未消费 ${totalLag} 条（阈值 ${threshold}）`,
+          );
+        }
+      }
+      return lag;
+    } catch (error) {
+      this.logger.error("采集消费组延迟失败", undefined, {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * 获取监控快照
+   */
+  getSnapshot(): MessagingMonitorSnapshot {
+    return {
+      connection: this.adapter.getConnectionInfo(),
+      stats: this.stats.getStats(),
+      consumers: this.consumerState.getStates(),
+    };
+  }
+}
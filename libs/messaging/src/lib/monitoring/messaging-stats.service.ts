@@ -0,0 +1,164 @@
+/**
+ * 消息统计服务
+ *
+ * @description 收集发布、处理和消费组延迟等消息指标
+ *
+ * ## 业务规则
+ *
+ * ### 收集规则
+ * - MessagingService 在发布成功后记录 published，在处理器返回或抛出异常后记录 processed / failed
+ * - 同一条消息的每次投递都计入 processed 或 failed
+ * - 去重识别出的重复投递只计入 duplicates
+ * - 消费组延迟由 MessagingMonitorService 定期采集后写入，只保留最近一次的结果
+ * - 指标数据存储在内存中，仅覆盖当前实例，支持手动重置
+ *
+ * ### 计算规则
+ * - 平均处理耗时 = 处理成功的总耗时 / processed
+ * - totalLag = 各消费组 totalLag 之和
+ *
+ * @example
+ * ```typescript
+ * const stats = messagingStatsService.getStats();
+ * console.log(`积压: ${stats.totalLag}，失败: ${stats.failed}`);
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { Injectable } from "@nestjs/common";
+import type {
+  ConsumerLag,
+  MessagingStats,
+  TopicStats,
+} from "../types/messaging.types.js";
+
+interface TopicCounters {
+  published: number;
+  processed: number;
+  failed: number;
+  duplicates: number;
+  processingTime: number;
+}
+
+@Injectable()
+export class MessagingStatsService {
+  private readonly topics = new Map<string, TopicCounters>();
+  private consumerLag: ConsumerLag[] = [];
+  private since = new Date();
+
+  /**
+   * 记录发布成功
+   *
+   * @param topic - 逻辑主题名
+   */
+  recordPublished(topic: string): void {
+    this.counters(topic).published++;
+  }
+
+  /**
+   * 记录处理成功
+   *
+   * @param topic - 逻辑主题名
+   * @param duration - 处理耗时（毫秒）
+   */
+  recordProcessed(topic: string, duration: number): void {
+    const counters = this.counters(topic);
+    counters.processed++;
+    counters.processingTime += duration;
+  }
+
+  /**
+   * 记录处理失败
+   *
+   * @param topic - 逻辑主题名
+   */
+  recordFailed(topic: string): void {
+    this.counters(topic).failed++;
+  }
+
+  /**
+   * 记录重复投递
+   *
+   * @param topic - 逻辑主题名
+   */
+  recordDuplicate(topic: string): void {
+    this.counters(topic).duplicates++;
+  }
+
+  /**
+   * 更新消费组延迟
+   *
+   * @param lag - 最近一次采集的结果
+   */
+  updateConsumerLag(lag: ConsumerLag[]): void {
+    this.consumerLag = lag;
+  }
+
+  /**
+   * 获取统计数据
+   */
+  getStats(): MessagingStats {
+    const topics: Record<string, TopicStats> = {};
+    const total: TopicCounters = {
+      published: 0,
+      processed: 0,
+      failed: 0,
+      duplicates: 0,
+      processingTime: 0,
+    };
+
+    for (const [topic, counters] of this.topics) {
+      topics[topic] = this.toTopicStats(counters);
+      total.published += counters.published;
+      total.processed += counters.processed;
+      total.failed += counters.failed;
+      total.duplicates += counters.duplicates;
+      total.processingTime += counters.processingTime;
+    }
+
+    return {
+      ...this.toTopicStats(total),
+      topics,
+      consumerLag: this.consumerLag,
+      totalLag: this.consumerLag.reduce((sum, lag) => sum + lag.totalLag, 0),
+      since: this.since,
+    };
+  }
+
+  /**
+   * 重置统计数据
+   */
+  reset(): void {
+    this.topics.clear();
+    this.consumerLag = [];
+    this.since = new Date();
+  }
+
+  private counters(topic: string): TopicCounters {
+    let counters = this.topics.get(topic);
+    if (!counters) {
+      counters = {
+        published: 0,
+        processed: 0,
+        failed: 0,
+        duplicates: 0,
+        processingTime: 0,
+      };
+      this.topics.set(topic, counters);
+    }
+    return counters;
+  }
+
+  private toTopicStats(counters: TopicCounters): TopicStats {
+    return {
+      published: counters.published,
+      processed: counters.processed,
+      failed: counters.failed,
+      duplicates: counters.duplicates,
+      averageProcessingTime:
+        counters.processed > 0
+          ? counters.processingTime / counters.processed
+          : 0,
+    };
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * 消费者状态服务
+ *
+ * @description 记录当前进程内各消费者的运行状态和处理统计，供健康检查和运维排查使用
+ *
+ * ## 业务规则
+ *
+ * ### 状态规则
+ * - 消费者以订阅 ID 标识，由适配器在建立消费者时注册
+ * - active：正在消费；disconnected：连接断开，等待重连；cancelled：被中间件取消（如队列被删除）
+ * - 取消订阅时移除状态记录
+ *
+ * ### 统计规则
+ * - processed：处理成功并确认的消息数
+ * - failed：处理失败并安排重试的次数
+ * - deadLettered：进入死信的消息数（含无法解析的消息）
+ *
+ * @example
+ * ```typescript
+ * const states = consumerStateService.getStates({ status: 'disconnected' });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { Injectable } from "@nestjs/common";
+import type { MessagingAdapterType } from "../types/messaging.types.js";
+
+/**
+ * 消费者状态
+ */
+export type ConsumerStatus = "active" | "disconnected" | "cancelled";
+
+/**
+ * 消费者状态记录
+ */
+export interface ConsumerState {
+  /** 消费者 ID（订阅 ID） */
+  consumerId: string;
+  /** 适配器类型 */
+  adapter: MessagingAdapterType;
+  /** 逻辑主题名 */
+  topic: string;
+  /** 消费组 */
+  group?: string;
+  /** 限定的租户 */
+  tenantId?: string;
+  /** 中间件上的资源名（队列、流等） */
+  source: string;
+  /** 中间件分配的消费者标识（如 AMQP consumer tag） */
+  consumerTag?: string;
+  /** 状态 */
+  status: ConsumerStatus;
+  /** 处理成功的消息数 */
+  processed: number;
+  /** 处理失败并重试的次数 */
+  failed: number;
+  /** 进入死信的消息数 */
+  deadLettered: number;
+  /** 最近处理的消息 ID */
+  lastMessageId?: string;
+  /** 最近一次错误 */
+  lastError?: string;
+  /** 最近一次活动时间 */
+  lastActivityAt?: Date;
+  /** 注册时间 */
+  startedAt: Date;
+}
+
+/**
+ * 注册消费者时提供的信息
+ */
+export type ConsumerRegistration = Pick<
+  ConsumerState,
+  "consumerId" | "adapter" | "topic" | "group" | "tenantId" | "source"
+> &
+  Partial<Pick<ConsumerState, "consumerTag">>;
+
+@Injectable()
+export class ConsumerStateService {
+  private readonly states = new Map<string, ConsumerState>();
+
+  /**
+   * 注册消费者
+   *
+   * @description 已存在时（如重连）保留统计并重新标记为 active
+   *
+   * @param registration - 消费者信息
+   * @returns 消费者状态
+   */
+  register(registration: ConsumerRegistration): ConsumerState {
+    const existing = this.states.get(registration.consumerId);
+    const state: ConsumerState = existing
+      ? { ...existing, ...registration, status: "active" }
+      : {
+          ...registration,
+          status: "active",
+          processed: 0,
+          failed: 0,
+          deadLettered: 0,
+          startedAt: new Date(),
+        };
+
+    this.states.set(registration.consumerId, state);
+    return state;
+  }
+
+  /**
+   * 记录处理成功
+   *
+   * @param consumerId - 消费者 ID
+   * @param messageId - 消息 ID
+   */
+  recordProcessed(consumerId: string, messageId: string): void {
+    this.update(consumerId, (state) => {
+      state.processed++;
+      state.lastMessageId = messageId;
+    });
+  }
+
+  /**
+   * 记录处理失败
+   *
+   * @param consumerId - 消费者 ID
+   * @param messageId - 消息 ID
+   * @param error - 失败原因
+   * @param deadLettered - 是否进入死信
+   */
+  recordFailure(
+    consumerId: string,
+    messageId: string | undefined,
+    error: string,
+    deadLettered: boolean,
+  ): void {
+    this.update(consumerId, (state) => {
+      if (deadLettered) {
+        state.deadLettered++;
+      } else {
+        state.failed++;
+      }
+      state.lastMessageId = messageId ?? state.lastMessageId;
+      state.lastError = error;
+    });
+  }
+
+  /**
+   * 更新状态
+   *
+   * @param consumerId - 消费者 ID
+   * @param status - 新状态
+   * @param error - 导致状态变化的错误
+   */
+  setStatus(consumerId: string, status: ConsumerStatus, error?: string): void {
+    this.update(consumerId, (state) => {
+      state.status = status;
+      state.lastError = error ?? state.lastError;
+    });
+  }
+
+  /**
+   * 移除消费者
+   *
+   * @param consumerId - 消费者 ID
+   */
+  remove(consumerId: string): void {
+    this.states.delete(consumerId);
+  }
+
+  /**
+   * 获取消费者状态
+   *
+   * @param consumerId - 消费者 ID
+   */
+  getState(consumerId: string): ConsumerState | undefined {
+    const state = this.states.get(consumerId);
+    return state ? { ...state } : undefined;
+  }
+
+  /**
+   * 获取消费者状态列表
+   *
+   * @param filter - 按适配器或状态过滤
+   */
+  getStates(
+    filter: { adapter?: MessagingAdapterType; status?: ConsumerStatus } = {},
+  ): ConsumerState[] {
+    return Array.from(this.states.values())
+      .filter(
+        (state) =>
+          (!filter.adapter || state.adapter === filter.adapter) &&
+          (!filter.status || state.status === filter.status),
+      )
+      .map((state) => ({ ...state }));
+  }
+
+  private update(
+    consumerId: string,
+    mutate: (state: ConsumerState) => void,
+  ): void {
+    const state = this.states.get(consumerId);
+    if (!state) {
+      return;
+    }
+    mutate(state);
+    state.lastActivityAt = new Date();
+  }
+}
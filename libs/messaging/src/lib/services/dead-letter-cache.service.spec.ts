@@ -0,0 +1,110 @@
+/**
+ * DeadLetterCacheService 单元测试
+ *
+ * @group services
+ */
+
+import {
+  type DeadLetter,
+  MessagingAdapterType,
+} from "../types/messaging.types.js";
+import { DeadLetterCacheService } from "./dead-letter-cache.service.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+
+describe("DeadLetterCacheService", () => {
+  let sequence = 0;
+
+  const deadLetter = (
+    topic: string,
+    tenantId?: string,
+    deadLetteredAt = new Date(),
+  ): DeadLetter => ({
+    message: {
+      id: `msg-${++sequence}`,
+      topic,
+      data: {},
+      headers: {},
+      tenantId,
+      timestamp: new Date(),
+    },
+    physicalTopic: `hl8:stream:${topic}`,
+    reason: "处理失败",
+    attempts: 4,
+    deadLetteredAt,
+  });
+
+  const createService = (maxEntries?: number, ttl?: number) =>
+    new DeadLetterCacheService({
+      adapter: MessagingAdapterType.REDIS,
+      deadLetterCache: { maxEntries, ttl },
+    });
+
+  it("应该按时间倒序返回，并支持按主题、租户和消费组过滤", () => {
+    const service = createService();
+    const first = service.add(
+      MessagingAdapterType.REDIS,
+      deadLetter("order.created", TENANT_A),
+      "hl8.billing",
+    );
+    service.add(
+      MessagingAdapterType.REDIS,
+      deadLetter("order.created", TENANT_B),
+      "hl8.billing",
+    );
+    const third = service.add(
+      MessagingAdapterType.REDIS,
+      deadLetter("user.created", TENANT_A),
+      "hl8.projection",
+    );
+
+    expect(service.list().map(({ id }) => id)[0]).toBe(third.id);
+    expect(service.list({ tenantId: TENANT_A })).toEqual([third, first]);
+    expect(
+      service.list({ topic: "order.created", tenantId: TENANT_A }),
+    ).toEqual([first]);
+    expect(service.list({ group: "hl8.projection" })).toEqual([third]);
+    expect(service.list({ limit: 1 })).toEqual([third]);
+  });
+
+  it("超过 maxEntries 时应该淘汰最早的记录", () => {
+    const service = createService(2);
+    const first = service.add(
+      MessagingAdapterType.REDIS,
+      deadLetter("order.created"),
+    );
+    service.add(MessagingAdapterType.REDIS, deadLetter("order.created"));
+    service.add(MessagingAdapterType.REDIS, deadLetter("order.created"));
+
+    expect(service.list()).toHaveLength(2);
+    expect(service.get(first.id)).toBeUndefined();
+  });
+
+  it("应该清除超过 ttl 的记录", () => {
+    const service = createService(undefined, 1000);
+    const expired = service.add(
+      MessagingAdapterType.REDIS,
+      deadLetter("order.created", TENANT_A, new Date(Date.now() - 5000)),
+    );
+    const fresh = service.add(
+      MessagingAdapterType.REDIS,
+      deadLetter("order.created", TENANT_A),
+    );
+
+    expect(service.get(expired.id)).toBeUndefined();
+    expect(service.list()).toEqual([fresh]);
+  });
+
+  it("应该删除已处理的记录", () => {
+    const service = createService();
+    const record = service.add(
+      MessagingAdapterType.REDIS,
+      deadLetter("order.created"),
+    );
+
+    expect(service.remove(record.id)).toBe(true);
+    expect(service.remove(record.id)).toBe(false);
+    expect(service.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * 死信缓存服务
+ *
+ * @description 保存当前实例产生的死信，供运维排查、按租户查询和人工处理
+ *
+ * ## 业务规则
+ *
+ * ### 存储规则
+ * - 由适配器在消息进入死信时写入（目前为 Redis Streams 适配器）
+ * - 死信存储在内存中，仅覆盖当前实例；中间件上的死信队列/流仍是持久化副本
+ * - 超过 maxEntries 时淘汰最早的记录，超过 ttl 的记录在读取时清除
+ *
+ * ### 查询规则
+ * - 按进入死信的时间倒序返回
+ * - 可按逻辑主题名、租户 ID 和消费组过滤
+ *
+ * @example
+ * ```typescript
+ * const deadLetters = deadLetterCacheService.list({ tenantId, topic: 'order.created' });
+ * deadLetterCacheService.remove(deadLetters[0].id);
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { Inject, Injectable } from "@nestjs/common";
+import { randomUUID } from "node:crypto";
+import { DI_TOKENS } from "../constants.js";
+import type {
+  DeadLetter,
+  DeadLetterRecord,
+  MessagingAdapterType,
+  MessagingModuleOptions,
+} from "../types/messaging.types.js";
+
+/**
+ * 死信查询条件
+ */
+export interface DeadLetterFilter {
+  /** 逻辑主题名 */
+  topic?: string;
+  /** 租户 ID */
+  tenantId?: string;
+  /** 中间件上的消费组 */
+  group?: string;
+  /** 最多返回的记录数 */
+  limit?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_TTL = 7 * 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class DeadLetterCacheService {
+  /** 按写入顺序保存（Map 保持插入顺序，首个元素最早） */
+  private readonly records = new Map<string, DeadLetterRecord>();
+  private readonly maxEntries: number;
+  private readonly ttl: number;
+
+  constructor(
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    options: MessagingModuleOptions,
+  ) {
+    this.maxEntries =
+      options.deadLetterCache?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.ttl = options.deadLetterCache?.ttl ?? DEFAULT_TTL;
+  }
+
+  /**
+   * 写入死信
+   *
+   * @param adapter - 适配器类型
+   * @param deadLetter - 死信
+   * @param group - 中间件上的消费组
+   * @returns 保存的记录
+   */
+  add(
+    adapter: MessagingAdapterType,
+    deadLetter: DeadLetter,
+    group?: string,
+  ): DeadLetterRecord {
+    const record: DeadLetterRecord = {
+      ...deadLetter,
+      id: randomUUID(),
+      adapter,
+      group,
+    };
+
+    this.records.set(record.id, record);
+    for (const id of this.records.keys()) {
+      if (this.records.size <= this.maxEntries) {
+        break;
+      }
+      this.records.delete(id);
+    }
+    return record;
+  }
+
+  /**
+   * 查询死信
+   *
+   * @param filter - 查询条件
+   * @returns 按进入死信的时间倒序排列的记录
+   */
+  list(filter: DeadLetterFilter = {}): DeadLetterRecord[] {
+    this.evictExpired();
+
+    const result: DeadLetterRecord[] = [];
+    for (const record of Array.from(this.records.values()).reverse()) {
+      if (filter.limit !== undefined && result.length >= filter.limit) {
+        break;
+      }
+      if (
+        (!filter.topic || record.message.topic === filter.topic) &&
+        (!filter.tenantId || record.message.tenantId === filter.tenantId) &&
+        (!filter.group || record.group === filter.group)
+      ) {
+        result.push(record);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 获取单条死信
+   *
+   * @param id - 记录 ID
+   */
+  get(id: string): DeadLetterRecord | undefined {
+    this.evictExpired();
+    return this.records.get(id);
+  }
+
+  /**
+   * 删除死信（如人工处理完成后）
+   *
+   * @param id - 记录 ID
+   * @returns 记录是否存在
+   */
+  remove(id: string): boolean {
+    return this.records.delete(id);
+  }
+
+  /**
+   * 清空死信
+   */
+  clear(): void {
+    this.records.clear();
+  }
+
+  private evictExpired(): void {
+    const threshold = Date.now() - this.ttl;
+    for (const [id, record] of this.records) {
+      if (record.deadLetteredAt.getTime() >= threshold) {
+        break;
+      }
+      this.records.delete(id);
+    }
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * MessageDeduplicationService 单元测试
+ *
+ * @group services
+ */
+
+import { MessagingConfigException } from "../exceptions/messaging.exceptions.js";
+import {
+  type Message,
+  type MessageDeduplicationStore,
+  type MessageSubscription,
+  MessagingAdapterType,
+} from "../types/messaging.types.js";
+import {
+  MemoryDeduplicationStore,
+  MessageDeduplicationService,
+  RedisDeduplicationStore,
+} from "./message-deduplication.service.js";
+
+const TENANT_A = "550e8400-e29b-41d4-a716-446655440000";
+const TENANT_B = "550e8400-e29b-41d4-a716-446655440001";
+
+describe("MessageDeduplicationService", () => {
+  const subscription = (
+    options: Partial<MessageSubscription> = {},
+  ): MessageSubscription => ({
+    id: "sub-1",
+    topic: "order.created",
+    autoAck: true,
+    maxRetries: 3,
+    handler: () => undefined,
+    ...options,
+  });
+
+  const message = (id: string, tenantId?: string): Message => ({
+    id,
+    topic: "order.created",
+    data: {},
+    headers: {},
+    tenantId,
+    timestamp: new Date(),
+  });
+
+  it("未配置时应该不启用", async () => {
+    const service = new MessageDeduplicationService({
+      adapter: MessagingAdapterType.MEMORY,
+    });
+    await service.markProcessed(subscription(), message("m-1"));
+
+    expect(service.isEnabled()).toBe(false);
+    await expect(
+      service.isProcessed(subscription(), message("m-1")),
+    ).resolves.toBe(false);
+  });
+
+  it("应该按消费组、租户和消息 ID 区分记录", async () => {
+    const service = new MessageDeduplicationService({
+      adapter: MessagingAdapterType.MEMORY,
+      deduplication: {},
+    });
+    const billing = subscription({ group: "billing" });
+    await service.markProcessed(billing, message("m-1", TENANT_A));
+
+    await expect(
+      service.isProcessed(
+        subscription({ id: "sub-2", group: "billing" }),
+        message("m-1", TENANT_A),
+      ),
+    ).resolves.toBe(true);
+    await expect(
+      service.isProcessed(billing, message("m-1", TENANT_B)),
+    ).resolves.toBe(false);
+    await expect(
+      service.isProcessed(
+        subscription({ group: "shipping" }),
+        message("m-1", TENANT_A),
+      ),
+    ).resolves.toBe(false);
+  });
+
+  it("存储不可用时应该按未处理对待", async () => {
+    const failing: MessageDeduplicationStore = {
+      has: async () => {
+        throw new Error("连接断开");
+      },
+      add: async () => {
+        throw new Error("连接断开");
+      },
+    };
+    const service = new MessageDeduplicationService({
+      adapter: MessagingAdapterType.MEMORY,
+      deduplication: { store: failing },
+    });
+
+    await expect(
+      service.markProcessed(subscription(), message("m-1")),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.isProcessed(subscription(), message("m-1")),
+    ).resolves.toBe(false);
+  });
+
+  it("使用 Redis 存储但缺少连接配置时应该抛出异常", () => {
+    expect(
+      () =>
+        new MessageDeduplicationService({
+          adapter: MessagingAdapterType.MEMORY,
+          deduplication: { store: "redis" },
+        }),
+    ).toThrow(MessagingConfigException);
+  });
+
+  describe("MemoryDeduplicationStore", () => {
+    it("应该在保留时间后过期，并在写入时清除过期记录", async () => {
+      const store = new MemoryDeduplicationStore();
+      await store.add("a", 20);
+      await expect(store.has("a")).resolves.toBe(true);
+
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      await expect(store.has("a")).resolves.toBe(false);
+
+      await store.add("b", 20);
+      expect(store.size).toBe(1);
+    });
+  });
+
+  describe("RedisDeduplicationStore", () => {
+    it("应该以 SET PX 写入带前缀的键", async () => {
+      const commands: unknown[][] = [];
+      const keys = new Set<string>();
+      const store = new RedisDeduplicationStore({
+        exists: async (key: string) => (keys.has(key) ? 1 : 0),
+        set: async (...args: unknown[]) => {
+          commands.push(args);
+          keys.add(args[0] as string);
+          return "OK";
+        },
+        quit: async () => "OK",
+      } as any);
+
+      await store.add("order.created:billing:platform:m-1", 1000);
+
+      expect(commands).toEqual([
+        ["hl8:dedup:order.created:billing:platform:m-1", "1", "PX", 1000],
+      ]);
+      await expect(
+        store.has("order.created:billing:platform:m-1"),
+      ).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * 消息去重服务
+ *
+ * @description 记录已处理的消息，使中间件重复投递的消息不会再次执行处理器
+ *
+ * ## 业务规则
+ *
+ * ### 去重键
+ * - 键 = 逻辑主题名 + 消费组（未指定消费组时为订阅 ID）+ 租户 ID + 消息 ID
+ * - 不同消费组各自处理同一条消息，互不影响
+ * - 平台级消息的租户段为 platform
+ *
+ * ### 记录与判断
+ * - 处理器成功并确认后记录；处理失败或拒绝的消息不记录，照常重试
+ * - 记录保留 retention 毫秒，过期后再次投递会被重新处理
+ * - 判断与记录之间不加锁，同一消息并发投递时仍可能执行两次
+ * - 存储不可用时记录告警并按未处理对待（至少一次语义不变）
+ *
+ * ### 存储
+ * - memory：当前实例内存，实例重启或多实例部署时无法识别其他实例处理过的消息
+ * - redis：SET PX 写入，键名前缀为 keyPrefix，多个实例共享
+ * - 也可传入实现 MessageDeduplicationStore 的自定义存储
+ *
+ * @example
+ * ```typescript
+ * MessagingModule.forRoot({
+ *   adapter: MessagingAdapterType.RABBITMQ,
+ *   deduplication: { store: 'redis', retention: 3_600_000 },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import {
+  Inject,
+  Injectable,
+  Logger,
+  type OnModuleDestroy,
+} from "@nestjs/common";
+import { Redis } from "ioredis";
+import { DI_TOKENS } from "../constants.js";
+import { MessagingConfigException } from "../exceptions/messaging.exceptions.js";
+import type {
+  Message,
+  MessageDeduplicationStore,
+  MessageSubscription,
+  MessagingModuleOptions,
+} from "../types/messaging.types.js";
+
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+const DEFAULT_KEY_PREFIX = "hl8:dedup:";
+const PLATFORM_SEGMENT = "platform";
+
+/**
+ * 内存去重存储
+ *
+ * @description 记录按写入顺序保存；所有记录的保留时间相同，写入时从最早的记录开始清除过期项
+ */
+export class MemoryDeduplicationStore implements MessageDeduplicationStore {
+  private readonly expiresAt = new Map<string, number>();
+
+  async has(key: string): Promise<boolean> {
+    const expiresAt = this.expiresAt.get(key);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  async add(key: string, retention: number): Promise<void> {
+    const now = Date.now();
+    for (const [existing, expiresAt] of this.expiresAt) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.expiresAt.delete(existing);
+    }
+
+    this.expiresAt.delete(key);
+    this.expiresAt.set(key, now + retention);
+  }
+
+  /**
+   * 当前记录数（含尚未清除的过期项）
+   */
+  get size(): number {
+    return this.expiresAt.size;
+  }
+}
+
+/**
+ * Redis 去重存储
+ */
+export class RedisDeduplicationStore implements MessageDeduplicationStore {
+  constructor(
+    private readonly client: Pick<Redis, "exists" | "set" | "quit">,
+    private readonly keyPrefix = DEFAULT_KEY_PREFIX,
+  ) {}
+
+  async has(key: string): Promise<boolean> {
+    return (await this.client.exists(`${this.keyPrefix}${key}`)) === 1;
+  }
+
+  async add(key: string, retention: number): Promise<void> {
+    await this.client.set(`${this.keyPrefix}${key}`, "1", "PX", retention);
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit();
+  }
+}
+
+@Injectable()
+export class MessageDeduplicationService implements OnModuleDestroy {
+  private readonly logger = new Logger(MessageDeduplicationService.name);
+  private readonly store?: MessageDeduplicationStore;
+  private readonly retention: number;
+
+  /**
+   * @throws {MessagingConfigException} store 为 'redis' 但未提供 Redis 连接配置时
+   */
+  constructor(
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    options: MessagingModuleOptions,
+  ) {
+    const deduplication = options.deduplication;
+    this.retention = deduplication?.retention ?? DEFAULT_RETENTION;
+    if (!deduplication || deduplication.enabled === false) {
+      return;
+    }
+
+    const store = deduplication.store ?? "memory";
+    if (store === "memory") {
+      this.store = new MemoryDeduplicationStore();
+    } else if (store === "redis") {
+      const redis = deduplication.redis ?? options.redis;
+      if (!redis) {
+        throw new MessagingConfigException(
+          "消息模块配置错误",
+          "使用 Redis 去重存储时必须提供 deduplication.redis 或 redis 配置",
+          { adapter: options.adapter },
+        );
+      }
+      this.store = new RedisDeduplicationStore(
+        new Redis({
+          host: redis.host,
+          port: redis.port,
+          password: redis.password,
+          db: redis.db,
+          lazyConnect: true,
+        }),
+        deduplication.keyPrefix,
+      );
+    } else {
+      this.store = store;
+    }
+  }
+
+  /**
+   * 是否启用去重
+   */
+  isEnabled(): boolean {
+    return this.store !== undefined;
+  }
+
+  /**
+   * 消息是否已被该订阅处理过
+   *
+   * @param subscription - 订阅
+   * @param message - 消息
+   * @returns 未启用或存储不可用时返回 false
+   */
+  async isProcessed(
+    subscription: MessageSubscription,
+    message: Message,
+  ): Promise<boolean> {
+    if (!this.store) {
+      return false;
+    }
+
+    try {
+      return await this.store.has(this.key(subscription, message));
+    } catch (error) {
+      this.logger.warn(
+        `查询去重记录失败，按未处理对待: ${message.topic} (${message.id})，${(error as Error).message}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * 记录消息已被该订阅处理
+   *
+   * @param subscription - 订阅
+   * @param message - 消息
+   */
+  async markProcessed(
+    subscription: MessageSubscription,
+    message: Message,
+  ): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      await this.store.add(this.key(subscription, message), this.retention);
+    } catch (error) {
+      this.logger.warn(
+        `写入去重记录失败: ${message.topic} (${message.id})，${(error as Error).message}`,
+      );
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.store?.close?.();
+  }
+
+  private key(subscription: MessageSubscription, message: Message): string {
+    return [
+      message.topic,
+      subscription.group ?? subscription.id,
+      message.tenantId ?? PLATFORM_SEGMENT,
+      message.id,
+    ].join(":");
+  }
+}
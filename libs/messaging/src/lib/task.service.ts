@@ -0,0 +1,214 @@
+/**
+ * 任务服务
+ *
+ * @description 在 MessagingService 之上提供后台任务队列
+ *
+ * ## 业务规则
+ *
+ * ### 执行规则
+ * - 任务发布到 tasks.{taskName} 主题，以任务名作为消费组，每个任务只由一个处理器执行
+ * - 每个任务名在一个实例中只能注册一个处理器
+ * - 处理器抛出异常时按重试配置重新执行，超过最大重试次数后状态为 FAILED
+ * - 使用 @TaskHandler() 装饰的方法在模块初始化时自动注册
+ *
+ * ### 状态规则
+ * - 任务状态记录在当前进程内，仅覆盖本实例添加或执行的任务
+ * - 只有 PENDING 状态的任务可以取消；已取消的任务被投递时直接确认、不执行
+ * - 最多保留 10000 条状态记录，超出时先淘汰最早的记录
+ *
+ * @example
+ * ```typescript
+ * const taskId = await taskService.addTask('send-email', { to, subject });
+ *
+ * await taskService.processTask('send-email', async (data) => {
+ *   await this.mailer.send(data);
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { Inject, Injectable } from "@nestjs/common";
+import { randomUUID } from "node:crypto";
+import {
+  DI_TOKENS,
+  MESSAGING_DEFAULTS,
+  TOPIC_NAMESPACES,
+} from "./constants.js";
+import {
+  MessagingConsumeException,
+  MessagingTaskException,
+} from "./exceptions/messaging.exceptions.js";
+import { MessagingService } from "./messaging.service.js";
+import {
+  type MessagingModuleOptions,
+  type ReceivedMessage,
+  type TaskMessage,
+  type TaskOptions,
+  TaskStatus,
+} from "./types/messaging.types.js";
+
+/**
+ * 任务处理器
+ */
+export type TaskProcessor<T = unknown> = (
+  data: T,
+  task: TaskMessage<T>,
+) => unknown;
+
+const MAX_TRACKED_TASKS = 10_000;
+
+@Injectable()
+export class TaskService {
+  private readonly statuses = new Map<string, TaskStatus>();
+  private readonly processors = new Map<string, string>();
+
+  constructor(
+    private readonly messagingService: MessagingService,
+    @Inject(DI_TOKENS.MODULE_OPTIONS)
+    private readonly options: MessagingModuleOptions,
+  ) {}
+
+  /**
+   * 添加任务
+   *
+   * @param taskName - 任务名
+   * @param data - 任务数据
+   * @param options - 任务选项
+   * @returns 任务 ID
+   */
+  async addTask<T>(
+    taskName: string,
+    data: T,
+    options: TaskOptions = {},
+  ): Promise<string> {
+    const taskId = options.taskId ?? randomUUID();
+    const task: TaskMessage<T> = { taskId, taskName, data };
+
+    this.setStatus(taskId, TaskStatus.PENDING);
+    await this.messagingService.publish(this.toTopic(taskName), task, {
+      messageId: taskId,
+      delay: options.delay,
+    });
+
+    return taskId;
+  }
+
+  /**
+   * 注册任务处理器
+   *
+   * @param taskName - 任务名
+   * @param processor - 任务处理器
+   * @param options.maxRetries - 最大重试次数
+   * @throws {MessagingConsumeException} 任务名已注册处理器时
+   */
+  async processTask<T>(
+    taskName: string,
+    processor: TaskProcessor<T>,
+    options: { maxRetries?: number } = {},
+  ): Promise<void> {
+    if (this.processors.has(taskName)) {
+      throw new MessagingConsumeException(
+        "任务处理器重复注册",
+        `任务 ${taskName} 已注册处理器`,
+        { taskName },
+      );
+    }
+
+    const maxRetries =
+      options.maxRetries ??
+      this.options.retry?.maxRetries ??
+      MESSAGING_DEFAULTS.MAX_RETRIES;
+    const topic = this.toTopic(taskName);
+
+    const subscriptionId = await this.messagingService.subscribe<
+      TaskMessage<T>
+    >(
+      topic,
+      (task, message) => this.execute(task, message, processor, maxRetries),
+      { group: topic, maxRetries },
+    );
+    this.processors.set(taskName, subscriptionId);
+  }
+
+  /**
+   * 取消任务
+   *
+   * @param taskId - 任务 ID
+   * @throws {MessagingTaskException} 任务不存在或已开始执行时
+   */
+  cancelTask(taskId: string): void {
+    const status = this.statuses.get(taskId);
+    if (status === undefined) {
+      throw new MessagingTaskException(
+        "任务不存在",
+        `任务 ${taskId} 不存在或不由当前实例管理`,
+        { taskId },
+      );
+    }
+    if (status !== TaskStatus.PENDING) {
+      throw new MessagingTaskException(
+        "任务无法取消",
+        `任务 ${taskId} 当前状态为 ${status}`,
+        { taskId, status },
+      );
+    }
+    this.setStatus(taskId, TaskStatus.CANCELLED);
+  }
+
+  /**
+   * 获取任务状态
+   *
+   * @param taskId - 任务 ID
+   * @returns 任务状态，未知任务返回 undefined
+   */
+  getTaskStatus(taskId: string): TaskStatus | undefined {
+    return this.statuses.get(taskId);
+  }
+
+  /**
+   * 获取已注册处理器的任务名
+   */
+  getTaskNames(): string[] {
+    return Array.from(this.processors.keys());
+  }
+
+  private async execute<T>(
+    task: TaskMessage<T>,
+    message: ReceivedMessage<TaskMessage<T>>,
+    processor: TaskProcessor<T>,
+    maxRetries: number,
+  ): Promise<void> {
+    if (this.statuses.get(task.taskId) === TaskStatus.CANCELLED) {
+      return;
+    }
+
+    this.setStatus(task.taskId, TaskStatus.RUNNING);
+    try {
+      await processor(task.data, task);
+      this.setStatus(task.taskId, TaskStatus.COMPLETED);
+    } catch (error) {
+      this.setStatus(
+        task.taskId,
+        message.attempts > maxRetries ? TaskStatus.FAILED : TaskStatus.PENDING,
+      );
+      throw error;
+    }
+  }
+
+  private setStatus(taskId: string, status: TaskStatus): void {
+    this.statuses.delete(taskId);
+    this.statuses.set(taskId, status);
+
+    if (this.statuses.size > MAX_TRACKED_TASKS) {
+      const oldest = this.statuses.keys().next().value;
+      if (oldest !== undefined) {
+        this.statuses.delete(oldest);
+      }
+    }
+  }
+
+  private toTopic(taskName: string): string {
+    return `${TOPIC_NAMESPACES.TASK}${taskName}`;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * 隔离上下文与消息头互转工具
+ *
+ * @description 发布时把当前隔离上下文写入消息头，消费时从消息头恢复，
+ * 使处理器在发布方的隔离上下文中执行
+ *
+ * ## 业务规则
+ *
+ * - 消息头名称与 HTTP 请求头一致（x-tenant-id 等）
+ * - 隔离消息头只能来自隔离上下文，调用方附加的同名消息头（不区分大小写）被移除
+ * - 恢复时的层级优先级与 IsolationModule 相同：部门 > 组织 > 用户 > 租户 > 平台
+ * - 标识符无效时降级为平台级上下文
+ *
+ * @since 1.1.0
+ */
+
+import {
+  DepartmentId,
+  IsolationContext,
+  IsolationValidationError,
+  OrganizationId,
+  TenantId,
+  UserId,
+} from "@hl8/isolation-model";
+import { MESSAGE_HEADERS } from "../constants.js";
+
+/**
+ * 将隔离上下文转换为消息头
+ *
+ * @param context - 隔离上下文，未提供时返回空对象
+ * @returns 消息头
+ */
+export function buildIsolationHeaders(
+  context?: IsolationContext,
+): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (context?.tenantId) {
+    headers[MESSAGE_HEADERS.TENANT_ID] = context.tenantId.getValue();
+  }
+  if (context?.organizationId) {
+    headers[MESSAGE_HEADERS.ORGANIZATION_ID] =
+      context.organizationId.getValue();
+  }
+  if (context?.departmentId) {
+    headers[MESSAGE_HEADERS.DEPARTMENT_ID] = context.departmentId.getValue();
+  }
+  if (context?.userId) {
+    headers[MESSAGE_HEADERS.USER_ID] = context.userId.getValue();
+  }
+
+  return headers;
+}
+
+/**
+ * 移除调用方附加的隔离消息头
+ *
+ * @param headers - 调用方附加的消息头
+ * @returns 不含隔离消息头（不区分大小写）的消息头
+ */
+export function omitIsolationHeaders(
+  headers: Record<string, string> = {},
+): Record<string, string> {
+  const names = new Set<string>(Object.values(MESSAGE_HEADERS));
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !names.has(name.toLowerCase())),
+  );
+}
+
+/**
+ * 从消息头恢复隔离上下文
+ *
+ * @param headers - 消息头
+ * @returns 隔离上下文
+ */
+export function restoreIsolationContext(
+  headers: Record<string, string>,
+): IsolationContext {
+  const tenantId = headers[MESSAGE_HEADERS.TENANT_ID];
+  const orgId = headers[MESSAGE_HEADERS.ORGANIZATION_ID];
+  const deptId = headers[MESSAGE_HEADERS.DEPARTMENT_ID];
+  const userId = headers[MESSAGE_HEADERS.USER_ID];
+
+  try {
+    if (deptId && orgId && tenantId) {
+      return IsolationContext.department(
+        TenantId.create(tenantId),
+        OrganizationId.create(orgId),
+        DepartmentId.create(deptId),
+      );
+    }
+    if (orgId && tenantId) {
+      return IsolationContext.organization(
+        TenantId.create(tenantId),
+        OrganizationId.create(orgId),
+      );
+    }
+    if (userId) {
+      return IsolationContext.user(
+        UserId.create(userId),
+        tenantId ? TenantId.create(tenantId) : undefined,
+      );
+    }
+    if (tenantId) {
+      return IsolationContext.tenant(TenantId.create(tenantId));
+    }
+  } catch (error) {
+    if (!(error instanceof IsolationValidationError)) {
+      throw error;
+    }
+  }
+
+  return IsolationContext.platform();
+}
@@ -0,0 +1,214 @@
+/**
+ * 隔离上下文解析器集成测试
+ *
+ * @description 测试配置解析器后从 JWT、API Key 和受信代理请求头解析隔离上下文
+ *
+ * ## 测试场景
+ *
+ * - ✅ 从已验证的 JWT 声明解析上下文
+ * - ✅ 无效 JWT 返回 401
+ * - ✅ 从 API Key 解析上下文，未知 API Key 返回 401
+ * - ✅ 非受信来源的请求头被拒绝，不降级到平台级
+ * - ✅ 没有凭证的请求为匿名请求，不视为平台级
+ * - ✅ JWT 声明与请求头冲突时返回 403
+ * - ✅ 受信代理请求头可补充 JWT 中缺少的标识
+ *
+ * @group integration
+ */
+
+import { createHmac } from "node:crypto";
+import { IsolationLevel } from "@hl8/isolation-model";
+import { Controller, Get, INestApplication, UseGuards } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import request from "supertest";
+import { RequireTenant } from "../../src/decorators/require-level.decorator.js";
+import { IsolationGuard } from "../../src/guards/isolation.guard.js";
+import { IsolationModule } from "../../src/isolation.module.js";
+import { ApiKeyContextResolver } from "../../src/resolvers/api-key.resolver.js";
+import type { ContextResolver } from "../../src/resolvers/context-resolver.interface.js";
+import { HeaderContextResolver } from "../../src/resolvers/header.resolver.js";
+import { JwtContextResolver } from "../../src/resolvers/jwt.resolver.js";
+import { IsolationContextService } from "../../src/services/isolation-context.service.js";
+
+const UUID_TENANT = "550e8400-e29b-41d4-a716-446655440000";
+const UUID_OTHER_TENANT = "550e8400-e29b-41d4-a716-446655440001";
+const UUID_ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+const UUID_USER = "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11";
+const SECRET = "test-secret";
+
+function sign(payload: Record<string, unknown>, secret = SECRET): string {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const data = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({
+    exp: Math.floor(Date.now() / 1000) + 60,
+    ...payload,
+  })}`;
+  return `${data}.${createHmac("sha256", secret).update(data).digest("base64url")}`;
+}
+
+@Controller("test")
+class TestController {
+  constructor(private readonly contextService: IsolationContextService) {}
+
+  @Get("tenant")
+  @UseGuards(IsolationGuard)
+  @RequireTenant()
+  tenantOnly() {
+    return { ok: true };
+  }
+
+  @Get("context")
+  getContext() {
+    const context = this.contextService.getIsolationContext();
+
+    return {
+      level: context?.getIsolationLevel(),
+      tenantId: context?.tenantId?.getValue(),
+      organizationId: context?.organizationId?.getValue(),
+      userId: context?.userId?.getValue(),
+    };
+  }
+}
+
+describe("IsolationModule - Context Resolvers Integration", () => {
+  let app: INestApplication;
+
+  async function createApp(resolvers: ContextResolver[]) {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [IsolationModule.forRoot({ resolvers })],
+      controllers: [TestController],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  }
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe("JWT", () => {
+    beforeEach(async () => {
+      await createApp([new JwtContextResolver({ secret: SECRET })]);
+    });
+
+    it("应该从已验证的 JWT 声明解析上下文", async () => {
+      const token = sign({
+        sub: UUID_USER,
+        tenant_id: UUID_TENANT,
+        exp: Math.floor(Date.now() / 1000) + 60,
+      });
+
+      const response = await request(app.getHttpServer())
+        .get("/test/context")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        level: IsolationLevel.USER,
+        tenantId: UUID_TENANT,
+        userId: UUID_USER,
+      });
+    });
+
+    it("应该拒绝签名无效的 JWT", async () => {
+      const token = sign({ tenant_id: UUID_TENANT }, "wrong-secret");
+
+      await request(app.getHttpServer())
+        .get("/test/context")
+        .set("Authorization", `Bearer ${token}`)
+        .expect(401);
+    });
+
+    it("应该拒绝与 JWT 声明冲突的请求头", async () => {
+      const token = sign({ tenant_id: UUID_TENANT });
+
+      await request(app.getHttpServer())
+        .get("/test/context")
+        .set("Authorization", `Bearer ${token}`)
+        .set("X-Tenant-Id", UUID_OTHER_TENANT)
+        .expect(403);
+    });
+
+    it("应该拒绝非受信来源的请求头，而不是降级到平台级", async () => {
+      await request(app.getHttpServer())
+        .get("/test/context")
+        .set("X-Tenant-Id", UUID_TENANT)
+        .expect(403);
+    });
+
+    it("没有任何凭证时应该为匿名请求，不设置隔离上下文", async () => {
+      const response = await request(app.getHttpServer())
+        .get("/test/context")
+        .expect(200);
+
+      expect(response.body).toEqual({});
+    });
+
+    it("匿名请求不能访问要求租户级的接口", async () => {
+      await request(app.getHttpServer()).get("/test/tenant").expect(403);
+    });
+  });
+
+  describe("API Key", () => {
+    beforeEach(async () => {
+      await createApp([
+        new ApiKeyContextResolver({
+          lookup: (apiKey) =>
+            apiKey === "key-1" ? { tenantId: UUID_TENANT } : undefined,
+        }),
+      ]);
+    });
+
+    it("应该从 API Key 解析上下文", async () => {
+      const response = await request(app.getHttpServer())
+        .get("/test/context")
+        .set("X-Api-Key", "key-1")
+        .expect(200);
+
+      expect(response.body.level).toBe(IsolationLevel.TENANT);
+      expect(response.body.tenantId).toBe(UUID_TENANT);
+    });
+
+    it("应该拒绝未知的 API Key", async () => {
+      await request(app.getHttpServer())
+        .get("/test/context")
+        .set("X-Api-Key", "unknown")
+        .expect(401);
+    });
+  });
+
+  describe("受信代理", () => {
+    it("受信代理的请求头应该补充 JWT 中缺少的标识", async () => {
+      await createApp([
+        new JwtContextResolver({ secret: SECRET }),
+        new HeaderContextResolver({ trustedProxies: ["127.0.0.0/8", "::1"] }),
+      ]);
+      const token = sign({ tenant_id: UUID_TENANT });
+
+      const response = await request(app.getHttpServer())
+        .get("/test/context")
+        .set("Authorization", `Bearer ${token}`)
+        .set("X-Tenant-Id", UUID_TENANT)
+        .set("X-Organization-Id", UUID_ORG)
+        .expect(200);
+
+      expect(response.body).toEqual({
+        level: IsolationLevel.ORGANIZATION,
+        tenantId: UUID_TENANT,
+        organizationId: UUID_ORG,
+      });
+    });
+
+    it("应该拒绝非受信地址转发的请求头", async () => {
+      await createApp([
+        new HeaderContextResolver({ trustedProxies: ["10.0.0.0/8"] }),
+      ]);
+
+      await request(app.getHttpServer())
+        .get("/test/context")
+        .set("X-Tenant-Id", UUID_TENANT)
+        .expect(403);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * 部门层级集成测试
+ *
+ * @description 测试配置部门层级解析器后，部门级访问包含下级部门
+ *
+ * ## 测试场景
+ *
+ * - ✅ 请求开始时加载当前部门范围，同一请求内只查询一次
+ * - ✅ 上级部门可以访问下级部门数据，下级部门不能访问上级部门数据
+ * - ✅ 以 provider 类配置的解析器从应用中解析
+ * - ✅ 未配置解析器时部门只做精确匹配
+ *
+ * @group integration
+ */
+
+import {
+  DepartmentId,
+  IsolationContext,
+  OrganizationId,
+  TenantId,
+} from "@hl8/isolation-model";
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Injectable,
+  Module,
+} from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import request from "supertest";
+import type { DepartmentHierarchyResolver } from "../../src/hierarchy/department-hierarchy-resolver.interface.js";
+import { DepartmentHierarchyService } from "../../src/hierarchy/department-hierarchy.service.js";
+import { IsolationModule } from "../../src/isolation.module.js";
+import { MultiLevelIsolationService } from "../../src/services/multi-level-isolation.service.js";
+
+const UUID_TENANT = "550e8400-e29b-41d4-a716-446655440000";
+const UUID_ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+const UUID_PARENT = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+const UUID_CHILD = "123e4567-e89b-42d3-a456-426614174002";
+
+@Injectable()
+class InMemoryHierarchy implements DepartmentHierarchyResolver {
+  readonly calls: string[] = [];
+
+  getDescendantIds(_tenantId: string, departmentId: string): string[] {
+    this.calls.push(departmentId);
+    return departmentId === UUID_PARENT ? [UUID_CHILD] : [];
+  }
+}
+
+@Module({ providers: [InMemoryHierarchy], exports: [InMemoryHierarchy] })
+class HierarchyModule {}
+
+const departmentData = (departmentId: string) =>
+  IsolationContext.department(
+    TenantId.create(UUID_TENANT),
+    OrganizationId.create(UUID_ORG),
+    DepartmentId.create(departmentId),
+  );
+
+@Controller("test")
+class TestController {
+  constructor(
+    private readonly isolationService: MultiLevelIsolationService,
+    private readonly departmentHierarchy: DepartmentHierarchyService,
+  ) {}
+
+  @Get("access")
+  access() {
+    return {
+      scope: this.departmentHierarchy.getDepartmentScope(),
+      parent: this.isolationService.checkDataAccess(
+        departmentData(UUID_PARENT),
+        false,
+      ),
+      child: this.isolationService.checkDataAccess(
+        departmentData(UUID_CHILD),
+        false,
+      ),
+    };
+  }
+}
+
+describe("IsolationModule - Department Hierarchy Integration", () => {
+  let app: INestApplication;
+
+  async function createApp(departmentHierarchy?: typeof InMemoryHierarchy) {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        HierarchyModule,
+        IsolationModule.forRoot({ departmentHierarchy, eventSinks: [] }),
+      ],
+      controllers: [TestController],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  }
+
+  const get = (departmentId: string) =>
+    request(app.getHttpServer())
+      .get("/test/access")
+      .set("X-Tenant-Id", UUID_TENANT)
+      .set("X-Organization-Id", UUID_ORG)
+      .set("X-Department-Id", departmentId)
+      .expect(200);
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("上级部门应该可以访问下级部门的数据", async () => {
+    await createApp(InMemoryHierarchy);
+
+    const response = await get(UUID_PARENT);
+
+    expect(response.body).toEqual({
+      scope: [UUID_PARENT, UUID_CHILD],
+      parent: true,
+      child: true,
+    });
+    expect(app.get(InMemoryHierarchy).calls).toEqual([UUID_PARENT]);
+  });
+
+  it("下级部门不能访问上级部门的数据", async () => {
+    await createApp(InMemoryHierarchy);
+
+    const response = await get(UUID_CHILD);
+
+    expect(response.body).toEqual({
+      scope: [UUID_CHILD],
+      parent: false,
+      child: true,
+    });
+  });
+
+  it("未配置解析器时部门应该只做精确匹配", async () => {
+    await createApp();
+
+    const response = await get(UUID_PARENT);
+
+    expect(response.body).toEqual({
+      scope: [UUID_PARENT],
+      parent: true,
+      child: false,
+    });
+  });
+});
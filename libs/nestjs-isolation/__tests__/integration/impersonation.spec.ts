@@ -0,0 +1,245 @@
+/**
+ * 模拟会话集成测试
+ *
+ * @description 测试平台人员以租户身份操作（act as）的会话创建、使用和结束
+ *
+ * ## 测试场景
+ *
+ * - ✅ 平台人员开始模拟，后续请求携带会话请求头使用被模拟的租户上下文
+ * - ✅ 模拟期间日志上下文记录真实操作者，开始和结束发布上下文切换事件
+ * - ✅ 结束模拟后会话失效
+ * - ✅ 缺少原因、租户级操作者、其他操作者的会话、已过期的会话被拒绝
+ * - ✅ 没有凭证的请求不能开始模拟，也不能只凭会话 ID 使用会话
+ * - ✅ 没有模拟权限的无租户用户不能开始模拟，撤销权限后已有会话被拒绝
+ * - ✅ 租户拒绝模拟时开始模拟和已有会话都被拒绝
+ * - ✅ 未启用模拟时携带会话请求头的请求被拒绝
+ *
+ * @group integration
+ */
+
+import {
+  IsolationContext,
+  IsolationContextSwitchedEvent,
+  TenantId,
+} from "@hl8/isolation-model";
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  INestApplication,
+  Post,
+} from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { createHash } from "node:crypto";
+import request from "supertest";
+import type {
+  IsolationEvent,
+  IsolationEventSink,
+} from "../../src/events/isolation-event-sink.interface.js";
+import type { ImpersonationModuleOptions } from "../../src/impersonation/impersonation-session.interface.js";
+import { IsolationModule } from "../../src/isolation.module.js";
+import { IsolationContextService } from "../../src/services/isolation-context.service.js";
+
+const UUID_TENANT = "550e8400-e29b-41d4-a716-446655440000";
+const UUID_STAFF = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+const UUID_OTHER_STAFF = "123e4567-e89b-42d3-a456-426614174002";
+const UUID_SERVICE_ACCOUNT = "9b2f6c1e-3d4a-4f5b-8c7d-1e2f3a4b5c6d";
+const SESSION_HEADER = "x-impersonation-session";
+
+@Controller("test")
+class TestController {
+  constructor(private readonly contextService: IsolationContextService) {}
+
+  @Post("impersonation")
+  async start(@Body() body: { reason: string; durationMs?: number }) {
+    const context = await this.contextService.startImpersonation(
+      IsolationContext.tenant(TenantId.create(UUID_TENANT)),
+      body,
+    );
+    return { sessionId: context.impersonation?.sessionId };
+  }
+
+  @Delete("impersonation")
+  async end() {
+    const context = await this.contextService.endImpersonation();
+    return { level: context?.getIsolationLevel() };
+  }
+
+  @Get("whoami")
+  whoami() {
+    return {
+      level: this.contextService.getIsolationContext()?.getIsolationLevel(),
+      log: this.contextService.getIsolationContext()?.buildLogContext(),
+      actor: this.contextService.getActorContext()?.userId?.getValue(),
+    };
+  }
+}
+
+describe("IsolationModule - Impersonation Integration", () => {
+  let app: INestApplication;
+  let events: IsolationEvent[];
+  let staff: Set<string>;
+
+  async function createApp(
+    impersonation?: Partial<ImpersonationModuleOptions>,
+  ) {
+    events = [];
+    staff = new Set([UUID_STAFF, UUID_OTHER_STAFF]);
+    const sink: IsolationEventSink = { publish: (event) => events.push(event) };
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        IsolationModule.forRoot({
+          impersonation: impersonation && {
+            canImpersonate: (actor) =>
+              staff.has(actor.userId?.getValue() ?? ""),
+            ...impersonation,
+          },
+          eventSinks: [sink],
+        }),
+      ],
+      controllers: [TestController],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  }
+
+  const start = (reason = "TICKET-1234", userId = UUID_STAFF) =>
+    request(app.getHttpServer())
+      .post("/test/impersonation")
+      .set("X-User-Id", userId)
+      .send({ reason });
+
+  const whoami = (sessionId: string, userId = UUID_STAFF) =>
+    request(app.getHttpServer())
+      .get("/test/whoami")
+      .set("X-User-Id", userId)
+      .set(SESSION_HEADER, sessionId);
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("携带会话请求头的请求应该使用被模拟的租户上下文", async () => {
+    await createApp({});
+
+    const { body } = await start().expect(201);
+    const response = await whoami(body.sessionId).expect(200);
+
+    expect(response.body).toEqual({
+      level: "tenant",
+      log: expect.objectContaining({
+        tenantId: UUID_TENANT,
+        impersonatedBy: UUID_STAFF,
+        impersonationSessionRef: createHash("sha256")
+          .update(body.sessionId)
+          .digest("hex")
+          .slice(0, 16),
+        impersonationReason: "TICKET-1234",
+      }),
+      actor: UUID_STAFF,
+    });
+    expect(JSON.stringify(response.body.log)).not.toContain(body.sessionId);
+  });
+
+  it("开始和结束模拟应该发布上下文切换事件，结束后会话失效", async () => {
+    await createApp({});
+    const { body } = await start().expect(201);
+
+    await request(app.getHttpServer())
+      .delete("/test/impersonation")
+      .set("X-User-Id", UUID_STAFF)
+      .set(SESSION_HEADER, body.sessionId)
+      .expect(200, { level: "user" });
+
+    expect(
+      events.map((event) => (event as IsolationContextSwitchedEvent).reason),
+    ).toEqual(["impersonation-start", "impersonation-end"]);
+    await whoami(body.sessionId).expect(403);
+  });
+
+  it("缺少原因时应该拒绝开始模拟", async () => {
+    await createApp({});
+
+    await start("  ").expect(400);
+  });
+
+  it("租户级上下文不能开始模拟", async () => {
+    await createApp({});
+
+    await request(app.getHttpServer())
+      .post("/test/impersonation")
+      .set("X-Tenant-Id", UUID_TENANT)
+      .set("X-User-Id", UUID_STAFF)
+      .send({ reason: "TICKET-1234" })
+      .expect(403);
+  });
+
+  it("没有凭证的请求不能开始模拟", async () => {
+    await createApp({});
+
+    await request(app.getHttpServer())
+      .post("/test/impersonation")
+      .send({ reason: "TICKET-1234", actorId: UUID_STAFF })
+      .expect(403);
+  });
+
+  it("没有模拟权限的无租户用户不能开始模拟", async () => {
+    await createApp({});
+
+    await start("TICKET-1234", UUID_SERVICE_ACCOUNT).expect(403);
+  });
+
+  it("撤销模拟权限后已有会话应该被拒绝", async () => {
+    await createApp({});
+    const { body } = await start().expect(201);
+
+    staff.delete(UUID_STAFF);
+
+    await whoami(body.sessionId).expect(403);
+  });
+
+  it("只凭会话 ID 不能使用会话", async () => {
+    await createApp({});
+    const { body } = await start().expect(201);
+
+    await request(app.getHttpServer())
+      .get("/test/whoami")
+      .set(SESSION_HEADER, body.sessionId)
+      .expect(403);
+  });
+
+  it("其他操作者不能使用会话", async () => {
+    await createApp({});
+    const { body } = await start().expect(201);
+
+    await whoami(body.sessionId, UUID_OTHER_STAFF).expect(403);
+  });
+
+  it("过期的会话应该被拒绝", async () => {
+    await createApp({ maxDurationMs: 1 });
+    const { body } = await start().expect(201);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    await whoami(body.sessionId).expect(403);
+  });
+
+  it("租户拒绝模拟时应该拒绝开始模拟和已有会话", async () => {
+    const optedOut = new Set<string>();
+    await createApp({ isTenantOptedOut: (tenantId) => optedOut.has(tenantId) });
+    const { body } = await start().expect(201);
+
+    optedOut.add(UUID_TENANT);
+
+    await whoami(body.sessionId).expect(403);
+    await start().expect(403);
+  });
+
+  it("未启用模拟时携带会话请求头的请求应该被拒绝", async () => {
+    await createApp();
+
+    await whoami("any-session").expect(403);
+    await start().expect(403);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * 隔离事件集成测试
+ *
+ * @description 测试守卫、数据访问检查和上下文切换发布隔离事件
+ *
+ * ## 测试场景
+ *
+ * - ✅ 守卫按隔离级别拒绝时发布 DataAccessDeniedEvent
+ * - ✅ 匿名请求被拒绝时事件的请求方为 undefined，而不是平台级
+ * - ✅ checkDataAccess 拒绝跨租户访问时发布事件
+ * - ✅ checkDataAccess 按 sharedWith 授权放行，只读授权拒绝写入
+ * - ✅ 切换组织时替换上下文并发布 IsolationContextSwitchedEvent
+ * - ✅ 以 provider 类配置的接收器从应用中解析
+ * - ✅ 接收器异常不影响请求
+ *
+ * @group integration
+ */
+
+import {
+  AccessMode,
+  DataAccessDeniedEvent,
+  IsolationContext,
+  IsolationContextSwitchedEvent,
+  OrganizationId,
+  SharingGranteeType,
+  TenantId,
+} from "@hl8/isolation-model";
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Injectable,
+  Module,
+  UseGuards,
+} from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import request from "supertest";
+import { RequireTenant } from "../../src/decorators/require-level.decorator.js";
+import type {
+  IsolationEvent,
+  IsolationEventSink,
+} from "../../src/events/isolation-event-sink.interface.js";
+import { IsolationGuard } from "../../src/guards/isolation.guard.js";
+import { IsolationModule } from "../../src/isolation.module.js";
+import { HeaderContextResolver } from "../../src/resolvers/header.resolver.js";
+import { IsolationContextService } from "../../src/services/isolation-context.service.js";
+import { MultiLevelIsolationService } from "../../src/services/multi-level-isolation.service.js";
+
+const UUID_TENANT = "550e8400-e29b-41d4-a716-446655440000";
+const UUID_OTHER_TENANT = "550e8400-e29b-41d4-a716-446655440001";
+const UUID_ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+const UUID_OTHER_ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c9";
+
+@Injectable()
+class RecordingSink implements IsolationEventSink {
+  readonly events: IsolationEvent[] = [];
+
+  publish(event: IsolationEvent): void {
+    this.events.push(event);
+  }
+}
+
+@Module({ providers: [RecordingSink], exports: [RecordingSink] })
+class AuditModule {}
+
+@Controller("test")
+@UseGuards(IsolationGuard)
+class TestController {
+  constructor(
+    private readonly contextService: IsolationContextService,
+    private readonly isolationService: MultiLevelIsolationService,
+  ) {}
+
+  @Get("tenant")
+  @RequireTenant()
+  tenantOnly() {
+    return { ok: true };
+  }
+
+  @Get("other-tenant")
+  readOtherTenant() {
+    return {
+      allowed: this.isolationService.checkDataAccess(
+        IsolationContext.tenant(TenantId.create(UUID_OTHER_TENANT)),
+        false,
+      ),
+    };
+  }
+
+  @Get("shared")
+  readShared() {
+    const data = {
+      isolationContext: IsolationContext.organization(
+        TenantId.create(UUID_TENANT),
+        OrganizationId.create(UUID_OTHER_ORG),
+      ),
+      isShared: false,
+      sharedWith: [
+        {
+          granteeType: SharingGranteeType.ORGANIZATION,
+          granteeId: UUID_ORG,
+        },
+      ],
+    };
+    return {
+      read: this.isolationService.checkDataAccess(data),
+      write: this.isolationService.checkDataAccess(data, AccessMode.WRITE),
+    };
+  }
+
+  @Get("switch")
+  switchOrganization() {
+    const context = this.contextService.switchOrganization(
+      OrganizationId.create(UUID_ORG),
+      "user-switch",
+    );
+    return { organizationId: context.organizationId?.getValue() };
+  }
+}
+
+describe("IsolationModule - Isolation Events Integration", () => {
+  let app: INestApplication;
+  let sink: RecordingSink;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        AuditModule,
+        IsolationModule.forRoot({
+          eventSinks: [
+            RecordingSink,
+            {
+              publish: () => {
+                throw new Error("sink down");
+              },
+            },
+          ],
+        }),
+      ],
+      controllers: [TestController],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    sink = moduleFixture.get(RecordingSink);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it("守卫拒绝时应该发布 DataAccessDeniedEvent", async () => {
+    await request(app.getHttpServer()).get("/test/tenant").expect(403);
+
+    expect(sink.events).toHaveLength(1);
+    const event = sink.events[0] as DataAccessDeniedEvent;
+    expect(event).toBeInstanceOf(DataAccessDeniedEvent);
+    expect(event.reason).toBe("insufficient-isolation-level:tenant");
+    expect(event.userContext?.isEmpty()).toBe(true);
+    expect(event.dataContext).toBeUndefined();
+  });
+
+  it("跨租户访问被拒绝时应该发布事件", async () => {
+    const response = await request(app.getHttpServer())
+      .get("/test/other-tenant")
+      .set("X-Tenant-Id", UUID_TENANT)
+      .expect(200);
+
+    expect(response.body.allowed).toBe(false);
+    const event = sink.events[0] as DataAccessDeniedEvent;
+    expect(event.reason).toBe("cross-tenant-access");
+    expect(event.userContext?.tenantId?.getValue()).toBe(UUID_TENANT);
+    expect(event.dataContext?.tenantId?.getValue()).toBe(UUID_OTHER_TENANT);
+  });
+
+  it("应该按 sharedWith 授权放行读取，只读授权拒绝写入", async () => {
+    const response = await request(app.getHttpServer())
+      .get("/test/shared")
+      .set("X-Tenant-Id", UUID_TENANT)
+      .set("X-Organization-Id", UUID_ORG)
+      .expect(200);
+
+    expect(response.body).toEqual({ read: true, write: false });
+    expect(sink.events).toHaveLength(1);
+    expect((sink.events[0] as DataAccessDeniedEvent).reason).toBe(
+      "write-not-granted",
+    );
+  });
+
+  it("切换组织时应该发布 IsolationContextSwitchedEvent", async () => {
+    const response = await request(app.getHttpServer())
+      .get("/test/switch")
+      .set("X-Tenant-Id", UUID_TENANT)
+      .expect(200);
+
+    expect(response.body.organizationId).toBe(UUID_ORG);
+    const event = sink.events[0] as IsolationContextSwitchedEvent;
+    expect(event).toBeInstanceOf(IsolationContextSwitchedEvent);
+    expect(event.reason).toBe("user-switch");
+    expect(event.from.organizationId).toBeUndefined();
+    expect(event.to.organizationId?.getValue()).toBe(UUID_ORG);
+  });
+
+  it("匿名请求被守卫拒绝时请求方应该为 undefined", async () => {
+    const anonymousSink = new RecordingSink();
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        IsolationModule.forRoot({
+          resolvers: [
+            new HeaderContextResolver({ trustedProxies: ["10.0.0.0/8"] }),
+          ],
+          eventSinks: [anonymousSink],
+        }),
+      ],
+      controllers: [TestController],
+    }).compile();
+    const strictApp = moduleFixture.createNestApplication();
+    await strictApp.init();
+
+    try {
+      await request(strictApp.getHttpServer()).get("/test/tenant").expect(403);
+    } finally {
+      await strictApp.close();
+    }
+
+    const event = anonymousSink.events[0] as DataAccessDeniedEvent;
+    expect(event.reason).toBe("missing-isolation-context");
+    expect(event.userContext).toBeUndefined();
+  });
+});
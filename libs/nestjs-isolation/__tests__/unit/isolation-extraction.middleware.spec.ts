@@ -0,0 +1,111 @@
+/**
+ * IsolationExtractionMiddleware 单元测试
+ *
+ * @description 测试中间件的层级判断与 IsolationModule 一致、匿名请求不设置隔离上下文，以及部门范围加载
+ *
+ * @group unit
+ */
+
+import { IsolationContext, IsolationLevel } from "@hl8/isolation-model";
+import type { Request, Response } from "express";
+import type { ClsService } from "nestjs-cls";
+import type { DepartmentHierarchyService } from "../../src/hierarchy/department-hierarchy.service.js";
+import { IsolationExtractionMiddleware } from "../../src/middleware/isolation-extraction.middleware.js";
+import { HeaderContextResolver } from "../../src/resolvers/header.resolver.js";
+import { IsolationContextResolver } from "../../src/resolvers/isolation-context.resolver.js";
+
+const UUID_TENANT = "550e8400-e29b-41d4-a716-446655440000";
+const UUID_ORG = "6ba7b810-9dad-41d1-80b4-00c04fd430c8";
+const UUID_DEPT = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+const UUID_USER = "a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a11";
+
+describe("IsolationExtractionMiddleware", () => {
+  let stored: Array<IsolationContext | undefined>;
+  let errors: unknown[];
+
+  beforeEach(() => {
+    stored = [];
+    errors = [];
+  });
+
+  const cls = {
+    set: (key: string, value: IsolationContext | undefined) => {
+      if (key === "ISOLATION_CONTEXT") stored.push(value);
+    },
+  };
+
+  const run = (
+    headers: Record<string, string>,
+    resolver?: IsolationContextResolver,
+    departmentHierarchy?: Partial<DepartmentHierarchyService>,
+  ) =>
+    new IsolationExtractionMiddleware(
+      cls as unknown as ClsService,
+      resolver,
+      undefined,
+      departmentHierarchy as DepartmentHierarchyService | undefined,
+    ).use({ headers } as unknown as Request, {} as Response, (error) =>
+      errors.push(error),
+    );
+
+  it("兼容模式下同时有租户和用户时应该为带租户的用户级（与 IsolationModule 一致）", async () => {
+    await run({ "x-tenant-id": UUID_TENANT, "x-user-id": UUID_USER });
+
+    const [context] = stored;
+    expect(context?.getIsolationLevel()).toBe(IsolationLevel.USER);
+    expect(context?.tenantId?.getValue()).toBe(UUID_TENANT);
+    expect(context?.userId?.getValue()).toBe(UUID_USER);
+    expect(errors).toEqual([undefined]);
+  });
+
+  it("兼容模式下没有请求头时应该为平台级", async () => {
+    await run({});
+
+    expect(stored).toEqual([IsolationContext.platform()]);
+  });
+
+  it("配置了解析器时没有凭证的请求不应该设置隔离上下文", async () => {
+    await run(
+      {},
+      new IsolationContextResolver([
+        new HeaderContextResolver({ trustedProxies: ["10.0.0.0/8"] }),
+      ]),
+    );
+
+    expect(stored).toEqual([undefined]);
+    expect(errors).toEqual([undefined]);
+  });
+
+  it("配置了部门层级时应该在上下文写入后加载部门范围（与 IsolationModule 一致）", async () => {
+    const loadedWith: Array<IsolationContext | undefined> = [];
+    await run(
+      {
+        "x-tenant-id": UUID_TENANT,
+        "x-organization-id": UUID_ORG,
+        "x-department-id": UUID_DEPT,
+      },
+      undefined,
+      {
+        load: async () => {
+          loadedWith.push(stored.at(-1));
+          return [UUID_DEPT];
+        },
+      },
+    );
+
+    expect(loadedWith).toHaveLength(1);
+    expect(loadedWith[0]?.getIsolationLevel()).toBe(IsolationLevel.DEPARTMENT);
+    expect(errors).toEqual([undefined]);
+  });
+
+  it("加载部门范围失败时应该交给错误处理器", async () => {
+    const failure = new Error("hierarchy unavailable");
+    await run({ "x-tenant-id": UUID_TENANT }, undefined, {
+      load: async () => {
+        throw failure;
+      },
+    });
+
+    expect(errors).toEqual([failure]);
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * JwtContextResolver 单元测试
+ *
+ * @description 测试签名校验、JWKS 密钥选择和标准声明校验
+ *
+ * @group unit
+ */
+
+import {
+  generateKeyPairSync,
+  type KeyObject,
+  sign as cryptoSign,
+} from "node:crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { UnauthorizedException } from "@nestjs/common";
+import { JwtContextResolver } from "../../src/resolvers/jwt.resolver.js";
+
+const UUID_TENANT = "550e8400-e29b-41d4-a716-446655440000";
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+/** 签名令牌，未指定 exp 时默认 60 秒后过期 */
+function signAsymmetric(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  privateKey: KeyObject,
+  hash = "sha256",
+): string {
+  const data = `${encode(header)}.${encode({
+    exp: Math.floor(Date.now() / 1000) + 60,
+    ...payload,
+  })}`;
+  const signature = cryptoSign(hash, Buffer.from(data), {
+    key: privateKey,
+    dsaEncoding: "ieee-p1363",
+  });
+  return `${data}.${signature.toString("base64url")}`;
+}
+
+const bearer = (token: string) => ({
+  headers: { authorization: `Bearer ${token}` },
+});
+
+describe("JwtContextResolver", () => {
+  const ec = generateKeyPairSync("ec", { namedCurve: "P-256" });
+  const rsa = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+  it("没有 Bearer 令牌时应该返回 undefined", () => {
+    const resolver = new JwtContextResolver({ publicKey: ec.publicKey });
+
+    expect(resolver.resolve({ headers: {} })).toBeUndefined();
+  });
+
+  it("应该校验 ES256 签名并按自定义声明名称映射", () => {
+    const resolver = new JwtContextResolver({
+      publicKey: ec.publicKey,
+      claims: { tenantId: "tid" },
+      issuer: "https://auth.example.com",
+      audience: ["api", "admin"],
+    });
+    const token = signAsymmetric(
+      { alg: "ES256" },
+      { tid: UUID_TENANT, iss: "https://auth.example.com", aud: "api" },
+      ec.privateKey,
+    );
+
+    expect(resolver.resolve(bearer(token))).toEqual({ tenantId: UUID_TENANT });
+  });
+
+  describe("JWKS 文件", () => {
+    let dir: string;
+    let resolver: JwtContextResolver;
+
+    beforeAll(() => {
+      dir = mkdtempSync(join(tmpdir(), "jwks-"));
+      const file = join(dir, "jwks.json");
+      writeFileSync(
+        file,
+        JSON.stringify({
+          keys: [
+            { ...ec.publicKey.export({ format: "jwk" }), kid: "ec-1" },
+            { ...rsa.publicKey.export({ format: "jwk" }), kid: "rsa-1" },
+          ],
+        }),
+      );
+      resolver = new JwtContextResolver({ jwksFile: file });
+    });
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("应该按 kid 选择公钥", () => {
+      const token = signAsymmetric(
+        { alg: "RS256", kid: "rsa-1" },
+        { tenant_id: UUID_TENANT },
+        rsa.privateKey,
+      );
+
+      expect(resolver.resolve(bearer(token))).toEqual({
+        tenantId: UUID_TENANT,
+      });
+    });
+
+    it("应该拒绝未知的 kid 或与算法不匹配的密钥", () => {
+      const unknown = signAsymmetric(
+        { alg: "RS256", kid: "rsa-2" },
+        {},
+        rsa.privateKey,
+      );
+      const mismatched = signAsymmetric(
+        { alg: "RS256", kid: "ec-1" },
+        {},
+        rsa.privateKey,
+      );
+
+      expect(() => resolver.resolve(bearer(unknown))).toThrow(
+        UnauthorizedException,
+      );
+      expect(() => resolver.resolve(bearer(mismatched))).toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  it("应该拒绝 alg=none 和以公钥作为 HMAC 密钥的令牌", () => {
+    const resolver = new JwtContextResolver({ publicKey: rsa.publicKey });
+    const none = `${encode({ alg: "none" })}.${encode({ tenant_id: UUID_TENANT })}.`;
+    const hmac = `${encode({ alg: "HS256" })}.${encode({ tenant_id: UUID_TENANT })}.sig`;
+
+    expect(() => resolver.resolve(bearer(none))).toThrow(
+      "JWT algorithm not allowed: none",
+    );
+    expect(() => resolver.resolve(bearer(hmac))).toThrow(
+      "JWT algorithm not allowed: HS256",
+    );
+  });
+
+  it("应该校验 exp、nbf、issuer 和 audience", () => {
+    const resolver = new JwtContextResolver({
+      publicKey: ec.publicKey,
+      issuer: "https://auth.example.com",
+      audience: "api",
+      clockTolerance: 5,
+    });
+    const now = Math.floor(Date.now() / 1000);
+    const token = (payload: Record<string, unknown>) =>
+      bearer(
+        signAsymmetric(
+          { alg: "ES256" },
+          { iss: "https://auth.example.com", aud: "api", ...payload },
+          ec.privateKey,
+        ),
+      );
+
+    expect(resolver.resolve(token({ exp: now - 2 }))).toEqual({});
+    expect(() => resolver.resolve(token({ exp: now - 10 }))).toThrow(
+      "JWT expired",
+    );
+    expect(() => resolver.resolve(token({ nbf: now + 60 }))).toThrow(
+      "JWT not yet valid",
+    );
+    expect(() => resolver.resolve(token({ iss: "other" }))).toThrow(
+      "Unexpected JWT issuer",
+    );
+    expect(() => resolver.resolve(token({ aud: ["web"] }))).toThrow(
+      "Unexpected JWT audience",
+    );
+  });
+
+  it("应该拒绝没有 exp 的令牌，除非显式允许", () => {
+    const token = bearer(
+      signAsymmetric(
+        { alg: "ES256" },
+        { tenant_id: UUID_TENANT, exp: undefined },
+        ec.privateKey,
+      ),
+    );
+
+    expect(() =>
+      new JwtContextResolver({ publicKey: ec.publicKey }).resolve(token),
+    ).toThrow("JWT has no expiration");
+    expect(
+      new JwtContextResolver({
+        publicKey: ec.publicKey,
+        allowMissingExp: true,
+      }).resolve(token),
+    ).toEqual({ tenantId: UUID_TENANT });
+  });
+
+  it("应该拒绝非数字的 exp", () => {
+    const resolver = new JwtContextResolver({ publicKey: ec.publicKey });
+    const token = signAsymmetric(
+      { alg: "ES256" },
+      { exp: "4102444800" },
+      ec.privateKey,
+    );
+
+    expect(() => resolver.resolve(bearer(token))).toThrow("Malformed JWT");
+  });
+
+  it("ES 算法应该只接受对应曲线的公钥", () => {
+    const p384 = generateKeyPairSync("ec", { namedCurve: "P-384" });
+    const resolver = new JwtContextResolver({ publicKey: ec.publicKey });
+    const es384 = signAsymmetric(
+      { alg: "ES384" },
+      { tenant_id: UUID_TENANT },
+      ec.privateKey,
+      "sha384",
+    );
+
+    expect(() => resolver.resolve(bearer(es384))).toThrow(
+      UnauthorizedException,
+    );
+    expect(
+      new JwtContextResolver({ publicKey: p384.publicKey }).resolve(
+        bearer(
+          signAsymmetric(
+            { alg: "ES384" },
+            { tenant_id: UUID_TENANT },
+            p384.privateKey,
+            "sha384",
+          ),
+        ),
+      ),
+    ).toEqual({ tenantId: UUID_TENANT });
+  });
+
+  it("未配置或同时配置多种密钥时应该抛出配置错误", () => {
+    expect(() => new JwtContextResolver({})).toThrow(
+      "JwtContextResolver requires exactly one of secret, publicKey or jwksFile",
+    );
+    expect(
+      () => new JwtContextResolver({ secret: "s", publicKey: ec.publicKey }),
+    ).toThrow(Error);
+  });
+
+  it("密钥为空时应该抛出配置错误", () => {
+    expect(() => new JwtContextResolver({ secret: "" })).toThrow(
+      "JwtContextResolver secret must not be empty",
+    );
+    expect(() => new JwtContextResolver({ secret: Buffer.alloc(0) })).toThrow(
+      "JwtContextResolver secret must not be empty",
+    );
+    expect(() => new JwtContextResolver({ publicKey: "" })).toThrow(
+      "JwtContextResolver publicKey must not be empty",
+    );
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * 隔离事件导出
+ *
+ * @module events
+ * @since 1.1.0
+ */
+
+export * from "./isolation-event-sink.interface.js";
+export * from "./isolation-event.publisher.js";
+export * from "./logger-event.sink.js";
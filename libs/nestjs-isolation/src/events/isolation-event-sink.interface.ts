@@ -0,0 +1,47 @@
+/**
+ * 隔离事件接收器接口
+ *
+ * @description 接收 @hl8/isolation-model 定义的隔离领域事件，写入日志、事件总线或数据库表
+ *
+ * ## 业务规则
+ *
+ * ### 投递规则
+ * - 事件由 IsolationEventPublisher 同步投递给所有接收器，返回的 Promise 不等待
+ * - 接收器的异常只记录警告，不影响业务请求
+ * - 方法名与 @nestjs/cqrs 的 EventBus.publish 一致，EventBus 实例可以直接作为接收器
+ *
+ * @example
+ * ```typescript
+ * IsolationModule.forRoot({
+ *   eventSinks: [LoggerIsolationEventSink, eventBus],
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type {
+  DataAccessDeniedEvent,
+  IsolationContextCreatedEvent,
+  IsolationContextSwitchedEvent,
+} from "@hl8/isolation-model";
+
+/**
+ * 隔离领域事件
+ */
+export type IsolationEvent =
+  | DataAccessDeniedEvent
+  | IsolationContextSwitchedEvent
+  | IsolationContextCreatedEvent;
+
+/**
+ * 隔离事件接收器
+ */
+export interface IsolationEventSink {
+  /**
+   * 接收一个隔离事件
+   *
+   * @param event - 隔离领域事件
+   */
+  publish(event: IsolationEvent): void | Promise<void>;
+}
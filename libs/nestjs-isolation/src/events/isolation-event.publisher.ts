@@ -0,0 +1,92 @@
+/**
+ * 隔离事件发布器
+ *
+ * @description 把守卫、数据访问检查和上下文切换产生的隔离事件投递给配置的接收器
+ *
+ * ## 业务规则
+ *
+ * ### 接收器
+ * - IsolationModule.forRoot({ eventSinks }) 中可传入接收器实例或 provider 类
+ * - provider 类在模块初始化时从整个应用中查找（例如 DatabaseModule 导出的 DatabaseIsolationEventSink）
+ * - 未配置时使用 LoggerIsolationEventSink；传入空数组则不投递
+ *
+ * ### 投递规则
+ * - 依次同步调用每个接收器，异步接收器的结果不等待
+ * - 接收器抛出异常或返回被拒绝的 Promise 时只记录警告，不影响其他接收器和业务请求
+ *
+ * @since 1.1.0
+ */
+
+import {
+  Inject,
+  Injectable,
+  Logger,
+  type OnModuleInit,
+  type Type,
+} from "@nestjs/common";
+import { ModuleRef } from "@nestjs/core";
+import type {
+  IsolationEvent,
+  IsolationEventSink,
+} from "./isolation-event-sink.interface.js";
+
+/**
+ * 配置的接收器注入令牌
+ */
+export const ISOLATION_EVENT_SINKS = Symbol("ISOLATION_EVENT_SINKS");
+
+/**
+ * 接收器配置：实例或 provider 类
+ */
+export type IsolationEventSinkOption =
+  | IsolationEventSink
+  | Type<IsolationEventSink>;
+
+@Injectable()
+export class IsolationEventPublisher implements OnModuleInit {
+  private readonly logger = new Logger(IsolationEventPublisher.name);
+  private sinks: IsolationEventSink[] = [];
+
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    @Inject(ISOLATION_EVENT_SINKS)
+    private readonly sinkOptions: IsolationEventSinkOption[],
+  ) {}
+
+  /**
+   * 模块初始化钩子
+   *
+   * @description 解析以 provider 类配置的接收器
+   */
+  onModuleInit(): void {
+    this.sinks = this.sinkOptions.map((sink) =>
+      typeof sink === "function"
+        ? this.moduleRef.get(sink, { strict: false })
+        : sink,
+    );
+  }
+
+  /**
+   * 发布隔离事件
+   *
+   * @param event - 隔离领域事件
+   */
+  publish(event: IsolationEvent): void {
+    for (const sink of this.sinks) {
+      try {
+        const result = sink.publish(event);
+        if (result instanceof Promise) {
+          result.catch((error: Error) => this.onSinkError(sink, error));
+        }
+      } catch (error) {
+        this.onSinkError(sink, error as Error);
+      }
+    }
+  }
+
+  private onSinkError(sink: IsolationEventSink, error: Error): void {
+    this.logger.warn(
+      `Isolation event sink ${sink.constructor.name} failed: ${error.message}`,
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * 日志事件接收器
+ *
+ * @description 将隔离事件写入 NestJS 日志，未配置 eventSinks 时默认使用
+ *
+ * ## 业务规则
+ *
+ * ### 日志级别
+ * - 访问被拒绝：warn，附带双方的隔离上下文和拒绝原因
+ * - 上下文切换、创建：log
+ *
+ * @since 1.1.0
+ */
+
+import {
+  DataAccessDeniedEvent,
+  IsolationContextSwitchedEvent,
+} from "@hl8/isolation-model";
+import { Injectable, Logger } from "@nestjs/common";
+import type {
+  IsolationEvent,
+  IsolationEventSink,
+} from "./isolation-event-sink.interface.js";
+
+@Injectable()
+export class LoggerIsolationEventSink implements IsolationEventSink {
+  private readonly logger = new Logger("IsolationAudit");
+
+  publish(event: IsolationEvent): void {
+    if (event instanceof DataAccessDeniedEvent) {
+      this.logger.warn(`Isolation access denied: ${event.reason}`, {
+        user: event.userContext?.buildLogContext() ?? "anonymous",
+        data: event.dataContext?.buildLogContext(),
+        occurredAt: event.occurredAt,
+      });
+    } else if (event instanceof IsolationContextSwitchedEvent) {
+      this.logger.log(`Isolation context switched: ${event.reason}`, {
+        from: event.from.buildLogContext(),
+        to: event.to.buildLogContext(),
+        occurredAt: event.occurredAt,
+      });
+    } else {
+      this.logger.log(`Isolation context created: ${event.requestId}`, {
+        context: event.context.buildLogContext(),
+        occurredAt: event.occurredAt,
+      });
+    }
+  }
+}
@@ -14,11 +14,16 @@
  * ### 错误处理
  * - 验证失败时返回 403 Forbidden
  * - 错误消息清晰说明所需的隔离级别
+ * - 拒绝前发布 DataAccessDeniedEvent（dataContext 为 undefined），供安全审计
  *
  * @since 1.0.0
  */
 
-import { IsolationContext, IsolationLevel } from "@hl8/isolation-model";
+import {
+  DataAccessDeniedEvent,
+  IsolationContext,
+  IsolationLevel,
+} from "@hl8/isolation-model";
 import {
   CanActivate,
   ExecutionContext,
@@ -27,6 +32,7 @@ import {
 } from "@nestjs/common";
 import { Reflector } from "@nestjs/core";
 import { REQUIRED_ISOLATION_LEVEL_KEY } from "../decorators/require-level.decorator.js";
+import { IsolationEventPublisher } from "../events/isolation-event.publisher.js";
 import { IsolationContextService } from "../services/isolation-context.service.js";
 
 @Injectable()
@@ -34,6 +40,7 @@ export class IsolationGuard implements CanActivate {
   constructor(
     private readonly reflector: Reflector,
     private readonly contextService: IsolationContextService,
+    private readonly eventPublisher: IsolationEventPublisher,
   ) {}
 
   canActivate(context: ExecutionContext): boolean {
@@ -51,6 +58,13 @@ export class IsolationGuard implements CanActivate {
     const isolationContext = this.contextService.getIsolationContext();
 
     if (!isolationContext) {
+      this.eventPublisher.publish(
+        new DataAccessDeniedEvent(
+          undefined,
+          undefined,
+          "missing-isolation-context",
+        ),
+      );
       throw new ForbiddenException(
         `This endpoint requires ${requiredLevel} level isolation context, but no context found`,
       );
@@ -63,6 +77,13 @@ export class IsolationGuard implements CanActivate {
     );
 
     if (!hasRequiredLevel) {
+      this.eventPublisher.publish(
+        new DataAccessDeniedEvent(
+          isolationContext,
+          undefined,
+          `insufficient-isolation-level:${requiredLevel}`,
+        ),
+      );
       throw new ForbiddenException(
         `This endpoint requires ${requiredLevel} level isolation context, ` +
           `but current context is ${isolationContext.getIsolationLevel()}`,
@@ -0,0 +1,50 @@
+/**
+ * 部门层级解析器接口
+ *
+ * @description 查询某个部门的全部下级部门，供 DepartmentHierarchyService 按请求加载部门范围
+ *
+ * ## 业务规则
+ *
+ * ### 查询规则
+ * - 返回所有层级的下级部门 ID（不只是直接下级），不包含部门自身
+ * - 只返回同一租户内的部门
+ * - 每个请求每个部门最多调用一次，结果由 DepartmentHierarchyService 缓存在 CLS 中
+ *
+ * @example
+ * ```typescript
+ * IsolationModule.forRoot({
+ *   departmentHierarchy: {
+ *     getDescendantIds: (tenantId, departmentId) =>
+ *       departmentRepository.findDescendantIds(tenantId, departmentId),
+ *   },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { Type } from "@nestjs/common";
+
+/**
+ * 部门层级解析器
+ */
+export interface DepartmentHierarchyResolver {
+  /**
+   * 查询部门的全部下级部门
+   *
+   * @param tenantId - 租户 ID
+   * @param departmentId - 部门 ID
+   * @returns 下级部门 ID 列表，不包含部门自身
+   */
+  getDescendantIds(
+    tenantId: string,
+    departmentId: string,
+  ): Promise<string[]> | string[];
+}
+
+/**
+ * 部门层级解析器配置：实例或 provider 类
+ */
+export type DepartmentHierarchyOption =
+  | DepartmentHierarchyResolver
+  | Type<DepartmentHierarchyResolver>;
@@ -0,0 +1,147 @@
+/**
+ * 部门层级服务
+ *
+ * @description 按请求加载当前部门及其全部下级部门，使部门级访问检查和数据库过滤包含下级部门
+ *
+ * ## 业务规则
+ *
+ * ### 加载规则
+ * - 配置了 departmentHierarchy 时，IsolationModule 在解析出部门级上下文后立即加载部门范围
+ * - 部门范围缓存在 CLS 中，同一请求内同一部门只查询一次
+ * - switchDepartment 之后需要调用 load() 加载新部门的范围，否则新部门只做精确匹配
+ *
+ * ### 匹配规则
+ * - contains(ancestor, department)：department 是 ancestor 本身或 ancestor 已加载范围内的下级部门
+ * - 未配置解析器或范围未加载时只做精确匹配，不会放宽访问
+ *
+ * @example
+ * ```typescript
+ * // 检查数据访问（MultiLevelIsolationService 已自动传入）
+ * userContext.canAccess(dataContext, false, undefined, departmentHierarchy);
+ *
+ * // 切换部门后重新加载
+ * contextService.switchDepartment(departmentId);
+ * await departmentHierarchy.load();
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { DepartmentId, IDepartmentHierarchy } from "@hl8/isolation-model";
+import type { OnModuleInit } from "@nestjs/common";
+import type { ModuleRef } from "@nestjs/core";
+import type { ClsService } from "nestjs-cls";
+import type { IsolationContextService } from "../services/isolation-context.service.js";
+import type {
+  DepartmentHierarchyOption,
+  DepartmentHierarchyResolver,
+} from "./department-hierarchy-resolver.interface.js";
+
+const DEPARTMENT_SCOPES_KEY = "DEPARTMENT_SCOPES";
+
+/**
+ * 部门层级服务
+ *
+ * @description 由 IsolationModule 创建，可以直接注入使用
+ */
+export class DepartmentHierarchyService
+  implements IDepartmentHierarchy, OnModuleInit
+{
+  private resolver?: DepartmentHierarchyResolver;
+
+  constructor(
+    private readonly cls: ClsService,
+    private readonly contextService: IsolationContextService,
+    private readonly moduleRef: ModuleRef,
+    private readonly option?: DepartmentHierarchyOption,
+  ) {}
+
+  /**
+   * 模块初始化钩子
+   *
+   * @description 解析以 provider 类配置的解析器
+   */
+  onModuleInit(): void {
+    this.resolver =
+      typeof this.option === "function"
+        ? this.moduleRef.get(this.option, { strict: false })
+        : this.option;
+  }
+
+  /**
+   * 是否配置了部门层级解析器
+   */
+  isEnabled(): boolean {
+    return this.resolver !== undefined;
+  }
+
+  /**
+   * 加载当前部门的范围
+   *
+   * @returns 当前部门及其全部下级部门 ID；未配置解析器或当前上下文没有部门时返回 undefined
+   */
+  async load(): Promise<string[] | undefined> {
+    const context = this.contextService.getIsolationContext();
+    const scopes = this.getScopes();
+    if (
+      !this.resolver ||
+      !scopes ||
+      !context?.tenantId ||
+      !context.departmentId
+    ) {
+      return undefined;
+    }
+
+    const departmentId = context.departmentId.getValue();
+    let scope = scopes.get(departmentId);
+    if (!scope) {
+      const descendants = await this.resolver.getDescendantIds(
+        context.tenantId.getValue(),
+        departmentId,
+      );
+      scope = new Set([departmentId, ...descendants]);
+      scopes.set(departmentId, scope);
+    }
+    return [...scope];
+  }
+
+  /**
+   * 获取当前部门的范围
+   *
+   * @returns 当前部门及其已加载的下级部门 ID；当前上下文没有部门时返回 undefined
+   */
+  getDepartmentScope(): string[] | undefined {
+    const departmentId = this.contextService.getDepartmentId()?.getValue();
+    if (!departmentId) {
+      return undefined;
+    }
+    const scope = this.getScopes()?.get(departmentId);
+    return scope ? [...scope] : [departmentId];
+  }
+
+  /**
+   * 判断部门是否为上级部门本身或其已加载范围内的下级部门
+   *
+   * @param ancestor - 上级部门 ID
+   * @param department - 待判断的部门 ID
+   */
+  contains(ancestor: DepartmentId, department: DepartmentId): boolean {
+    return (
+      ancestor.equals(department) ||
+      (this.getScopes()?.get(ancestor.getValue())?.has(department.getValue()) ??
+        false)
+    );
+  }
+
+  private getScopes(): Map<string, Set<string>> | undefined {
+    if (!this.cls.isActive()) {
+      return undefined;
+    }
+    let scopes = this.cls.get<Map<string, Set<string>>>(DEPARTMENT_SCOPES_KEY);
+    if (!scopes) {
+      scopes = new Map();
+      this.cls.set(DEPARTMENT_SCOPES_KEY, scopes);
+    }
+    return scopes;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * 部门层级导出
+ *
+ * @module hierarchy
+ * @since 1.1.0
+ */
+
+export * from "./department-hierarchy-resolver.interface.js";
+export * from "./department-hierarchy.service.js";
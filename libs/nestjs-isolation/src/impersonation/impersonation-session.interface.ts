@@ -0,0 +1,141 @@
+/**
+ * 模拟会话接口
+ *
+ * @description 平台人员以租户身份操作（act as）时的会话、会话存储和模块配置
+ *
+ * ## 业务规则
+ *
+ * ### 会话内容
+ * - 记录真实操作者（平台人员的用户 ID）和被模拟的隔离标识
+ * - 必须给出原因（例如工单号），会话有明确的开始和过期时间
+ *
+ * ### 会话存储
+ * - 默认使用进程内存储，多实例部署时应配置共享存储（例如 Redis）
+ * - 存储只负责保存和读取，过期判断由 ImpersonationSessionManager 完成
+ *
+ * @example
+ * ```typescript
+ * IsolationModule.forRoot({
+ *   impersonation: {
+ *     canImpersonate: (actor) => staffDirectory.hasPermission(actor.userId!.getValue(), "impersonate"),
+ *     maxDurationMs: 30 * 60 * 1000,
+ *     isTenantOptedOut: (tenantId) => tenantSettings.isImpersonationDisabled(tenantId),
+ *   },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import type { IsolationContext } from "@hl8/isolation-model";
+import type { IsolationClaims } from "../resolvers/context-resolver.interface.js";
+
+/**
+ * 模拟会话
+ */
+export interface ImpersonationSession {
+  /** 会话 ID，由请求头传回 */
+  id: string;
+
+  /** 真实操作者（平台人员）的用户 ID */
+  actorId: string;
+
+  /** 被模拟的隔离标识，必须包含租户 */
+  target: IsolationClaims;
+
+  /** 模拟原因 */
+  reason: string;
+
+  /** 开始时间 */
+  startedAt: Date;
+
+  /** 过期时间 */
+  expiresAt: Date;
+}
+
+/**
+ * 模拟会话存储
+ */
+export interface ImpersonationSessionStore {
+  /**
+   * 保存会话
+   *
+   * @param session - 模拟会话
+   */
+  save(session: ImpersonationSession): Promise<void> | void;
+
+  /**
+   * 读取会话
+   *
+   * @param id - 会话 ID
+   * @returns 会话，不存在时返回 undefined
+   */
+  get(
+    id: string,
+  ):
+    | Promise<ImpersonationSession | undefined>
+    | ImpersonationSession
+    | undefined;
+
+  /**
+   * 删除会话
+   *
+   * @param id - 会话 ID
+   */
+  delete(id: string): Promise<void> | void;
+}
+
+/**
+ * 模拟会话配置
+ */
+export interface ImpersonationModuleOptions {
+  /**
+   * 判断操作者是否有权模拟目标租户（必填）
+   *
+   * @description 没有租户的已认证用户不一定是平台人员（例如服务账号），必须由应用确认其模拟权限；
+   * 开始模拟和每次使用会话时都会检查，返回 false 时拒绝
+   */
+  canImpersonate: (
+    actor: IsolationContext,
+    targetTenantId: string,
+  ) => Promise<boolean> | boolean;
+
+  /**
+   * 会话存储
+   *
+   * @description 默认为 InMemoryImpersonationSessionStore
+   */
+  store?: ImpersonationSessionStore;
+
+  /**
+   * 会话最长持续时间（毫秒）
+   *
+   * @description 默认 1 小时；开始模拟时请求的时长超过该值时按该值截断
+   */
+  maxDurationMs?: number;
+
+  /**
+   * 携带会话 ID 的请求头
+   *
+   * @description 默认为 x-impersonation-session
+   */
+  header?: string;
+
+  /**
+   * 判断租户是否拒绝平台人员模拟
+   *
+   * @description 开始模拟和每次使用会话时都会检查，租户关闭模拟后已有会话立即失效
+   */
+  isTenantOptedOut?: (tenantId: string) => Promise<boolean> | boolean;
+}
+
+/**
+ * 开始模拟的参数
+ */
+export interface StartImpersonationOptions {
+  /** 模拟原因（必填），例如工单号 */
+  reason: string;
+
+  /** 请求的持续时间（毫秒），不超过 maxDurationMs */
+  durationMs?: number;
+}
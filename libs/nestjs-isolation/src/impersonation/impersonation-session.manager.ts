@@ -0,0 +1,224 @@
+/**
+ * 模拟会话管理
+ *
+ * @description 创建、校验和结束平台人员以租户身份操作（act as）的会话
+ *
+ * ## 业务规则
+ *
+ * ### 开始模拟
+ * - 只有已认证的平台人员（带用户 ID、没有租户的上下文）可以开始模拟，已在模拟中的上下文不能再次模拟
+ * - 操作者还必须通过 canImpersonate 授权检查，没有租户的用户不一定是平台人员
+ * - 真实操作者只取自解析出的上下文，调用方不能指定
+ * - 必须给出原因
+ * - 模拟目标必须包含租户；租户拒绝模拟时抛出 ForbiddenException
+ * - 会话时长不超过 maxDurationMs（默认 1 小时）
+ *
+ * ### 使用会话
+ * - 会话不存在或已过期时拒绝请求，过期会话同时被删除
+ * - 使用会话的请求本身必须是已认证的平台人员，用户 ID 必须与会话的操作者一致；
+ *   没有凭证的请求一律拒绝，会话 ID 不能单独作为凭证使用
+ * - 每次使用都重新检查 canImpersonate 授权和租户是否拒绝模拟
+ * - 返回的隔离上下文附带 ImpersonationInfo，日志中可追溯真实操作者
+ * - 日志和审计只记录会话 ID 的 SHA-256 摘要（sessionRef），不记录会话 ID 本身
+ *
+ * ### 未启用
+ * - IsolationModule.forRoot 未配置 impersonation 时，开始模拟和携带会话请求头的请求都被拒绝
+ *
+ * @since 1.1.0
+ */
+
+import { IsolationContext } from "@hl8/isolation-model";
+import { BadRequestException, ForbiddenException } from "@nestjs/common";
+import { createHash, randomUUID } from "node:crypto";
+import type { IsolationClaims } from "../resolvers/context-resolver.interface.js";
+import { buildIsolationContext } from "../resolvers/isolation-context.resolver.js";
+import { InMemoryImpersonationSessionStore } from "./in-memory-session.store.js";
+import type {
+  ImpersonationModuleOptions,
+  ImpersonationSession,
+  ImpersonationSessionStore,
+  StartImpersonationOptions,
+} from "./impersonation-session.interface.js";
+
+/**
+ * 默认的会话请求头
+ */
+export const IMPERSONATION_SESSION_HEADER = "x-impersonation-session";
+
+const DEFAULT_MAX_DURATION_MS = 60 * 60 * 1000;
+
+export class ImpersonationSessionManager {
+  private readonly store: ImpersonationSessionStore;
+
+  /**
+   * @param options - 模拟会话配置；未传入时模拟功能关闭
+   */
+  constructor(private readonly options?: ImpersonationModuleOptions) {
+    this.store = options?.store ?? new InMemoryImpersonationSessionStore();
+  }
+
+  /**
+   * 是否启用了模拟功能
+   */
+  isEnabled(): boolean {
+    return this.options !== undefined;
+  }
+
+  /**
+   * 携带会话 ID 的请求头（小写）
+   */
+  get header(): string {
+    return (this.options?.header ?? IMPERSONATION_SESSION_HEADER).toLowerCase();
+  }
+
+  /**
+   * 开始模拟
+   *
+   * @param actor - 真实操作者的隔离上下文
+   * @param target - 被模拟的隔离上下文
+   * @param options - 原因和持续时间
+   * @returns 新建的会话
+   * @throws {ForbiddenException} 未启用、操作者不是已认证的平台人员、未获授权或租户拒绝模拟时
+   * @throws {BadRequestException} 缺少原因或目标租户时
+   */
+  async start(
+    actor: IsolationContext,
+    target: IsolationContext,
+    options: StartImpersonationOptions,
+  ): Promise<ImpersonationSession> {
+    this.assertEnabled();
+
+    const actorId = actor.userId?.getValue();
+    if (!actorId || actor.tenantId) {
+      throw new ForbiddenException("只有已认证的平台人员可以开始模拟");
+    }
+
+    const reason = options.reason?.trim();
+    if (!reason) {
+      throw new BadRequestException("开始模拟必须给出原因");
+    }
+
+    if (!target.tenantId) {
+      throw new BadRequestException("模拟目标必须包含租户");
+    }
+    await this.assertAuthorized(actor, target.tenantId.getValue());
+    await this.assertTenantAllowed(target.tenantId.getValue());
+
+    const maxDurationMs =
+      this.options?.maxDurationMs ?? DEFAULT_MAX_DURATION_MS;
+    const durationMs = Math.min(
+      options.durationMs ?? maxDurationMs,
+      maxDurationMs,
+    );
+    const startedAt = new Date();
+    const session: ImpersonationSession = {
+      id: randomUUID(),
+      actorId,
+      target: toClaims(target),
+      reason,
+      startedAt,
+      expiresAt: new Date(startedAt.getTime() + durationMs),
+    };
+
+    await this.store.save(session);
+    return session;
+  }
+
+  /**
+   * 使用已有会话
+   *
+   * @param sessionId - 会话 ID
+   * @param actor - 当前请求解析出的隔离上下文（真实操作者）；匿名请求为 undefined
+   * @returns 附带模拟信息的被模拟租户上下文
+   * @throws {ForbiddenException} 未启用、会话无效或已过期、操作者不匹配、未获授权或租户拒绝模拟时
+   */
+  async resume(
+    sessionId: string,
+    actor: IsolationContext | undefined,
+  ): Promise<IsolationContext> {
+    this.assertEnabled();
+
+    const session = await this.store.get(sessionId);
+    if (!session) {
+      throw new ForbiddenException("模拟会话不存在或已过期");
+    }
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await this.store.delete(sessionId);
+      throw new ForbiddenException("模拟会话不存在或已过期");
+    }
+
+    if (
+      !actor ||
+      actor.tenantId ||
+      actor.userId?.getValue() !== session.actorId
+    ) {
+      throw new ForbiddenException("模拟会话不属于当前操作者");
+    }
+
+    await this.assertAuthorized(actor, session.target.tenantId as string);
+    await this.assertTenantAllowed(session.target.tenantId as string);
+    return this.toContext(session);
+  }
+
+  /**
+   * 结束模拟
+   *
+   * @param sessionId - 会话 ID
+   */
+  async end(sessionId: string): Promise<void> {
+    await this.store.delete(sessionId);
+  }
+
+  /**
+   * 根据会话创建被模拟的隔离上下文
+   *
+   * @param session - 模拟会话
+   * @returns 附带模拟信息的隔离上下文
+   */
+  toContext(session: ImpersonationSession): IsolationContext {
+    return buildIsolationContext(session.target).impersonate({
+      sessionId: session.id,
+      sessionRef: sessionReference(session.id),
+      actorId: session.actorId,
+      reason: session.reason,
+      expiresAt: session.expiresAt,
+    });
+  }
+
+  private assertEnabled(): void {
+    if (!this.isEnabled()) {
+      throw new ForbiddenException("未启用模拟功能");
+    }
+  }
+
+  private async assertAuthorized(
+    actor: IsolationContext,
+    tenantId: string,
+  ): Promise<void> {
+    if (!(await this.options?.canImpersonate?.(actor, tenantId))) {
+      throw new ForbiddenException("当前操作者无权模拟该租户");
+    }
+  }
+
+  private async assertTenantAllowed(tenantId: string): Promise<void> {
+    if (await this.options?.isTenantOptedOut?.(tenantId)) {
+      throw new ForbiddenException(`租户 ${tenantId} 已拒绝平台人员模拟`);
+    }
+  }
+}
+
+/**
+ * 会话引用：会话 ID 的 SHA-256 摘要前 16 位，可以写入日志，不能反推出会话 ID
+ */
+function sessionReference(sessionId: string): string {
+  return createHash("sha256").update(sessionId).digest("hex").slice(0, 16);
+}
+
+function toClaims(context: IsolationContext): IsolationClaims {
+  return {
+    tenantId: context.tenantId?.getValue(),
+    organizationId: context.organizationId?.getValue(),
+    departmentId: context.departmentId?.getValue(),
+    userId: context.userId?.getValue(),
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * 进程内模拟会话存储
+ *
+ * @description ImpersonationModuleOptions.store 的默认实现，会话保存在当前进程的内存中
+ *
+ * ## 业务规则
+ *
+ * - 进程重启后会话全部失效
+ * - 多实例部署时各实例互不可见，应改用共享存储
+ * - 过期会话在读取时由 ImpersonationSessionManager 删除
+ *
+ * @since 1.1.0
+ */
+
+import type {
+  ImpersonationSession,
+  ImpersonationSessionStore,
+} from "./impersonation-session.interface.js";
+
+export class InMemoryImpersonationSessionStore
+  implements ImpersonationSessionStore
+{
+  private readonly sessions = new Map<string, ImpersonationSession>();
+
+  save(session: ImpersonationSession): void {
+    this.sessions.set(session.id, session);
+  }
+
+  get(id: string): ImpersonationSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  delete(id: string): void {
+    this.sessions.delete(id);
+  }
+}
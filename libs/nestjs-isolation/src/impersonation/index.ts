@@ -0,0 +1,10 @@
+/**
+ * 模拟会话导出
+ *
+ * @module impersonation
+ * @since 1.1.0
+ */
+
+export * from "./impersonation-session.interface.js";
+export * from "./impersonation-session.manager.js";
+export * from "./in-memory-session.store.js";
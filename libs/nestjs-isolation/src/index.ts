@@ -5,7 +5,7 @@
  *
  * ## 特性
  *
- * - 自动从请求头提取隔离上下文
+ * - 自动从请求中解析隔离上下文（JWT、API Key、受信代理请求头）
  * - 提供装饰器、守卫、中间件
  * - 基于 nestjs-cls 实现请求级上下文
  * - 支持 Fastify 和 Express
@@ -21,12 +21,27 @@
  */
 
 // 模块
-export { IsolationModule } from "./isolation.module.js";
+export {
+  IsolationModule,
+  type IsolationModuleOptions,
+} from "./isolation.module.js";
 
 // 服务
 export { IsolationContextService } from "./services/isolation-context.service.js";
 export { MultiLevelIsolationService } from "./services/multi-level-isolation.service.js";
 
+// 部门层级
+export * from "./hierarchy/index.js";
+
+// 模拟会话
+export * from "./impersonation/index.js";
+
+// 隔离事件
+export * from "./events/index.js";
+
+// 上下文解析器
+export * from "./resolvers/index.js";
+
 // 中间件
 export { IsolationExtractionMiddleware } from "./middleware/isolation-extraction.middleware.js";
 
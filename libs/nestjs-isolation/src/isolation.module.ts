@@ -5,9 +5,12 @@
  *
  * ## 功能特性
  *
- * - 自动从请求头提取隔离上下文
+ * - 自动从请求中解析隔离上下文（JWT、API Key、受信代理请求头等可插拔解析器）
  * - 基于 nestjs-cls 实现请求级上下文管理
  * - 提供装饰器、守卫、服务
+ * - 访问被拒绝和上下文切换时发布隔离事件，投递到可插拔的接收器
+ * - 可选的部门层级解析器，使部门级访问包含下级部门
+ * - 可选的模拟会话，平台人员以租户身份操作（act as），日志和事件记录真实操作者
  * - 支持 Fastify 和 Express
  *
  * ## 使用方式
@@ -19,33 +22,77 @@
  *   ],
  * })
  * export class AppModule {}
+ *
+ * // 生产环境：JWT 优先，其次 API Key，最后是网关转发的请求头
+ * IsolationModule.forRoot({
+ *   resolvers: [
+ *     new JwtContextResolver({ jwksFile: '/etc/secrets/jwks.json' }),
+ *     new ApiKeyContextResolver({ lookup: (key) => apiKeys.find(key) }),
+ *     new HeaderContextResolver({ trustedProxies: ['10.0.0.0/8'] }),
+ *   ],
+ * });
  * ```
  *
  * @since 1.0.0
  */
 
-import {
-  DepartmentId,
-  IsolationContext,
-  OrganizationId,
-  TenantId,
-  UserId,
-} from "@hl8/isolation-model";
 import { Global, Module } from "@nestjs/common";
-import { ClsModule } from "nestjs-cls";
+import { ModuleRef } from "@nestjs/core";
+import { ClsModule, ClsService } from "nestjs-cls";
+import {
+  ISOLATION_EVENT_SINKS,
+  IsolationEventPublisher,
+  type IsolationEventSinkOption,
+} from "./events/isolation-event.publisher.js";
+import { LoggerIsolationEventSink } from "./events/logger-event.sink.js";
 import { IsolationGuard } from "./guards/isolation.guard.js";
+import type { ImpersonationModuleOptions } from "./impersonation/impersonation-session.interface.js";
+import { ImpersonationSessionManager } from "./impersonation/impersonation-session.manager.js";
+import { establishIsolationContext } from "./middleware/establish-isolation-context.js";
+import type { DepartmentHierarchyOption } from "./hierarchy/department-hierarchy-resolver.interface.js";
+import { DepartmentHierarchyService } from "./hierarchy/department-hierarchy.service.js";
+import type {
+  ContextResolver,
+  IsolationRequest,
+} from "./resolvers/context-resolver.interface.js";
+import { IsolationContextResolver } from "./resolvers/isolation-context.resolver.js";
 import { IsolationContextService } from "./services/isolation-context.service.js";
 import { MultiLevelIsolationService } from "./services/multi-level-isolation.service.js";
 
-const ISOLATION_CONTEXT_KEY = "ISOLATION_CONTEXT";
-
 /**
- * 请求对象接口（简化版）
+ * 隔离模块配置选项
  *
- * @description 用于类型安全地访问请求头
+ * @since 1.1.0
  */
-interface RequestWithHeaders {
-  headers: Record<string, string | string[] | undefined>;
+export interface IsolationModuleOptions {
+  /**
+   * 隔离上下文解析器，按优先级排列
+   *
+   * @description 未配置时直接信任请求头（兼容 1.0 行为），生产环境应配置 JWT / API Key / 受信代理解析器
+   */
+  resolvers?: ContextResolver[];
+
+  /**
+   * 隔离事件接收器（实例或 provider 类）
+   *
+   * @description 守卫拒绝、数据访问被拒绝和上下文切换时投递事件，默认为 [LoggerIsolationEventSink]
+   */
+  eventSinks?: IsolationEventSinkOption[];
+
+  /**
+   * 部门层级解析器（实例或 provider 类）
+   *
+   * @description 配置后部门级访问检查、SharingLevel.DEPARTMENT 和数据库过滤包含下级部门；未配置时部门只做精确匹配
+   */
+  departmentHierarchy?: DepartmentHierarchyOption;
+
+  /**
+   * 模拟会话配置
+   *
+   * @description 配置后平台人员可以通过 IsolationContextService.startImpersonation 以租户身份操作，
+   * 后续请求携带会话请求头继续模拟；未配置时携带会话请求头的请求被拒绝
+   */
+  impersonation?: ImpersonationModuleOptions;
 }
 
 @Global()
@@ -54,6 +101,7 @@ export class IsolationModule {
   /**
    * 配置隔离模块
    *
+   * @param options - 模块选项（1.1.0 起）
    * @returns 动态模块
    *
    * @example
@@ -64,7 +112,13 @@ export class IsolationModule {
    * export class AppModule {}
    * ```
    */
-  static forRoot() {
+  static forRoot(options: IsolationModuleOptions = {}) {
+    const resolver = new IsolationContextResolver(options.resolvers);
+    const impersonation = new ImpersonationSessionManager(
+      options.impersonation,
+    );
+    let departmentHierarchy: DepartmentHierarchyService | undefined;
+
     return {
       module: IsolationModule,
       imports: [
@@ -75,72 +129,56 @@ export class IsolationModule {
           middleware: {
             mount: true,
             generateId: true,
-            idGenerator: (req: RequestWithHeaders) =>
+            idGenerator: (req: IsolationRequest) =>
               (req.headers?.["x-request-id"] as string) ??
               `req-${Date.now()}-${Math.random().toString(36).substring(7)}`,
-            // 在 CLS 上下文设置后，立即提取隔离上下文
-            setup: (cls, req: RequestWithHeaders) => {
-              try {
-                // 提取请求头
-                const extractHeader = (name: string) => {
-                  const value = req.headers?.[name];
-                  return Array.isArray(value) ? value[0] : value;
-                };
-
-                const tenantId = extractHeader("x-tenant-id");
-                const orgId = extractHeader("x-organization-id");
-                const deptId = extractHeader("x-department-id");
-                const userId = extractHeader("x-user-id");
-
-                // 创建隔离上下文（按层级优先级判断）
-                let context: IsolationContext;
-
-                // 优先级：部门 > 组织 > 租户 > 用户 > 平台
-                if (deptId && orgId && tenantId) {
-                  // 部门级（最高优先级）
-                  context = IsolationContext.department(
-                    TenantId.create(tenantId),
-                    OrganizationId.create(orgId),
-                    DepartmentId.create(deptId),
-                  );
-                } else if (orgId && tenantId) {
-                  // 组织级
-                  context = IsolationContext.organization(
-                    TenantId.create(tenantId),
-                    OrganizationId.create(orgId),
-                  );
-                } else if (userId) {
-                  // 用户级（可能有租户，也可能没有）
-                  const userIdVO = UserId.create(userId);
-                  const tenantIdVO = tenantId
-                    ? TenantId.create(tenantId)
-                    : undefined;
-                  context = IsolationContext.user(userIdVO, tenantIdVO);
-                } else if (tenantId) {
-                  // 租户级
-                  context = IsolationContext.tenant(TenantId.create(tenantId));
-                } else {
-                  // 平台级（默认）
-                  context = IsolationContext.platform();
-                }
-
-                // 存储到 CLS
-                cls.set(ISOLATION_CONTEXT_KEY, context);
-              } catch (error) {
-                // 验证错误时，降级到平台级
-                cls.set(ISOLATION_CONTEXT_KEY, IsolationContext.platform());
-              }
+            // 在 CLS 上下文设置后，立即解析隔离上下文
+            // 凭证无效或来源冲突时抛出的异常交给中间件的错误处理，请求被拒绝
+            // 与 IsolationExtractionMiddleware 共用同一流程（含模拟会话和部门范围加载）
+            setup: async (cls, req: IsolationRequest) => {
+              await establishIsolationContext(cls, req, {
+                resolver,
+                impersonation,
+                departmentHierarchy,
+              });
             },
           },
         }),
       ],
       providers: [
+        { provide: IsolationContextResolver, useValue: resolver },
+        { provide: ImpersonationSessionManager, useValue: impersonation },
+        {
+          provide: ISOLATION_EVENT_SINKS,
+          useValue: options.eventSinks ?? [LoggerIsolationEventSink],
+        },
+        LoggerIsolationEventSink,
+        IsolationEventPublisher,
         IsolationContextService,
+        {
+          provide: DepartmentHierarchyService,
+          useFactory: (
+            cls: ClsService,
+            contextService: IsolationContextService,
+            moduleRef: ModuleRef,
+          ) =>
+            (departmentHierarchy = new DepartmentHierarchyService(
+              cls,
+              contextService,
+              moduleRef,
+              options.departmentHierarchy,
+            )),
+          inject: [ClsService, IsolationContextService, ModuleRef],
+        },
         MultiLevelIsolationService,
         IsolationGuard,
       ],
       exports: [
+        IsolationContextResolver,
+        ImpersonationSessionManager,
+        IsolationEventPublisher,
         IsolationContextService,
+        DepartmentHierarchyService,
         MultiLevelIsolationService,
         IsolationGuard,
       ],
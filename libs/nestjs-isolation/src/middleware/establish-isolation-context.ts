@@ -0,0 +1,68 @@
+/**
+ * 请求隔离上下文的建立流程
+ *
+ * @description IsolationModule 的 CLS 中间件和 IsolationExtractionMiddleware 共用，保证两条路径行为一致
+ *
+ * ## 业务规则
+ *
+ * - 解析请求的隔离上下文并写入 CLS；匿名请求（配置了 resolvers 且没有凭证）不设置隔离上下文
+ * - 携带模拟会话请求头时，解析结果作为真实操作者写入 CLS，本次请求使用被模拟的上下文
+ * - 上下文确定后加载部门范围，后续同步的访问检查和过滤直接使用缓存
+ * - 凭证无效、来源冲突或模拟会话无效时抛出异常，由调用方交给错误处理器
+ *
+ * @since 1.1.0
+ */
+
+import type { IsolationContext } from "@hl8/isolation-model";
+import type { ClsService } from "nestjs-cls";
+import type { DepartmentHierarchyService } from "../hierarchy/department-hierarchy.service.js";
+import type { ImpersonationSessionManager } from "../impersonation/impersonation-session.manager.js";
+import {
+  getHeader,
+  type IsolationRequest,
+} from "../resolvers/context-resolver.interface.js";
+import type { IsolationContextResolver } from "../resolvers/isolation-context.resolver.js";
+
+const ISOLATION_CONTEXT_KEY = "ISOLATION_CONTEXT";
+const ISOLATION_ACTOR_KEY = "ISOLATION_ACTOR_CONTEXT";
+
+/**
+ * 建立隔离上下文所需的协作者
+ */
+export interface IsolationContextCollaborators {
+  resolver: IsolationContextResolver;
+  impersonation?: ImpersonationSessionManager;
+  departmentHierarchy?: DepartmentHierarchyService;
+}
+
+/**
+ * 为当前请求建立隔离上下文
+ *
+ * @param cls - 已进入请求作用域的 CLS 服务
+ * @param req - 请求
+ * @param collaborators - 解析器、模拟会话管理器和部门层级服务
+ * @returns 本次请求使用的隔离上下文，匿名请求返回 undefined
+ * @throws {UnauthorizedException} 凭证无效时
+ * @throws {ForbiddenException} 来源冲突或模拟会话无效时
+ */
+export async function establishIsolationContext(
+  cls: ClsService,
+  req: IsolationRequest,
+  {
+    resolver,
+    impersonation,
+    departmentHierarchy,
+  }: IsolationContextCollaborators,
+): Promise<IsolationContext | undefined> {
+  let context = await resolver.resolve(req);
+
+  const sessionId = impersonation && getHeader(req, impersonation.header);
+  if (sessionId) {
+    cls.set(ISOLATION_ACTOR_KEY, context);
+    context = await impersonation.resume(sessionId, context);
+  }
+
+  cls.set(ISOLATION_CONTEXT_KEY, context);
+  await departmentHierarchy?.load();
+  return context;
+}
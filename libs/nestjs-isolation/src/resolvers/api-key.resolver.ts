@@ -0,0 +1,73 @@
+/**
+ * API Key 解析器
+ *
+ * @description 按请求中的 API Key 查找其绑定的隔离标识，适用于服务间调用和第三方集成
+ *
+ * ## 业务规则
+ *
+ * ### 解析规则
+ * - 从 header（默认 X-Api-Key）读取 API Key，请求中没有时返回 undefined
+ * - 隔离标识由调用方提供的 lookup 查找（数据库、缓存、配置等），本库不保存 API Key
+ * - lookup 返回 undefined 时视为未知的 API Key，抛出 UnauthorizedException
+ *
+ * @example
+ * ```typescript
+ * new ApiKeyContextResolver({
+ *   lookup: async (apiKey) => {
+ *     const key = await apiKeyRepository.findActive(hash(apiKey));
+ *     return key && { tenantId: key.tenantId };
+ *   },
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { UnauthorizedException } from "@nestjs/common";
+import {
+  type ContextResolver,
+  getHeader,
+  type IsolationClaims,
+  type IsolationRequest,
+} from "./context-resolver.interface.js";
+
+/**
+ * API Key 解析器选项
+ */
+export interface ApiKeyResolverOptions {
+  /**
+   * 携带 API Key 的请求头（小写）
+   *
+   * @default 'x-api-key'
+   */
+  header?: string;
+
+  /**
+   * 查找 API Key 绑定的隔离标识，未知的 API Key 返回 undefined
+   */
+  lookup: (
+    apiKey: string,
+  ) => IsolationClaims | undefined | Promise<IsolationClaims | undefined>;
+}
+
+export class ApiKeyContextResolver implements ContextResolver {
+  readonly name = "api-key";
+  private readonly header: string;
+
+  constructor(private readonly options: ApiKeyResolverOptions) {
+    this.header = options.header ?? "x-api-key";
+  }
+
+  async resolve(req: IsolationRequest): Promise<IsolationClaims | undefined> {
+    const apiKey = getHeader(req, this.header);
+    if (!apiKey) {
+      return undefined;
+    }
+
+    const claims = await this.options.lookup(apiKey);
+    if (!claims) {
+      throw new UnauthorizedException("Invalid API key");
+    }
+    return claims;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * 隔离上下文解析器接口
+ *
+ * @description 从请求中取得隔离标识的可插拔来源（JWT、API Key、受信代理请求头等）
+ *
+ * ## 业务规则
+ *
+ * ### 解析结果
+ * - 请求中没有该来源的凭证时返回 undefined，交给下一个解析器
+ * - 凭证存在但无效（签名错误、已过期、未知的 API Key）时抛出 UnauthorizedException，不降级
+ * - 返回的标识为原始字符串，由 IsolationContextResolver 统一校验并创建 IsolationContext
+ *
+ * @since 1.1.0
+ */
+
+/**
+ * 解析得到的隔离标识
+ */
+export interface IsolationClaims {
+  tenantId?: string;
+  organizationId?: string;
+  departmentId?: string;
+  userId?: string;
+}
+
+/**
+ * 解析器可访问的请求信息
+ *
+ * @description Express 请求与 Fastify 原始请求均满足该结构
+ */
+export interface IsolationRequest {
+  headers: Record<string, string | string[] | undefined>;
+  socket?: { remoteAddress?: string };
+}
+
+/**
+ * 隔离上下文解析器
+ */
+export interface ContextResolver {
+  /**
+   * 解析器名称，用于日志和冲突错误信息
+   */
+  readonly name: string;
+
+  /**
+   * 从请求中解析隔离标识
+   *
+   * @param req - 请求
+   * @returns 隔离标识；请求中没有该来源的凭证时返回 undefined
+   * @throws {UnauthorizedException} 凭证无效时
+   */
+  resolve(
+    req: IsolationRequest,
+  ): IsolationClaims | undefined | Promise<IsolationClaims | undefined>;
+}
+
+/**
+ * 读取单值请求头
+ *
+ * @param req - 请求
+ * @param name - 小写请求头名称
+ * @returns 请求头值，有多个值时取第一个
+ */
+export function getHeader(
+  req: IsolationRequest,
+  name: string,
+): string | undefined {
+  const value = req.headers?.[name];
+  return Array.isArray(value) ? value[0] : value;
+}
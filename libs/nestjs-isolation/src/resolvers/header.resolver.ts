@@ -0,0 +1,126 @@
+/**
+ * 请求头解析器
+ *
+ * @description 从 X-Tenant-Id 等请求头读取隔离标识，可限定只接受受信上游代理转发的请求
+ *
+ * ## 业务规则
+ *
+ * ### 请求头
+ * - X-Tenant-Id / X-Organization-Id / X-Department-Id / X-User-Id
+ * - 请求中没有任何隔离请求头时返回 undefined
+ *
+ * ### 受信代理
+ * - 配置 trustedProxies 后，只有来自列表中地址（单个 IP 或 IPv4 CIDR）的连接才读取请求头
+ * - 来自其他地址的请求返回 undefined；其携带的隔离请求头会在 IsolationContextResolver 中按冲突拒绝
+ * - 比较的是 TCP 连接的对端地址，不读取 X-Forwarded-For
+ * - 未配置 trustedProxies 时信任所有来源，只应用于开发环境或网关之后的内部服务
+ *
+ * @example
+ * ```typescript
+ * IsolationModule.forRoot({
+ *   resolvers: [new HeaderContextResolver({ trustedProxies: ['10.0.0.0/8'] })],
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import { isIPv4 } from "node:net";
+import {
+  type ContextResolver,
+  getHeader,
+  type IsolationClaims,
+  type IsolationRequest,
+} from "./context-resolver.interface.js";
+
+/**
+ * 隔离标识对应的请求头
+ */
+export const ISOLATION_HEADERS: Record<keyof IsolationClaims, string> = {
+  tenantId: "x-tenant-id",
+  organizationId: "x-organization-id",
+  departmentId: "x-department-id",
+  userId: "x-user-id",
+};
+
+/**
+ * 请求头解析器选项
+ */
+export interface HeaderResolverOptions {
+  /**
+   * 受信上游代理地址（IP 或 IPv4 CIDR），未配置时信任所有来源
+   */
+  trustedProxies?: string[];
+}
+
+/**
+ * 读取请求中的隔离请求头
+ *
+ * @param req - 请求
+ * @returns 隔离标识；没有任何隔离请求头时返回 undefined
+ */
+export function readIsolationHeaders(
+  req: IsolationRequest,
+): IsolationClaims | undefined {
+  const claims: IsolationClaims = {};
+  for (const [field, header] of Object.entries(ISOLATION_HEADERS)) {
+    const value = getHeader(req, header);
+    if (value) {
+      claims[field as keyof IsolationClaims] = value;
+    }
+  }
+  return Object.keys(claims).length > 0 ? claims : undefined;
+}
+
+export class HeaderContextResolver implements ContextResolver {
+  readonly name = "header";
+  private readonly trustedProxies?: Array<(address: string) => boolean>;
+
+  constructor(options: HeaderResolverOptions = {}) {
+    this.trustedProxies = options.trustedProxies?.map(createAddressMatcher);
+  }
+
+  resolve(req: IsolationRequest): IsolationClaims | undefined {
+    if (this.trustedProxies) {
+      const address = normalizeAddress(req.socket?.remoteAddress);
+      if (!address || !this.trustedProxies.some((match) => match(address))) {
+        return undefined;
+      }
+    }
+    return readIsolationHeaders(req);
+  }
+}
+
+/**
+ * 去掉 IPv4 映射地址的 ::ffff: 前缀
+ */
+function normalizeAddress(address: string | undefined): string | undefined {
+  return address?.startsWith("::ffff:") && isIPv4(address.slice(7))
+    ? address.slice(7)
+    : address;
+}
+
+function createAddressMatcher(entry: string): (address: string) => boolean {
+  const [network, bits] = entry.split("/");
+  if (bits === undefined || !isIPv4(network)) {
+    const expected = normalizeAddress(entry);
+    return (address) => address === expected;
+  }
+
+  const prefix = Number(bits);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    throw new Error(`Invalid trusted proxy CIDR: ${entry}`);
+  }
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  const base = (ipv4ToNumber(network) & mask) >>> 0;
+  return (address) =>
+    isIPv4(address) && (ipv4ToNumber(address) & mask) >>> 0 === base;
+}
+
+function ipv4ToNumber(address: string): number {
+  return (
+    address
+      .split(".")
+      .reduce((value, octet) => (value << 8) + Number(octet), 0) >>> 0
+  );
+}
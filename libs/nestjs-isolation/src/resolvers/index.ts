@@ -0,0 +1,12 @@
+/**
+ * 隔离上下文解析器导出
+ *
+ * @module resolvers
+ * @since 1.1.0
+ */
+
+export * from "./api-key.resolver.js";
+export * from "./context-resolver.interface.js";
+export * from "./header.resolver.js";
+export * from "./isolation-context.resolver.js";
+export * from "./jwt.resolver.js";
@@ -0,0 +1,193 @@
+/**
+ * 隔离上下文解析
+ *
+ * @description 按配置的优先级依次调用解析器，合并并核对隔离标识后创建 IsolationContext
+ *
+ * ## 业务规则
+ *
+ * ### 优先级与合并
+ * - 按 resolvers 数组顺序调用全部解析器，排在前面的优先级更高
+ * - 每个标识取第一个提供它的解析器的值；低优先级来源只能补充缺少的标识
+ * - 两个来源对同一标识给出不同的值时抛出 ForbiddenException，不降级到平台级
+ *
+ * ### 请求头核对
+ * - 请求中的 X-Tenant-Id 等隔离请求头必须与解析结果一致
+ * - 请求头给出了解析结果中没有的标识（例如来自非受信来源），同样按冲突拒绝
+ *
+ * ### 层级判断规则
+ * 1. 有 departmentId + organizationId + tenantId → DEPARTMENT 级
+ * 2. 有 organizationId + tenantId → ORGANIZATION 级
+ * 3. 有 userId → USER 级（可带租户）
+ * 4. 有 tenantId → TENANT 级
+ * 5. 默认 → PLATFORM 级
+ *
+ * ### 匿名请求
+ * - 配置了 resolvers 时，没有任何来源给出标识的请求是匿名请求，resolve 返回 undefined，不设置隔离上下文
+ * - 匿名请求不是平台级：守卫、checkDataAccess 和数据库隔离都按缺少上下文拒绝
+ *
+ * ### 兼容模式
+ * - 未配置 resolvers 时只使用不限来源的 HeaderContextResolver，与 1.0 的 IsolationModule 行为一致，
+ *   没有任何请求头时为平台级
+ * - 同时有租户和用户时为带租户的 USER 级（1.0 的 IsolationModule 如此；1.0 单独使用 IsolationExtractionMiddleware
+ *   时为 TENANT 级，1.1.0 起中间件与模块一致）
+ * - 兼容模式下标识格式无效时记录警告并降级到平台级；配置了 resolvers 时抛出 ForbiddenException
+ *
+ * @since 1.1.0
+ */
+
+import {
+  DepartmentId,
+  IsolationContext,
+  IsolationValidationError,
+  OrganizationId,
+  TenantId,
+  UserId,
+} from "@hl8/isolation-model";
+import { ForbiddenException, Logger } from "@nestjs/common";
+import type {
+  ContextResolver,
+  IsolationClaims,
+  IsolationRequest,
+} from "./context-resolver.interface.js";
+import {
+  HeaderContextResolver,
+  readIsolationHeaders,
+} from "./header.resolver.js";
+
+type ClaimField = keyof IsolationClaims;
+
+export class IsolationContextResolver {
+  private readonly logger = new Logger(IsolationContextResolver.name);
+  private readonly resolvers: ContextResolver[];
+  private readonly strict: boolean;
+
+  /**
+   * @param resolvers - 按优先级排列的解析器；未传入时为兼容模式
+   */
+  constructor(resolvers?: ContextResolver[]) {
+    this.strict = resolvers !== undefined;
+    this.resolvers = resolvers ?? [new HeaderContextResolver()];
+  }
+
+  /**
+   * 解析请求的隔离上下文
+   *
+   * @param req - 请求
+   * @returns 隔离上下文；配置了 resolvers 且请求没有任何凭证时返回 undefined（匿名）
+   * @throws {UnauthorizedException} 凭证无效时（由解析器抛出）
+   * @throws {ForbiddenException} 来源之间或与请求头冲突时，以及非兼容模式下标识格式无效时
+   */
+  async resolve(req: IsolationRequest): Promise<IsolationContext | undefined> {
+    const claims: IsolationClaims = {};
+    const sources: Partial<Record<ClaimField, string>> = {};
+
+    for (const resolver of this.resolvers) {
+      const resolved = await resolver.resolve(req);
+      for (const [field, value] of claimEntries(resolved)) {
+        const current = claims[field];
+        if (current === undefined) {
+          claims[field] = value;
+          sources[field] = resolver.name;
+        } else if (!sameIdentifier(current, value)) {
+          throw this.conflict(field, sources[field]!, resolver.name);
+        }
+      }
+    }
+
+    for (const [field, value] of claimEntries(readIsolationHeaders(req))) {
+      const current = claims[field];
+      if (current === undefined || !sameIdentifier(current, value)) {
+        throw this.conflict(field, sources[field] ?? "none", "header");
+      }
+    }
+
+    if (this.strict && Object.keys(claims).length === 0) {
+      return undefined;
+    }
+
+    try {
+      return buildIsolationContext(claims);
+    } catch (error) {
+      if (!(error instanceof IsolationValidationError)) {
+        throw error;
+      }
+      if (this.strict) {
+        throw new ForbiddenException(
+          `Invalid isolation identifier: ${error.message}`,
+        );
+      }
+      this.logger.warn(
+        `Invalid isolation identifier: ${error.message}, falling back to PLATFORM level`,
+        { code: error.code, context: error.context },
+      );
+      return IsolationContext.platform();
+    }
+  }
+
+  private conflict(
+    field: ClaimField,
+    source: string,
+    other: string,
+  ): ForbiddenException {
+    this.logger.warn(
+      `Isolation context conflict on ${field}: ${source} vs ${other}`,
+    );
+    return new ForbiddenException(
+      `Isolation context conflict: ${field} from ${other} does not match ${source}`,
+    );
+  }
+}
+
+/**
+ * 根据隔离标识创建隔离上下文
+ *
+ * @param claims - 隔离标识
+ * @returns 隔离上下文
+ * @throws {IsolationValidationError} 标识格式无效时
+ */
+export function buildIsolationContext(
+  claims: IsolationClaims,
+): IsolationContext {
+  const { tenantId, organizationId, departmentId, userId } = claims;
+
+  if (departmentId && organizationId && tenantId) {
+    return IsolationContext.department(
+      TenantId.create(tenantId),
+      OrganizationId.create(organizationId),
+      DepartmentId.create(departmentId),
+    );
+  }
+
+  if (organizationId && tenantId) {
+    return IsolationContext.organization(
+      TenantId.create(tenantId),
+      OrganizationId.create(organizationId),
+    );
+  }
+
+  if (userId) {
+    return IsolationContext.user(
+      UserId.create(userId),
+      tenantId ? TenantId.create(tenantId) : undefined,
+    );
+  }
+
+  if (tenantId) {
+    return IsolationContext.tenant(TenantId.create(tenantId));
+  }
+
+  return IsolationContext.platform();
+}
+
+function claimEntries(
+  claims: IsolationClaims | undefined,
+): Array<[ClaimField, string]> {
+  return Object.entries(claims ?? {}).filter(
+    (entry): entry is [ClaimField, string] =>
+      typeof entry[1] === "string" && entry[1] !== "",
+  );
+}
+
+function sameIdentifier(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
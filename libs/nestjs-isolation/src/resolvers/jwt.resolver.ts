@@ -0,0 +1,314 @@
+/**
+ * JWT 解析器
+ *
+ * @description 校验 Authorization: Bearer 中的 JWT，并从已验证的声明中读取隔离标识
+ *
+ * ## 业务规则
+ *
+ * ### 密钥
+ * - secret：HS256 / HS384 / HS512 共享密钥
+ * - publicKey：RS256 / RS384 / RS512 / ES256 / ES384 / ES512 公钥（PEM 或 KeyObject）
+ * - jwksFile：本地 JWKS 文件，启动时读取一次，按令牌头中的 kid 选择公钥；只有一把密钥时可省略 kid
+ * - 三者必须且只能配置一种，secret / publicKey 不能为空
+ *
+ * ### 校验规则
+ * - 只接受 algorithms 中的算法（默认为所配置密钥类型支持的全部算法），拒绝 alg=none
+ * - 算法必须与密钥类型一致，公钥不能当作 HMAC 密钥使用
+ * - ES256 / ES384 / ES512 分别只接受 P-256 / P-384 / P-521 曲线的公钥
+ * - 令牌必须包含 exp，仅在 allowMissingExp 为 true 时接受没有 exp 的令牌
+ * - 校验 exp / nbf（允许 clockTolerance 秒误差），配置了 issuer / audience 时一并校验
+ * - 请求中没有 Bearer 令牌时返回 undefined；令牌无效时抛出 UnauthorizedException
+ *
+ * ### 声明映射
+ * - 默认：tenant_id、organization_id、department_id、sub（用户 ID）
+ * - 可通过 claims 选项改为其他声明名称；非字符串的声明值忽略
+ *
+ * @example
+ * ```typescript
+ * new JwtContextResolver({
+ *   jwksFile: '/etc/secrets/jwks.json',
+ *   issuer: 'https://auth.example.com',
+ *   audience: 'api',
+ * });
+ * ```
+ *
+ * @since 1.1.0
+ */
+
+import {
+  createHmac,
+  createPublicKey,
+  type JsonWebKey,
+  KeyObject,
+  timingSafeEqual,
+  verify,
+} from "node:crypto";
+import { readFileSync } from "node:fs";
+import { UnauthorizedException } from "@nestjs/common";
+import {
+  type ContextResolver,
+  getHeader,
+  type IsolationClaims,
+  type IsolationRequest,
+} from "./context-resolver.interface.js";
+
+/**
+ * 支持的 JWT 签名算法
+ */
+export type JwtAlgorithm =
+  | "HS256"
+  | "HS384"
+  | "HS512"
+  | "RS256"
+  | "RS384"
+  | "RS512"
+  | "ES256"
+  | "ES384"
+  | "ES512";
+
+/**
+ * JWT 解析器选项
+ */
+export interface JwtResolverOptions {
+  /** HMAC 共享密钥 */
+  secret?: string | Buffer;
+
+  /** RSA / EC 公钥 */
+  publicKey?: string | Buffer | KeyObject;
+
+  /** 本地 JWKS 文件路径 */
+  jwksFile?: string;
+
+  /** 允许的签名算法，默认为所配置密钥类型支持的全部算法 */
+  algorithms?: JwtAlgorithm[];
+
+  /** 期望的签发者 */
+  issuer?: string;
+
+  /** 期望的受众，令牌的 aud 包含其中之一即可 */
+  audience?: string | string[];
+
+  /**
+   * 校验 exp / nbf 时允许的时钟误差（秒）
+   *
+   * @default 0
+   */
+  clockTolerance?: number;
+
+  /**
+   * 是否接受没有 exp 声明的令牌
+   *
+   * @default false
+   */
+  allowMissingExp?: boolean;
+
+  /** 隔离标识对应的声明名称 */
+  claims?: Partial<Record<keyof IsolationClaims, string>>;
+}
+
+const DEFAULT_CLAIMS: Record<keyof IsolationClaims, string> = {
+  tenantId: "tenant_id",
+  organizationId: "organization_id",
+  departmentId: "department_id",
+  userId: "sub",
+};
+
+const ALGORITHMS: Record<
+  JwtAlgorithm,
+  { keyType: "secret" | "rsa" | "ec"; hash: string; namedCurve?: string }
+> = {
+  HS256: { keyType: "secret", hash: "sha256" },
+  HS384: { keyType: "secret", hash: "sha384" },
+  HS512: { keyType: "secret", hash: "sha512" },
+  RS256: { keyType: "rsa", hash: "sha256" },
+  RS384: { keyType: "rsa", hash: "sha384" },
+  RS512: { keyType: "rsa", hash: "sha512" },
+  ES256: { keyType: "ec", hash: "sha256", namedCurve: "prime256v1" },
+  ES384: { keyType: "ec", hash: "sha384", namedCurve: "secp384r1" },
+  ES512: { keyType: "ec", hash: "sha512", namedCurve: "secp521r1" },
+};
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+type JwtPayload = Record<string, unknown>;
+
+export class JwtContextResolver implements ContextResolver {
+  readonly name = "jwt";
+  private readonly secret?: Buffer;
+  private readonly keys = new Map<string | undefined, KeyObject>();
+  private readonly algorithms: Set<JwtAlgorithm>;
+  private readonly claims: Record<keyof IsolationClaims, string>;
+
+  /**
+   * @throws {Error} 未配置或同时配置了多种密钥、密钥为空、JWKS 文件无法读取时
+   */
+  constructor(private readonly options: JwtResolverOptions) {
+    const sources = [options.secret, options.publicKey, options.jwksFile];
+    if (sources.filter((source) => source !== undefined).length !== 1) {
+      throw new Error(
+        "JwtContextResolver requires exactly one of secret, publicKey or jwksFile",
+      );
+    }
+    for (const name of ["secret", "publicKey"] as const) {
+      const value = options[name];
+      if (
+        value !== undefined &&
+        !(value instanceof KeyObject) &&
+        !value.length
+      ) {
+        throw new Error(`JwtContextResolver ${name} must not be empty`);
+      }
+    }
+
+    if (options.secret !== undefined) {
+      this.secret = Buffer.from(options.secret);
+    } else if (options.publicKey !== undefined) {
+      const key = options.publicKey;
+      this.keys.set(
+        undefined,
+        key instanceof KeyObject && key.type === "public"
+          ? key
+          : createPublicKey(key),
+      );
+    } else {
+      const jwks = JSON.parse(readFileSync(options.jwksFile!, "utf8")) as {
+        keys: Array<JsonWebKey & { kid?: string }>;
+      };
+      for (const jwk of jwks.keys) {
+        this.keys.set(jwk.kid, createPublicKey({ key: jwk, format: "jwk" }));
+      }
+    }
+
+    const supported = (Object.keys(ALGORITHMS) as JwtAlgorithm[]).filter(
+      (alg) => (ALGORITHMS[alg].keyType === "secret") === !!this.secret,
+    );
+    this.algorithms = new Set(
+      options.algorithms?.filter((alg) => supported.includes(alg)) ?? supported,
+    );
+    this.claims = { ...DEFAULT_CLAIMS, ...options.claims };
+  }
+
+  resolve(req: IsolationRequest): IsolationClaims | undefined {
+    const authorization = getHeader(req, "authorization");
+    const match = authorization && /^Bearer\s+(\S+)$/i.exec(authorization);
+    if (!match) {
+      return undefined;
+    }
+
+    const payload = this.verify(match[1]);
+    const claims: IsolationClaims = {};
+    for (const [field, claim] of Object.entries(this.claims)) {
+      const value = payload[claim];
+      if (typeof value === "string" && value) {
+        claims[field as keyof IsolationClaims] = value;
+      }
+    }
+    return claims;
+  }
+
+  /**
+   * 校验签名和标准声明
+   *
+   * @param token - JWT
+   * @returns 载荷
+   * @throws {UnauthorizedException} 令牌无效时
+   */
+  private verify(token: string): JwtPayload {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      throw new UnauthorizedException("Malformed JWT");
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+    const header = decodeSegment<JwtHeader>(encodedHeader);
+    const alg = header.alg as JwtAlgorithm;
+    if (!this.algorithms.has(alg)) {
+      throw new UnauthorizedException(
+        `JWT algorithm not allowed: ${header.alg}`,
+      );
+    }
+
+    const data = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, "base64url");
+    if (!this.verifySignature(alg, header.kid, data, signature)) {
+      throw new UnauthorizedException("Invalid JWT signature");
+    }
+
+    const payload = decodeSegment<JwtPayload>(encodedPayload);
+    this.verifyClaims(payload);
+    return payload;
+  }
+
+  private verifySignature(
+    alg: JwtAlgorithm,
+    kid: string | undefined,
+    data: Buffer,
+    signature: Buffer,
+  ): boolean {
+    const { keyType, hash, namedCurve } = ALGORITHMS[alg];
+
+    if (keyType === "secret") {
+      const expected = createHmac(hash, this.secret!).update(data).digest();
+      return (
+        expected.length === signature.length &&
+        timingSafeEqual(expected, signature)
+      );
+    }
+
+    const key =
+      this.keys.get(kid) ??
+      (this.keys.size === 1 ? this.keys.values().next().value : undefined);
+    if (
+      !key ||
+      key.asymmetricKeyType !== keyType ||
+      (namedCurve && key.asymmetricKeyDetails?.namedCurve !== namedCurve)
+    ) {
+      throw new UnauthorizedException(`No matching JWT key for kid: ${kid}`);
+    }
+    return verify(hash, data, { key, dsaEncoding: "ieee-p1363" }, signature);
+  }
+
+  private verifyClaims(payload: JwtPayload): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.options.clockTolerance ?? 0;
+
+    if (payload.exp === undefined) {
+      if (!this.options.allowMissingExp) {
+        throw new UnauthorizedException("JWT has no expiration");
+      }
+    } else if (typeof payload.exp !== "number") {
+      throw new UnauthorizedException("Malformed JWT");
+    } else if (now - tolerance >= payload.exp) {
+      throw new UnauthorizedException("JWT expired");
+    }
+    if (typeof payload.nbf === "number" && now + tolerance < payload.nbf) {
+      throw new UnauthorizedException("JWT not yet valid");
+    }
+    if (this.options.issuer && payload.iss !== this.options.issuer) {
+      throw new UnauthorizedException("Unexpected JWT issuer");
+    }
+    if (this.options.audience) {
+      const expected = [this.options.audience].flat();
+      const actual = [payload.aud].flat();
+      if (!actual.some((aud) => expected.includes(aud as string))) {
+        throw new UnauthorizedException("Unexpected JWT audience");
+      }
+    }
+  }
+}
+
+function decodeSegment<T>(segment: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new UnauthorizedException("Malformed JWT");
+  }
+  if (typeof value !== "object" || value === null) {
+    throw new UnauthorizedException("Malformed JWT");
+  }
+  return value as T;
+}
@@ -10,6 +10,15 @@
  * - 上下文在单次请求内全局可访问
  * - 请求结束后自动清理
  *
+ * ### 上下文切换
+ * - switchOrganization / switchDepartment 在当前租户内切换，替换本次请求的隔离上下文
+ * - 切换后发布 IsolationContextSwitchedEvent，记录切换前后的上下文和原因
+ *
+ * ### 模拟（act as）
+ * - startImpersonation 创建模拟会话，本次请求切换到被模拟的租户上下文，后续请求通过会话请求头继续模拟
+ * - 真实操作者的上下文保存在 CLS 中，getActorContext 返回真实操作者
+ * - 开始和结束模拟都发布 IsolationContextSwitchedEvent，原因分别为 impersonation-start / impersonation-end
+ *
  * ### 线程安全
  * - 基于 AsyncLocalStorage 实现，天然线程安全
  * - 在异步操作中保持上下文传递
@@ -20,19 +29,29 @@
 import {
   DepartmentId,
   IIsolationContextProvider,
+  type ImpersonationInfo,
   IsolationContext,
+  IsolationContextSwitchedEvent,
   OrganizationId,
   TenantId,
   UserId,
 } from "@hl8/isolation-model";
 import { Injectable } from "@nestjs/common";
 import { ClsService } from "nestjs-cls";
+import { IsolationEventPublisher } from "../events/isolation-event.publisher.js";
+import type { StartImpersonationOptions } from "../impersonation/impersonation-session.interface.js";
+import { ImpersonationSessionManager } from "../impersonation/impersonation-session.manager.js";
 
 const ISOLATION_CONTEXT_KEY = "ISOLATION_CONTEXT";
+const ISOLATION_ACTOR_KEY = "ISOLATION_ACTOR_CONTEXT";
 
 @Injectable()
 export class IsolationContextService implements IIsolationContextProvider {
-  constructor(private readonly cls: ClsService) {}
+  constructor(
+    private readonly cls: ClsService,
+    private readonly eventPublisher: IsolationEventPublisher,
+    private readonly impersonationManager: ImpersonationSessionManager,
+  ) {}
 
   /**
    * 获取当前隔离上下文
@@ -121,4 +140,156 @@ export class IsolationContextService implements IIsolationContextProvider {
   hasDepartment(): boolean {
     return !!this.getDepartmentId();
   }
+
+  /**
+   * 切换组织
+   *
+   * @description 在当前租户内切换到另一个组织，并发布 IsolationContextSwitchedEvent
+   *
+   * @param organizationId - 新的组织 ID
+   * @param reason - 切换原因
+   * @returns 切换后的隔离上下文
+   * @throws {IsolationValidationError} 当前上下文没有租户时
+   * @since 1.1.0
+   */
+  switchOrganization(
+    organizationId: OrganizationId,
+    reason = "switch-organization",
+  ): IsolationContext {
+    return this.switchContext(
+      (context) => context.switchOrganization(organizationId),
+      reason,
+    );
+  }
+
+  /**
+   * 切换部门
+   *
+   * @description 在当前组织内切换到另一个部门，并发布 IsolationContextSwitchedEvent
+   *
+   * @param departmentId - 新的部门 ID
+   * @param reason - 切换原因
+   * @returns 切换后的隔离上下文
+   * @throws {IsolationValidationError} 当前上下文没有租户或组织时
+   * @since 1.1.0
+   */
+  switchDepartment(
+    departmentId: DepartmentId,
+    reason = "switch-department",
+  ): IsolationContext {
+    return this.switchContext(
+      (context) => context.switchDepartment(departmentId),
+      reason,
+    );
+  }
+
+  /**
+   * 开始模拟
+   *
+   * @description 以当前上下文为真实操作者创建模拟会话，本次请求切换到被模拟的上下文，并发布 IsolationContextSwitchedEvent
+   *
+   * @param target - 被模拟的隔离上下文（必须包含租户）
+   * @param options - 原因和持续时间
+   * @returns 附带模拟信息的隔离上下文，impersonation.sessionId 即后续请求需要携带的会话 ID
+   * @throws {ForbiddenException} 未启用、当前上下文不是已认证的平台人员或租户拒绝模拟时
+   * @throws {BadRequestException} 缺少原因或目标租户时
+   * @since 1.1.0
+   */
+  async startImpersonation(
+    target: IsolationContext,
+    options: StartImpersonationOptions,
+  ): Promise<IsolationContext> {
+    const actor = this.getIsolationContext() ?? IsolationContext.platform();
+    const session = await this.impersonationManager.start(
+      actor,
+      target,
+      options,
+    );
+    const context = this.impersonationManager.toContext(session);
+
+    this.cls.set(ISOLATION_ACTOR_KEY, actor);
+    this.setIsolationContext(context);
+    this.eventPublisher.publish(
+      new IsolationContextSwitchedEvent(actor, context, "impersonation-start"),
+    );
+    return context;
+  }
+
+  /**
+   * 使用已有的模拟会话
+   *
+   * @description 以当前上下文为真实操作者校验会话，本次请求切换到被模拟的上下文；不发布事件（每个请求都会调用）
+   *
+   * @param sessionId - 会话 ID
+   * @returns 附带模拟信息的隔离上下文
+   * @throws {ForbiddenException} 未启用、会话无效或已过期、操作者不匹配或租户拒绝模拟时
+   * @since 1.1.0
+   */
+  async resumeImpersonation(sessionId: string): Promise<IsolationContext> {
+    const actor = this.getIsolationContext() ?? IsolationContext.platform();
+    const context = await this.impersonationManager.resume(sessionId, actor);
+
+    this.cls.set(ISOLATION_ACTOR_KEY, actor);
+    this.setIsolationContext(context);
+    return context;
+  }
+
+  /**
+   * 结束模拟
+   *
+   * @description 删除当前模拟会话，本次请求恢复为真实操作者的上下文；当前没有模拟时不做任何操作
+   *
+   * @returns 恢复后的隔离上下文
+   * @since 1.1.0
+   */
+  async endImpersonation(): Promise<IsolationContext | undefined> {
+    const context = this.getIsolationContext();
+    if (!context?.impersonation) {
+      return context;
+    }
+
+    await this.impersonationManager.end(context.impersonation.sessionId);
+    const actor = this.getActorContext() ?? IsolationContext.platform();
+
+    this.cls.set(ISOLATION_ACTOR_KEY, undefined);
+    this.setIsolationContext(actor);
+    this.eventPublisher.publish(
+      new IsolationContextSwitchedEvent(context, actor, "impersonation-end"),
+    );
+    return actor;
+  }
+
+  /**
+   * 获取当前模拟信息
+   *
+   * @returns 模拟信息，未在模拟时返回 undefined
+   * @since 1.1.0
+   */
+  getImpersonation(): ImpersonationInfo | undefined {
+    return this.getIsolationContext()?.impersonation;
+  }
+
+  /**
+   * 获取真实操作者的隔离上下文
+   *
+   * @returns 模拟期间返回操作者自身的上下文，否则返回当前隔离上下文
+   * @since 1.1.0
+   */
+  getActorContext(): IsolationContext | undefined {
+    return this.cls.get(ISOLATION_ACTOR_KEY) ?? this.getIsolationContext();
+  }
+
+  private switchContext(
+    switcher: (context: IsolationContext) => IsolationContext,
+    reason: string,
+  ): IsolationContext {
+    const from = this.getIsolationContext() ?? IsolationContext.platform();
+    const to = switcher(from);
+
+    this.setIsolationContext(to);
+    this.eventPublisher.publish(
+      new IsolationContextSwitchedEvent(from, to, reason),
+    );
+    return to;
+  }
 }
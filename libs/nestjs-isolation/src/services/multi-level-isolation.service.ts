@@ -9,22 +9,36 @@
  * - 平台级上下文可访问所有数据
  * - 非共享数据必须完全匹配隔离上下文
  * - 共享数据检查共享级别
+ * - 配置了部门层级解析器时，部门比较包含当前部门的下级部门
+ * - 传入 DataAccessContext 时同时检查 sharedWith 中的精确共享授权，可按读取 / 写入检查
+ * - checkDataAccess 拒绝访问时发布 DataAccessDeniedEvent，原因按首个不匹配的层级给出
+ *   （cross-tenant-access / cross-organization-access / cross-department-access / cross-user-access）
+ * - 可以读取但写入未获授权时，拒绝原因为 write-not-granted
  *
  * @since 1.0.0
  */
 
 import {
+  AccessMode,
+  type DataAccessContext,
+  DataAccessDeniedEvent,
   IIsolationValidator,
   IsolationContext,
   IsolationLevel,
   SharingLevel,
 } from "@hl8/isolation-model";
 import { Injectable } from "@nestjs/common";
+import { IsolationEventPublisher } from "../events/isolation-event.publisher.js";
+import { DepartmentHierarchyService } from "../hierarchy/department-hierarchy.service.js";
 import { IsolationContextService } from "./isolation-context.service.js";
 
 @Injectable()
 export class MultiLevelIsolationService implements IIsolationValidator {
-  constructor(private readonly contextService: IsolationContextService) {}
+  constructor(
+    private readonly contextService: IsolationContextService,
+    private readonly eventPublisher: IsolationEventPublisher,
+    private readonly departmentHierarchy: DepartmentHierarchyService,
+  ) {}
 
   /**
    * 验证当前隔离级别是否满足要求
@@ -73,16 +87,64 @@ export class MultiLevelIsolationService implements IIsolationValidator {
     dataContext: IsolationContext,
     isShared: boolean,
     sharingLevel?: SharingLevel,
+  ): boolean;
+  /**
+   * 检查当前用户对数据的访问权限（含精确共享授权）
+   *
+   * @param data - 数据访问上下文
+   * @param mode - 访问方式，默认为 READ
+   * @returns true 如果有权限访问
+   * @since 1.1.0
+   */
+  checkDataAccess(data: DataAccessContext, mode?: AccessMode): boolean;
+  checkDataAccess(
+    target: IsolationContext | DataAccessContext,
+    isSharedOrMode?: boolean | AccessMode,
+    sharingLevel?: SharingLevel,
   ): boolean {
+    const data: DataAccessContext =
+      target instanceof IsolationContext
+        ? {
+            isolationContext: target,
+            isShared: isSharedOrMode === true,
+            sharingLevel,
+          }
+        : target;
+    const mode =
+      typeof isSharedOrMode === "string" ? isSharedOrMode : AccessMode.READ;
+    const dataContext = data.isolationContext;
     const userContext = this.contextService.getIsolationContext();
 
     if (!userContext) {
       // 没有隔离上下文，拒绝访问
+      this.eventPublisher.publish(
+        new DataAccessDeniedEvent(
+          undefined,
+          dataContext,
+          "missing-isolation-context",
+        ),
+      );
       return false;
     }
 
     // 委托给领域模型的业务逻辑
-    return userContext.canAccess(dataContext, isShared, sharingLevel);
+    const allowed = userContext.canAccess(data, {
+      mode,
+      hierarchy: this.departmentHierarchy,
+    });
+    if (!allowed) {
+      this.eventPublisher.publish(
+        new DataAccessDeniedEvent(
+          userContext,
+          dataContext,
+          mode === AccessMode.WRITE &&
+          userContext.canAccess(data, { hierarchy: this.departmentHierarchy })
+            ? "write-not-granted"
+            : denialReason(userContext, dataContext),
+        ),
+      );
+    }
+    return allowed;
   }
 
   /**
@@ -127,3 +189,28 @@ export class MultiLevelIsolationService implements IIsolationValidator {
     return true;
   }
 }
+
+/**
+ * 按层级找出第一个不匹配的标识作为拒绝原因
+ */
+function denialReason(
+  userContext: IsolationContext,
+  dataContext: IsolationContext,
+): string {
+  const differs = (a?: { getValue(): string }, b?: { getValue(): string }) =>
+    a !== undefined && b !== undefined && a.getValue() !== b.getValue();
+
+  if (differs(userContext.tenantId, dataContext.tenantId)) {
+    return "cross-tenant-access";
+  }
+  if (differs(userContext.organizationId, dataContext.organizationId)) {
+    return "cross-organization-access";
+  }
+  if (differs(userContext.departmentId, dataContext.departmentId)) {
+    return "cross-department-access";
+  }
+  if (differs(userContext.userId, dataContext.userId)) {
+    return "cross-user-access";
+  }
+  return "insufficient-sharing-level";
+}